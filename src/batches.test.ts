@@ -0,0 +1,194 @@
+/**
+ * 单元测试：Message Batches
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BatchError, BatchResult, createBatchManager, validateBatchRequests } from './batches';
+
+function request(customId: string, content = 'hi') {
+    return { custom_id: customId, params: { model: 'claude-test', max_tokens: 16, messages: [{ role: 'user' as const, content }] } };
+}
+
+function parseResults(jsonl: string) {
+    return jsonl.trim().split('\n').map(line => JSON.parse(line));
+}
+
+let dir: string;
+
+beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'batches-'));
+});
+
+afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+});
+
+describe('validateBatchRequests', () => {
+    it('拒绝空列表、非法或重复的 custom_id、缺少必填参数', () => {
+        expect(() => validateBatchRequests({ requests: [] })).toThrow(BatchError);
+        expect(() => validateBatchRequests({ requests: [request('bad id')] })).toThrow(/custom_id/);
+        expect(() => validateBatchRequests({ requests: [request('a'), request('a')] })).toThrow(/duplicate/);
+        expect(() => validateBatchRequests({ requests: [{ custom_id: 'a', params: { model: 'm' } }] })).toThrow(/params/);
+        expect(validateBatchRequests({ requests: [request('a')] })).toHaveLength(1);
+    });
+});
+
+describe('createBatchManager', () => {
+    it('执行所有请求并输出 JSONL 结果', async () => {
+        const execute = async (params: any): Promise<BatchResult> => params.messages[0].content === 'fail'
+            ? { type: 'errored', error: { type: 'error', error: { type: 'invalid_request_error', message: 'bad' } } }
+            : { type: 'succeeded', message: { content: [{ type: 'text', text: 'ok' }] } };
+        const manager = createBatchManager({ dir, concurrency: 2, execute });
+        const batch = manager.create([request('a'), request('b', 'fail'), request('c')], { apiKey: 'sk-key' }, 'owner');
+        expect(batch.processing_status).toBe('in_progress');
+        await manager.idle();
+
+        const ended = manager.get(batch.id, 'owner');
+        expect(ended.processing_status).toBe('ended');
+        expect(ended.request_counts).toEqual({ processing: 0, succeeded: 2, errored: 1, canceled: 0, expired: 0 });
+        expect(ended.results_url).toBe(`/v1/messages/batches/${batch.id}/results`);
+        const results = parseResults(manager.results(batch.id, 'owner'));
+        expect(results.map(r => [r.custom_id, r.result.type]).sort()).toEqual([['a', 'succeeded'], ['b', 'errored'], ['c', 'succeeded']]);
+    });
+
+    it('执行时传入提交者和凭据，透传模式的客户端 key 不写入磁盘', async () => {
+        const calls: unknown[][] = [];
+        let release!: () => void;
+        const gate = new Promise<void>(resolve => { release = resolve; });
+        const manager = createBatchManager({ dir, concurrency: 1, execute: async (params, owner, credential) => {
+            calls.push([owner, credential]);
+            await gate;
+            return { type: 'succeeded', message: {} };
+        } });
+        const batch = manager.create([request('a')], { apiKey: 'sk-key' }, 'owner');
+        const metaPath = join(dir, batch.id, 'batch.json');
+        expect(JSON.parse(readFileSync(metaPath, 'utf8')).credential).toBeNull();
+        release();
+        await manager.idle();
+        expect(calls).toEqual([['owner', { apiKey: 'sk-key' }]]);
+        expect(readFileSync(metaPath, 'utf8')).not.toContain('sk-key');
+
+        const virtual = manager.create([request('a')], { keyId: 'key_1' }, 'owner');
+        expect(JSON.parse(readFileSync(join(dir, virtual.id, 'batch.json'), 'utf8')).credential).toEqual({ keyId: 'key_1' });
+    });
+
+    it('按并发上限执行', async () => {
+        let running = 0;
+        let maxRunning = 0;
+        const execute = async (): Promise<BatchResult> => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            running--;
+            return { type: 'succeeded', message: {} };
+        };
+        const manager = createBatchManager({ dir, concurrency: 2, execute });
+        manager.create(['a', 'b', 'c', 'd', 'e'].map(id => request(id)), { apiKey: 'sk-key' }, 'owner');
+        await manager.idle();
+        expect(maxRunning).toBe(2);
+    });
+
+    it('取消后未开始的请求记为 canceled，正在执行的照常完成', async () => {
+        let release!: () => void;
+        const gate = new Promise<void>(resolve => { release = resolve; });
+        const execute = async (): Promise<BatchResult> => {
+            await gate;
+            return { type: 'succeeded', message: {} };
+        };
+        const manager = createBatchManager({ dir, concurrency: 1, execute });
+        const batch = manager.create([request('a'), request('b'), request('c')], { apiKey: 'sk-key' }, 'owner');
+        expect(manager.cancel(batch.id, 'owner').processing_status).toBe('canceling');
+        expect(() => manager.remove(batch.id, 'owner')).toThrow(/cannot be deleted/);
+        release();
+        await manager.idle();
+        expect(manager.get(batch.id, 'owner').request_counts).toMatchObject({ succeeded: 1, canceled: 2 });
+        expect(manager.remove(batch.id, 'owner')).toEqual({ id: batch.id, type: 'message_batch_deleted' });
+        expect(() => manager.get(batch.id, 'owner')).toThrow(/not found/);
+    });
+
+    it('不同 key 的批次互相不可见', () => {
+        const manager = createBatchManager({ dir, concurrency: 1, execute: () => new Promise(() => {}) });
+        const batch = manager.create([request('a')], { apiKey: 'sk-key' }, 'owner');
+        expect(() => manager.get(batch.id, 'other')).toThrow(BatchError);
+        expect(manager.list('other').data).toEqual([]);
+        expect(manager.list('owner').data.map(b => b.id)).toEqual([batch.id]);
+    });
+
+    it('重启后恢复计数并继续执行未完成的请求', async () => {
+        const first = createBatchManager({
+            dir,
+            concurrency: 1,
+            execute: async params => (params.messages[0].content === 'hang' ? new Promise<BatchResult>(() => {}) : { type: 'succeeded', message: {} }),
+        });
+        const batch = first.create([request('a'), request('b', 'hang'), request('c')], { keyId: 'key_1' }, 'owner');
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(first.get(batch.id, 'owner').request_counts).toMatchObject({ processing: 2, succeeded: 1 });
+
+        // 模拟进程重启：新的管理器从磁盘恢复
+        const executed: string[] = [];
+        const second = createBatchManager({
+            dir,
+            concurrency: 1,
+            execute: async params => {
+                executed.push(params.messages[0].content as string);
+                return { type: 'succeeded', message: {} };
+            },
+        });
+        second.resume();
+        await second.idle();
+        expect(executed).toEqual(['hang', 'hi']);
+        const resumed = second.get(batch.id, 'owner');
+        expect(resumed.processing_status).toBe('ended');
+        expect(resumed.request_counts).toMatchObject({ processing: 0, succeeded: 3 });
+    });
+
+    it('重启后透传模式的批次没有凭据，未完成的请求记为 errored', async () => {
+        const first = createBatchManager({
+            dir,
+            concurrency: 1,
+            execute: async params => (params.messages[0].content === 'hang' ? new Promise<BatchResult>(() => {}) : { type: 'succeeded', message: {} }),
+        });
+        const batch = first.create([request('a'), request('b', 'hang'), request('c')], { apiKey: 'sk-key' }, 'owner');
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        const executed: string[] = [];
+        const second = createBatchManager({ dir, concurrency: 1, execute: async params => {
+            executed.push(params.messages[0].content as string);
+            return { type: 'succeeded', message: {} };
+        } });
+        second.resume();
+        await second.idle();
+        expect(executed).toEqual([]);
+        const resumed = second.get(batch.id, 'owner');
+        expect(resumed.processing_status).toBe('ended');
+        expect(resumed.request_counts).toMatchObject({ processing: 0, succeeded: 1, errored: 2 });
+        const results = parseResults(second.results(batch.id, 'owner'));
+        expect(results.find(r => r.custom_id === 'b').result.error.error.message).toMatch(/proxy restarted/);
+    });
+
+    it('过期后未执行的请求记为 expired', async () => {
+        let time = 0;
+        const manager = createBatchManager({ dir, concurrency: 1, expiresInMs: 100, now: () => time, execute: async () => {
+            time = 1000;
+            return { type: 'succeeded', message: {} };
+        } });
+        const batch = manager.create([request('a'), request('b')], { apiKey: 'sk-key' }, 'owner');
+        await manager.idle();
+        expect(manager.get(batch.id, 'owner').request_counts).toMatchObject({ succeeded: 1, expired: 1 });
+    });
+
+    it('列表按创建时间倒序分页', () => {
+        let time = 0;
+        const manager = createBatchManager({ dir, concurrency: 1, now: () => (time += 1000), execute: () => new Promise(() => {}) });
+        const ids = [1, 2, 3].map(() => manager.create([request('a')], { apiKey: 'sk-key' }, 'owner').id);
+        const page = manager.list('owner', { limit: 2 });
+        expect(page.data.map(b => b.id)).toEqual([ids[2], ids[1]]);
+        expect(page.has_more).toBe(true);
+        const next = manager.list('owner', { limit: 2, after_id: page.last_id! });
+        expect(next.data.map(b => b.id)).toEqual([ids[0]]);
+        expect(next.has_more).toBe(false);
+        expect(manager.list('owner', { limit: 2, before_id: ids[0] }).data.map(b => b.id)).toEqual([ids[2], ids[1]]);
+    });
+});
@@ -0,0 +1,407 @@
+/**
+ * Message Batches（/v1/messages/batches）
+ *
+ * 批次由代理自己执行：每个请求走与 /v1/messages 相同的转换和上游路径（由调用方传入 execute），
+ * 全局按 concurrency 限制同时执行的请求数。
+ *
+ * 每个批次在 dir 下有一个目录：
+ * - batch.json：批次元数据（状态、时间、所属 key 指纹，以及虚拟 key 模式下执行时使用的 key id，见 BatchCredential）
+ * - requests.jsonl：创建时提交的请求，每行 `{ custom_id, params }`
+ * - results.jsonl：已完成请求的结果，每行 `{ custom_id, result }`，追加写入
+ * 重启后根据 results.jsonl 恢复计数，并继续执行尚无结果的请求；没有保存凭据的批次无法继续，其余请求记为 errored。
+ */
+
+import { randomUUID } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { ClaudeMessagesRequest } from './index';
+import type { AnthropicErrorBody } from './errors';
+
+export type BatchResult =
+    | { type: 'succeeded'; message: unknown }
+    | { type: 'errored'; error: AnthropicErrorBody }
+    | { type: 'canceled' }
+    | { type: 'expired' };
+
+export interface BatchRequestItem {
+    custom_id: string;
+    params: ClaudeMessagesRequest;
+}
+
+export interface BatchRequestCounts {
+    processing: number;
+    succeeded: number;
+    errored: number;
+    canceled: number;
+    expired: number;
+}
+
+/**
+ * 与 Anthropic 的 MessageBatch 对象一致。
+ */
+export interface MessageBatch {
+    id: string;
+    type: 'message_batch';
+    processing_status: 'in_progress' | 'canceling' | 'ended';
+    request_counts: BatchRequestCounts;
+    ended_at: string | null;
+    created_at: string;
+    expires_at: string;
+    archived_at: string | null;
+    cancel_initiated_at: string | null;
+    /**
+     * 结束后为结果的路径（/v1/messages/batches/:id/results），由路由补全为完整 URL。
+     */
+    results_url: string | null;
+}
+
+export interface BatchListPage {
+    data: MessageBatch[];
+    has_more: boolean;
+    first_id: string | null;
+    last_id: string | null;
+}
+
+/**
+ * 请求参数不合法、批次不存在或状态不允许该操作时抛出，status 为对应的 HTTP 状态码。
+ */
+export class BatchError extends Error {
+    status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = 'BatchError';
+        this.status = status;
+    }
+}
+
+/**
+ * 执行批次请求时使用的凭据。虚拟 key 模式下只保存 key id，执行时重新校验并解析上游凭据；
+ * 透传模式下客户端 key 本身就是上游凭据，只保存在内存中，不写入磁盘。
+ */
+export type BatchCredential = { keyId: string } | { apiKey: string };
+
+export interface BatchManagerOptions {
+    dir: string;
+    concurrency: number;
+    /**
+     * 批次创建后的有效期，到期仍未执行的请求记为 expired。
+     */
+    expiresInMs?: number;
+    /**
+     * 执行单个请求。owner 为提交者的 key 指纹；credential 在批次结束后才会为 null，正常不会出现。
+     */
+    execute: (params: ClaudeMessagesRequest, owner: string, credential: BatchCredential | null) => Promise<BatchResult>;
+    now?: () => number;
+}
+
+interface StoredBatch {
+    batch: MessageBatch;
+    owner: string;
+    credential: BatchCredential | null;
+    requests: BatchRequestItem[];
+    /**
+     * 已有结果的 custom_id。
+     */
+    done: Set<string>;
+}
+
+const CUSTOM_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+const MAX_BATCH_REQUESTS = 100000;
+const DEFAULT_EXPIRES_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 校验创建批次的请求体，返回请求列表。
+ */
+export function validateBatchRequests(body: any): BatchRequestItem[] {
+    const requests = body?.requests;
+    if (!Array.isArray(requests) || requests.length === 0) {
+        throw new BatchError(400, 'requests: must be a non-empty array');
+    }
+    if (requests.length > MAX_BATCH_REQUESTS) {
+        throw new BatchError(400, `requests: at most ${MAX_BATCH_REQUESTS} requests are allowed per batch`);
+    }
+    const seen = new Set<string>();
+    requests.forEach((item: any, i: number) => {
+        if (typeof item?.custom_id !== 'string' || !CUSTOM_ID_PATTERN.test(item.custom_id)) {
+            throw new BatchError(400, `requests.${i}.custom_id: must match ${CUSTOM_ID_PATTERN.source}`);
+        }
+        if (seen.has(item.custom_id)) {
+            throw new BatchError(400, `requests.${i}.custom_id: duplicate custom_id "${item.custom_id}"`);
+        }
+        seen.add(item.custom_id);
+        const params = item.params;
+        if (!params || typeof params.model !== 'string' || !Array.isArray(params.messages) || typeof params.max_tokens !== 'number') {
+            throw new BatchError(400, `requests.${i}.params: model, messages and max_tokens are required`);
+        }
+    });
+    return requests.map((item: any) => ({ custom_id: item.custom_id, params: item.params }));
+}
+
+function newBatchId(): string {
+    return `msgbatch_${randomUUID().replace(/-/g, '')}`;
+}
+
+function readJsonLines<T>(path: string): T[] {
+    if (!existsSync(path)) return [];
+    return readFileSync(path, 'utf8')
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line));
+}
+
+/**
+ * 创建批次管理器。调用 resume() 之前不会读写磁盘。
+ */
+export function createBatchManager(options: BatchManagerOptions) {
+    const now = options.now || Date.now;
+    const expiresInMs = options.expiresInMs ?? DEFAULT_EXPIRES_IN_MS;
+    const batches = new Map<string, StoredBatch>();
+    // 待执行的请求，按提交顺序排队
+    const queue: { batchId: string; item: BatchRequestItem }[] = [];
+    let active = 0;
+    let idleWaiters: (() => void)[] = [];
+
+    const batchDir = (id: string) => join(options.dir, id);
+
+    function saveMeta(stored: StoredBatch) {
+        const path = join(batchDir(stored.batch.id), 'batch.json');
+        const tmp = `${path}.tmp`;
+        const credential = stored.credential && 'keyId' in stored.credential ? stored.credential : null;
+        writeFileSync(tmp, JSON.stringify({ batch: stored.batch, owner: stored.owner, credential }), { mode: 0o600 });
+        renameSync(tmp, path);
+    }
+
+    function recordResult(stored: StoredBatch, customId: string, result: BatchResult) {
+        if (stored.done.has(customId)) return;
+        appendFileSync(join(batchDir(stored.batch.id), 'results.jsonl'), JSON.stringify({ custom_id: customId, result }) + '\n');
+        stored.done.add(customId);
+        const counts = stored.batch.request_counts;
+        counts.processing--;
+        counts[result.type]++;
+    }
+
+    function finishIfSettled(stored: StoredBatch) {
+        const batch = stored.batch;
+        if (batch.processing_status === 'ended' || batch.request_counts.processing > 0) return;
+        batch.processing_status = 'ended';
+        batch.ended_at = new Date(now()).toISOString();
+        batch.results_url = `/v1/messages/batches/${batch.id}/results`;
+        // 不再需要执行请求，客户端 key 不留在内存中
+        stored.credential = null;
+        saveMeta(stored);
+    }
+
+    function pump() {
+        while (active < options.concurrency && queue.length > 0) {
+            const { batchId, item } = queue.shift()!;
+            const stored = batches.get(batchId);
+            if (!stored || stored.done.has(item.custom_id)) continue;
+            if (stored.batch.processing_status === 'canceling') {
+                recordResult(stored, item.custom_id, { type: 'canceled' });
+                finishIfSettled(stored);
+                continue;
+            }
+            if (now() > Date.parse(stored.batch.expires_at)) {
+                recordResult(stored, item.custom_id, { type: 'expired' });
+                finishIfSettled(stored);
+                continue;
+            }
+            active++;
+            run(stored, item);
+        }
+        if (active === 0 && queue.length === 0) {
+            const waiters = idleWaiters;
+            idleWaiters = [];
+            waiters.forEach(resolve => resolve());
+        }
+    }
+
+    async function run(stored: StoredBatch, item: BatchRequestItem) {
+        let result: BatchResult;
+        try {
+            result = await options.execute({ ...item.params, stream: false }, stored.owner, stored.credential);
+        } catch (err: any) {
+            result = { type: 'errored', error: { type: 'error', error: { type: 'api_error', message: err?.message || String(err) } } };
+        }
+        active--;
+        // 执行期间批次可能已被删除
+        if (batches.get(stored.batch.id) === stored) {
+            recordResult(stored, item.custom_id, result);
+            finishIfSettled(stored);
+        }
+        pump();
+    }
+
+    function enqueuePending(stored: StoredBatch) {
+        for (const item of stored.requests) {
+            if (!stored.done.has(item.custom_id)) {
+                queue.push({ batchId: stored.batch.id, item });
+            }
+        }
+    }
+
+    /**
+     * 将尚无结果的请求记为 errored（取消中的批次记为 canceled）。
+     */
+    function failPending(stored: StoredBatch, message: string) {
+        const result: BatchResult = stored.batch.processing_status === 'canceling'
+            ? { type: 'canceled' }
+            : { type: 'errored', error: { type: 'error', error: { type: 'api_error', message } } };
+        for (const item of stored.requests) {
+            recordResult(stored, item.custom_id, result);
+        }
+    }
+
+    function getOwned(id: string, owner: string): StoredBatch {
+        const stored = batches.get(id);
+        if (!stored || stored.owner !== owner) {
+            throw new BatchError(404, `Batch ${id} not found`);
+        }
+        return stored;
+    }
+
+    return {
+        /**
+         * 从磁盘加载已有批次，继续执行未完成的请求。
+         */
+        resume() {
+            if (!existsSync(options.dir)) return;
+            for (const id of readdirSync(options.dir)) {
+                const metaPath = join(batchDir(id), 'batch.json');
+                if (!existsSync(metaPath)) continue;
+                const meta = JSON.parse(readFileSync(metaPath, 'utf8'));
+                const requests = readJsonLines<BatchRequestItem>(join(batchDir(id), 'requests.jsonl'));
+                const results = readJsonLines<{ custom_id: string; result: BatchResult }>(join(batchDir(id), 'results.jsonl'));
+                const batch: MessageBatch = meta.batch;
+                const counts: BatchRequestCounts = { processing: requests.length, succeeded: 0, errored: 0, canceled: 0, expired: 0 };
+                const done = new Set<string>();
+                for (const { custom_id, result } of results) {
+                    if (done.has(custom_id)) continue;
+                    done.add(custom_id);
+                    counts.processing--;
+                    counts[result.type]++;
+                }
+                batch.request_counts = counts;
+                const credential: BatchCredential | null = batch.processing_status === 'ended' ? null : meta.credential ?? null;
+                const stored: StoredBatch = { batch, owner: meta.owner, credential, requests, done };
+                batches.set(id, stored);
+                if (batch.processing_status !== 'ended' && !credential) {
+                    // 透传模式的客户端 key 不落盘，重启后无法继续执行
+                    failPending(stored, 'The proxy restarted before this request was processed and the batch credentials were not persisted');
+                } else {
+                    enqueuePending(stored);
+                }
+                finishIfSettled(stored);
+            }
+            pump();
+        },
+
+        create(requests: BatchRequestItem[], credential: BatchCredential, owner: string): MessageBatch {
+            const createdAt = now();
+            const batch: MessageBatch = {
+                id: newBatchId(),
+                type: 'message_batch',
+                processing_status: 'in_progress',
+                request_counts: { processing: requests.length, succeeded: 0, errored: 0, canceled: 0, expired: 0 },
+                ended_at: null,
+                created_at: new Date(createdAt).toISOString(),
+                expires_at: new Date(createdAt + expiresInMs).toISOString(),
+                archived_at: null,
+                cancel_initiated_at: null,
+                results_url: null,
+            };
+            const stored: StoredBatch = { batch, owner, credential, requests, done: new Set() };
+            mkdirSync(batchDir(batch.id), { recursive: true, mode: 0o700 });
+            writeFileSync(join(batchDir(batch.id), 'requests.jsonl'), requests.map(item => JSON.stringify(item)).join('\n') + '\n');
+            saveMeta(stored);
+            batches.set(batch.id, stored);
+            enqueuePending(stored);
+            pump();
+            return batch;
+        },
+
+        get(id: string, owner: string): MessageBatch {
+            return getOwned(id, owner).batch;
+        },
+
+        /**
+         * 按创建时间倒序分页，before_id / after_id 与 Anthropic 的分页参数含义一致。
+         */
+        list(owner: string, params: { limit?: number; before_id?: string; after_id?: string } = {}): BatchListPage {
+            const limit = Math.min(Math.max(params.limit || 20, 1), 1000);
+            const all = [...batches.values()]
+                .filter(stored => stored.owner === owner)
+                .map(stored => stored.batch)
+                .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id));
+            let start = 0;
+            let end = all.length;
+            if (params.after_id) {
+                start = all.findIndex(batch => batch.id === params.after_id) + 1;
+            } else if (params.before_id) {
+                end = Math.max(0, all.findIndex(batch => batch.id === params.before_id));
+                start = Math.max(0, end - limit);
+            }
+            const data = all.slice(start, Math.min(end, start + limit));
+            return {
+                data,
+                has_more: params.before_id ? start > 0 : start + data.length < end,
+                first_id: data[0]?.id ?? null,
+                last_id: data[data.length - 1]?.id ?? null,
+            };
+        },
+
+        /**
+         * 取消批次：尚未开始的请求记为 canceled，正在执行的请求执行完后照常记录结果。
+         */
+        cancel(id: string, owner: string): MessageBatch {
+            const stored = getOwned(id, owner);
+            if (stored.batch.processing_status !== 'in_progress') {
+                return stored.batch;
+            }
+            stored.batch.processing_status = 'canceling';
+            stored.batch.cancel_initiated_at = new Date(now()).toISOString();
+            saveMeta(stored);
+            for (let i = queue.length - 1; i >= 0; i--) {
+                if (queue[i].batchId === id) {
+                    recordResult(stored, queue[i].item.custom_id, { type: 'canceled' });
+                    queue.splice(i, 1);
+                }
+            }
+            finishIfSettled(stored);
+            return stored.batch;
+        },
+
+        remove(id: string, owner: string): { id: string; type: 'message_batch_deleted' } {
+            const stored = getOwned(id, owner);
+            if (stored.batch.processing_status !== 'ended') {
+                throw new BatchError(400, `Batch ${id} cannot be deleted while processing; cancel it first`);
+            }
+            batches.delete(id);
+            rmSync(batchDir(id), { recursive: true, force: true });
+            return { id, type: 'message_batch_deleted' };
+        },
+
+        /**
+         * 结果文件内容（JSONL）。批次结束后才可获取。
+         */
+        results(id: string, owner: string): string {
+            const stored = getOwned(id, owner);
+            if (stored.batch.processing_status !== 'ended') {
+                throw new BatchError(400, `Batch ${id} is still processing; results are available once it has ended`);
+            }
+            const path = join(batchDir(id), 'results.jsonl');
+            return existsSync(path) ? readFileSync(path, 'utf8') : '';
+        },
+
+        /**
+         * 等待队列清空且没有正在执行的请求，用于测试和优雅退出。
+         */
+        idle(): Promise<void> {
+            if (active === 0 && queue.length === 0) return Promise.resolve();
+            return new Promise(resolve => idleWaiters.push(resolve));
+        },
+    };
+}
+
+export type BatchManager = ReturnType<typeof createBatchManager>;
@@ -0,0 +1,57 @@
+/**
+ * 单元测试：流量录制
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { captureTransform, CaptureRecord, createCaptureWriter } from './capture';
+
+const encoder = new TextEncoder();
+
+function record(): CaptureRecord {
+    return {
+        id: 'req_1',
+        timestamp: '2026-01-01T00:00:00.000Z',
+        model: 'claude-test',
+        claude_request: { model: 'claude-test', max_tokens: 16, messages: [] },
+        stream: true,
+    };
+}
+
+describe('createCaptureWriter', () => {
+    let dir: string;
+
+    afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+    it('每条记录追加一行 JSON，目录不存在时创建', async () => {
+        dir = mkdtempSync(join(tmpdir(), 'capture-'));
+        const writer = createCaptureWriter(join(dir, 'nested', 'capture.jsonl'));
+        await writer.write(record());
+        await writer.write({ ...record(), id: 'req_2' });
+        const lines = readFileSync(writer.file, 'utf8').trim().split('\n');
+        expect(lines.map(line => JSON.parse(line).id)).toEqual(['req_1', 'req_2']);
+    });
+});
+
+describe('captureTransform', () => {
+    it('记录上游数据块和转换后的输出，数据原样传递', async () => {
+        const source = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(encoder.encode('data: a\n'));
+                controller.enqueue(encoder.encode('\ndata: b\n\n'));
+                controller.close();
+            },
+        });
+        const upper = new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+                controller.enqueue(encoder.encode(new TextDecoder().decode(chunk).toUpperCase()));
+            },
+        });
+        const captured = record();
+        const output = await new Response(captureTransform(source, upper, captured)).text();
+        expect(output).toBe('DATA: A\n\nDATA: B\n\n');
+        expect(captured.upstream_chunks).toEqual(['data: a\n', '\ndata: b\n\n']);
+        expect(captured.claude_sse).toBe(output);
+    });
+});
@@ -0,0 +1,111 @@
+/**
+ * 流量录制
+ *
+ * 设置 CAPTURE_FILE 后，/v1/messages 的每个请求追加一条 JSONL 记录：客户端的 Claude 请求、转换后发往上游的
+ * OpenAI 请求（API key 已脱敏）、上游原始响应（流式为原始数据块）以及最终返回给客户端的 Claude 输出。
+ * 记录可以用 replay.ts 离线重放，检查转换逻辑的改动是否改变了输出。
+ */
+
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import type { ClaudeMessagesRequest, OpenAIRequest, StreamTransformOptions } from './index';
+import type { GeminiRequest } from './gemini';
+import type { ResponsesRequest } from './responses';
+import type { UpstreamApi } from './routing';
+
+export interface CaptureRecord {
+    /**
+     * 与访问日志相同的 request_id。
+     */
+    id: string;
+    timestamp: string;
+    model: string;
+    upstream?: string;
+    claude_request: ClaudeMessagesRequest;
+    /**
+     * 最后一次尝试发往上游的请求，headers 中的 key 已脱敏。
+     */
+    openai_request?: { url: string; headers: Record<string, string>; body: OpenAIRequest | ResponsesRequest | GeminiRequest };
+    /**
+     * 最后一次尝试的上游接口，未记录时为 chat_completions。
+     */
+    upstream_api?: UpstreamApi;
+    /**
+     * 上游响应是否为流式（reask 模式下流式请求可能以非流式请求上游）。
+     */
+    stream: boolean;
+    /**
+     * 转换时使用的选项（stop 序列、推理字段等），重放时原样使用。
+     */
+    transform_options?: StreamTransformOptions;
+    upstream_status?: number;
+    /**
+     * 非流式的上游响应体（JSON，错误时为原始文本）。
+     */
+    upstream_response?: any;
+    /**
+     * 流式的上游原始数据块（按收到的顺序解码为文本）。
+     */
+    upstream_chunks?: string[];
+    /**
+     * 非流式返回给客户端的 Claude 响应。
+     */
+    claude_response?: any;
+    /**
+     * 流式返回给客户端的 SSE 文本（不含 ping）。
+     */
+    claude_sse?: string;
+    /**
+     * 响应经过 tool_choice 强制执行（重新请求或截断），与单纯的转换结果不同。
+     */
+    tool_choice_enforced?: boolean;
+    /**
+     * 响应因工具参数不合法而重新请求（TOOL_ARGS_REPAIR=reask），与单纯的转换结果不同。
+     */
+    tool_args_enforced?: boolean;
+    /**
+     * 上游模拟结构化输出（structuredOutput 为 json_object / prompt），正文经过提取、校验和规范化，可能重新请求过。
+     */
+    structured_output_emulated?: boolean;
+    cancelled?: boolean;
+}
+
+/**
+ * 追加写入录制文件的 writer，首次写入时创建目录。
+ */
+export function createCaptureWriter(file: string) {
+    let ready: Promise<unknown> | null = null;
+    return {
+        file,
+        async write(record: CaptureRecord): Promise<void> {
+            ready ??= mkdir(dirname(file), { recursive: true });
+            await ready;
+            await appendFile(file, JSON.stringify(record) + '\n', { mode: 0o600 });
+        },
+    };
+}
+
+export type CaptureWriter = ReturnType<typeof createCaptureWriter>;
+
+function tap(onText: (text: string) => void): TransformStream<Uint8Array, Uint8Array> {
+    const decoder = new TextDecoder();
+    return new TransformStream({
+        transform(chunk, controller) {
+            onText(decoder.decode(chunk, { stream: true }));
+            controller.enqueue(chunk);
+        },
+    });
+}
+
+/**
+ * 让上游流经过转换流，同时把上游数据块和转换后的输出记录到 record。
+ */
+export function captureTransform(source: ReadableStream<Uint8Array>, transform: TransformStream<Uint8Array, Uint8Array>, record: CaptureRecord): ReadableStream<Uint8Array> {
+    const chunks: string[] = [];
+    record.upstream_chunks = chunks;
+    record.claude_sse = '';
+    return source
+        .pipeThrough(tap(text => chunks.push(text)))
+        .pipeThrough(transform)
+        .pipeThrough(tap(text => { record.claude_sse += text; }));
+}
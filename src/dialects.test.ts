@@ -0,0 +1,113 @@
+/**
+ * 单元测试：上游方言
+ */
+import { describe, it, expect } from 'vitest';
+import { applyDialect, budgetToReasoningEffort, DIALECT_PROFILES, normalizeReasoning, resolveDialect } from './dialects';
+import type { ClaudeMessagesRequest, OpenAIRequest } from './index';
+
+function claudeRequest(overrides: Partial<ClaudeMessagesRequest> = {}): ClaudeMessagesRequest {
+    return {
+        model: 'claude-test',
+        max_tokens: 32000,
+        thinking: { type: 'enabled', budget_tokens: 10000 },
+        messages: [],
+        ...overrides,
+    };
+}
+
+/**
+ * convertClaudeToOpenAIRequest 在透传模式下的输出（含 cache_control 和 thinking 块）。
+ */
+function openaiRequest(overrides: Partial<OpenAIRequest> = {}): OpenAIRequest {
+    return {
+        model: 'm',
+        thinking: { type: 'enabled', budget_tokens: 10000 },
+        messages: [
+            { role: 'user', content: [{ type: 'text', text: 'hi', cache_control: { type: 'ephemeral' } }] },
+            {
+                role: 'assistant',
+                content: [
+                    { type: 'thinking', thinking: 'let me think', signature: 'sig' },
+                    { type: 'text', text: 'hello' },
+                ],
+                tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'read', arguments: '{}' }, cache_control: { type: 'ephemeral' } }],
+            },
+        ],
+        ...overrides,
+    };
+}
+
+describe('resolveDialect', () => {
+    it('按名称返回内置方言', () => {
+        expect(resolveDialect('vllm')).toBe(DIALECT_PROFILES.vllm);
+        expect(() => resolveDialect('unknown')).toThrow(/Unknown dialect "unknown"/);
+    });
+
+    it('在内置方言基础上覆盖字段，并校验取值', () => {
+        expect(resolveDialect({ extends: 'openai', cacheControl: 'pass' })).toMatchObject({ thinking: 'reasoning_effort', cacheControl: 'pass' });
+        expect(() => resolveDialect({ thinking: 'maybe' as any })).toThrow(/Invalid dialect thinking "maybe"/);
+        expect(() => resolveDialect({ reasoningFields: ['reasoning_text' as any] })).toThrow(/reasoningFields/);
+    });
+});
+
+describe('budgetToReasoningEffort', () => {
+    it('按预算换算', () => {
+        expect(budgetToReasoningEffort(2048)).toBe('low');
+        expect(budgetToReasoningEffort(10000)).toBe('medium');
+        expect(budgetToReasoningEffort(32000)).toBe('high');
+        expect(budgetToReasoningEffort(undefined)).toBe('medium');
+    });
+});
+
+describe('applyDialect', () => {
+    it('passthrough 保持原样', () => {
+        const result = applyDialect(openaiRequest({ output_config: { effort: 'max' } }), claudeRequest(), DIALECT_PROFILES.passthrough);
+        expect(result).toEqual(openaiRequest({ output_config: { effort: 'max' } }));
+    });
+
+    it('openai 去掉 Claude 专有字段，effort 翻译为 reasoning_effort', () => {
+        const result = applyDialect(openaiRequest({ output_config: { effort: 'max' } }), claudeRequest(), DIALECT_PROFILES.openai);
+        expect(result.thinking).toBeUndefined();
+        expect(result.output_config).toBeUndefined();
+        expect(result.reasoning_effort).toBe('high');
+        expect((result.messages[0].content as any[])[0].cache_control).toBeUndefined();
+        expect(result.messages[1].tool_calls![0].cache_control).toBeUndefined();
+        expect(result.messages[1].content).toBe('hello');
+    });
+
+    it('按方言翻译 thinking', () => {
+        expect(applyDialect(openaiRequest(), claudeRequest(), DIALECT_PROFILES.openai).reasoning_effort).toBe('medium');
+        expect(applyDialect(openaiRequest(), claudeRequest(), DIALECT_PROFILES.openrouter).reasoning).toEqual({ max_tokens: 10000 });
+        expect(applyDialect(openaiRequest(), claudeRequest(), DIALECT_PROFILES.vllm).chat_template_kwargs).toEqual({ enable_thinking: true });
+        const dashscope = applyDialect(openaiRequest(), claudeRequest(), DIALECT_PROFILES.dashscope);
+        expect(dashscope.enable_thinking).toBe(true);
+        expect(dashscope.thinking_budget).toBe(10000);
+
+        const disabled = claudeRequest({ thinking: { type: 'disabled' } });
+        expect(applyDialect(openaiRequest(), disabled, DIALECT_PROFILES.vllm).chat_template_kwargs).toEqual({ enable_thinking: false });
+        expect(applyDialect(openaiRequest(), disabled, DIALECT_PROFILES.openai).reasoning_effort).toBeUndefined();
+    });
+
+    it('thinking 块可以合并为 reasoning_content', () => {
+        const result = applyDialect(openaiRequest(), claudeRequest(), { ...DIALECT_PROFILES.passthrough, thinkingBlocks: 'reasoning_content' });
+        expect(result.messages[1]).toMatchObject({ role: 'assistant', content: 'hello', reasoning_content: 'let me think' });
+    });
+});
+
+describe('normalizeReasoning', () => {
+    it('reasoning 字段放到 reasoning_content，未列出的字段去掉', () => {
+        const message: any = { content: 'x', reasoning: 'because', thinking_blocks: [{ type: 'thinking', thinking: 't' }] };
+        normalizeReasoning(message, ['reasoning']);
+        expect(message).toEqual({ content: 'x', reasoning_content: 'because' });
+    });
+
+    it('按优先级取值，passthrough 忽略 reasoning 字段', () => {
+        const vllm: any = { reasoning_content: 'a', reasoning: 'b' };
+        normalizeReasoning(vllm, ['reasoning_content', 'reasoning']);
+        expect(vllm).toEqual({ reasoning_content: 'a' });
+
+        const passthrough: any = { reasoning_content: null, reasoning: 'b' };
+        normalizeReasoning(passthrough, DIALECT_PROFILES.passthrough.reasoningFields);
+        expect(passthrough).toEqual({ reasoning_content: null });
+    });
+});
@@ -0,0 +1,233 @@
+/**
+ * 上游方言（dialect）
+ *
+ * 不同的 OpenAI 兼容上游对 Claude 专有字段的支持不同：七牛 / DeepSeek 风格的网关需要原样透传
+ * thinking、output_config.effort、cache_control 和历史 thinking 块，而 OpenAI、vLLM、Ollama 等严格实现会直接拒绝。
+ * 每个方言声明这些字段的处理方式（去掉、透传或翻译成上游的等价参数），以及响应中哪些字段承载推理内容。
+ * 方言按上游选择（路由表中的 dialect），未配置时使用 UPSTREAM_DIALECT。
+ */
+
+import type { ClaudeMessagesRequest, OpenAIMessage, OpenAIRequest } from './index';
+
+/**
+ * thinking 参数的处理方式：
+ * - reasoning_effort：按 budget_tokens 换算为 low / medium / high
+ * - reasoning：`reasoning: { max_tokens }`（OpenRouter）
+ * - enable_thinking：`enable_thinking` + `thinking_budget`（DashScope / Qwen）
+ * - chat_template_kwargs：`chat_template_kwargs.enable_thinking`（vLLM / SGLang 部署的 Qwen3 等）
+ */
+export type ThinkingHandling = 'strip' | 'pass' | 'reasoning_effort' | 'reasoning' | 'enable_thinking' | 'chat_template_kwargs';
+
+/**
+ * output_config.effort 的处理方式，reasoning_effort 时 xhigh / max 按 high 处理。
+ */
+export type EffortHandling = 'strip' | 'pass' | 'reasoning_effort';
+
+/**
+ * 历史 assistant 消息中 thinking 块的处理方式，reasoning_content 表示合并为消息的 reasoning_content 字段。
+ */
+export type ThinkingBlockHandling = 'strip' | 'pass' | 'reasoning_content';
+
+/**
+ * 响应中承载推理内容的字段。
+ */
+export type ReasoningField = 'thinking_blocks' | 'reasoning_content' | 'reasoning';
+
+export interface DialectProfile {
+    name: string;
+    thinking: ThinkingHandling;
+    effort: EffortHandling;
+    /**
+     * 消息、内容块和工具调用上的 cache_control。
+     */
+    cacheControl: 'strip' | 'pass';
+    thinkingBlocks: ThinkingBlockHandling;
+    /**
+     * 按优先级排列；reasoning_content 与 reasoning 同时存在时取靠前的一个，未列出的字段忽略。
+     */
+    reasoningFields: ReasoningField[];
+}
+
+/**
+ * 路由表中的方言配置：内置方言名，或在内置方言基础上覆盖部分字段。
+ */
+export type DialectConfig = string | (Partial<Omit<DialectProfile, 'name'>> & { extends?: string });
+
+export const DIALECT_PROFILES: Record<string, DialectProfile> = {
+    // 七牛 / DeepSeek 风格的网关，Claude 专有字段原样透传（原有行为）
+    passthrough: {
+        name: 'passthrough',
+        thinking: 'pass',
+        effort: 'pass',
+        cacheControl: 'pass',
+        thinkingBlocks: 'pass',
+        reasoningFields: ['thinking_blocks', 'reasoning_content'],
+    },
+    openai: {
+        name: 'openai',
+        thinking: 'reasoning_effort',
+        effort: 'reasoning_effort',
+        cacheControl: 'strip',
+        thinkingBlocks: 'strip',
+        reasoningFields: [],
+    },
+    openrouter: {
+        name: 'openrouter',
+        thinking: 'reasoning',
+        effort: 'reasoning_effort',
+        cacheControl: 'pass',
+        thinkingBlocks: 'strip',
+        reasoningFields: ['reasoning'],
+    },
+    vllm: {
+        name: 'vllm',
+        thinking: 'chat_template_kwargs',
+        effort: 'strip',
+        cacheControl: 'strip',
+        thinkingBlocks: 'strip',
+        reasoningFields: ['reasoning_content', 'reasoning'],
+    },
+    ollama: {
+        name: 'ollama',
+        thinking: 'reasoning_effort',
+        effort: 'reasoning_effort',
+        cacheControl: 'strip',
+        thinkingBlocks: 'strip',
+        reasoningFields: ['reasoning'],
+    },
+    dashscope: {
+        name: 'dashscope',
+        thinking: 'enable_thinking',
+        effort: 'strip',
+        cacheControl: 'strip',
+        thinkingBlocks: 'strip',
+        reasoningFields: ['reasoning_content'],
+    },
+};
+
+const ALLOWED_VALUES: Record<string, readonly string[]> = {
+    thinking: ['strip', 'pass', 'reasoning_effort', 'reasoning', 'enable_thinking', 'chat_template_kwargs'],
+    effort: ['strip', 'pass', 'reasoning_effort'],
+    cacheControl: ['strip', 'pass'],
+    thinkingBlocks: ['strip', 'pass', 'reasoning_content'],
+};
+const REASONING_FIELDS: readonly string[] = ['thinking_blocks', 'reasoning_content', 'reasoning'];
+
+/**
+ * 解析方言配置；未知的方言名或字段值直接抛出，避免带着错误配置启动。
+ */
+export function resolveDialect(config: DialectConfig): DialectProfile {
+    if (typeof config === 'string') {
+        const profile = DIALECT_PROFILES[config];
+        if (!profile) {
+            throw new Error(`Unknown dialect "${config}", expected one of: ${Object.keys(DIALECT_PROFILES).join(', ')}`);
+        }
+        return profile;
+    }
+    const { extends: base = 'passthrough', ...overrides } = config;
+    const profile: DialectProfile = { ...resolveDialect(base), ...overrides, name: `${base}+custom` };
+    for (const [key, allowed] of Object.entries(ALLOWED_VALUES)) {
+        const value = (profile as any)[key];
+        if (!allowed.includes(value)) {
+            throw new Error(`Invalid dialect ${key} "${value}", expected one of: ${allowed.join(', ')}`);
+        }
+    }
+    if (!Array.isArray(profile.reasoningFields) || profile.reasoningFields.some(field => !REASONING_FIELDS.includes(field))) {
+        throw new Error(`Invalid dialect reasoningFields, expected a subset of: ${REASONING_FIELDS.join(', ')}`);
+    }
+    return profile;
+}
+
+/**
+ * thinking.budget_tokens 换算为 reasoning_effort，adaptive（没有预算）按 medium。
+ */
+export function budgetToReasoningEffort(budgetTokens: number | undefined): 'low' | 'medium' | 'high' {
+    if (budgetTokens === undefined) return 'medium';
+    if (budgetTokens <= 4096) return 'low';
+    if (budgetTokens <= 16384) return 'medium';
+    return 'high';
+}
+
+function applyThinking(openaiRequest: OpenAIRequest, thinking: ClaudeMessagesRequest['thinking'], handling: ThinkingHandling) {
+    delete openaiRequest.thinking;
+    if (!thinking || handling === 'strip') return;
+    const enabled = thinking.type !== 'disabled';
+    switch (handling) {
+        case 'pass':
+            openaiRequest.thinking = thinking;
+            break;
+        case 'reasoning_effort':
+            if (enabled) openaiRequest.reasoning_effort = budgetToReasoningEffort(thinking.budget_tokens);
+            break;
+        case 'reasoning':
+            openaiRequest.reasoning = enabled
+                ? (thinking.budget_tokens ? { max_tokens: thinking.budget_tokens } : { enabled: true })
+                : { enabled: false };
+            break;
+        case 'enable_thinking':
+            openaiRequest.enable_thinking = enabled;
+            if (enabled && thinking.budget_tokens) openaiRequest.thinking_budget = thinking.budget_tokens;
+            break;
+        case 'chat_template_kwargs':
+            openaiRequest.chat_template_kwargs = { ...(openaiRequest.chat_template_kwargs || {}), enable_thinking: enabled };
+            break;
+    }
+}
+
+function applyEffort(openaiRequest: OpenAIRequest, handling: EffortHandling) {
+    const effort = openaiRequest.output_config?.effort;
+    if (handling === 'pass' || !effort) return;
+    delete openaiRequest.output_config;
+    if (handling === 'reasoning_effort') {
+        // 显式的 effort 优先于由 thinking 换算的值
+        openaiRequest.reasoning_effort = effort === 'xhigh' || effort === 'max' ? 'high' : effort;
+    }
+}
+
+function stripCacheControl(message: OpenAIMessage) {
+    delete message.cache_control;
+    if (Array.isArray(message.content)) {
+        message.content.forEach(block => delete block.cache_control);
+    }
+    message.tool_calls?.forEach(call => delete call.cache_control);
+}
+
+function applyThinkingBlocks(message: OpenAIMessage, handling: ThinkingBlockHandling) {
+    if (handling === 'pass' || message.role !== 'assistant' || !Array.isArray(message.content)) return;
+    const thinking = message.content.filter(block => block.type === 'thinking');
+    if (thinking.length === 0) return;
+    const rest = message.content.filter(block => block.type !== 'thinking');
+    if (handling === 'reasoning_content') {
+        message.reasoning_content = thinking.map(block => block.thinking || '').join('\n');
+    }
+    // 只剩一个文本块时还原为字符串，与没有 thinking 块时的转换结果一致
+    message.content = rest.length === 1 && rest[0].type === 'text' ? rest[0].text || '' : rest.length === 0 ? '' : rest;
+}
+
+/**
+ * 按方言调整已转换的 OpenAI 请求（原地修改并返回）。
+ */
+export function applyDialect(openaiRequest: OpenAIRequest, claudeRequest: ClaudeMessagesRequest, profile: DialectProfile): OpenAIRequest {
+    applyThinking(openaiRequest, claudeRequest.thinking, profile.thinking);
+    applyEffort(openaiRequest, profile.effort);
+    for (const message of openaiRequest.messages) {
+        if (profile.cacheControl === 'strip') stripCacheControl(message);
+        applyThinkingBlocks(message, profile.thinkingBlocks);
+    }
+    return openaiRequest;
+}
+
+/**
+ * 按方言整理响应 message 或流式 delta 中的推理字段（原地修改）：
+ * 未列出的字段去掉，选中的 reasoning 统一放到 reasoning_content，供后续转换为 thinking 块。
+ */
+export function normalizeReasoning(message: any, fields: ReasoningField[]) {
+    if (!message || typeof message !== 'object') return;
+    if (!fields.includes('thinking_blocks')) delete message.thinking_blocks;
+    if (!fields.includes('reasoning_content')) delete message.reasoning_content;
+    const source = fields.find(field => field !== 'thinking_blocks' && typeof message[field] === 'string');
+    if (source === 'reasoning') {
+        message.reasoning_content = message.reasoning;
+    }
+    delete message.reasoning;
+}
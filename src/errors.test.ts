@@ -0,0 +1,80 @@
+/**
+ * 单元测试：Anthropic 错误翻译
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { errorTypeForStatus, sendAnthropicError, sseErrorEvent, translateUpstreamError } from './errors';
+
+function mockResponse(headersSent = false) {
+    const res: any = {
+        headersSent,
+        writableEnded: false,
+        status: vi.fn(() => res),
+        json: vi.fn(() => res),
+        write: vi.fn(),
+        end: vi.fn(() => { res.writableEnded = true; }),
+    };
+    return res;
+}
+
+describe('errorTypeForStatus', () => {
+    it('按状态码映射错误类型', () => {
+        expect(errorTypeForStatus(400)).toBe('invalid_request_error');
+        expect(errorTypeForStatus(401)).toBe('authentication_error');
+        expect(errorTypeForStatus(403)).toBe('permission_error');
+        expect(errorTypeForStatus(404)).toBe('not_found_error');
+        expect(errorTypeForStatus(429)).toBe('rate_limit_error');
+        expect(errorTypeForStatus(500)).toBe('api_error');
+        expect(errorTypeForStatus(502)).toBe('api_error');
+        expect(errorTypeForStatus(503)).toBe('overloaded_error');
+        expect(errorTypeForStatus(529)).toBe('overloaded_error');
+    });
+});
+
+describe('translateUpstreamError', () => {
+    it('翻译 OpenAI 错误体，保留消息和 request id', () => {
+        const result = translateUpstreamError(400, JSON.stringify({
+            error: { message: 'maximum context length exceeded', type: 'invalid_request_error', code: 'context_length_exceeded' },
+        }), 'req_123');
+        expect(result).toEqual({
+            status: 400,
+            body: {
+                type: 'error',
+                error: { type: 'invalid_request_error', message: 'maximum context length exceeded' },
+                request_id: 'req_123',
+            },
+        });
+    });
+
+    it('OpenAI 的 code 优先于状态码', () => {
+        const result = translateUpstreamError(400, '{"error":{"message":"bad key","code":"invalid_api_key"}}');
+        expect(result.body.error.type).toBe('authentication_error');
+    });
+
+    it('兼容 FastAPI detail 和字符串 error', () => {
+        expect(translateUpstreamError(422, '{"detail":[{"msg":"field required"}]}').body.error.message).toBe('[{"msg":"field required"}]');
+        expect(translateUpstreamError(500, '{"error":"boom"}').body.error.message).toBe('boom');
+    });
+
+    it('非 JSON 错误体不再抛异常', () => {
+        const result = translateUpstreamError(502, '<html>Bad Gateway</html>');
+        expect(result.body.error).toEqual({ type: 'api_error', message: '<html>Bad Gateway</html>' });
+        expect(translateUpstreamError(503, '').body.error.message).toBe('Upstream request failed with status 503');
+    });
+});
+
+describe('sendAnthropicError', () => {
+    it('响应头未发送时返回 JSON 错误体', () => {
+        const res = mockResponse();
+        sendAnthropicError(res, 401, 'authentication_error', 'Missing API key');
+        expect(res.status).toHaveBeenCalledWith(401);
+        expect(res.json).toHaveBeenCalledWith({ type: 'error', error: { type: 'authentication_error', message: 'Missing API key' } });
+    });
+
+    it('SSE 已开始时发送 event: error 并结束响应', () => {
+        const res = mockResponse(true);
+        sendAnthropicError(res, 502, 'api_error', 'interrupted');
+        expect(res.write).toHaveBeenCalledWith(sseErrorEvent('api_error', 'interrupted'));
+        expect(res.end).toHaveBeenCalled();
+        expect(res.json).not.toHaveBeenCalled();
+    });
+});
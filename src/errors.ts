@@ -0,0 +1,176 @@
+/**
+ * Anthropic 风格的错误响应
+ *
+ * 所有失败路径（鉴权失败、上游错误、代理内部异常、流式中途出错）都统一转换为
+ * `{ type: "error", error: { type, message }, request_id }`，流式响应中以 `event: error` 发送。
+ */
+
+import type express from 'express';
+
+export type AnthropicErrorType =
+    | 'invalid_request_error'
+    | 'authentication_error'
+    | 'permission_error'
+    | 'not_found_error'
+    | 'rate_limit_error'
+    | 'api_error'
+    | 'overloaded_error';
+
+export interface AnthropicErrorBody {
+    type: 'error';
+    error: {
+        type: AnthropicErrorType;
+        message: string;
+    };
+    request_id?: string;
+}
+
+export interface TranslatedError {
+    status: number;
+    body: AnthropicErrorBody;
+}
+
+const ANTHROPIC_ERROR_TYPES = new Set<string>([
+    'invalid_request_error',
+    'authentication_error',
+    'permission_error',
+    'not_found_error',
+    'rate_limit_error',
+    'api_error',
+    'overloaded_error',
+]);
+
+// OpenAI 错误体中的 code / type 比状态码更精确，优先使用
+const openAIErrorCodeMap: Record<string, AnthropicErrorType> = {
+    invalid_api_key: 'authentication_error',
+    invalid_authentication: 'authentication_error',
+    authentication_error: 'authentication_error',
+    permission_denied: 'permission_error',
+    insufficient_permissions: 'permission_error',
+    model_not_found: 'not_found_error',
+    not_found: 'not_found_error',
+    rate_limit_exceeded: 'rate_limit_error',
+    insufficient_quota: 'rate_limit_error',
+    context_length_exceeded: 'invalid_request_error',
+    invalid_request_error: 'invalid_request_error',
+    server_overloaded: 'overloaded_error',
+    engine_overloaded: 'overloaded_error',
+};
+
+/**
+ * 根据 HTTP 状态码推断 Anthropic 错误类型。
+ */
+export function errorTypeForStatus(status: number): AnthropicErrorType {
+    switch (status) {
+        case 400:
+        case 413:
+        case 422:
+            return 'invalid_request_error';
+        case 401:
+            return 'authentication_error';
+        case 402:
+        case 403:
+            return 'permission_error';
+        case 404:
+            return 'not_found_error';
+        case 429:
+            return 'rate_limit_error';
+        case 503:
+        case 529:
+            return 'overloaded_error';
+        default:
+            return status >= 400 && status < 500 ? 'invalid_request_error' : 'api_error';
+    }
+}
+
+/**
+ * 构造 Anthropic 错误体。
+ */
+export function anthropicErrorBody(type: AnthropicErrorType, message: string, requestId?: string): AnthropicErrorBody {
+    const body: AnthropicErrorBody = { type: 'error', error: { type, message } };
+    if (requestId) {
+        body.request_id = requestId;
+    }
+    return body;
+}
+
+/**
+ * 将上游错误响应（OpenAI 错误体、Anthropic 错误体、FastAPI detail 或任意文本）翻译为 Anthropic 错误。
+ * 保留上游的错误信息和 request id。
+ */
+export function translateUpstreamError(status: number, bodyText: string, upstreamRequestId?: string | null): TranslatedError {
+    let type = errorTypeForStatus(status);
+    let message = '';
+    let requestId = upstreamRequestId || undefined;
+
+    let parsed: any;
+    try {
+        parsed = bodyText ? JSON.parse(bodyText) : undefined;
+    } catch {
+        parsed = undefined;
+    }
+
+    if (parsed && typeof parsed === 'object') {
+        const error = parsed.error;
+        if (error && typeof error === 'object') {
+            message = typeof error.message === 'string' ? error.message : '';
+            const mapped = openAIErrorCodeMap[String(error.code)] || openAIErrorCodeMap[String(error.type)];
+            if (ANTHROPIC_ERROR_TYPES.has(error.type)) {
+                type = error.type;
+            } else if (mapped) {
+                type = mapped;
+            }
+        } else if (typeof error === 'string') {
+            message = error;
+        } else if (typeof parsed.message === 'string') {
+            message = parsed.message;
+        } else if (parsed.detail !== undefined) {
+            message = typeof parsed.detail === 'string' ? parsed.detail : JSON.stringify(parsed.detail);
+        }
+        requestId = requestId || parsed.request_id || parsed.error?.request_id || undefined;
+    } else if (bodyText && bodyText.trim()) {
+        message = bodyText.trim().slice(0, 1000);
+    }
+
+    if (!message) {
+        message = `Upstream request failed with status ${status}`;
+    }
+    return { status, body: anthropicErrorBody(type, message, requestId) };
+}
+
+/**
+ * 流式响应中途出错时发送的 SSE 事件。
+ */
+export function sseErrorEvent(type: AnthropicErrorType, message: string, requestId?: string): string {
+    return `event: error\ndata: ${JSON.stringify(anthropicErrorBody(type, message, requestId))}\n\n`;
+}
+
+/**
+ * 以 Anthropic 错误响应客户端。
+ * 响应头尚未发送时返回 JSON 错误体；已经开始输出 SSE 时追加 `event: error` 并结束响应。
+ */
+export function sendAnthropicError(res: express.Response, status: number, type: AnthropicErrorType, message: string, requestId?: string) {
+    if (!res.headersSent) {
+        return res.status(status).json(anthropicErrorBody(type, message, requestId));
+    }
+    if (!res.writableEnded) {
+        res.write(sseErrorEvent(type, message, requestId));
+        res.end();
+    }
+    return res;
+}
+
+/**
+ * 以翻译后的上游错误响应客户端。
+ */
+export function sendTranslatedError(res: express.Response, translated: TranslatedError) {
+    const { error, request_id } = translated.body;
+    return sendAnthropicError(res, translated.status, error.type, error.message, request_id);
+}
+
+/**
+ * 从上游响应头中提取 request id。
+ */
+export function upstreamRequestIdOf(headers: Headers): string | null {
+    return headers.get('request-id') || headers.get('x-request-id') || headers.get('http_x_reqid');
+}
@@ -0,0 +1,276 @@
+/**
+ * 单元测试：Gemini 原生接口上游转换
+ */
+import { describe, it, expect } from 'vitest';
+import {
+    convertClaudeToGeminiRequest,
+    convertGeminiToClaudeResponse,
+    decodeThoughtSignature,
+    encodeThoughtSignature,
+    geminiRequestUrl,
+    geminiStreamTransformer,
+} from './gemini';
+
+/**
+ * 把 SSE 文本喂给 transformer，收集输出的 Claude 事件
+ */
+async function runStream(transform: ReturnType<typeof geminiStreamTransformer>, sse: string): Promise<any[]> {
+    const stream = new Blob([sse]).stream().pipeThrough(new TransformStream({ transform }));
+    const text = await new Response(stream).text();
+    return text.split('\n\n').filter(Boolean).map(event => JSON.parse(event.split('\n')[1].replace(/^data: /, '')));
+}
+
+function sse(chunks: any[]): string {
+    return chunks.map(chunk => `data: ${JSON.stringify(chunk)}\r\n\r\n`).join('');
+}
+
+const usageMetadata = { promptTokenCount: 120, cachedContentTokenCount: 20, candidatesTokenCount: 30, thoughtsTokenCount: 10 };
+
+describe('thought signature', () => {
+    it('编码与解码', () => {
+        expect(decodeThoughtSignature(encodeThoughtSignature('CsgB'))).toBe('CsgB');
+        expect(decodeThoughtSignature('other')).toBeNull();
+        expect(decodeThoughtSignature('gemini:')).toBeNull();
+        expect(decodeThoughtSignature(undefined)).toBeNull();
+    });
+
+    it('请求地址按是否流式选择接口', () => {
+        expect(geminiRequestUrl('https://g/v1beta', 'models/gemini-2.5-pro', false)).toBe('https://g/v1beta/models/gemini-2.5-pro:generateContent');
+        expect(geminiRequestUrl('https://g/v1beta', 'gemini-2.5-pro', true)).toBe('https://g/v1beta/models/gemini-2.5-pro:streamGenerateContent?alt=sse');
+    });
+});
+
+describe('convertClaudeToGeminiRequest', () => {
+    it('消息转换为 contents，签名还原到其后的部分上', () => {
+        const result = convertClaudeToGeminiRequest({
+            model: 'claude-sonnet-4',
+            system: 'You are helpful.',
+            max_tokens: 1024,
+            messages: [
+                {
+                    role: 'user',
+                    content: [
+                        { type: 'text', text: '看图' },
+                        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'abc' } },
+                        { type: 'document', source: { type: 'url', url: 'https://example.com/a.pdf' } },
+                    ],
+                },
+                {
+                    role: 'assistant',
+                    content: [
+                        { type: 'thinking', thinking: '其他上游', signature: 'other' },
+                        { type: 'text', text: '我来查一下' },
+                        { type: 'thinking', thinking: '想一想', signature: encodeThoughtSignature('sig1') },
+                        { type: 'tool_use', id: 'toolu_abc', name: 'get_weather', input: { city: 'Paris' } },
+                        { type: 'tool_use', id: 'call_2', name: 'get_time', input: {} },
+                        { type: 'thinking', thinking: '', signature: encodeThoughtSignature('sig2') },
+                    ],
+                },
+                {
+                    role: 'user',
+                    content: [
+                        { type: 'tool_result', tool_use_id: 'toolu_abc', content: [{ type: 'text', text: '晴' }, { type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: 'jpg' } }] },
+                        { type: 'tool_result', tool_use_id: 'call_2', content: '12:00' },
+                    ],
+                },
+            ],
+        });
+
+        expect(result.systemInstruction).toEqual({ parts: [{ text: 'You are helpful.' }] });
+        expect(result.generationConfig).toMatchObject({ maxOutputTokens: 1024 });
+        expect(result.contents).toEqual([
+            {
+                role: 'user',
+                parts: [
+                    { text: '看图' },
+                    { inlineData: { mimeType: 'image/png', data: 'abc' } },
+                    { fileData: { fileUri: 'https://example.com/a.pdf' } },
+                ],
+            },
+            {
+                role: 'model',
+                parts: [
+                    { text: '我来查一下' },
+                    { functionCall: { name: 'get_weather', args: { city: 'Paris' } }, thoughtSignature: 'sig1' },
+                    { functionCall: { id: 'call_2', name: 'get_time', args: {} } },
+                    { text: '', thoughtSignature: 'sig2' },
+                ],
+            },
+            {
+                role: 'user',
+                parts: [
+                    { functionResponse: { name: 'get_weather', response: { result: '晴' } } },
+                    { inlineData: { mimeType: 'image/jpeg', data: 'jpg' } },
+                    { functionResponse: { id: 'call_2', name: 'get_time', response: { result: '12:00' } } },
+                ],
+            },
+        ]);
+    });
+
+    it('工具、tool_choice、thinking 与结构化输出', () => {
+        const schema = { $schema: 'http://json-schema.org/draft-07/schema#', type: 'object', properties: { city: { type: 'string', format: 'uri' } }, additionalProperties: false };
+        const result = convertClaudeToGeminiRequest({
+            model: 'claude-sonnet-4',
+            max_tokens: 1024,
+            stop_sequences: ['a', 'b', 'c', 'd', 'e', 'f'],
+            messages: [{ role: 'user', content: 'hi' }],
+            tools: [{ name: 'get_weather', description: '查询天气', input_schema: schema }],
+            tool_choice: { type: 'tool', name: 'get_weather' },
+            thinking: { type: 'enabled', budget_tokens: 8000 },
+            output_config: { format: { type: 'json_schema', schema: { type: 'object' } } },
+        });
+
+        expect(result.tools).toEqual([{ functionDeclarations: [{ name: 'get_weather', description: '查询天气', parametersJsonSchema: schema }] }]);
+        expect(result.toolConfig).toEqual({ functionCallingConfig: { mode: 'ANY', allowedFunctionNames: ['get_weather'] } });
+        expect(result.generationConfig).toMatchObject({
+            stopSequences: ['a', 'b', 'c', 'd', 'e'],
+            responseMimeType: 'application/json',
+            responseJsonSchema: { type: 'object' },
+            thinkingConfig: { includeThoughts: true, thinkingBudget: 8000 },
+        });
+    });
+
+    it('没有 thinking 时不设置 thinkingConfig，output_config.effort 转换为 thinkingLevel', () => {
+        const base = { model: 'claude-sonnet-4', max_tokens: 1024, messages: [{ role: 'user' as const, content: 'hi' }] };
+        expect(convertClaudeToGeminiRequest(base).generationConfig.thinkingConfig).toBeUndefined();
+        expect(convertClaudeToGeminiRequest({ ...base, thinking: { type: 'enabled', budget_tokens: 2000 }, output_config: { effort: 'max' } }).generationConfig.thinkingConfig)
+            .toEqual({ includeThoughts: true, thinkingLevel: 'high' });
+    });
+});
+
+describe('convertGeminiToClaudeResponse', () => {
+    it('推理、文本和函数调用转换为 Claude 内容块', () => {
+        const result = convertGeminiToClaudeResponse({
+            responseId: 'abc',
+            candidates: [{
+                content: {
+                    role: 'model',
+                    parts: [
+                        { text: '想一想', thought: true },
+                        { text: '查询中', thoughtSignature: 'sig1' },
+                        { functionCall: { name: 'get_weather', args: { city: 'Paris' } }, thoughtSignature: 'sig2' },
+                    ],
+                },
+                finishReason: 'STOP',
+            }],
+            usageMetadata,
+        }, 'claude-sonnet-4');
+
+        expect(result).toMatchObject({
+            id: 'msg_abc',
+            model: 'claude-sonnet-4',
+            stop_reason: 'tool_use',
+            stop_sequence: null,
+            usage: { input_tokens: 100, output_tokens: 40, cache_read_input_tokens: 20, cache_creation_input_tokens: 0 },
+        });
+        expect(result.content).toEqual([
+            { type: 'thinking', thinking: '想一想', signature: encodeThoughtSignature('sig1') },
+            { type: 'text', text: '查询中' },
+            { type: 'thinking', thinking: '', signature: encodeThoughtSignature('sig2') },
+            { type: 'tool_use', id: 'toolu_abc_0', name: 'get_weather', input: { city: 'Paris' } },
+        ]);
+
+        // 回传后签名回到原来的部分上
+        const request = convertClaudeToGeminiRequest({ model: 'm', max_tokens: 1, messages: [{ role: 'assistant', content: result.content }] });
+        expect(request.contents[0].parts).toEqual([
+            { text: '查询中', thoughtSignature: 'sig1' },
+            { functionCall: { name: 'get_weather', args: { city: 'Paris' } }, thoughtSignature: 'sig2' },
+        ]);
+    });
+
+    it('finishReason、提示词拦截与 stop 序列', () => {
+        const response = (finishReason: string, text = 'abc') => ({ candidates: [{ content: { parts: [{ text }] }, finishReason }], usageMetadata });
+        expect(convertGeminiToClaudeResponse(response('MAX_TOKENS'), 'm').stop_reason).toBe('max_tokens');
+        expect(convertGeminiToClaudeResponse(response('SAFETY'), 'm').stop_reason).toBe('refusal');
+        expect(convertGeminiToClaudeResponse({ promptFeedback: { blockReason: 'SAFETY' }, usageMetadata }, 'm')).toMatchObject({ content: [], stop_reason: 'refusal' });
+
+        const stopped = convertGeminiToClaudeResponse(response('STOP', 'hello END world'), 'm', ['END']);
+        expect(stopped.content).toEqual([{ type: 'text', text: 'hello ' }]);
+        expect(stopped).toMatchObject({ stop_reason: 'stop_sequence', stop_sequence: 'END' });
+
+        const withCall = convertGeminiToClaudeResponse({ responseId: 'abc', candidates: [{ content: { parts: [
+            { text: 'hello END world' },
+            { functionCall: { name: 'f', args: { a: 1 } } },
+            { text: 'more' },
+        ] }, finishReason: 'STOP' }], usageMetadata }, 'm', ['END']);
+        expect(withCall.content).toEqual([
+            { type: 'text', text: 'hello ' },
+            { type: 'tool_use', id: 'toolu_abc_0', name: 'f', input: { a: 1 } },
+        ]);
+        expect(withCall).toMatchObject({ stop_reason: 'stop_sequence', stop_sequence: 'END' });
+    });
+});
+
+describe('geminiStreamTransformer', () => {
+    it('streamGenerateContent 数据块转换为 Claude SSE', async () => {
+        const events = await runStream(geminiStreamTransformer('claude-sonnet-4'), sse([
+            { responseId: 'abc', candidates: [{ content: { role: 'model', parts: [{ text: '想', thought: true }] } }] },
+            { responseId: 'abc', candidates: [{ content: { role: 'model', parts: [{ text: '再想', thought: true }] } }] },
+            { responseId: 'abc', candidates: [{ content: { role: 'model', parts: [{ text: '你好' }] } }] },
+            { responseId: 'abc', candidates: [{ content: { role: 'model', parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } }, thoughtSignature: 'sig1' }] } }] },
+            { responseId: 'abc', candidates: [{ content: { role: 'model', parts: [{ text: '' }] }, finishReason: 'STOP' }], usageMetadata },
+        ]));
+
+        expect(events.map(event => event.delta?.type ? `${event.type}:${event.delta.type}` : event.type)).toEqual([
+            'message_start',
+            'content_block_start',
+            'content_block_delta:thinking_delta',
+            'content_block_delta:thinking_delta',
+            'content_block_stop',
+            'content_block_start',
+            'content_block_delta:text_delta',
+            'content_block_stop',
+            'content_block_start',
+            'content_block_delta:signature_delta',
+            'content_block_stop',
+            'content_block_start',
+            'content_block_delta:input_json_delta',
+            'content_block_stop',
+            'message_delta',
+            'message_stop',
+        ]);
+        expect(events[0].message.id).toBe('msg_abc');
+        expect(events[9].delta.signature).toBe(encodeThoughtSignature('sig1'));
+        expect(events[11]).toMatchObject({ index: 3, content_block: { type: 'tool_use', id: 'toolu_abc_0', name: 'get_weather', input: {} } });
+        expect(events[12].delta.partial_json).toBe('{"city":"Paris"}');
+        expect(events[14]).toEqual({
+            type: 'message_delta',
+            delta: { stop_reason: 'tool_use', stop_sequence: null },
+            usage: { input_tokens: 100, output_tokens: 40, cache_read_input_tokens: 20, cache_creation_input_tokens: 0 },
+        });
+    });
+
+    it('命中 stop 序列后截断正文并保留函数调用，singleToolCall 丢弃之后的函数调用', async () => {
+        const progress = { messageId: null, usage: null, generatedText: '', stopReason: null };
+        const events = await runStream(geminiStreamTransformer('m', progress, { stopSequences: ['END'] }), sse([
+            { responseId: '1', candidates: [{ content: { parts: [{ text: 'hello EN' }] } }] },
+            { responseId: '1', candidates: [{ content: { parts: [{ text: 'D world' }] } }] },
+            { responseId: '1', candidates: [{ content: { parts: [] }, finishReason: 'STOP' }], usageMetadata },
+        ]));
+        const text = events.filter(event => event.delta?.type === 'text_delta').map(event => event.delta.text).join('');
+        expect(text).toBe('hello ');
+        expect(events.find(event => event.type === 'message_delta').delta).toEqual({ stop_reason: 'stop_sequence', stop_sequence: 'END' });
+        expect(progress).toMatchObject({ messageId: 'msg_1', generatedText: 'hello ', stopReason: 'stop_sequence' });
+
+        const withCall = await runStream(geminiStreamTransformer('m', undefined, { stopSequences: ['END'] }), sse([
+            { responseId: '1', candidates: [{ content: { parts: [{ text: 'hello END world' }, { functionCall: { name: 'f', args: {} } }] } }] },
+            { responseId: '1', candidates: [{ content: { parts: [{ text: 'more' }] }, finishReason: 'STOP' }], usageMetadata },
+        ]));
+        expect(withCall.filter(event => event.delta?.type === 'text_delta').map(event => event.delta.text).join('')).toBe('hello ');
+        expect(withCall.filter(event => event.type === 'content_block_start').map(event => event.content_block.type)).toEqual(['text', 'tool_use']);
+        expect(withCall.find(event => event.type === 'message_delta').delta).toEqual({ stop_reason: 'stop_sequence', stop_sequence: 'END' });
+
+        const single = await runStream(geminiStreamTransformer('m', undefined, { singleToolCall: true }), sse([
+            { candidates: [{ content: { parts: [{ functionCall: { name: 'a', args: {} } }, { functionCall: { name: 'b', args: {} } }] }, finishReason: 'STOP' }], usageMetadata },
+        ]));
+        expect(single.filter(event => event.type === 'content_block_start').map(event => event.content_block.name)).toEqual(['a']);
+    });
+
+    it('流中的错误转换为 event: error', async () => {
+        const events = await runStream(geminiStreamTransformer('m'), sse([
+            { responseId: '1', candidates: [{ content: { parts: [{ text: 'hi' }] } }] },
+            { error: { code: 429, message: 'Resource exhausted', status: 'RESOURCE_EXHAUSTED' } },
+        ]));
+        expect(events[events.length - 1]).toEqual({ type: 'error', error: { type: 'rate_limit_error', message: 'Resource exhausted' } });
+    });
+});
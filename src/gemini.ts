@@ -0,0 +1,539 @@
+/**
+ * Gemini 原生接口（generateContent / streamGenerateContent）上游
+ *
+ * Gemini 的 OpenAI 兼容层会丢失 thoughtSignature、thinkingConfig 和多模态内容，并且只接受受限的 JSON Schema。
+ * 路由表中 `"api": "gemini"` 的上游改用原生接口，使用这一组转换：
+ * - convertClaudeToGeminiRequest：Claude 请求 -> contents / systemInstruction / functionDeclarations / toolConfig
+ * - convertGeminiToClaudeResponse：generateContent 响应 -> Claude 响应
+ * - geminiStreamTransformer：streamGenerateContent SSE（alt=sse）-> Claude SSE
+ *
+ * thought 部分转换为 thinking 块。thoughtSignature 附在紧随其后的部分（函数调用或正文）上，
+ * 转换时放在该部分之前的 thinking 块的 signature 中（没有推理文本时为空 thinking 块），客户端回传后还原到原来的部分上。
+ */
+
+import type {
+    ClaudeMessagesRequest,
+    ClaudeTextBlock,
+    ClaudeUsage,
+    StreamProgress,
+    StreamTransformOptions,
+} from './index';
+import { translateUpstreamError } from './errors';
+import { findStopSequence, StopSequenceMatcher } from './stopReason';
+import { recordInvalidToolUse, validateSchema } from './toolArgs';
+
+export interface GeminiPart {
+    text?: string;
+    thought?: boolean;
+    thoughtSignature?: string;
+    inlineData?: { mimeType: string; data: string };
+    fileData?: { mimeType?: string; fileUri: string };
+    functionCall?: { id?: string; name: string; args: any };
+    functionResponse?: { id?: string; name: string; response: any };
+}
+
+export interface GeminiContent {
+    role: 'user' | 'model';
+    parts: GeminiPart[];
+}
+
+export interface GeminiRequest {
+    contents: GeminiContent[];
+    systemInstruction?: { parts: Array<{ text: string }> };
+    tools?: Array<{ functionDeclarations: Array<{ name: string; description?: string; parametersJsonSchema: any }> }>;
+    toolConfig?: { functionCallingConfig: { mode: 'AUTO' | 'ANY' | 'NONE'; allowedFunctionNames?: string[] } };
+    generationConfig: {
+        maxOutputTokens?: number;
+        temperature?: number;
+        topP?: number;
+        topK?: number;
+        stopSequences?: string[];
+        responseMimeType?: string;
+        responseJsonSchema?: any;
+        thinkingConfig?: { includeThoughts?: boolean; thinkingBudget?: number; thinkingLevel?: 'low' | 'high' };
+    };
+}
+
+/**
+ * Gemini 最多接受 5 个 stop 序列，其余的由代理在正文中匹配。
+ */
+const MAX_STOP_SEQUENCES = 5;
+
+const SIGNATURE_PREFIX = 'gemini:';
+
+/**
+ * 代理为没有 id 的函数调用生成的 tool_use id 前缀，回传时不发给上游。
+ */
+const GENERATED_TOOL_ID_PREFIX = 'toolu_';
+
+export function encodeThoughtSignature(signature: string): string {
+    return `${SIGNATURE_PREFIX}${signature}`;
+}
+
+/**
+ * 从 thinking 块的 signature 还原 thoughtSignature；不是本模块生成的签名时返回 null。
+ */
+export function decodeThoughtSignature(signature: string | undefined): string | null {
+    if (!signature?.startsWith(SIGNATURE_PREFIX) || signature.length === SIGNATURE_PREFIX.length) return null;
+    return signature.substring(SIGNATURE_PREFIX.length);
+}
+
+/**
+ * 上游请求地址，模型名可以带或不带 `models/` 前缀。
+ */
+export function geminiRequestUrl(baseUrl: string, modelName: string, stream: boolean | undefined): string {
+    const model = modelName.replace(/^models\//, '');
+    return stream
+        ? `${baseUrl}/models/${model}:streamGenerateContent?alt=sse`
+        : `${baseUrl}/models/${model}:generateContent`;
+}
+
+function convertMediaBlock(source: ClaudeTextBlock['source']): GeminiPart | null {
+    if (!source) return null;
+    if (source.type === 'url') {
+        return { fileData: { fileUri: source.url } };
+    }
+    return { inlineData: { mimeType: source.media_type, data: source.data } };
+}
+
+function convertUserBlock(block: ClaudeTextBlock): GeminiPart | null {
+    if (block.type === 'text') {
+        return block.text ? { text: block.text } : null;
+    }
+    if (block.type === 'image' || block.type === 'document') {
+        return convertMediaBlock(block.source);
+    }
+    return null;
+}
+
+/**
+ * tool_result 转换为 functionResponse，图片另外作为紧随其后的 inlineData 部分。
+ */
+function convertToolResult(block: ClaudeTextBlock, name: string): GeminiPart[] {
+    const media: GeminiPart[] = [];
+    let result: any;
+    if (typeof block.content === 'string') {
+        result = block.content;
+    } else if (Array.isArray(block.content)) {
+        const others: any[] = [];
+        for (const item of block.content) {
+            const part = item.type === 'image' ? convertMediaBlock(item.source) : null;
+            if (part) {
+                media.push(part);
+            } else {
+                others.push(item);
+            }
+        }
+        if (others.length === 1 && others[0].type === 'text') {
+            result = others[0].text || '';
+        } else {
+            result = others.length > 0 ? others : '[image]';
+        }
+    } else {
+        result = block.content ?? '';
+    }
+    const functionResponse: NonNullable<GeminiPart['functionResponse']> = { name, response: { result } };
+    if (block.tool_use_id && !block.tool_use_id.startsWith(GENERATED_TOOL_ID_PREFIX)) {
+        functionResponse.id = block.tool_use_id;
+    }
+    return [{ functionResponse }, ...media];
+}
+
+/**
+ * assistant 消息转换为 model 的部分；thinking 块的 thoughtSignature 附到其后的第一个部分上。
+ */
+function convertAssistantBlocks(blocks: ClaudeTextBlock[]): GeminiPart[] {
+    const parts: GeminiPart[] = [];
+    let pendingSignature: string | null = null;
+    const push = (part: GeminiPart) => {
+        if (pendingSignature) {
+            part.thoughtSignature = pendingSignature;
+            pendingSignature = null;
+        }
+        parts.push(part);
+    };
+    for (const block of blocks) {
+        if (block.type === 'thinking') {
+            // 推理文本不需要回传，只保留签名；其他来源的 thinking 块上游无法识别，丢弃
+            const signature = decodeThoughtSignature(block.signature);
+            if (!signature) continue;
+            if (pendingSignature) push({ text: '' });
+            pendingSignature = signature;
+        } else if (block.type === 'text') {
+            if (block.text) push({ text: block.text });
+        } else if (block.type === 'tool_use') {
+            const functionCall: NonNullable<GeminiPart['functionCall']> = { name: block.name!, args: block.input || {} };
+            if (block.id && !block.id.startsWith(GENERATED_TOOL_ID_PREFIX)) {
+                functionCall.id = block.id;
+            }
+            push({ functionCall });
+        }
+    }
+    if (pendingSignature) push({ text: '' });
+    return parts;
+}
+
+function systemText(system: ClaudeMessagesRequest['system']): string | undefined {
+    if (!system) return undefined;
+    if (typeof system === 'string') return system;
+    return system.map(block => block.text || '').filter(Boolean).join('\n\n') || undefined;
+}
+
+function thinkingConfig(claudeRequest: ClaudeMessagesRequest): GeminiRequest['generationConfig']['thinkingConfig'] {
+    const config: NonNullable<GeminiRequest['generationConfig']['thinkingConfig']> = {};
+    const thinking = claudeRequest.thinking;
+    if (thinking && thinking.type !== 'disabled') {
+        config.includeThoughts = true;
+        if (thinking.type === 'enabled' && thinking.budget_tokens) {
+            config.thinkingBudget = thinking.budget_tokens;
+        }
+    }
+    const effort = claudeRequest.output_config?.effort;
+    if (effort) {
+        // thinkingLevel 与 thinkingBudget 不能同时设置，有 effort 时以 effort 为准
+        delete config.thinkingBudget;
+        config.thinkingLevel = effort === 'low' ? 'low' : 'high';
+    }
+    return Object.keys(config).length > 0 ? config : undefined;
+}
+
+/**
+ * Converts a Claude API request to the Gemini generateContent format. 模型名在请求地址中，见 geminiRequestUrl。
+ */
+export function convertClaudeToGeminiRequest(claudeRequest: ClaudeMessagesRequest): GeminiRequest {
+    const contents: GeminiContent[] = [];
+    // functionResponse 需要函数名，按 tool_use id 查找
+    const toolNames = new Map<string, string>();
+
+    for (const message of claudeRequest.messages) {
+        const role = message.role === 'assistant' ? 'model' : 'user';
+        if (!Array.isArray(message.content)) {
+            if (message.content) contents.push({ role, parts: [{ text: message.content }] });
+            continue;
+        }
+
+        let parts: GeminiPart[];
+        if (message.role === 'assistant') {
+            message.content.filter(c => c.type === 'tool_use').forEach(block => toolNames.set(block.id!, block.name!));
+            parts = convertAssistantBlocks(message.content);
+        } else {
+            parts = [];
+            for (const block of message.content.filter(c => c.type === 'tool_result')) {
+                parts.push(...convertToolResult(block, toolNames.get(block.tool_use_id!) || 'unknown'));
+            }
+            for (const block of message.content.filter(c => c.type !== 'tool_result')) {
+                const part = convertUserBlock(block);
+                if (part) parts.push(part);
+            }
+        }
+        if (parts.length > 0) {
+            contents.push({ role, parts });
+        }
+    }
+
+    const geminiRequest: GeminiRequest = {
+        contents,
+        generationConfig: {
+            maxOutputTokens: claudeRequest.max_tokens,
+            temperature: claudeRequest.temperature,
+            topP: claudeRequest.top_p,
+            topK: claudeRequest.top_k,
+        },
+    };
+    const instructions = systemText(claudeRequest.system);
+    if (instructions) {
+        geminiRequest.systemInstruction = { parts: [{ text: instructions }] };
+    }
+    if (claudeRequest.stop_sequences?.length) {
+        geminiRequest.generationConfig.stopSequences = claudeRequest.stop_sequences.slice(0, MAX_STOP_SEQUENCES);
+    }
+    const thinking = thinkingConfig(claudeRequest);
+    if (thinking) {
+        geminiRequest.generationConfig.thinkingConfig = thinking;
+    }
+
+    const format = claudeRequest.output_config?.format;
+    if (format?.type === 'json_schema' && format.schema) {
+        geminiRequest.generationConfig.responseMimeType = 'application/json';
+        geminiRequest.generationConfig.responseJsonSchema = format.schema;
+    }
+
+    if (claudeRequest.tools?.length) {
+        // parametersJsonSchema 接受完整的 JSON Schema，不需要 recursivelyCleanSchema
+        geminiRequest.tools = [{
+            functionDeclarations: claudeRequest.tools.map(tool => ({
+                name: tool.name,
+                description: tool.description,
+                parametersJsonSchema: tool.input_schema,
+            })),
+        }];
+    }
+
+    const toolChoice = claudeRequest.tool_choice;
+    if (toolChoice) {
+        if (toolChoice.type === 'auto') {
+            geminiRequest.toolConfig = { functionCallingConfig: { mode: 'AUTO' } };
+        } else if (toolChoice.type === 'any') {
+            geminiRequest.toolConfig = { functionCallingConfig: { mode: 'ANY' } };
+        } else if (toolChoice.type === 'none') {
+            geminiRequest.toolConfig = { functionCallingConfig: { mode: 'NONE' } };
+        } else if (toolChoice.type === 'tool') {
+            geminiRequest.toolConfig = { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [toolChoice.name!] } };
+        }
+    }
+
+    return geminiRequest;
+}
+
+function mapResponseIdToClaude(id: string | undefined): string {
+    if (!id || typeof id !== 'string') return `msg_${Math.random().toString(36).substr(2, 9)}`;
+    return `msg_${id}`;
+}
+
+/**
+ * Gemini 通常不返回函数调用 id，按 responseId 和调用序号生成，重放录制时结果不变。
+ */
+function generateToolId(responseId: string | undefined, index: number): string {
+    const base = typeof responseId === 'string' ? responseId.replace(/[^a-zA-Z0-9_-]/g, '') : '';
+    return `${GENERATED_TOOL_ID_PREFIX}${base || Math.random().toString(36).substr(2, 12)}_${index}`;
+}
+
+/**
+ * usageMetadata -> Claude usage：输出包含推理 token，输入不含缓存命中的部分。
+ */
+function convertUsage(usage: any): ClaudeUsage {
+    const promptTokens = usage?.promptTokenCount || 0;
+    const cachedTokens = usage?.cachedContentTokenCount || 0;
+    return {
+        input_tokens: Math.max(0, promptTokens - cachedTokens),
+        output_tokens: (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0),
+        cache_read_input_tokens: cachedTokens,
+        cache_creation_input_tokens: 0,
+    };
+}
+
+const REFUSAL_FINISH_REASONS = new Set(['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY']);
+
+/**
+ * finishReason -> stop_reason；提示词被拦截（没有候选）时为 refusal。
+ */
+function stopReasonOf(response: any, hasToolUse: boolean): string {
+    const candidate = response?.candidates?.[0];
+    if (!candidate && response?.promptFeedback?.blockReason) return 'refusal';
+    const finishReason = candidate?.finishReason;
+    if (finishReason === 'MAX_TOKENS') return 'max_tokens';
+    if (REFUSAL_FINISH_REASONS.has(finishReason)) return 'refusal';
+    return hasToolUse ? 'tool_use' : 'end_turn';
+}
+
+/**
+ * Converts a non-streaming Gemini generateContent response to the Claude format.
+ */
+export function convertGeminiToClaudeResponse(response: any, model: string, stopSequences?: string[]): any {
+    const content: any[] = [];
+    let stopSequence: string | null = null;
+    const last = () => content[content.length - 1];
+    // thoughtSignature 放在其所属部分之前的 thinking 块中
+    const attachSignature = (signature: string) => {
+        const block = last();
+        if (block?.type === 'thinking' && !block.signature) {
+            block.signature = encodeThoughtSignature(signature);
+        } else {
+            content.push({ type: 'thinking', thinking: '', signature: encodeThoughtSignature(signature) });
+        }
+    };
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+        // 命中 stop 序列后丢弃之后的正文和推理内容，函数调用照常返回（与 Chat Completions 一致）
+        if (stopSequence && !part.functionCall) continue;
+        if (part.thought) {
+            if (last()?.type !== 'thinking' || last().signature) {
+                content.push({ type: 'thinking', thinking: '', signature: '' });
+            }
+            last().thinking += part.text || '';
+            if (part.thoughtSignature) last().signature = encodeThoughtSignature(part.thoughtSignature);
+            continue;
+        }
+        if (part.thoughtSignature) attachSignature(part.thoughtSignature);
+        if (part.functionCall) {
+            const toolIndex = content.filter(block => block.type === 'tool_use').length;
+            content.push({ type: 'tool_use', id: part.functionCall.id || generateToolId(response.responseId, toolIndex), name: part.functionCall.name, input: part.functionCall.args || {} });
+        } else if (typeof part.text === 'string') {
+            if (last()?.type === 'text') {
+                last().text += part.text;
+            } else {
+                content.push({ type: 'text', text: part.text });
+            }
+            const found = findStopSequence(last().text, stopSequences);
+            if (found) {
+                last().text = last().text.slice(0, found.index);
+                stopSequence = found.sequence;
+            }
+        }
+    }
+
+    return {
+        id: mapResponseIdToClaude(response.responseId),
+        type: 'message',
+        role: 'assistant',
+        model,
+        content: content.filter(block => block.type !== 'text' || block.text),
+        stop_reason: stopSequence ? 'stop_sequence' : stopReasonOf(response, content.some(block => block.type === 'tool_use')),
+        stop_sequence: stopSequence,
+        usage: convertUsage(response.usageMetadata),
+    };
+}
+
+interface OpenBlock {
+    kind: 'thinking' | 'text' | 'tool_use';
+    claudeIndex: number;
+    /**
+     * thinking 块的签名，在块结束前以 signature_delta 输出。
+     */
+    signature?: string;
+}
+
+/**
+ * Creates a transform function that converts a Gemini streamGenerateContent SSE stream to Claude SSE format.
+ * 每个数据块是一个完整的 GenerateContentResponse，正文和推理按增量给出，函数调用一次给出完整参数；带 finishReason 的数据块结束流。
+ */
+export function geminiStreamTransformer(
+    model: string,
+    progress: StreamProgress = { messageId: null, usage: null, generatedText: '', stopReason: null },
+    options: StreamTransformOptions = {}
+) {
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let messageId: string | null = null;
+    let nextIndex = 0;
+    let current: OpenBlock | null = null;
+    let hasToolUse = false;
+    let toolCount = 0;
+    let finished = false;
+    const stopMatcher = options.stopSequences?.length ? new StopSequenceMatcher(options.stopSequences) : null;
+
+    return (chunk: Uint8Array, controller: TransformStreamDefaultController) => {
+        const sendEvent = (event: string, data: object) => {
+            controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+        const start = (responseId?: string) => {
+            if (messageId) return;
+            messageId = mapResponseIdToClaude(responseId);
+            progress.messageId = messageId;
+            sendEvent('message_start', { type: 'message_start', message: { id: messageId, type: 'message', role: 'assistant', model, content: [], stop_reason: null, usage: { input_tokens: 0, output_tokens: 0 } } });
+        };
+        const sendDelta = (block: OpenBlock, delta: object) => {
+            progress.firstTokenAt ??= Date.now();
+            sendEvent('content_block_delta', { type: 'content_block_delta', index: block.claudeIndex, delta });
+        };
+        const stopBlock = () => {
+            if (!current) return;
+            if (current.kind === 'text') {
+                // 结束文本块前输出为匹配 stop 序列而暂存的文本
+                const held = stopMatcher?.flush();
+                if (held) {
+                    progress.generatedText += held;
+                    sendDelta(current, { type: 'text_delta', text: held });
+                }
+            } else if (current.kind === 'thinking' && current.signature) {
+                sendDelta(current, { type: 'signature_delta', signature: current.signature });
+            }
+            sendEvent('content_block_stop', { type: 'content_block_stop', index: current.claudeIndex });
+            current = null;
+        };
+        const openBlock = (kind: OpenBlock['kind'], contentBlock: object): OpenBlock => {
+            stopBlock();
+            const block: OpenBlock = { kind, claudeIndex: nextIndex++ };
+            current = block;
+            sendEvent('content_block_start', { type: 'content_block_start', index: block.claudeIndex, content_block: contentBlock });
+            return block;
+        };
+        const thinkingBlock = (): OpenBlock => {
+            if (current?.kind === 'thinking' && !current.signature) return current;
+            return openBlock('thinking', { type: 'thinking', thinking: '' });
+        };
+        // thoughtSignature 放在其所属部分之前的 thinking 块中，随后的部分另起新块
+        const attachSignature = (signature: string) => {
+            thinkingBlock().signature = encodeThoughtSignature(signature);
+            stopBlock();
+        };
+        const textDelta = (delta: string) => {
+            const text = stopMatcher ? stopMatcher.push(delta) : delta;
+            if (!text) return;
+            const block = current?.kind === 'text' ? current : openBlock('text', { type: 'text', text: '' });
+            progress.generatedText += text;
+            sendDelta(block, { type: 'text_delta', text });
+        };
+        const handlePart = (part: any, responseId: string | undefined) => {
+            if (part.thought) {
+                if (part.text) {
+                    progress.generatedText += part.text;
+                    sendDelta(thinkingBlock(), { type: 'thinking_delta', thinking: part.text });
+                }
+                if (part.thoughtSignature) attachSignature(part.thoughtSignature);
+                return;
+            }
+            if (part.functionCall) {
+                if (options.singleToolCall && hasToolUse) return;
+                if (part.thoughtSignature) attachSignature(part.thoughtSignature);
+                hasToolUse = true;
+                const id = part.functionCall.id || generateToolId(responseId, toolCount++);
+                const block = openBlock('tool_use', { type: 'tool_use', id, name: part.functionCall.name, input: {} });
+                // Gemini 的参数已经是对象，不需要修复，只按 input_schema 校验
+                const schema = options.toolSchemas?.[part.functionCall.name];
+                if (schema) recordInvalidToolUse(progress, id, part.functionCall.name, validateSchema(part.functionCall.args || {}, schema));
+                const args = JSON.stringify(part.functionCall.args || {});
+                progress.generatedText += args;
+                sendDelta(block, { type: 'input_json_delta', partial_json: args });
+                return;
+            }
+            if (part.thoughtSignature) attachSignature(part.thoughtSignature);
+            if (part.text) textDelta(part.text);
+        };
+        const finish = (response: any) => {
+            stopBlock();
+            const usage = convertUsage(response?.usageMetadata);
+            progress.usage = usage;
+            const stopSequence = stopMatcher?.matched ?? null;
+            const stopReason = stopSequence ? 'stop_sequence' : stopReasonOf(response, hasToolUse);
+            progress.stopReason = stopReason;
+            sendEvent('message_delta', { type: 'message_delta', delta: { stop_reason: stopReason, stop_sequence: stopSequence }, usage });
+            sendEvent('message_stop', { type: 'message_stop' });
+            finished = true;
+            controller.terminate();
+        };
+
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+            if (!line.startsWith('data:') || finished) continue;
+            let response: any;
+            try {
+                response = JSON.parse(line.substring(5).trim());
+            } catch {
+                continue;
+            }
+            if (response.error) {
+                stopBlock();
+                // Gemini 的错误体带有 HTTP 状态码
+                const status = typeof response.error.code === 'number' ? response.error.code : 500;
+                sendEvent('error', translateUpstreamError(status, JSON.stringify(response)).body);
+                finished = true;
+                controller.terminate();
+                continue;
+            }
+            start(response.responseId);
+            const candidate = response.candidates?.[0];
+            for (const part of candidate?.content?.parts || []) {
+                // 命中 stop 序列后只输出函数调用，并等待结束数据块中的 usage
+                if (stopMatcher?.matched && !part.functionCall) continue;
+                handlePart(part, response.responseId);
+            }
+            if (candidate?.finishReason || (!candidate && response.promptFeedback?.blockReason)) {
+                finish(response);
+            }
+        }
+    };
+}
@@ -0,0 +1,173 @@
+/**
+ * 单元测试：图片预处理
+ */
+import { describe, it, expect, vi } from 'vitest';
+import sharp from 'sharp';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { fetch as undiciFetch } from 'undici';
+import { ImageFetchOptions, ImageProcessingError, loadImagePolicy, pinnedDispatcher, processImages, resolveImagePolicy, STRIPPED_IMAGE_TEXT, transcodeImage } from './images';
+import type { ClaudeMessagesRequest } from './index';
+
+// example.com 的公网地址，测试不做真实的 DNS 解析
+const fetchOptions = { timeoutMs: 1000, maxBytes: 1024 * 1024, lookup: async () => [{ address: '93.184.215.14', family: 4 }] };
+
+function image(width: number, height: number, format: 'png' | 'webp' | 'jpeg') {
+    return sharp({ create: { width, height, channels: 3, background: '#3366cc' } })[format]().toBuffer();
+}
+
+function request(content: any[]): ClaudeMessagesRequest {
+    return { model: 'claude-test', max_tokens: 16, messages: [{ role: 'user', content }] };
+}
+
+describe('resolveImagePolicy', () => {
+    it('补全默认值，配置非法时抛出', () => {
+        expect(resolveImagePolicy({ mode: 'inline', maxPixels: 1e6 })).toEqual({ mode: 'inline', maxPixels: 1000000, maxBytes: 0, formats: [] });
+        expect(() => resolveImagePolicy({ mode: 'drop' as any })).toThrow(/images\.mode must be one of pass, inline, strip/);
+        expect(() => resolveImagePolicy({ formats: ['image/bmp'] })).toThrow(/images\.formats must only contain/);
+        expect(() => resolveImagePolicy({ maxBytes: -1 })).toThrow(/images\.maxBytes must be a non-negative number/);
+        expect(() => loadImagePolicy('{"mode":1}')).toThrow(/^Invalid IMAGE_POLICY: images\.mode/);
+    });
+});
+
+describe('transcodeImage', () => {
+    it('不需要处理时原样返回', async () => {
+        const png = await image(10, 10, 'png');
+        const result = await transcodeImage(png, 'image/png', resolveImagePolicy({ maxPixels: 1000, formats: ['image/png'] }));
+        expect(result.data).toBe(png);
+        expect(result.notes).toEqual([]);
+    });
+
+    it('webp 转换为 png，超出像素数时按比例缩小', async () => {
+        const result = await transcodeImage(await image(400, 200, 'webp'), 'image/webp', resolveImagePolicy({ maxPixels: 20000, formats: ['image/png', 'image/jpeg'] }));
+        expect(result.mediaType).toBe('image/png');
+        expect(await sharp(result.data).metadata()).toMatchObject({ format: 'png', width: 200, height: 100 });
+        expect(result.notes).toEqual(['converted image/webp -> image/png', 'resized 400x200 -> 200x100']);
+    });
+
+    it('超出字节数时压缩，无法解码时抛出 ImageProcessingError', async () => {
+        const noisy = await sharp(Buffer.from(Array.from({ length: 300 * 300 * 3 }, (_, i) => (i * 7919) % 251)), { raw: { width: 300, height: 300, channels: 3 } }).png().toBuffer();
+        const result = await transcodeImage(noisy, 'image/png', resolveImagePolicy({ maxBytes: 20000 }));
+        expect(result.data.length).toBeLessThanOrEqual(20000);
+        expect(result.mediaType).toBe('image/png');
+        await expect(transcodeImage(Buffer.from('not an image'), 'image/png', resolveImagePolicy({ maxBytes: 10 }))).rejects.toBeInstanceOf(ImageProcessingError);
+    });
+});
+
+describe('processImages', () => {
+    it('strip 模式以文本替换图片，包括 tool_result 中的图片', async () => {
+        const source = { type: 'base64' as const, media_type: 'image/png', data: 'AAAA' };
+        const { request: processed } = await processImages(request([
+            { type: 'image', source },
+            { type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: 'screenshot' }, { type: 'image', source }] },
+        ]), resolveImagePolicy({ mode: 'strip' }), fetchOptions);
+        expect(processed.messages[0].content).toEqual([
+            { type: 'text', text: STRIPPED_IMAGE_TEXT },
+            { type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: 'screenshot' }, { type: 'text', text: STRIPPED_IMAGE_TEXT }] },
+        ]);
+    });
+
+    it('inline 模式下载 URL 图片并以 base64 发送', async () => {
+        const jpeg = await image(8, 8, 'jpeg');
+        const fetch = vi.fn().mockResolvedValue(new Response(jpeg, { headers: { 'content-type': 'image/jpeg' } }));
+        const original = request([{ type: 'image', source: { type: 'url', url: 'https://example.com/a.jpg' } }]);
+        const result = await processImages(original, resolveImagePolicy({ mode: 'inline' }), { ...fetchOptions, fetch });
+        expect(fetch.mock.calls[0][0]).toBe('https://example.com/a.jpg');
+        expect(fetch.mock.calls[0][1].redirect).toBe('manual');
+        expect(result.request.messages[0].content).toEqual([{ type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: jpeg.toString('base64') } }]);
+        expect(result.notes).toEqual([`fetched image from example.com (${jpeg.length} bytes)`]);
+        expect((original.messages[0].content as any)[0].source.type).toBe('url');
+    });
+
+    it('下载失败或超出大小时抛出 ImageProcessingError', async () => {
+        const policy = resolveImagePolicy({ mode: 'inline' });
+        const url = request([{ type: 'image', source: { type: 'url', url: 'https://example.com/a.png' } }]);
+        await expect(processImages(url, policy, { ...fetchOptions, fetch: async () => new Response('', { status: 404 }) }))
+            .rejects.toThrow('Failed to fetch image: HTTP 404');
+        await expect(processImages(url, policy, { ...fetchOptions, maxBytes: 10, fetch: async () => new Response(new Uint8Array(100)) }))
+            .rejects.toThrow('Image exceeds 10 bytes');
+    });
+
+    describe('拒绝下载内部地址，错误信息不包含 URL', () => {
+        const policy = resolveImagePolicy({ mode: 'inline' });
+        const fetchUrl = (url: string, options: Partial<ImageFetchOptions> = {}) => {
+            const fetch = vi.fn(async () => new Response(new Uint8Array(10)));
+            const result = processImages(request([{ type: 'image', source: { type: 'url', url } }]), policy, { ...fetchOptions, fetch, ...options });
+            return { result, fetch };
+        };
+
+        it('非 http(s) 协议', async () => {
+            const { result, fetch } = fetchUrl('file:///etc/passwd');
+            await expect(result).rejects.toThrow(/^Image URL must use http or https$/);
+            expect(fetch).not.toHaveBeenCalled();
+        });
+
+        it.each([
+            ['回环地址', 'http://127.0.0.1/a.png'],
+            ['十进制写法的回环地址', 'http://2130706433/a.png'],
+            ['IPv6 回环地址', 'http://[::1]/a.png'],
+            ['IPv4 映射的回环地址', 'http://[::ffff:127.0.0.1]/a.png'],
+            ['链路本地地址（云元数据）', 'http://169.254.169.254/latest/meta-data/'],
+            ['私有地址', 'http://10.0.0.5/a.png'],
+            ['IPv6 唯一本地地址', 'http://[fd00::1]/a.png'],
+            ['NAT64 嵌入的回环地址', 'http://[64:ff9b::7f00:1]/a.png'],
+            ['6to4 嵌入的私有地址', 'http://[2002:a00:1::]/a.png'],
+        ])('%s', async (_, url) => {
+            const { result, fetch } = fetchUrl(url);
+            await expect(result).rejects.toThrow(/^Image URL resolves to a disallowed address$/);
+            expect(fetch).not.toHaveBeenCalled();
+        });
+
+        it('域名解析到私有地址，任一解析结果不允许即拒绝', async () => {
+            const lookup = async () => [{ address: '93.184.215.14', family: 4 }, { address: '192.168.1.10', family: 4 }];
+            const { result, fetch } = fetchUrl('https://images.internal.example/a.png', { lookup });
+            await expect(result).rejects.toThrow(/^Image URL resolves to a disallowed address$/);
+            expect(fetch).not.toHaveBeenCalled();
+        });
+
+        it('重定向到内部地址', async () => {
+            const fetch = vi.fn(async () => new Response(null, { status: 302, headers: { location: 'http://127.0.0.1:8080/admin' } }));
+            const { result } = fetchUrl('https://example.com/a.png', { fetch });
+            await expect(result).rejects.toThrow(/^Image URL resolves to a disallowed address$/);
+            expect(fetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('dispatcher 只连接校验过的地址，不再解析域名', async () => {
+            const server = createServer((_, res) => res.end('pinned'));
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+            try {
+                const { port } = server.address() as AddressInfo;
+                const dispatcher = pinnedDispatcher([{ address: '127.0.0.1', family: 4 }]);
+                const response = await undiciFetch(`http://rebind.invalid:${port}/a.png`, { dispatcher });
+                expect(await response.text()).toBe('pinned');
+                await dispatcher.close();
+            } finally {
+                server.close();
+            }
+        });
+
+        it('下载时传入固定地址的 dispatcher', async () => {
+            const { result, fetch } = fetchUrl('https://example.com/a.png');
+            await result.catch(() => {});
+            expect((fetch.mock.calls[0] as any[])[1].dispatcher).toBeDefined();
+        });
+
+        it('跟随公网地址之间的重定向', async () => {
+            const jpeg = await image(8, 8, 'jpeg');
+            const fetch = vi.fn()
+                .mockResolvedValueOnce(new Response(null, { status: 301, headers: { location: '/b.jpg' } }))
+                .mockResolvedValueOnce(new Response(jpeg, { headers: { 'content-type': 'image/jpeg' } }));
+            const { result } = fetchUrl('https://example.com/a.jpg', { fetch });
+            expect((await result).notes).toEqual([`fetched image from example.com (${jpeg.length} bytes)`]);
+            expect(fetch.mock.calls[1][0]).toBe('https://example.com/b.jpg');
+        });
+    });
+
+    it('pass 模式不下载 URL 图片', async () => {
+        const fetch = vi.fn();
+        const original = request([{ type: 'image', source: { type: 'url', url: 'https://example.com/a.png' } }]);
+        const result = await processImages(original, resolveImagePolicy({ maxPixels: 100 }), { ...fetchOptions, fetch });
+        expect(fetch).not.toHaveBeenCalled();
+        expect(result.request.messages[0].content).toEqual(original.messages[0].content);
+    });
+});
@@ -0,0 +1,417 @@
+/**
+ * 图片预处理
+ *
+ * 请求中的 image 块（包括 tool_result 中嵌套的图片）在转换为上游格式之前按图片策略处理：
+ * - mode: "inline" 时由代理下载 URL 图片，以 base64 发送（上游无法访问图片地址时使用）
+ * - maxPixels / maxBytes 超出时缩小并重新编码
+ * - formats 不包含的格式（如 webp）转换为其中的格式
+ * - mode: "strip" 时去掉所有图片，以文本占位（纯文本模型）
+ * 策略由 IMAGE_POLICY 给出默认值，路由中的 images 按上游覆盖（见 routing.ts）。
+ * 下载只允许 http(s)，解析到回环、私有、链路本地等地址的 URL 拒绝下载，重定向的每一跳都重新校验，
+ * 并且只连接校验过的地址。
+ */
+
+import type { LookupAddress } from 'dns';
+import { lookup as dnsLookup } from 'dns/promises';
+import { BlockList, isIP, LookupFunction } from 'net';
+import sharp from 'sharp';
+import { Agent, Dispatcher, fetch as undiciFetch } from 'undici';
+import type { ClaudeMessagesRequest, ClaudeTextBlock } from './index';
+
+export type ImageMode = 'pass' | 'inline' | 'strip';
+
+export interface ImagePolicy {
+    /**
+     * "pass"（默认，URL 图片原样交给上游）、"inline"（代理下载 URL 图片）或 "strip"（去掉图片）。
+     */
+    mode: ImageMode;
+    /**
+     * 单张图片的最大像素数（宽 × 高），0 表示不限制。
+     */
+    maxPixels: number;
+    /**
+     * 单张图片编码后的最大字节数，0 表示不限制。
+     */
+    maxBytes: number;
+    /**
+     * 上游接受的 media type，如 ["image/png", "image/jpeg"]；为空时不转换格式。
+     */
+    formats: string[];
+}
+
+export type ImagePolicyConfig = Partial<ImagePolicy>;
+
+export const DEFAULT_IMAGE_POLICY: ImagePolicy = { mode: 'pass', maxPixels: 0, maxBytes: 0, formats: [] };
+
+const IMAGE_MODES: readonly ImageMode[] = ['pass', 'inline', 'strip'];
+
+/**
+ * 可以作为转换目标的格式及对应的 sharp 编码器。
+ */
+const OUTPUT_FORMATS: Record<string, 'png' | 'jpeg' | 'webp' | 'gif'> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpeg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+};
+
+const MEDIA_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    gif: 'image/gif',
+    tiff: 'image/tiff',
+    heif: 'image/heif',
+    avif: 'image/avif',
+    svg: 'image/svg+xml',
+};
+
+export const STRIPPED_IMAGE_TEXT = '[image omitted: this model does not accept images]';
+
+/**
+ * 图片无法下载、解码或压缩到限制以内。该上游按失败处理并切换到下一个上游，所有上游都因此失败时按 400 invalid_request_error 返回。
+ */
+export class ImageProcessingError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImageProcessingError';
+    }
+}
+
+function nonNegative(value: unknown, field: string): number {
+    if (value === undefined) return 0;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        throw new Error(`images.${field} must be a non-negative number`);
+    }
+    return Math.floor(value);
+}
+
+/**
+ * 校验并补全图片策略，配置错误时抛出。
+ */
+export function resolveImagePolicy(config: ImagePolicyConfig | undefined): ImagePolicy {
+    if (config === undefined) return DEFAULT_IMAGE_POLICY;
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+        throw new Error('images must be an object');
+    }
+    const mode = config.mode ?? 'pass';
+    if (!IMAGE_MODES.includes(mode)) {
+        throw new Error(`images.mode must be one of ${IMAGE_MODES.join(', ')}`);
+    }
+    const formats = config.formats ?? [];
+    if (!Array.isArray(formats) || formats.some(format => !OUTPUT_FORMATS[format])) {
+        throw new Error(`images.formats must only contain ${Object.keys(OUTPUT_FORMATS).join(', ')}`);
+    }
+    return { mode, maxPixels: nonNegative(config.maxPixels, 'maxPixels'), maxBytes: nonNegative(config.maxBytes, 'maxBytes'), formats };
+}
+
+/**
+ * 从环境变量（JSON 字符串）解析默认图片策略，配置错误直接抛出。
+ */
+export function loadImagePolicy(raw: string | undefined, name = 'IMAGE_POLICY'): ImagePolicy {
+    if (!raw || !raw.trim()) return DEFAULT_IMAGE_POLICY;
+    try {
+        return resolveImagePolicy(JSON.parse(raw));
+    } catch (err: any) {
+        throw new Error(`Invalid ${name}: ${err.message}`);
+    }
+}
+
+/**
+ * 策略是否会改变请求中的图片。
+ */
+export function isPassthroughPolicy(policy: ImagePolicy): boolean {
+    return policy.mode === 'pass' && !policy.maxPixels && !policy.maxBytes && policy.formats.length === 0;
+}
+
+function isImageBlock(block: ClaudeTextBlock): boolean {
+    return block?.type === 'image' && !!block.source;
+}
+
+/**
+ * 请求中是否有图片（包括 tool_result 中的）。
+ */
+export function hasImages(request: ClaudeMessagesRequest): boolean {
+    return request.messages.some(message => Array.isArray(message.content) && message.content.some(block =>
+        isImageBlock(block) || (block.type === 'tool_result' && Array.isArray(block.content) && block.content.some(isImageBlock))));
+}
+
+export interface ImageFetchOptions {
+    timeoutMs: number;
+    /**
+     * 下载的最大字节数，超出时中止。
+     */
+    maxBytes: number;
+    signal?: AbortSignal;
+    /**
+     * 测试时注入，默认使用 undici 的 fetch。init.dispatcher 只连接校验过的地址。
+     */
+    fetch?: (url: string, init: RequestInit & { dispatcher: Dispatcher }) => Promise<Response>;
+    /**
+     * 测试时注入，默认使用 dns.promises.lookup 解析全部地址。
+     */
+    lookup?: (hostname: string) => Promise<LookupAddress[]>;
+}
+
+const MAX_IMAGE_REDIRECTS = 5;
+
+/**
+ * 不允许下载的地址：本网、私有、CGNAT、回环、链路本地、基准测试、组播和保留地址，
+ * 以及可以嵌入任意 IPv4 地址的 NAT64（64:ff9b::/96）和 6to4（2002::/16）。
+ * BlockList 按 IPv4 规则检查 IPv4 映射的 IPv6 地址（::ffff:127.0.0.1），无需单独列出。
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+    ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isBlockedAddress(address: string): boolean {
+    const family = isIP(address);
+    return family === 0 || BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+const defaultLookup = (hostname: string) => dnsLookup(hostname, { all: true, verbatim: true });
+
+// undici 的 Response 与全局 Response 只在类型上不同
+const defaultFetch = undiciFetch as unknown as NonNullable<ImageFetchOptions['fetch']>;
+
+/**
+ * 校验图片 URL：只允许 http(s)，主机的所有解析结果都必须是公网地址，返回校验过的地址。
+ * 错误信息不包含 URL，避免把内部地址回显给客户端。
+ */
+async function checkImageUrl(url: URL, options: ImageFetchOptions): Promise<LookupAddress[]> {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new ImageProcessingError('Image URL must use http or https');
+    }
+    const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+    let addresses: LookupAddress[];
+    if (isIP(hostname)) {
+        addresses = [{ address: hostname, family: isIP(hostname) }];
+    } else {
+        try {
+            addresses = await (options.lookup ?? defaultLookup)(hostname);
+        } catch {
+            throw new ImageProcessingError('Failed to fetch image: host could not be resolved');
+        }
+    }
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+        throw new ImageProcessingError('Image URL resolves to a disallowed address');
+    }
+    return addresses;
+}
+
+/**
+ * 只连接给定地址的 dispatcher。连接时不再解析域名，避免校验之后解析结果被换成内部地址（DNS rebinding）；
+ * TLS 仍按 URL 中的主机名校验证书。
+ */
+export function pinnedDispatcher(addresses: LookupAddress[]): Agent {
+    const lookup: LookupFunction = (_hostname, lookupOptions, callback) => {
+        if (lookupOptions.all) {
+            callback(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    };
+    return new Agent({ connect: { lookup } });
+}
+
+/**
+ * 下载 URL 图片，超时、客户端断开或超出大小时中止。重定向手动跟随，每一跳都经 checkImageUrl 校验。
+ */
+async function fetchImage(url: string, options: ImageFetchOptions): Promise<{ data: Buffer; mediaType?: string }> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(options.signal!.reason);
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = options.timeoutMs > 0 ? setTimeout(() => controller.abort(), options.timeoutMs) : undefined;
+    const dispatchers: Agent[] = [];
+    try {
+        let target: URL;
+        try {
+            target = new URL(url);
+        } catch {
+            throw new ImageProcessingError('Invalid image URL');
+        }
+        let response: Response;
+        for (let redirects = 0; ; redirects++) {
+            const dispatcher = pinnedDispatcher(await checkImageUrl(target, options));
+            dispatchers.push(dispatcher);
+            try {
+                response = await (options.fetch ?? defaultFetch)(target.href, { signal: controller.signal, redirect: 'manual', dispatcher });
+            } catch (err: any) {
+                options.signal?.throwIfAborted();
+                throw new ImageProcessingError(`Failed to fetch image: ${controller.signal.aborted ? 'timed out' : 'request failed'}`);
+            }
+            const location = response.status >= 300 && response.status < 400 ? response.headers.get('location') : null;
+            if (!location) break;
+            await response.body?.cancel();
+            if (redirects >= MAX_IMAGE_REDIRECTS) {
+                throw new ImageProcessingError(`Failed to fetch image: more than ${MAX_IMAGE_REDIRECTS} redirects`);
+            }
+            try {
+                target = new URL(location, target);
+            } catch {
+                throw new ImageProcessingError('Failed to fetch image: invalid redirect location');
+            }
+        }
+        if (!response.ok || !response.body) {
+            throw new ImageProcessingError(`Failed to fetch image: HTTP ${response.status}`);
+        }
+        const chunks: Uint8Array[] = [];
+        let size = 0;
+        const reader = response.body.getReader();
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            size += value.length;
+            if (options.maxBytes > 0 && size > options.maxBytes) {
+                await reader.cancel();
+                throw new ImageProcessingError(`Image exceeds ${options.maxBytes} bytes`);
+            }
+            chunks.push(value);
+        }
+        const mediaType = response.headers.get('content-type')?.split(';')[0].trim().toLowerCase();
+        return { data: Buffer.concat(chunks), mediaType: mediaType?.startsWith('image/') ? mediaType : undefined };
+    } finally {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+        dispatchers.forEach(dispatcher => dispatcher.destroy().catch(() => {}));
+    }
+}
+
+function encoder(image: sharp.Sharp, format: 'png' | 'jpeg' | 'webp' | 'gif', quality: number): sharp.Sharp {
+    switch (format) {
+        case 'jpeg':
+            // JPEG 没有透明通道，透明部分铺白底
+            return image.flatten({ background: '#ffffff' }).jpeg({ quality });
+        case 'webp':
+            return image.webp({ quality });
+        case 'gif':
+            return image.gif();
+        default:
+            return image.png({ compressionLevel: 9 });
+    }
+}
+
+/**
+ * 按策略缩小、转换和压缩一张图片；不需要改动时原样返回。
+ * 超出 maxBytes 时先降低 JPEG / WebP 质量，再逐步缩小尺寸。
+ */
+export async function transcodeImage(data: Buffer, mediaType: string | undefined, policy: ImagePolicy): Promise<{ data: Buffer; mediaType: string; notes: string[] }> {
+    let metadata: sharp.Metadata;
+    try {
+        metadata = await sharp(data).metadata();
+    } catch (err: any) {
+        throw new ImageProcessingError(`Could not decode image: ${err.message}`);
+    }
+    const sourceType = (metadata.format && MEDIA_TYPES[metadata.format]) || mediaType || 'application/octet-stream';
+    const width = metadata.width || 0;
+    const height = metadata.height || 0;
+    const convert = policy.formats.length > 0 && !policy.formats.includes(sourceType);
+    const oversized = policy.maxPixels > 0 && width * height > policy.maxPixels;
+    const tooLarge = policy.maxBytes > 0 && data.length > policy.maxBytes;
+    if (!convert && !oversized && !tooLarge) {
+        return { data, mediaType: sourceType, notes: [] };
+    }
+
+    const notes: string[] = [];
+    let targetType = sourceType;
+    if (convert) {
+        targetType = policy.formats.includes('image/png') ? 'image/png' : policy.formats[0];
+        notes.push(`converted ${sourceType} -> ${targetType}`);
+    } else if (!OUTPUT_FORMATS[targetType]) {
+        // 只需要缩小的非常见格式（tiff 等）重新编码为 PNG
+        targetType = 'image/png';
+    }
+    const format = OUTPUT_FORMATS[targetType];
+    let scale = oversized ? Math.sqrt(policy.maxPixels / (width * height)) : 1;
+    let quality = 85;
+    for (let attempt = 0; attempt < 8; attempt++) {
+        let image = sharp(data).rotate();
+        if (scale < 1) {
+            image = image.resize(Math.max(1, Math.floor(width * scale)), Math.max(1, Math.floor(height * scale)), { fit: 'inside' });
+        }
+        let output: { data: Buffer; info: sharp.OutputInfo };
+        try {
+            output = await encoder(image, format, quality).toBuffer({ resolveWithObject: true });
+        } catch (err: any) {
+            throw new ImageProcessingError(`Could not re-encode image: ${err.message}`);
+        }
+        if (policy.maxBytes === 0 || output.data.length <= policy.maxBytes) {
+            if (scale < 1) notes.push(`resized ${width}x${height} -> ${output.info.width}x${output.info.height}`);
+            if (policy.maxBytes > 0 && data.length > policy.maxBytes) notes.push(`compressed ${data.length} -> ${output.data.length} bytes`);
+            return { data: output.data, mediaType: targetType, notes };
+        }
+        if ((format === 'jpeg' || format === 'webp') && quality > 55) {
+            quality -= 15;
+        } else {
+            scale *= 0.75;
+        }
+    }
+    throw new ImageProcessingError(`Image could not be reduced below ${policy.maxBytes} bytes`);
+}
+
+export interface ProcessedImages {
+    request: ClaudeMessagesRequest;
+    /**
+     * 做过的处理，用于日志，如 "fetched image from example.com (1024 bytes)"、"resized 4000x3000 -> 1092x819"。
+     */
+    notes: string[];
+}
+
+/**
+ * 按策略处理请求中的所有图片（逐张处理，控制内存占用），返回新的请求，不修改原请求。
+ */
+export async function processImages(request: ClaudeMessagesRequest, policy: ImagePolicy, fetchOptions: ImageFetchOptions): Promise<ProcessedImages> {
+    const notes: string[] = [];
+    const processBlock = async (block: ClaudeTextBlock): Promise<ClaudeTextBlock> => {
+        if (policy.mode === 'strip') {
+            notes.push('stripped image');
+            return { type: 'text', text: STRIPPED_IMAGE_TEXT };
+        }
+        const source = block.source!;
+        let data: Buffer;
+        let mediaType: string | undefined;
+        if (source.type === 'url') {
+            if (policy.mode !== 'inline') return block;
+            const fetched = await fetchImage(source.url, fetchOptions);
+            // URL 可能带有签名等敏感参数，日志中只记录主机
+            notes.push(`fetched image from ${new URL(source.url).host} (${fetched.data.length} bytes)`);
+            data = fetched.data;
+            mediaType = fetched.mediaType;
+        } else {
+            data = Buffer.from(source.data, 'base64');
+            mediaType = source.media_type;
+        }
+        const transcoded = await transcodeImage(data, mediaType, policy);
+        notes.push(...transcoded.notes);
+        if (source.type === 'base64' && transcoded.data === data) return block;
+        return { ...block, source: { type: 'base64', media_type: transcoded.mediaType, data: transcoded.data.toString('base64') } };
+    };
+    const processContent = async (content: ClaudeTextBlock[]): Promise<ClaudeTextBlock[]> => {
+        const processed: ClaudeTextBlock[] = [];
+        for (const block of content) {
+            if (isImageBlock(block)) {
+                processed.push(await processBlock(block));
+            } else if (block.type === 'tool_result' && Array.isArray(block.content)) {
+                processed.push({ ...block, content: await processContent(block.content) });
+            } else {
+                processed.push(block);
+            }
+        }
+        return processed;
+    };
+
+    const messages = [];
+    for (const message of request.messages) {
+        messages.push(Array.isArray(message.content) ? { ...message, content: await processContent(message.content) } : message);
+    }
+    return { request: { ...request, messages }, notes };
+}
@@ -2,6 +2,9 @@
  * 单元测试：tool_result 中图片块的格式转换
  */
 import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { DIALECT_PROFILES } from './dialects';
+import { captureTransform, CaptureRecord } from './capture';
+import { replayRecord } from './replay';
 
 // mock 掉有副作用的模块，避免 import index.ts 时启动 express 服务
 vi.mock('express', () => {
@@ -31,11 +34,15 @@ vi.mock('winston-daily-rotate-file', () => ({ default: vi.fn() }));
 // 在 mock 之后再 import
 let convertImageBlockToOpenAI: typeof import('./index').convertImageBlockToOpenAI;
 let convertClaudeToOpenAIRequest: typeof import('./index').convertClaudeToOpenAIRequest;
+let streamTransformer: typeof import('./index').streamTransformer;
+let convertOpenAIToClaudeResponse: typeof import('./index').convertOpenAIToClaudeResponse;
 
 beforeAll(async () => {
     const mod = await import('./index');
     convertImageBlockToOpenAI = mod.convertImageBlockToOpenAI;
     convertClaudeToOpenAIRequest = mod.convertClaudeToOpenAIRequest;
+    streamTransformer = mod.streamTransformer;
+    convertOpenAIToClaudeResponse = mod.convertOpenAIToClaudeResponse;
 });
 
 // ============================================================
@@ -393,3 +400,266 @@ describe('convertClaudeToOpenAIRequest - tool_result 图片处理', () => {
         expect(result.model).toBe('gemini-3.0-pro-preview');
     });
 });
+
+// ============================================================
+// tool_choice 映射
+// ============================================================
+describe('convertClaudeToOpenAIRequest - tool_choice', () => {
+    const tools = [{ name: 'read', description: 'read file', input_schema: { type: 'object' } }];
+
+    it('any 映射为 required，disable_parallel_tool_use 映射为 parallel_tool_calls: false', () => {
+        const result = convertClaudeToOpenAIRequest({
+            model: 'claude-3-opus',
+            messages: [{ role: 'user', content: 'hi' }],
+            max_tokens: 1024,
+            tools,
+            tool_choice: { type: 'any', disable_parallel_tool_use: true },
+        }, 'gpt-4o');
+
+        expect(result.tool_choice).toBe('required');
+        expect(result.parallel_tool_calls).toBe(false);
+    });
+
+    it('没有 tools 时不设置 parallel_tool_calls', () => {
+        const result = convertClaudeToOpenAIRequest({
+            model: 'claude-3-opus',
+            messages: [{ role: 'user', content: 'hi' }],
+            max_tokens: 1024,
+            tool_choice: { type: 'auto', disable_parallel_tool_use: true },
+        }, 'gpt-4o');
+
+        expect(result.tool_choice).toBe('auto');
+        expect(result.parallel_tool_calls).toBeUndefined();
+    });
+});
+
+// ============================================================
+// 上游方言
+// ============================================================
+describe('convertClaudeToOpenAIRequest - dialect', () => {
+    const request: any = {
+        model: 'claude-3-opus',
+        max_tokens: 32000,
+        thinking: { type: 'enabled', budget_tokens: 10000 },
+        messages: [{ role: 'user', content: [{ type: 'text', text: 'hi', cache_control: { type: 'ephemeral' } }] }],
+    };
+
+    it('默认透传 thinking 和 cache_control', () => {
+        const result = convertClaudeToOpenAIRequest(request, 'gpt-4o');
+        expect(result.thinking).toEqual({ type: 'enabled', budget_tokens: 10000 });
+        expect((result.messages[0].content as any[])[0].cache_control).toEqual({ type: 'ephemeral' });
+    });
+
+    it('按传入的方言翻译', () => {
+        const result = convertClaudeToOpenAIRequest(request, 'gpt-4o', DIALECT_PROFILES.openai);
+        expect(result.thinking).toBeUndefined();
+        expect(result.reasoning_effort).toBe('medium');
+        expect((result.messages[0].content as any[])[0].cache_control).toBeUndefined();
+    });
+});
+
+// ============================================================
+// 录制与重放
+// ============================================================
+describe('录制与重放', () => {
+    const encoder = new TextEncoder();
+    const chunk = (data: any) => `data: ${JSON.stringify(data)}\n\n`;
+
+    it('录制的流式响应经 streamTransformer 重放后一致', async () => {
+        const upstreamChunks = [
+            chunk({ id: 'chatcmpl-abc', choices: [{ index: 0, delta: { role: 'assistant', content: 'Hello ' } }] }),
+            // SSE 行跨数据块
+            chunk({ id: 'chatcmpl-abc', choices: [{ index: 0, delta: { content: 'world' }, finish_reason: 'stop' }] }).slice(0, 20),
+            chunk({ id: 'chatcmpl-abc', choices: [{ index: 0, delta: { content: 'world' }, finish_reason: 'stop' }] }).slice(20),
+            chunk({ id: 'chatcmpl-abc', choices: [], usage: { prompt_tokens: 5, completion_tokens: 2 } }),
+            'data: [DONE]\n\n',
+        ];
+        const record: CaptureRecord = {
+            id: 'req_1',
+            timestamp: new Date().toISOString(),
+            model: 'claude-test',
+            claude_request: { model: 'claude-test', max_tokens: 16, messages: [], stream: true },
+            stream: true,
+            transform_options: { stopSequences: ['world'] },
+        };
+        const source = new ReadableStream<Uint8Array>({
+            start(controller) {
+                upstreamChunks.forEach(text => controller.enqueue(encoder.encode(text)));
+                controller.close();
+            },
+        });
+        const transform = new TransformStream({ transform: streamTransformer('claude-test', undefined, record.transform_options) });
+        await new Response(captureTransform(source, transform, record)).text();
+        expect(record.claude_sse).toContain('"stop_reason":"stop_sequence"');
+
+        const converters = {
+            streamTransformer: (model: string, options: any) => streamTransformer(model, undefined, options),
+            convertResponse: (response: any, model: string, options: any) => convertOpenAIToClaudeResponse(response, model, options.stopSequences),
+        };
+        expect(await replayRecord(record, converters)).toEqual({ id: 'req_1', status: 'ok' });
+        const changed = await replayRecord({ ...record, transform_options: {} }, converters);
+        expect(changed.status).toBe('diff');
+    });
+});
+
+describe('工具参数修复', () => {
+    const chunk = (data: any) => `data: ${JSON.stringify(data)}\n\n`;
+
+    it('非流式响应中不合法的参数被修复，不再抛出异常', () => {
+        const result = convertOpenAIToClaudeResponse({
+            id: 'chatcmpl-abc',
+            choices: [{ index: 0, finish_reason: 'tool_calls', message: { role: 'assistant', content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'read', arguments: '{"path": "a.ts",}' } }] } }],
+            usage: { prompt_tokens: 10, completion_tokens: 5 },
+        }, 'claude-test');
+        expect(result.content).toEqual([{ type: 'tool_use', id: 'call_1', name: 'read', input: { path: 'a.ts' } }]);
+    });
+
+    it('设置 toolSchemas 时缓存流式参数，修复后一次性输出', async () => {
+        const progress = { messageId: null, usage: null, generatedText: '', stopReason: null } as any;
+        const transform = streamTransformer('claude-test', progress, { toolSchemas: { read: { type: 'object', required: ['path', 'limit'] } } });
+        const sse = [
+            chunk({ id: 'chatcmpl-abc', choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'read', arguments: '{"path": ' } }] } }] }),
+            chunk({ id: 'chatcmpl-abc', choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '"a.ts"' } }] }, finish_reason: 'length' }] }),
+            'data: [DONE]\n\n',
+        ].join('');
+        const text = await new Response(new Blob([sse]).stream().pipeThrough(new TransformStream({ transform }))).text();
+        const deltas = text.split('\n\n').filter(event => event.includes('input_json_delta')).map(event => JSON.parse(event.split('\n')[1].slice(6)).delta.partial_json);
+        expect(deltas).toEqual(['{"path":"a.ts"}']);
+        expect(progress.invalidToolUses).toEqual([{ id: 'call_1', name: 'read', errors: ['input: missing required property "limit"'] }]);
+    });
+});
+
+describe('首 token 时间', () => {
+    it('只在输出第一个内容增量时记录，message_start 不计入', () => {
+        const progress = { messageId: null, usage: null, generatedText: '', stopReason: null } as any;
+        const transform = streamTransformer('claude-test', progress);
+        const controller = { enqueue: vi.fn(), terminate: vi.fn() } as any;
+        const encode = (data: any) => new TextEncoder().encode(`data: ${JSON.stringify(data)}\n\n`);
+        transform(encode({ id: 'chatcmpl-abc', choices: [{ index: 0, delta: { role: 'assistant', content: '' } }] }), controller);
+        expect(controller.enqueue).toHaveBeenCalled();
+        expect(progress.firstTokenAt).toBeUndefined();
+        transform(encode({ id: 'chatcmpl-abc', choices: [{ index: 0, delta: { content: 'hi' } }] }), controller);
+        expect(progress.firstTokenAt).toEqual(expect.any(Number));
+    });
+});
+
+describe('提示词模拟工具调用', () => {
+    const chunk = (data: any) => `data: ${JSON.stringify(data)}\n\n`;
+
+    it('非流式响应中的 <tool_call> 块转换为 tool_use，stop_reason 为 tool_use', () => {
+        const result = convertOpenAIToClaudeResponse({
+            id: 'chatcmpl-abc',
+            choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: 'Reading.\n<tool_call>\n{"name": "read", "input": {"path": "a.ts"}}\n</tool_call>' } }],
+            usage: { prompt_tokens: 10, completion_tokens: 5 },
+        }, 'claude-test', undefined, true);
+        expect(result.content).toEqual([
+            { type: 'text', text: 'Reading.' },
+            { type: 'tool_use', id: 'toolu_abc_0', name: 'read', input: { path: 'a.ts' } },
+        ]);
+        expect(result.stop_reason).toBe('tool_use');
+    });
+
+    it('正文命中 stop 序列时保留之前的工具调用，只截断之后的内容', () => {
+        const call = '<tool_call>\n{"name": "read", "input": {"path": "a###.ts"}}\n</tool_call>';
+        const result = convertOpenAIToClaudeResponse({
+            id: 'chatcmpl-abc',
+            choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: `Reading.\n${call}\nDone.###\n${call}` } }],
+            usage: { prompt_tokens: 10, completion_tokens: 5 },
+        }, 'claude-test', ['###'], true);
+        expect(result.content).toEqual([
+            { type: 'text', text: 'Reading.' },
+            { type: 'tool_use', id: 'toolu_abc_0', name: 'read', input: { path: 'a###.ts' } },
+            { type: 'text', text: 'Done.' },
+        ]);
+        expect(result.stop_reason).toBe('stop_sequence');
+        expect(result.stop_sequence).toBe('###');
+
+        const native = convertOpenAIToClaudeResponse({
+            id: 'chatcmpl-abc',
+            choices: [{ index: 0, finish_reason: 'tool_calls', message: { role: 'assistant', content: 'Reading.###', tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'read', arguments: '{"path":"a.ts"}' } }] } }],
+            usage: { prompt_tokens: 10, completion_tokens: 5 },
+        }, 'claude-test', ['###']);
+        expect(native.content).toEqual([
+            { type: 'text', text: 'Reading.' },
+            { type: 'tool_use', id: 'call_1', name: 'read', input: { path: 'a.ts' } },
+        ]);
+    });
+
+    it('流式响应中正文命中 stop 序列后，同一增量及之后的原生工具调用照常输出', async () => {
+        const transform = streamTransformer('claude-test', undefined, { stopSequences: ['STOP'] });
+        const toolCall = { index: 0, id: 'call_1', type: 'function', function: { name: 'read', arguments: '{"path":"a.ts"}' } };
+        const sse = [
+            chunk({ id: 'chatcmpl-abc', choices: [{ index: 0, delta: { content: 'hi STOP tail', tool_calls: [toolCall] } }] }),
+            chunk({ id: 'chatcmpl-abc', choices: [{ index: 0, delta: { content: 'more' }, finish_reason: 'tool_calls' }] }),
+            'data: [DONE]\n\n',
+        ].join('');
+        const text = await new Response(new Blob([sse]).stream().pipeThrough(new TransformStream({ transform }))).text();
+        const events = text.split('\n\n').filter(Boolean).map(event => JSON.parse(event.split('\n')[1].slice(6)));
+        expect(events.filter(event => event.type !== 'message_start' && event.type !== 'message_delta' && event.type !== 'message_stop')).toEqual([
+            { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'hi ' } },
+            { type: 'content_block_stop', index: 0 },
+            { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'call_1', name: 'read', input: {} } },
+            { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"path":"a.ts"}' } },
+            { type: 'content_block_stop', index: 1 },
+        ]);
+        expect(events.find(event => event.type === 'message_delta').delta).toEqual({ stop_reason: 'stop_sequence', stop_sequence: 'STOP' });
+    });
+
+    it('流式响应中增量解析，标记跨越多个数据块', async () => {
+        const transform = streamTransformer('claude-test', undefined, { promptToolCalls: true });
+        const sse = ['Reading.\n<tool', '_call>{"name": "read", "input": {"path"', ': "a.ts"}}</tool_call>']
+            .map(content => chunk({ id: 'chatcmpl-abc', choices: [{ index: 0, delta: { content } }] }))
+            .concat(chunk({ id: 'chatcmpl-abc', choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] }), 'data: [DONE]\n\n')
+            .join('');
+        const text = await new Response(new Blob([sse]).stream().pipeThrough(new TransformStream({ transform }))).text();
+        const events = text.split('\n\n').filter(Boolean).map(event => JSON.parse(event.split('\n')[1].slice(6)));
+        expect(events.filter(event => event.type !== 'message_start' && event.type !== 'message_delta' && event.type !== 'message_stop')).toEqual([
+            { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Reading.' } },
+            { type: 'content_block_stop', index: 0 },
+            { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_abc_0', name: 'read', input: {} } },
+            { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"path":"a.ts"}' } },
+            { type: 'content_block_stop', index: 1 },
+        ]);
+        expect(events.find(event => event.type === 'message_delta').delta.stop_reason).toBe('tool_use');
+    });
+
+    const promptStreamEvents = async (contents: string[], stopSequences?: string[]) => {
+        const transform = streamTransformer('claude-test', undefined, { promptToolCalls: true, stopSequences });
+        const sse = contents
+            .map(content => chunk({ id: 'chatcmpl-abc', choices: [{ index: 0, delta: { content } }] }))
+            .concat(chunk({ id: 'chatcmpl-abc', choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] }), 'data: [DONE]\n\n')
+            .join('');
+        const text = await new Response(new Blob([sse]).stream().pipeThrough(new TransformStream({ transform }))).text();
+        return text.split('\n\n').filter(Boolean).map(event => JSON.parse(event.split('\n')[1].slice(6)));
+    };
+    const contentEvents = (events: any[]) => events.filter(event => event.type !== 'message_start' && event.type !== 'message_delta' && event.type !== 'message_stop');
+
+    it('同一增量中的正文和调用按顺序输出，调用之后的正文开始新的文本块', async () => {
+        const events = await promptStreamEvents(['before <tool_call>{"name": "read", "input": {"path": "a.ts"}}</tool_call> after']);
+        expect(contentEvents(events)).toEqual([
+            { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'before' } },
+            { type: 'content_block_stop', index: 0 },
+            { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_abc_0', name: 'read', input: {} } },
+            { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"path":"a.ts"}' } },
+            { type: 'content_block_stop', index: 1 },
+            { type: 'content_block_start', index: 2, content_block: { type: 'text', text: '' } },
+            { type: 'content_block_delta', index: 2, delta: { type: 'text_delta', text: 'after' } },
+            { type: 'content_block_stop', index: 2 },
+        ]);
+    });
+
+    it('命中 stop 序列前的调用保留（包括结束时才解析出的），之后的正文和调用不输出', async () => {
+        const call = '<tool_call>{"name": "read", "input": {"path": "a.ts"}}</tool_call>';
+        const events = await promptStreamEvents([`${call} Done.###`, ` ${call}`], ['###']);
+        expect(contentEvents(events).filter(event => event.type === 'content_block_start').map(event => event.content_block.type)).toEqual(['tool_use', 'text']);
+        expect(events.find(event => event.type === 'message_delta').delta).toEqual({ stop_reason: 'stop_sequence', stop_sequence: '###' });
+
+        const flushed = await promptStreamEvents(['<tool_call>{"name": "read", "input": {"path": "a.ts"}}'], ['###']);
+        expect(contentEvents(flushed).filter(event => event.type === 'content_block_start').map(event => event.content_block)).toEqual([
+            { type: 'tool_use', id: 'toolu_abc_0', name: 'read', input: {} },
+        ]);
+    });
+});
@@ -7,17 +7,55 @@
  *
  * Features:
  * - Full support for the /v1/messages endpoint.
+ * - Configurable model routing table (exact names and wildcard patterns) mapping Claude models to upstreams.
+ * - Ordered upstream fallback chains with failover on connection errors, 5xx, 429 and first-byte timeouts.
+ * - Reverse mode: OpenAI /v1/chat/completions served on top of an Anthropic-format upstream.
+ * - Upstream retry policy with jittered exponential backoff honoring Retry-After / x-ratelimit-reset-* headers.
+ * - Anthropic-shaped error envelopes for every failure path, including `event: error` mid-stream.
+ * - Message Batches API (/v1/messages/batches) executed by the proxy, persisted locally and resumed after restarts.
+ * - /v1/messages/count_tokens backed by a local tokenizer (optionally forwarded to an upstream tokenize endpoint).
  * - Correctly handles and translates tool calls (function calling), including cleaning schemas
  * for compatibility with strict APIs like Google Gemini.
- * - Supports streaming responses (Server-Sent Events).
+ * - Honors tool_choice "any" and disable_parallel_tool_use, optionally enforcing them on upstreams that ignore the hints.
+ * - Prompt-based tool calling for models without native function calling, parsed back into tool_use blocks (also when streaming).
+ * - Emulates structured output (output_config.format) on upstreams without json_schema support, validating and retrying locally.
+ * - Image pipeline per upstream: inline URL images, downscale / re-encode to pixel and byte budgets, convert formats or strip images.
+ * - Supports streaming responses (Server-Sent Events), with keepalive pings and an upstream idle timeout.
+ * - Cancels the upstream request when the client disconnects, logging the tokens consumed so far.
+ * - Prometheus /metrics endpoint (requests, latency, time-to-first-token, in-flight streams, tokens, upstream errors).
+ * - Structured JSON access log (one record per request) written to daily-rotated files via winston.
  * - Designed for easy deployment on any Node.js hosting platform.
  */
 
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-// import { appendFile } from 'fs/promises';
-// import { join } from 'path';
+import { countRequestTokens, getTokenizerForModel } from './tokenizer';
+import { applyRouteDefaults, listUpstreams, loadModelRoutes, matchesModel, resolveTarget, UpstreamApi, UpstreamTarget } from './routing';
+import { FailoverResult, fetchWithFailover, formatAttempts, UpstreamUnavailableError } from './upstream';
+import { loadRetryPolicy } from './retry';
+import { anthropicErrorBody, errorTypeForStatus, sendAnthropicError, sendTranslatedError, TranslatedError, translateUpstreamError, upstreamRequestIdOf } from './errors';
+import { claudeStreamTransformer, convertClaudeToOpenAIResponse, convertOpenAIToClaudeRequest, toOpenAIErrorBody } from './reverse';
+import { AccessLogRecord, apiKeyFingerprint, logCategory, logger, writeAccessLog } from './logger';
+import { recordRequest, recordUpstreamAttempts, renderMetrics, routeLabel, trackInflightStream } from './metrics';
+import { ANTHROPIC_PING_EVENT, SSE_COMMENT_PING, startPings, UpstreamIdleTimeoutError, withIdleTimeout, withPings } from './keepalive';
+import { BatchCredential, BatchError, BatchResult, createBatchManager, MessageBatch, validateBatchRequests } from './batches';
+import { disallowsParallelToolUse, enforceToolChoice, parseToolChoiceEnforcement, requiresToolCall, ToolChoiceEnforcement } from './toolChoice';
+import { enforceToolArgs, InvalidToolUse, parseToolArgsRepair, recordInvalidToolUse, resolveToolArguments, toolSchemasOf, ToolArgsRepair } from './toolArgs';
+import { enforceStructuredOutput, requestJsonMode, structuredOutputModeOf, withSchemaInstructions } from './structuredOutput';
+import { parseToolCallText, promptToolUseId, ToolCallTextEvent, ToolCallTextParser, withPromptTools } from './toolPrompt';
+import { claudeMessageToSse } from './sse';
+import { hasImages, ImagePolicy, ImageProcessingError, isPassthroughPolicy, loadImagePolicy, processImages } from './images';
+import { findStopSequence, mapFinishReason, reportedStopSequence, StopSequenceMatcher } from './stopReason';
+import { applyDialect, DIALECT_PROFILES, DialectProfile, normalizeReasoning, ReasoningField, resolveDialect } from './dialects';
+import { captureTransform, CaptureRecord, createCaptureWriter } from './capture';
+import { createFileStore, createRateLimiter, hasRateLimits, loadRateLimitConfig } from './rateLimit';
+import { createVirtualKeyStore, requestedModels, VirtualKeyError } from './virtualKeys';
+import { aggregateUsage, createUsageLedger, loadModelPrices, totalUsage, toUsageRecord, USAGE_GROUP_BY, UsageGroupBy, usageToCsv } from './usage';
+import { createModelCatalog, ModelInfo, paginateModels } from './models';
+import { convertClaudeToResponsesRequest, convertResponsesToClaudeResponse, responsesStreamTransformer, ResponsesRequest } from './responses';
+import { convertClaudeToGeminiRequest, convertGeminiToClaudeResponse, geminiRequestUrl, geminiStreamTransformer, GeminiRequest } from './gemini';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
 
 // 加载环境变量
 dotenv.config();
@@ -34,11 +72,93 @@ export interface Env {
     OPENAI_BASE_URL: string;
     OPENAI_API_KEY?: string;
     PORT: string;
+    /**
+     * count_tokens 计数方式："local"（默认，本地估算）或 "upstream"（优先调用上游 tokenize 接口，失败时回退本地）。
+     */
+    COUNT_TOKENS_MODE: "local" | "upstream";
+    /**
+     * 上游 tokenize 接口的完整 URL，默认为路由到的上游 `${baseUrl}/tokenize`。
+     */
+    COUNT_TOKENS_UPSTREAM_URL?: string;
+    /**
+     * 等待上游响应头（流式请求为第一个数据块）的超时时间，超时后切换到下一个上游；0 表示不限制。
+     */
+    UPSTREAM_FIRST_BYTE_TIMEOUT_MS: number;
+    /**
+     * 流式响应空闲时发送 ping 的间隔；0 表示不发送。
+     */
+    STREAM_PING_INTERVAL_MS: number;
+    /**
+     * 流式响应开始后上游持续无数据的超时时间，超时以 event: error 结束流；0 表示不限制。
+     */
+    UPSTREAM_IDLE_TIMEOUT_MS: number;
+    /**
+     * Message Batches 的持久化目录。
+     */
+    BATCHES_DIR: string;
+    /**
+     * 所有批次合计同时执行的请求数。
+     */
+    BATCH_CONCURRENCY: number;
+    /**
+     * 上游忽略 tool_choice 约束时的处理方式："off"（默认，不处理）、"truncate"（只保留第一个工具调用）、
+     * "reask"（另外在要求调用工具却没有调用时重新请求一次）。
+     */
+    TOOL_CHOICE_ENFORCEMENT: ToolChoiceEnforcement;
+    /**
+     * 工具参数不是合法 JSON 或不符合 input_schema 时的处理方式："off"（默认，只在非流式响应中修复）、
+     * "repair"（流式响应中缓存参数，修复后一次性输出）、"reask"（另外在无法修复或校验失败时重新请求一次）。
+     */
+    TOOL_ARGS_REPAIR: ToolArgsRepair;
+    /**
+     * 模拟结构化输出（路由配置 structuredOutput 为 json_object / prompt）时，输出不符合 schema 后最多重新请求的次数。
+     */
+    STRUCTURED_OUTPUT_RETRIES: number;
+    /**
+     * 路由表未指定 dialect 的上游使用的方言，默认 "passthrough"（原样透传 Claude 专有字段）。
+     */
+    UPSTREAM_DIALECT: string;
+    /**
+     * 路由表未指定 images 的上游使用的图片策略（JSON），默认原样透传图片，见 images.ts。
+     */
+    IMAGE_POLICY?: string;
+    /**
+     * 下载 URL 图片（图片策略 mode 为 inline）的超时时间；0 表示不限制。
+     */
+    IMAGE_FETCH_TIMEOUT_MS: number;
+    /**
+     * 下载 URL 图片的最大字节数，超出时以 400 拒绝请求；0 表示不限制。
+     */
+    IMAGE_FETCH_MAX_BYTES: number;
+    /**
+     * 录制文件路径（JSONL），设置后记录 /v1/messages 的请求、上游原始响应和转换结果，供 replay 离线重放；默认不录制。
+     */
+    CAPTURE_FILE?: string;
+    /**
+     * 虚拟 key 文件，设置后只接受代理签发的 key，上游使用 key 映射的凭据（缺省为 OPENAI_API_KEY）；默认透传客户端 key。
+     */
+    VIRTUAL_KEYS_FILE?: string;
+    /**
+     * 用量账本目录，按天写入 usage-YYYY-MM-DD.jsonl；为空时不记录。
+     */
+    USAGE_LEDGER_DIR: string;
+    /**
+     * 可以通过 /v1/usage 查看所有 key 用量的管理 key；其他 key 只能查看自己的用量。
+     */
+    USAGE_ADMIN_KEY?: string;
+    /**
+     * /v1/models 缓存上游模型列表的时间（毫秒），0 表示每次都请求上游。
+     */
+    MODELS_CACHE_TTL_MS: number;
+    /**
+     * 反向模式（/v1/chat/completions）使用的 Anthropic 格式上游，不含 /v1，如 https://api.anthropic.com。
+     */
+    ANTHROPIC_BASE_URL: string;
 }
 
 // --- Claude API Types ---
 
-interface ClaudeTool {
+export interface ClaudeTool {
     name: string;
     description?: string;
     input_schema: any;
@@ -63,6 +183,8 @@ export interface ClaudeTextBlock {
     input?: any;
     tool_use_id?: string;
     content?: any;
+    // tool_result 表示工具执行失败
+    is_error?: boolean;
     // 透传 Anthropic 的 cache_control 字段（例如 { type: "ephemeral" }）
     cache_control?: any;
 }
@@ -71,7 +193,7 @@ type ClaudeContent =
     | string
     | ClaudeTextBlock[];
 
-interface ClaudeMessage {
+export interface ClaudeMessage {
     role: "user" | "assistant";
     content: ClaudeContent;
 }
@@ -88,7 +210,7 @@ interface ClaudeOutputConfig {
 export interface ClaudeMessagesRequest {
     model: string;
     messages: ClaudeMessage[];
-    system?: string;
+    system?: string | ClaudeTextBlock[];
     max_tokens: number;
     stop_sequences?: string[];
     stream?: boolean;
@@ -96,7 +218,7 @@ export interface ClaudeMessagesRequest {
     top_p?: number;
     top_k?: number;
     tools?: ClaudeTool[];
-    tool_choice?: { type: "auto" | "any" | "none" | "tool"; name?: string };
+    tool_choice?: { type: "auto" | "any" | "none" | "tool"; name?: string; disable_parallel_tool_use?: boolean };
     thinking?: {
         type: "enabled" | "disabled" | "adaptive";
         budget_tokens?: number;
@@ -105,6 +227,13 @@ export interface ClaudeMessagesRequest {
     output_config?: ClaudeOutputConfig;
 }
 
+export interface ClaudeUsage {
+    input_tokens: number;
+    output_tokens: number;
+    cache_read_input_tokens?: number;
+    cache_creation_input_tokens?: number;
+}
+
 // --- OpenAI API Types ---
 
 // 扩展 OpenAI 文本块类型，允许附带 cache_control 等控制字段透传
@@ -130,7 +259,7 @@ export interface OpenAIMessage {
     cache_control?: any;
 }
 
-interface OpenAIToolCall {
+export interface OpenAIToolCall {
     id: string;
     type: "function";
     function: {
@@ -141,16 +270,24 @@ interface OpenAIToolCall {
     cache_control?: any;
 }
 
-interface OpenAIRequest {
+export interface OpenAIRequest {
     model: string;
     messages: OpenAIMessage[];
     max_tokens?: number;
+    max_completion_tokens?: number;
     temperature?: number;
     top_p?: number;
-    stop?: string[];
+    stop?: string | string[];
     stream?: boolean;
     tools?: Array<{ type: "function"; function: any }>;
-    tool_choice?: "auto" | "none" | { type: "function"; function: { name: string } };
+    tool_choice?: "auto" | "none" | "required" | { type: "function"; function: { name: string } };
+    parallel_tool_calls?: boolean;
+    reasoning_effort?: string;
+    // 各上游方言的推理参数，见 dialects.ts
+    reasoning?: { max_tokens?: number; enabled?: boolean };
+    enable_thinking?: boolean;
+    thinking_budget?: number;
+    chat_template_kwargs?: { [key: string]: any };
     stream_options?: { include_usage: boolean };
     thinking?: {
         type: "enabled" | "disabled" | "adaptive";
@@ -175,8 +312,6 @@ interface OpenAIRequest {
 
 const app = express();
 const PORT = process.env.PORT || 8092;
-const DEBUG_STOP_REASON = process.env.DEBUG_STOP_REASON === '1';
-const DEBUG_UPSTREAM_IO = process.env.DEBUG_UPSTREAM_IO === '1';
 
 function sanitizeHeadersForLog(headers: Record<string, string>): Record<string, string> {
     const sanitized: Record<string, string> = { ...headers };
@@ -186,29 +321,627 @@ function sanitizeHeadersForLog(headers: Record<string, string>): Record<string,
     if (sanitized.authorization) {
         sanitized.authorization = 'Bearer ***';
     }
-    return sanitized;
-}
-
-function stringifyForDebug(value: unknown): string {
-    try {
-        return JSON.stringify(value, null, 2);
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return `{"_debug_error":"failed_to_stringify","message":"${errorMessage}"}`;
+    if (sanitized['x-api-key']) {
+        sanitized['x-api-key'] = '***';
     }
+    if (sanitized['x-goog-api-key']) {
+        sanitized['x-goog-api-key'] = '***';
+    }
+    return sanitized;
 }
 
 // 中间件
 app.use(cors());
+
+// 访问日志：/v1 下每个请求一条记录，各路由通过 res.locals.access 补充上游、usage 等字段。
+// 放在 express.json 之前，请求体解析失败的请求同样会被记录。
+app.use('/v1', (req, res, next) => {
+    if (req.method === 'OPTIONS') {
+        return next();
+    }
+    const startedAt = Date.now();
+    const apiKey = extractApiKey(req);
+    const access: AccessLogRecord = {
+        request_id: `req_${randomUUID().replace(/-/g, '')}`,
+        method: req.method,
+        route: req.originalUrl.split('?')[0],
+        real_ip: resolveRealIp(req),
+        key_fingerprint: apiKey ? apiKeyFingerprint(apiKey) : undefined,
+        stream: false,
+    };
+    res.locals.access = access;
+    res.locals.startedAt = startedAt;
+    res.setHeader('X-Proxy-Request-Id', access.request_id);
+    res.once('close', () => {
+        // 推迟到同一 close 事件的其他监听器（各路由补充 usage、取消日志）执行之后再写入
+        process.nextTick(() => {
+            access.model ??= req.body?.model;
+            access.stream = access.stream || !!req.body?.stream;
+            access.status = res.statusCode;
+            access.latency_ms = Date.now() - startedAt;
+            if (!res.writableFinished) access.cancelled = true;
+            writeAccessLog(access);
+            recordRequest(access, { routes: routeLabel(access.route) === '/v1/chat/completions' ? reverseModelRoutes : modelRoutes });
+            if (req.method === 'POST' && USAGE_ROUTES.has(access.route)) recordUsage(access);
+        });
+    });
+    next();
+});
+
+// 批次请求体可能远大于单个请求，单独放宽限制（与 Anthropic 的 256MB 上限一致）
+app.use('/v1/messages/batches', express.json({ limit: '256mb' }));
 app.use(express.json({ limit: '10mb' }));
 
 // 获取环境变量
 const env: Env = {
     OPENAI_BASE_URL: process.env.OPENAI_BASE_URL || 'http://localhost:8094/v1',
     PORT: process.env.PORT || '8092',
-    OPENAI_API_KEY: process.env.OPENAI_API_KEY
+    OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+    COUNT_TOKENS_MODE: process.env.COUNT_TOKENS_MODE === 'upstream' ? 'upstream' : 'local',
+    COUNT_TOKENS_UPSTREAM_URL: process.env.COUNT_TOKENS_UPSTREAM_URL,
+    UPSTREAM_FIRST_BYTE_TIMEOUT_MS: Number(process.env.UPSTREAM_FIRST_BYTE_TIMEOUT_MS ?? 300000),
+    STREAM_PING_INTERVAL_MS: Number(process.env.STREAM_PING_INTERVAL_MS ?? 15000),
+    UPSTREAM_IDLE_TIMEOUT_MS: Number(process.env.UPSTREAM_IDLE_TIMEOUT_MS ?? 300000),
+    BATCHES_DIR: process.env.BATCHES_DIR || 'data/batches',
+    BATCH_CONCURRENCY: Math.max(1, Number(process.env.BATCH_CONCURRENCY ?? 4) || 1),
+    TOOL_CHOICE_ENFORCEMENT: parseToolChoiceEnforcement(process.env.TOOL_CHOICE_ENFORCEMENT),
+    TOOL_ARGS_REPAIR: parseToolArgsRepair(process.env.TOOL_ARGS_REPAIR),
+    STRUCTURED_OUTPUT_RETRIES: Math.max(0, Number(process.env.STRUCTURED_OUTPUT_RETRIES ?? 2) || 0),
+    UPSTREAM_DIALECT: process.env.UPSTREAM_DIALECT || 'passthrough',
+    IMAGE_POLICY: process.env.IMAGE_POLICY || undefined,
+    IMAGE_FETCH_TIMEOUT_MS: Math.max(0, Number(process.env.IMAGE_FETCH_TIMEOUT_MS ?? 15000) || 0),
+    IMAGE_FETCH_MAX_BYTES: Math.max(0, Number(process.env.IMAGE_FETCH_MAX_BYTES ?? 20 * 1024 * 1024) || 0),
+    CAPTURE_FILE: process.env.CAPTURE_FILE || undefined,
+    VIRTUAL_KEYS_FILE: process.env.VIRTUAL_KEYS_FILE || undefined,
+    USAGE_LEDGER_DIR: process.env.USAGE_LEDGER_DIR ?? 'data/usage',
+    USAGE_ADMIN_KEY: process.env.USAGE_ADMIN_KEY || undefined,
+    MODELS_CACHE_TTL_MS: Math.max(0, Number(process.env.MODELS_CACHE_TTL_MS ?? 300000) || 0),
+    ANTHROPIC_BASE_URL: process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com',
 };
 
+// 路由表未指定方言的上游使用 UPSTREAM_DIALECT
+const defaultDialect = resolveDialect(env.UPSTREAM_DIALECT);
+
+/**
+ * 上游使用的方言。
+ */
+function dialectOf(upstream: UpstreamTarget): DialectProfile {
+    return upstream.dialect || defaultDialect;
+}
+
+// 路由表未指定 images 的上游使用 IMAGE_POLICY
+const defaultImagePolicy = loadImagePolicy(env.IMAGE_POLICY);
+
+/**
+ * 上游使用的图片策略。
+ */
+function imagePolicyOf(upstream: UpstreamTarget): ImagePolicy {
+    return upstream.images || defaultImagePolicy;
+}
+
+// 录制请求与上游响应（CAPTURE_FILE）
+const captureWriter = env.CAPTURE_FILE ? createCaptureWriter(env.CAPTURE_FILE) : null;
+
+// 上游重试策略（UPSTREAM_RETRY_*）
+const retryPolicy = loadRetryPolicy();
+
+// 模型路由表（MODEL_ROUTES_FILE / MODEL_ROUTES），未配置时为空，模型名原样透传
+const modelRoutes = loadModelRoutes();
+// 反向模式的路由表（REVERSE_MODEL_ROUTES_FILE / REVERSE_MODEL_ROUTES），上游为 Anthropic 格式
+const reverseModelRoutes = loadModelRoutes(process.env, 'REVERSE_MODEL_ROUTES');
+
+// 用量账本（USAGE_LEDGER_DIR）与估算费用使用的模型价格（MODEL_PRICES_FILE / MODEL_PRICES）
+const usageLedger = env.USAGE_LEDGER_DIR ? createUsageLedger(env.USAGE_LEDGER_DIR) : null;
+const modelPrices = loadModelPrices();
+const USAGE_ROUTES = new Set(['/v1/messages', '/v1/chat/completions']);
+
+/**
+ * 写入一条用量记录，写入失败只记录日志。
+ */
+function recordUsage(access: AccessLogRecord) {
+    usageLedger?.append(toUsageRecord(access)).catch(err => {
+        logger.error(`[usage] failed to write ledger in ${usageLedger.dir}: ${err.message}`, { request_id: access.request_id });
+    });
+}
+
+/**
+ * 是否为 USAGE_ADMIN_KEY。
+ */
+function isUsageAdmin(apiKey: string): boolean {
+    if (!env.USAGE_ADMIN_KEY) return false;
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(apiKey), digest(env.USAGE_ADMIN_KEY));
+}
+
+// 代理签发的虚拟 key（VIRTUAL_KEYS_FILE），未配置时透传客户端 key
+const virtualKeys = env.VIRTUAL_KEYS_FILE ? createVirtualKeyStore(env.VIRTUAL_KEYS_FILE) : null;
+
+// 虚拟 key 模式下校验 /v1 请求的 key 及其允许的模型；缺少 key 的请求由各路由返回 401
+app.use('/v1', (req, res, next) => {
+    const apiKey = extractApiKey(req);
+    if (!virtualKeys || req.method === 'OPTIONS' || !apiKey || (req.path === '/usage' && isUsageAdmin(apiKey))) {
+        return next();
+    }
+    const access = accessLogOf(res);
+    try {
+        const key = virtualKeys.authenticate(apiKey);
+        access.key_id = key.id;
+        access.key_owner = key.owner;
+        if (req.method === 'POST') {
+            requestedModels(req.body).forEach(model => virtualKeys.checkModel(key, model));
+        }
+        next();
+    } catch (err: any) {
+        if (!(err instanceof VirtualKeyError)) {
+            return next(err);
+        }
+        access.error = err.message;
+        if (req.path === '/chat/completions') {
+            return res.status(err.status).json(toOpenAIErrorBody(JSON.stringify(anthropicErrorBody(err.type, err.message))));
+        }
+        return sendAnthropicError(res, err.status, err.type, err.message);
+    }
+});
+
+/**
+ * 发往上游时使用的凭据：虚拟 key 模式下为 key 映射的上游凭据，否则为客户端 key 本身。
+ */
+function upstreamApiKeyOf(apiKey: string): string {
+    return virtualKeys ? virtualKeys.upstreamApiKey(virtualKeys.authenticate(apiKey)) : apiKey;
+}
+
+// 按 API key 限流（RATE_LIMIT_*、RATE_LIMITS_FILE / RATE_LIMITS），未配置任何限制时不启用
+const rateLimitConfig = loadRateLimitConfig();
+const rateLimiter = hasRateLimits(rateLimitConfig)
+    ? createRateLimiter(rateLimitConfig, rateLimitConfig.storeFile ? createFileStore(rateLimitConfig.storeFile) : undefined)
+    : null;
+
+// /v1/messages 与 /v1/chat/completions 的请求按 key 指纹限流，超限时返回 429 rate_limit_error；
+// 响应结束后按访问日志中的 usage 计入 token
+app.use(['/v1/messages', '/v1/chat/completions'], (req, res, next) => {
+    const apiKey = extractApiKey(req);
+    if (!rateLimiter || req.method !== 'POST' || req.path !== '/' || !apiKey) {
+        return next();
+    }
+    const fingerprint = apiKeyFingerprint(apiKey);
+    const decision = rateLimiter.check(fingerprint, { stream: !!req.body?.stream });
+    for (const [name, value] of Object.entries(decision.headers)) {
+        res.setHeader(name, value);
+    }
+    if (!decision.allowed) {
+        const access = accessLogOf(res);
+        access.error = decision.message;
+        logger.warn(`[rate_limit] key=${fingerprint} ${decision.message}`, { request_id: access.request_id });
+        if (req.baseUrl === '/v1/chat/completions') {
+            return res.status(429).json(toOpenAIErrorBody(JSON.stringify(anthropicErrorBody('rate_limit_error', decision.message))));
+        }
+        return sendAnthropicError(res, 429, 'rate_limit_error', decision.message);
+    }
+    res.once('close', () => {
+        decision.release();
+        // 推迟到路由在同一 close 事件中补充 usage 之后
+        process.nextTick(() => {
+            const usage = accessLogOf(res).usage;
+            if (usage) rateLimiter.recordUsage(fingerprint, usage);
+        });
+    });
+    next();
+});
+
+/**
+ * 从 Authorization: Bearer 或 x-api-key 中提取客户端的 API key。
+ */
+function extractApiKey(req: express.Request): string | undefined {
+    const authHeader = (req.headers['authorization'] || req.headers['Authorization']) as string | undefined;
+    const bearerMatch = authHeader && authHeader.match(/^Bearer\s+(.+)$/i);
+    return (bearerMatch && bearerMatch[1]) || (req.headers['x-api-key'] as string);
+}
+
+/**
+ * 客户端真实 IP：依次取 X-Real-IP、X-Forwarded-For 第一项、socket 地址。
+ */
+function resolveRealIp(req: express.Request): string | undefined {
+    let realIp: string | undefined;
+    const realIpHeader = req.headers['x-real-ip'] as string | string[] | undefined;
+    if (realIpHeader) {
+        realIp = Array.isArray(realIpHeader) ? realIpHeader[0]?.trim() : realIpHeader?.trim();
+    }
+    if (!realIp) {
+        const forwardedFor = req.headers['x-forwarded-for'] as string | string[] | undefined;
+        const forwarded = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor;
+        if (forwarded) realIp = forwarded.split(',')[0].trim();
+    }
+    if (!realIp && req.socket?.remoteAddress) realIp = req.socket.remoteAddress;
+    if (!realIp && req.ip) realIp = req.ip;
+    return realIp;
+}
+
+/**
+ * 当前请求的访问日志记录，由 /v1 访问日志中间件创建。
+ */
+function accessLogOf(res: express.Response): AccessLogRecord {
+    return res.locals.access;
+}
+
+/**
+ * 记录流式响应输出第一个内容增量的时间，at 缺省为当前时间。
+ */
+function markFirstToken(res: express.Response, at = Date.now()) {
+    const access = accessLogOf(res);
+    if (access.ttft_ms === undefined) {
+        access.ttft_ms = at - res.locals.startedAt;
+    }
+}
+
+/**
+ * 组装上游请求 headers，透传 User-Agent/Referer，并将真实 IP 追加到 User-Agent 做记录。
+ * initialHeaders 中已设置的 header 不会被客户端 header 覆盖。
+ */
+function buildUpstreamHeaders(req: express.Request, initialHeaders: Record<string, string>): { headers: Record<string, string>; realIp?: string } {
+    const upstreamHeaders: Record<string, string> = { ...initialHeaders };
+    const realIp = resolveRealIp(req);
+
+    if (realIp) {
+        upstreamHeaders['X-Real-IP'] = realIp;
+    }
+
+    const userAgentHeader = req.headers['user-agent'] as string | string[] | undefined;
+    const baseUserAgent = userAgentHeader ? (Array.isArray(userAgentHeader) ? userAgentHeader[0] : userAgentHeader) : '';
+    upstreamHeaders['User-Agent'] = realIp ? `${baseUserAgent} [X-Real-IP: ${realIp}]`.trim() : (baseUserAgent || '');
+    const refererHeader = req.headers['referer'] as string | string[] | undefined;
+    if (refererHeader) {
+        upstreamHeaders['Referer'] = Array.isArray(refererHeader) ? refererHeader[0] : refererHeader;
+    }
+
+    // 透传用户请求的其他 header 到上游（不覆盖已设置的）
+    const skipKeys = new Set(['host', 'content-length', 'content-type', 'authorization', 'connection']);
+    const passthroughPrefixes = ['x-'];
+    const passthroughNames = ['accept', 'accept-language', 'accept-encoding'];
+    for (const [key, value] of Object.entries(req.headers)) {
+        if (value === undefined) continue;
+        const lower = key.toLowerCase();
+        if (skipKeys.has(lower)) continue;
+        if (upstreamHeaders[lower] !== undefined) continue;
+        const valueStr = Array.isArray(value) ? value[0] : value;
+        if (passthroughNames.includes(lower) || passthroughPrefixes.some(p => lower.startsWith(p))) {
+            upstreamHeaders[key] = valueStr;
+        }
+    }
+
+    return { headers: upstreamHeaders, realIp };
+}
+
+type UpstreamHttpRequest = { url: string; headers: Record<string, string>; body: OpenAIRequest | ResponsesRequest | GeminiRequest };
+
+/**
+ * 上游是否以提示词模拟工具调用（只对 chat_completions 上游生效）。
+ */
+function usesPromptTools(upstream: UpstreamTarget): boolean {
+    return upstream.toolCalling === 'prompt' && (upstream.api ?? 'chat_completions') === 'chat_completions';
+}
+
+/**
+ * 按上游接口构造请求：/chat/completions、/responses 或 Gemini 的 generateContent。凭据随上游不同，在这里设置。
+ * 上游配置了结构化输出模拟时，schema 改为写入 system（json_object 另外开启上游的 JSON 模式）；
+ * 模拟工具调用时工具定义和历史中的工具调用改写为文本协议。
+ */
+function buildUpstreamRequest(upstream: UpstreamTarget, claudeRequest: ClaudeMessagesRequest, baseHeaders: Record<string, string>): UpstreamHttpRequest {
+    const structuredOutput = structuredOutputModeOf(upstream, claudeRequest);
+    const toolsRequest = usesPromptTools(upstream) ? withPromptTools(claudeRequest) : claudeRequest;
+    const request = structuredOutput === 'native' ? toolsRequest : withSchemaInstructions(toolsRequest);
+    let built: UpstreamHttpRequest;
+    switch (upstream.api) {
+        case 'responses':
+            built = {
+                url: `${upstream.baseUrl}/responses`,
+                headers: { ...baseHeaders, Authorization: `Bearer ${upstream.apiKey}` },
+                body: convertClaudeToResponsesRequest(request, upstream.modelName),
+            };
+            break;
+        case 'gemini':
+            built = {
+                url: geminiRequestUrl(upstream.baseUrl, upstream.modelName, request.stream),
+                headers: { ...baseHeaders, 'x-goog-api-key': upstream.apiKey },
+                body: convertClaudeToGeminiRequest(request),
+            };
+            break;
+        default:
+            built = {
+                url: `${upstream.baseUrl}/chat/completions`,
+                headers: { ...baseHeaders, Authorization: `Bearer ${upstream.apiKey}` },
+                body: convertClaudeToOpenAIRequest(request, upstream.modelName, dialectOf(upstream)),
+            };
+    }
+    if (structuredOutput === 'json_object') {
+        requestJsonMode(built.body, upstream.api);
+    }
+    return built;
+}
+
+/**
+ * 将 Claude 请求按上游模型和接口转换后发往上游。
+ * 传入 capture 时记录本次尝试的请求（故障转移时保留最后一次）。
+ */
+function sendUpstreamRequest(upstream: UpstreamTarget, claudeRequest: ClaudeMessagesRequest, baseHeaders: Record<string, string>, signal: AbortSignal, requestId?: string, capture?: CaptureRecord | null) {
+    const { url, headers, body } = buildUpstreamRequest(upstream, claudeRequest, baseHeaders);
+    if (capture) {
+        capture.openai_request = { url, headers: sanitizeHeadersForLog(headers), body };
+        capture.upstream_api = upstream.api;
+    }
+    logCategory('upstream_io', 'upstream request', {
+        request_id: requestId,
+        url,
+        method: 'POST',
+        headers: sanitizeHeadersForLog(headers),
+        body,
+    });
+    return fetch(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+        signal,
+    });
+}
+
+/**
+ * 按各上游的图片策略处理请求中的图片：向某个上游发送请求时才处理，相同策略只处理一次（失败的结果同样复用）。
+ * requestFor 在图片无法下载、解码或压缩时抛出 ImageProcessingError，fetchWithFailover 将其记为该上游失败并切换到下一个上游；
+ * 所有上游都因图片失败时 allFailed 返回最后一个错误，由调用方按客户端错误返回。
+ */
+function prepareImages(upstreams: UpstreamTarget[], claudeRequest: ClaudeMessagesRequest, signal?: AbortSignal, requestId?: string) {
+    const withImages = hasImages(claudeRequest);
+    const processed = new Map<string, Promise<ClaudeMessagesRequest>>();
+    const failed = new Set<UpstreamTarget>();
+    let lastError: ImageProcessingError | undefined;
+    return {
+        async requestFor(upstream: UpstreamTarget): Promise<ClaudeMessagesRequest> {
+            const policy = imagePolicyOf(upstream);
+            if (!withImages || isPassthroughPolicy(policy)) return claudeRequest;
+            const key = JSON.stringify(policy);
+            let pending = processed.get(key);
+            if (!pending) {
+                pending = processImages(claudeRequest, policy, { timeoutMs: env.IMAGE_FETCH_TIMEOUT_MS, maxBytes: env.IMAGE_FETCH_MAX_BYTES, signal }).then(result => {
+                    if (result.notes.length > 0) {
+                        logger.info(`[images] upstream=${upstream.name} ${result.notes.join('; ')}`, { request_id: requestId });
+                    }
+                    return result.request;
+                });
+                processed.set(key, pending);
+            }
+            try {
+                return await pending;
+            } catch (err) {
+                if (err instanceof ImageProcessingError) {
+                    failed.add(upstream);
+                    lastError = err;
+                }
+                throw err;
+            }
+        },
+        allFailed(): ImageProcessingError | undefined {
+            return failed.size === upstreams.length ? lastError : undefined;
+        },
+    };
+}
+
+/**
+ * 图片处理失败不重试同一上游（结果已缓存），直接切换到下一个上游。
+ */
+const retryableUpstreamError = (err: unknown) => !(err instanceof ImageProcessingError);
+
+/**
+ * 按上游接口选择流式转换函数。
+ */
+function upstreamStreamTransformer(api: UpstreamApi | undefined): typeof streamTransformer {
+    if (api === 'responses') return responsesStreamTransformer;
+    if (api === 'gemini') return geminiStreamTransformer;
+    return streamTransformer;
+}
+
+/**
+ * 按上游接口把非流式响应转换为 Claude 响应；上游以 200 返回错误体时返回 null。
+ * chat/completions 响应中的推理字段会被原地整理。
+ */
+function convertUpstreamResponse(upstream: UpstreamTarget, upstreamResponse: any, claudeRequest: ClaudeMessagesRequest): any | null {
+    if (upstream.api === 'responses') {
+        if (upstreamResponse?.status === 'failed' || (upstreamResponse?.error && !Array.isArray(upstreamResponse.output))) return null;
+        return convertResponsesToClaudeResponse(upstreamResponse, claudeRequest.model, claudeRequest.stop_sequences);
+    }
+    if (upstream.api === 'gemini') {
+        if (upstreamResponse?.error && !Array.isArray(upstreamResponse.candidates)) return null;
+        return convertGeminiToClaudeResponse(upstreamResponse, claudeRequest.model, claudeRequest.stop_sequences);
+    }
+    normalizeReasoning(upstreamResponse?.choices?.[0]?.message, dialectOf(upstream).reasoningFields);
+    if (upstreamResponse?.error && !upstreamResponse.choices) return null;
+    return convertOpenAIToClaudeResponse(upstreamResponse, claudeRequest.model, claudeRequest.stop_sequences, usesPromptTools(upstream));
+}
+
+/**
+ * 非流式请求上游（含故障转移与重试）并转换为 Claude 响应，上游错误翻译为 Anthropic 错误。
+ * 用于批次请求以及 tool_choice 等的重新请求，同时返回提供服务的上游。
+ */
+async function requestClaudeMessage(
+    upstreams: UpstreamTarget[],
+    claudeRequest: ClaudeMessagesRequest,
+    baseHeaders: Record<string, string>,
+    signal?: AbortSignal,
+    requestId?: string
+): Promise<{ message: any; upstream: UpstreamTarget } | { error: TranslatedError }> {
+    const images = prepareImages(upstreams, { ...claudeRequest, stream: false }, signal, requestId);
+    let failover: FailoverResult;
+    try {
+        failover = await fetchWithFailover(upstreams, async (upstream, attemptSignal) => sendUpstreamRequest(upstream, await images.requestFor(upstream), baseHeaders, attemptSignal, requestId), {
+            firstByteTimeoutMs: env.UPSTREAM_FIRST_BYTE_TIMEOUT_MS,
+            waitForFirstChunk: false,
+            retryPolicy,
+            retryable: retryableUpstreamError,
+            signal,
+            warn: message => logger.warn(message, { request_id: requestId }),
+        });
+    } catch (err: any) {
+        if (err instanceof UpstreamUnavailableError) {
+            recordUpstreamAttempts(err.attempts);
+            const imageError = images.allFailed();
+            if (imageError) {
+                return { error: { status: 400, body: anthropicErrorBody('invalid_request_error', imageError.message) } };
+            }
+            return { error: { status: 502, body: anthropicErrorBody('api_error', err.message) } };
+        }
+        throw err;
+    }
+    recordUpstreamAttempts(failover.attempts);
+    const upstreamRequestId = upstreamRequestIdOf(failover.response.headers);
+    if (!failover.response.ok) {
+        const errorBody = await failover.response.text();
+        return { error: translateUpstreamError(failover.response.status, errorBody, upstreamRequestId) };
+    }
+    const openaiResponse: any = await failover.response.json();
+    logCategory('upstream_io', 'upstream response', { request_id: requestId, body: openaiResponse });
+    const message = convertUpstreamResponse(failover.upstream, openaiResponse, claudeRequest);
+    if (!message) {
+        return { error: translateUpstreamError(502, JSON.stringify(openaiResponse), upstreamRequestId) };
+    }
+    return { message, upstream: failover.upstream };
+}
+
+/**
+ * 按 TOOL_CHOICE_ENFORCEMENT 检查非流式响应；需要重新请求时走 requestClaudeMessage。
+ */
+async function applyToolChoiceEnforcement(
+    upstreams: UpstreamTarget[],
+    claudeRequest: ClaudeMessagesRequest,
+    message: any,
+    baseHeaders: Record<string, string>,
+    signal?: AbortSignal,
+    requestId?: string
+): Promise<any> {
+    const result = await enforceToolChoice(claudeRequest, message, env.TOOL_CHOICE_ENFORCEMENT, async (reaskRequest) => {
+        const retried = await requestClaudeMessage(upstreams, reaskRequest, baseHeaders, signal, requestId);
+        if ('error' in retried) {
+            logger.warn(`[tool_choice] reask failed: ${retried.error.body.error.message}`, { request_id: requestId });
+            return null;
+        }
+        return retried.message;
+    });
+    if (result.reasked || result.truncated > 0 || !result.satisfied) {
+        logger.warn('[tool_choice] upstream ignored tool_choice', {
+            request_id: requestId,
+            model: claudeRequest.model,
+            tool_choice: claudeRequest.tool_choice,
+            reasked: result.reasked,
+            truncated: result.truncated,
+            satisfied: result.satisfied,
+        });
+    }
+    return result.message;
+}
+
+/**
+ * 按 TOOL_ARGS_REPAIR 校验非流式响应的工具参数；需要重新请求时走 requestClaudeMessage。
+ */
+async function applyToolArgsEnforcement(
+    upstreams: UpstreamTarget[],
+    claudeRequest: ClaudeMessagesRequest,
+    message: any,
+    baseHeaders: Record<string, string>,
+    signal?: AbortSignal,
+    requestId?: string
+): Promise<any> {
+    const result = await enforceToolArgs(claudeRequest, message, env.TOOL_ARGS_REPAIR, async (reaskRequest) => {
+        const retried = await requestClaudeMessage(upstreams, reaskRequest, baseHeaders, signal, requestId);
+        if ('error' in retried) {
+            logger.warn(`[tool_args] reask failed: ${retried.error.body.error.message}`, { request_id: requestId });
+            return null;
+        }
+        return retried.message;
+    });
+    if (result.reasked || result.invalid.length > 0) {
+        logger.warn('[tool_args] invalid tool arguments', {
+            request_id: requestId,
+            model: claudeRequest.model,
+            reasked: result.reasked,
+            invalid: result.invalid,
+        });
+    }
+    return result.message;
+}
+
+/**
+ * 提供服务的上游模拟结构化输出时，按 STRUCTURED_OUTPUT_RETRIES 校验非流式响应的 JSON；重新请求走 requestClaudeMessage。
+ * 仍不符合 schema 时返回 502 错误，usage 为所有尝试的合计。
+ */
+async function applyStructuredOutputEnforcement(
+    upstream: UpstreamTarget,
+    upstreams: UpstreamTarget[],
+    claudeRequest: ClaudeMessagesRequest,
+    message: any,
+    baseHeaders: Record<string, string>,
+    signal?: AbortSignal,
+    requestId?: string
+): Promise<{ message: any } | { error: TranslatedError; usage?: ClaudeUsage }> {
+    if (structuredOutputModeOf(upstream, claudeRequest) === 'native') {
+        return { message };
+    }
+    const result = await enforceStructuredOutput(claudeRequest, message, env.STRUCTURED_OUTPUT_RETRIES, async (reaskRequest) => {
+        const retried = await requestClaudeMessage(upstreams, reaskRequest, baseHeaders, signal, requestId);
+        if ('error' in retried) {
+            logger.warn(`[structured_output] reask failed: ${retried.error.body.error.message}`, { request_id: requestId });
+            return null;
+        }
+        return retried.message;
+    });
+    if (result.errors.length > 0 || result.attempts > 1) {
+        logger.warn('[structured_output] output did not match schema', {
+            request_id: requestId,
+            model: claudeRequest.model,
+            upstream: upstream.name,
+            attempts: result.attempts,
+            errors: result.errors,
+        });
+    }
+    if (result.errors.length > 0) {
+        const detail = `Structured output did not match output_config.format schema after ${result.attempts} attempt(s): ${result.errors.join('; ')}`;
+        return { error: { status: 502, body: anthropicErrorBody('api_error', detail) }, usage: result.message.usage };
+    }
+    return { message: result.message };
+}
+
+/**
+ * 客户端断开连接时中止的信号，用于取消上游请求并拆除流管道。
+ * 响应正常结束后的 close 事件不会触发中止。
+ */
+function abortOnClientDisconnect(res: express.Response): AbortSignal {
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) {
+            controller.abort(new Error('Client disconnected'));
+        }
+    });
+    return controller.signal;
+}
+
+/**
+ * 记录客户端中途断开时已消耗的 token。上游尚未报告 usage 时按本地分词器估算。
+ */
+function logClientCancellation(res: express.Response, claudeRequest: ClaudeMessagesRequest, upstream: UpstreamTarget, progress: StreamProgress) {
+    const access = accessLogOf(res);
+    const tokenizer = getTokenizerForModel(upstream.modelName);
+    const usage: ClaudeUsage = progress.usage || {
+        input_tokens: countRequestTokens(claudeRequest, tokenizer),
+        output_tokens: tokenizer.countText(progress.generatedText),
+    };
+    access.usage = usage;
+    logger.warn('client disconnected, upstream request aborted', {
+        request_id: access.request_id,
+        model: claudeRequest.model,
+        upstream: upstream.name,
+        message_id: progress.messageId,
+        ...usage,
+        estimated: !progress.usage,
+        elapsed_ms: Date.now() - res.locals.startedAt,
+    });
+}
+
 // --- Main Route Handler ---
 
 app.all('/v1/messages', async (req, res) => {
@@ -217,164 +950,793 @@ app.all('/v1/messages', async (req, res) => {
     }
 
     if (req.method !== "POST") {
-        return res.status(405).json({ error: "Method Not Allowed" });
+        return sendAnthropicError(res, 405, 'invalid_request_error', `Method ${req.method} not allowed`);
     }
 
-    const authHeader = (req.headers['authorization'] || req.headers['Authorization']) as string | undefined;
-    const bearerMatch = authHeader && authHeader.match(/^Bearer\s+(.+)$/i);
-    const apiKey = (bearerMatch && bearerMatch[1]) || (req.headers['x-api-key'] as string);
+    const apiKey = extractApiKey(req);
     if (!apiKey) {
-        return res.status(401).json({ error: 'Missing API key. Provide Authorization: Bearer <key> or x-api-key header.' });
+        return sendAnthropicError(res, 401, 'authentication_error', 'Missing API key. Provide Authorization: Bearer <key> or x-api-key header.');
     }
 
-    try {
-        const claudeRequest: ClaudeMessagesRequest = req.body;
+    const access = accessLogOf(res);
+    const clientSignal = abortOnClientDisconnect(res);
 
+    try {
         // --- Configuration Selection ---
-        let targetApiKey = apiKey;
-        let targetModelName: string;
-        let targetBaseUrl: string;
-
-        // 设成本地chat的完整base_url，如http://localhost:8094/v1
-        targetBaseUrl = env.OPENAI_BASE_URL;
-        targetModelName = claudeRequest.model;
-
-        const target = {
-            modelName: targetModelName,
-            baseUrl: targetBaseUrl,
-            apiKey: targetApiKey,
-        };
+        // 按路由表选择上游；未命中时使用 OPENAI_BASE_URL（本地chat的完整base_url，如http://localhost:8094/v1）
+        const target = resolveTarget(modelRoutes, req.body.model, upstreamApiKeyOf(apiKey), env.OPENAI_BASE_URL);
+        const claudeRequest: ClaudeMessagesRequest = applyRouteDefaults(req.body, target.defaults);
+
+        access.model = claudeRequest.model;
+        access.stream = !!claudeRequest.stream;
+
+        // 客户端断开时 fetch 和流管道都会被中止，这里只负责记录已消耗的 token
+        const progress = createStreamProgress();
+        let servedBy = target.upstreams[0];
+        clientSignal.addEventListener('abort', () => logClientCancellation(res, claudeRequest, servedBy, progress), { once: true });
+        res.once('close', () => {
+            if (progress.messageId) access.message_id = progress.messageId;
+            if (progress.usage) access.usage = progress.usage;
+            if (progress.stopReason) access.stop_reason = progress.stopReason;
+            if (progress.invalidToolUses) {
+                logger.warn('[tool_args] invalid tool arguments', { request_id: access.request_id, model: claudeRequest.model, invalid: progress.invalidToolUses });
+            }
+        });
 
-        const openaiRequest = convertClaudeToOpenAIRequest(claudeRequest, target.modelName);
-        // console.log(`openaiRequest: ${JSON.stringify(openaiRequest)}`);
-        // console.log(`target.baseUrl: ${target.baseUrl}`);
-        // console.log(`target.apiKey: ${target.apiKey}`);
-        // 组装上游请求 headers，透传 User-Agent/Referer，并将真实 IP 追加到 User-Agent 做记录
-        const upstreamHeaders: Record<string, string> = {
+        // Authorization 随上游不同，在每次尝试时单独设置
+        const { headers: upstreamHeaders } = buildUpstreamHeaders(req, {
             "Content-Type": "application/json",
-            Authorization: `Bearer ${target.apiKey}`,
             "X-Qiniu-Source": "anthropic",
-        };
-        let realIp: string | undefined;
-        const realIpHeader = req.headers['x-real-ip'] as string | string[] | undefined;
-        if (realIpHeader) {
-            realIp = Array.isArray(realIpHeader) ? realIpHeader[0]?.trim() : realIpHeader?.trim();
-        }
-        if (!realIp) {
-            const forwardedFor = req.headers['x-forwarded-for'] as string | string[] | undefined;
-            const forwarded = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor;
-            if (forwarded) realIp = forwarded.split(',')[0].trim();
-        }
-        if (!realIp && req.socket?.remoteAddress) realIp = req.socket.remoteAddress;
-        if (!realIp && req.ip) realIp = req.ip;
+        });
 
-        if (realIp) {
-            upstreamHeaders['X-Real-IP'] = realIp;
+        // reask 模式下要求必须调用工具（TOOL_CHOICE_ENFORCEMENT）或带有工具（TOOL_ARGS_REPAIR）的流式请求，
+        // 以及可能由模拟结构化输出的上游处理的请求，先向上游发非流式请求，检查（必要时重新请求）后再一次性输出 SSE
+        const bufferForReask = !!claudeRequest.stream && (
+            (env.TOOL_CHOICE_ENFORCEMENT === 'reask' && requiresToolCall(claudeRequest)) ||
+            (env.TOOL_ARGS_REPAIR === 'reask' && !!claudeRequest.tools?.length) ||
+            target.upstreams.some(upstream => structuredOutputModeOf(upstream, claudeRequest) !== 'native')
+        );
+        const upstreamRequest = bufferForReask ? { ...claudeRequest, stream: false } : claudeRequest;
+
+        // 录制（CAPTURE_FILE）：响应结束或客户端断开时写入一条记录，注意包含完整对话内容
+        const capture: CaptureRecord | null = captureWriter && {
+            id: access.request_id,
+            timestamp: new Date().toISOString(),
+            model: claudeRequest.model,
+            claude_request: claudeRequest,
+            stream: !!upstreamRequest.stream,
+        };
+        if (captureWriter && capture) {
+            res.once('close', () => {
+                capture.cancelled = clientSignal.aborted || undefined;
+                captureWriter.write(capture).catch(err => {
+                    logger.error(`[capture] failed to write ${captureWriter.file}: ${err.message}`, { request_id: access.request_id });
+                });
+            });
         }
 
-        const userAgentHeader = req.headers['user-agent'] as string | string[] | undefined;
-        const baseUserAgent = userAgentHeader ? (Array.isArray(userAgentHeader) ? userAgentHeader[0] : userAgentHeader) : '';
-        upstreamHeaders['User-Agent'] = realIp ? `${baseUserAgent} [X-Real-IP: ${realIp}]`.trim() : (baseUserAgent || '');
-        const refererHeader = req.headers['referer'] as string | string[] | undefined;
-        if (refererHeader) {
-            upstreamHeaders['Referer'] = Array.isArray(refererHeader) ? refererHeader[0] : refererHeader;
+        const images = prepareImages(target.upstreams, upstreamRequest, clientSignal, access.request_id);
+        const sendToUpstream = async (upstream: UpstreamTarget, signal: AbortSignal) =>
+            sendUpstreamRequest(upstream, await images.requestFor(upstream), upstreamHeaders, signal, access.request_id, capture);
+
+        // 缓冲期间（可能包括多次重新请求）客户端收不到数据，按 STREAM_PING_INTERVAL_MS 发送 ping 保持连接。
+        // SSE 响应头随第一个 ping 发送，在此之前结束的请求仍可返回上游头和 HTTP 错误状态码
+        if (bufferForReask) {
+            const stopPings = startPings(ping => {
+                if (res.writableEnded) return;
+                if (!res.headersSent) {
+                    res.setHeader('Content-Type', 'text/event-stream');
+                    res.setHeader('Cache-Control', 'no-cache');
+                    res.setHeader('X-Accel-Buffering', 'no');
+                }
+                res.write(ping);
+            }, env.STREAM_PING_INTERVAL_MS, ANTHROPIC_PING_EVENT);
+            res.once('close', stopPings);
         }
 
-        // 透传用户请求的其他 header 到上游（不覆盖已设置的）
-        const skipKeys = new Set(['host', 'content-length', 'content-type', 'authorization', 'connection']);
-        const passthroughPrefixes = ['x-'];
-        const passthroughNames = ['accept', 'accept-language', 'accept-encoding'];
-        for (const [key, value] of Object.entries(req.headers)) {
-            if (value === undefined) continue;
-            const lower = key.toLowerCase();
-            if (skipKeys.has(lower)) continue;
-            if (upstreamHeaders[lower] !== undefined) continue;
-            const valueStr = Array.isArray(value) ? value[0] : value;
-            if (passthroughNames.includes(lower) || passthroughPrefixes.some(p => lower.startsWith(p))) {
-                upstreamHeaders[key] = valueStr;
+        let failover: FailoverResult;
+        try {
+            failover = await fetchWithFailover(target.upstreams, sendToUpstream, {
+                firstByteTimeoutMs: env.UPSTREAM_FIRST_BYTE_TIMEOUT_MS,
+                waitForFirstChunk: !!upstreamRequest.stream,
+                retryPolicy,
+                retryable: retryableUpstreamError,
+                signal: clientSignal,
+                warn: message => logger.warn(message, { request_id: access.request_id }),
+            });
+        } catch (err) {
+            if (err instanceof UpstreamUnavailableError) {
+                if (!res.headersSent) {
+                    res.setHeader('X-Proxy-Upstream-Attempts', formatAttempts(err.attempts));
+                    res.setHeader('X-Proxy-Retries', String(err.retries));
+                }
+                access.attempts = formatAttempts(err.attempts);
+                access.retries = err.retries;
+                recordUpstreamAttempts(err.attempts);
+                const imageError = images.allFailed();
+                if (imageError) {
+                    access.error = imageError.message;
+                    return sendAnthropicError(res, 400, 'invalid_request_error', imageError.message);
+                }
+                access.error = err.message;
+                logger.error(`[failover] model=${claudeRequest.model} ${err.message}`, { request_id: access.request_id });
+                return sendAnthropicError(res, 502, 'api_error', err.message);
             }
+            throw err;
         }
-
-        if (DEBUG_UPSTREAM_IO) {
-            const debugRequestLog = {
-                url: `${target.baseUrl}/chat/completions`,
-                method: 'POST',
-                headers: sanitizeHeadersForLog(upstreamHeaders),
-                body: openaiRequest,
-            };
-            console.log(`[upstream][request] ${stringifyForDebug(debugRequestLog)}`);
+        const openaiApiResponse = failover.response;
+        servedBy = failover.upstream;
+        // 记录每次尝试以及最终提供服务的上游；缓冲期间已开始发送 ping 时只记录在访问日志中
+        if (!res.headersSent) {
+            res.setHeader('X-Proxy-Upstream', failover.upstream.name);
+            res.setHeader('X-Proxy-Upstream-Attempts', formatAttempts(failover.attempts));
+            res.setHeader('X-Proxy-Retries', String(failover.retries));
         }
-
-        // 临时调试：打印发往上游的请求 body 和 headers（注意包含完整对话内容）
-        // 已暂时关闭，如需再次启用，取消以下代码注释即可
-        // const debugLogPath = join(process.cwd(), 'debug_upstream_request.jsonl');
-        // const logEntry = {
-        //     timestamp: new Date().toISOString(),
-        //     upstreamHeaders,
-        //     request: openaiRequest
-        // };
-        // appendFile(debugLogPath, JSON.stringify(logEntry) + '\n').catch(err => {
-        //     console.error('[DEBUG] Failed to write debug log:', err);
-        // });
-
-        const openaiApiResponse = await fetch(`${target.baseUrl}/chat/completions`, {
-            method: "POST",
-            headers: upstreamHeaders,
-            body: JSON.stringify(openaiRequest),
-        });
-
-        if (!openaiApiResponse.ok) {
-            const errorBody = await openaiApiResponse.text();
-            return res.status(openaiApiResponse.status).json(JSON.parse(errorBody));
+        access.upstream = failover.upstream.name;
+        access.upstream_model = failover.upstream.modelName;
+        access.attempts = formatAttempts(failover.attempts);
+        access.retries = failover.retries;
+        recordUpstreamAttempts(failover.attempts);
+        if (capture) {
+            capture.upstream = failover.upstream.name;
+            capture.upstream_status = openaiApiResponse.status;
+        }
+        if (failover.attempts.length > 1) {
+            logger.info(`[failover] model=${claudeRequest.model} served_by=${failover.upstream.name} attempts=${formatAttempts(failover.attempts)}`, { request_id: access.request_id });
         }
 
         // 透传 http_x_reqid header
         const reqIdHeader = openaiApiResponse.headers.get('http_x_reqid');
-        if (reqIdHeader) {
+        if (reqIdHeader && !res.headersSent) {
             res.setHeader('http_x_reqid', reqIdHeader);
         }
+        const upstreamRequestId = upstreamRequestIdOf(openaiApiResponse.headers);
+        access.upstream_request_id = upstreamRequestId || undefined;
+
+        if (!openaiApiResponse.ok) {
+            const errorBody = await openaiApiResponse.text();
+            access.error = errorBody.slice(0, 500);
+            if (capture) capture.upstream_response = errorBody;
+            logger.error(`[upstream] model=${claudeRequest.model} upstream=${failover.upstream.name} status=${openaiApiResponse.status} body=${errorBody.slice(0, 500)}`, { request_id: access.request_id });
+            return sendTranslatedError(res, translateUpstreamError(openaiApiResponse.status, errorBody, upstreamRequestId));
+        }
+
+        const transformOptions: StreamTransformOptions = {
+            singleToolCall: env.TOOL_CHOICE_ENFORCEMENT !== 'off' && disallowsParallelToolUse(claudeRequest),
+            stopSequences: claudeRequest.stop_sequences,
+            reasoningFields: dialectOf(failover.upstream).reasoningFields,
+            toolSchemas: env.TOOL_ARGS_REPAIR !== 'off' ? toolSchemasOf(claudeRequest) : undefined,
+            promptToolCalls: usesPromptTools(failover.upstream) || undefined,
+        };
+        if (capture) capture.transform_options = transformOptions;
 
-        if (claudeRequest.stream) {
+        if (upstreamRequest.stream) {
             const transformStream = new TransformStream({
-                transform: streamTransformer(claudeRequest.model, DEBUG_UPSTREAM_IO),
+                transform: upstreamStreamTransformer(failover.upstream.api)(claudeRequest.model, progress, transformOptions),
             });
 
             res.setHeader('Content-Type', 'text/event-stream');
             res.setHeader('Cache-Control', 'no-cache');
             res.setHeader('X-Accel-Buffering', 'no');
             res.setHeader('Connection', 'keep-alive');
+            trackInflightStream(res, access.route);
 
-            // 将 OpenAI 响应流通过转换流传递给客户端
+            // 将 OpenAI 响应流通过转换流传递给客户端；上游空闲超时以 event: error 结束，输出空闲时插入 ping
             if (openaiApiResponse.body) {
-                openaiApiResponse.body.pipeThrough(transformStream).pipeTo(
+                const upstreamBody = withIdleTimeout(openaiApiResponse.body, env.UPSTREAM_IDLE_TIMEOUT_MS);
+                const claudeStream = capture ? captureTransform(upstreamBody, transformStream, capture) : upstreamBody.pipeThrough(transformStream);
+                withPings(claudeStream, env.STREAM_PING_INTERVAL_MS, ANTHROPIC_PING_EVENT).pipeTo(
                     new WritableStream({
                         write(chunk) {
+                            if (progress.firstTokenAt !== undefined) markFirstToken(res, progress.firstTokenAt);
                             res.write(chunk);
                         },
                         close() {
                             res.end();
                         }
-                    })
+                    }),
+                    { signal: clientSignal }
                 ).catch((err: any) => {
+                    if (clientSignal.aborted) {
+                        return;
+                    }
                     // 上游连接中断（如 BodyTimeoutError）时，pipeTo 的 Promise 会 reject。
                     // 若不捕获，会变成 unhandledRejection 导致 Node.js 进程崩溃。
-                    console.error('[stream] upstream pipe error:', err?.message || err);
+                    // 此时 SSE 已经开始输出，以 event: error 告知客户端，避免出现没有 message_stop 的截断流
+                    access.error = `Upstream stream interrupted: ${err?.message || err}`;
+                    logger.error(`[stream] upstream pipe error: ${err?.message || err}`, { request_id: access.request_id });
+                    if (err instanceof UpstreamIdleTimeoutError) {
+                        return sendAnthropicError(res, 504, 'overloaded_error', err.message, upstreamRequestId || undefined);
+                    }
+                    sendAnthropicError(res, 502, 'api_error', `Upstream stream interrupted: ${err?.message || err}`, upstreamRequestId || undefined);
+                });
+            }
+        } else {
+            const openaiResponse: any = await openaiApiResponse.json();
+            logCategory('upstream_io', 'upstream response', { request_id: access.request_id, body: openaiResponse });
+            // 转换会原地整理推理字段，录制的是修改前的原始响应
+            if (capture) capture.upstream_response = structuredClone(openaiResponse);
+            const converted = convertUpstreamResponse(failover.upstream, openaiResponse, claudeRequest);
+            // 部分上游以 200 返回错误体
+            if (!converted) {
+                return sendTranslatedError(res, translateUpstreamError(502, JSON.stringify(openaiResponse), upstreamRequestId));
+            }
+            const toolChoiceChecked = await applyToolChoiceEnforcement(
+                target.upstreams,
+                claudeRequest,
+                converted,
+                upstreamHeaders,
+                clientSignal,
+                access.request_id
+            );
+            const toolArgsChecked = await applyToolArgsEnforcement(
+                target.upstreams,
+                claudeRequest,
+                toolChoiceChecked,
+                upstreamHeaders,
+                clientSignal,
+                access.request_id
+            );
+            const structured = await applyStructuredOutputEnforcement(
+                failover.upstream,
+                target.upstreams,
+                claudeRequest,
+                toolArgsChecked,
+                upstreamHeaders,
+                clientSignal,
+                access.request_id
+            );
+            if (capture) {
+                capture.tool_choice_enforced = toolChoiceChecked !== converted || undefined;
+                capture.tool_args_enforced = toolArgsChecked !== toolChoiceChecked || undefined;
+                capture.structured_output_emulated = structuredOutputModeOf(failover.upstream, claudeRequest) !== 'native' || undefined;
+            }
+            if ('error' in structured) {
+                access.usage = structured.usage;
+                access.error = structured.error.body.error.message;
+                return sendTranslatedError(res, structured.error);
+            }
+            const claudeResponse = structured.message;
+            if (capture) capture.claude_response = claudeResponse;
+            access.message_id = claudeResponse.id;
+            access.usage = claudeResponse.usage;
+            access.stop_reason = claudeResponse.stop_reason;
+            if (claudeRequest.stream) {
+                if (!res.headersSent) {
+                    res.setHeader('Content-Type', 'text/event-stream');
+                    res.setHeader('Cache-Control', 'no-cache');
+                }
+                markFirstToken(res);
+                return res.end(claudeMessageToSse(claudeResponse));
+            }
+            return res.json(claudeResponse);
+        }
+    } catch (e: any) {
+        if (clientSignal.aborted) {
+            return;
+        }
+        access.error = e.message;
+        logger.error(`Error processing request: ${e.message}`, { request_id: access.request_id, stack: e.stack });
+        return sendAnthropicError(res, 500, 'api_error', e.message);
+    }
+});
+
+// --- Reverse Mode: OpenAI Chat Completions on top of Anthropic ---
+
+app.all('/v1/chat/completions', async (req, res) => {
+    if (req.method === "OPTIONS") {
+        return handleOptions(res);
+    }
+
+    if (req.method !== "POST") {
+        return res.status(405).json(toOpenAIErrorBody('Method Not Allowed'));
+    }
+
+    const apiKey = extractApiKey(req);
+    if (!apiKey) {
+        return res.status(401).json(toOpenAIErrorBody('Missing API key. Provide Authorization: Bearer <key> or x-api-key header.'));
+    }
+
+    const access = accessLogOf(res);
+    const clientSignal = abortOnClientDisconnect(res);
+
+    try {
+        const openaiRequest: OpenAIRequest = req.body;
+        const target = resolveTarget(reverseModelRoutes, openaiRequest.model, upstreamApiKeyOf(apiKey), env.ANTHROPIC_BASE_URL);
+        const claudeRequestFor = (upstream: UpstreamTarget) =>
+            applyRouteDefaults(convertOpenAIToClaudeRequest(openaiRequest, upstream.modelName), target.defaults);
+
+        // 与 /v1/messages 相同：流式响应结束或客户端断开时把 usage 等写入访问日志（断开时未报告 usage 则按本地估算）
+        const progress = createStreamProgress();
+        let servedBy = target.upstreams[0];
+        clientSignal.addEventListener('abort', () => logClientCancellation(res, claudeRequestFor(servedBy), servedBy, progress), { once: true });
+        res.once('close', () => {
+            if (progress.messageId) access.message_id = progress.messageId;
+            if (progress.usage) access.usage = progress.usage;
+            if (progress.stopReason) access.stop_reason = progress.stopReason;
+        });
+
+        const { headers: upstreamHeaders } = buildUpstreamHeaders(req, {
+            "Content-Type": "application/json",
+            "anthropic-version": (req.headers['anthropic-version'] as string) || '2023-06-01',
+        });
+
+        const sendToUpstream = (upstream: UpstreamTarget, signal: AbortSignal) => {
+            const claudeRequest = claudeRequestFor(upstream);
+            const headers = { ...upstreamHeaders, 'x-api-key': upstream.apiKey };
+            logCategory('upstream_io', 'upstream request', {
+                request_id: access.request_id,
+                url: `${upstream.baseUrl}/v1/messages`,
+                method: 'POST',
+                headers: sanitizeHeadersForLog(headers),
+                body: claudeRequest,
+            });
+            return fetch(`${upstream.baseUrl}/v1/messages`, {
+                method: "POST",
+                headers,
+                body: JSON.stringify(claudeRequest),
+                signal,
+            });
+        };
+
+        let failover: FailoverResult;
+        try {
+            failover = await fetchWithFailover(target.upstreams, sendToUpstream, {
+                firstByteTimeoutMs: env.UPSTREAM_FIRST_BYTE_TIMEOUT_MS,
+                waitForFirstChunk: !!openaiRequest.stream,
+                retryPolicy,
+                signal: clientSignal,
+                warn: message => logger.warn(message, { request_id: access.request_id }),
+            });
+        } catch (err) {
+            if (err instanceof UpstreamUnavailableError) {
+                res.setHeader('X-Proxy-Upstream-Attempts', formatAttempts(err.attempts));
+                res.setHeader('X-Proxy-Retries', String(err.retries));
+                access.attempts = formatAttempts(err.attempts);
+                access.retries = err.retries;
+                recordUpstreamAttempts(err.attempts);
+                access.error = err.message;
+                logger.error(`[failover] model=${openaiRequest.model} ${err.message}`, { request_id: access.request_id });
+                return res.status(502).json(toOpenAIErrorBody(err.message));
+            }
+            throw err;
+        }
+        const claudeApiResponse = failover.response;
+        servedBy = failover.upstream;
+        res.setHeader('X-Proxy-Upstream', failover.upstream.name);
+        res.setHeader('X-Proxy-Upstream-Attempts', formatAttempts(failover.attempts));
+        res.setHeader('X-Proxy-Retries', String(failover.retries));
+        access.upstream = failover.upstream.name;
+        access.upstream_model = failover.upstream.modelName;
+        access.attempts = formatAttempts(failover.attempts);
+        access.retries = failover.retries;
+        recordUpstreamAttempts(failover.attempts);
+        access.upstream_request_id = upstreamRequestIdOf(claudeApiResponse.headers) || undefined;
+
+        if (!claudeApiResponse.ok) {
+            const errorBody = await claudeApiResponse.text();
+            access.error = errorBody.slice(0, 500);
+            return res.status(claudeApiResponse.status).json(toOpenAIErrorBody(errorBody));
+        }
+
+        if (openaiRequest.stream) {
+            const transformStream = new TransformStream({
+                transform: claudeStreamTransformer(openaiRequest.model, !!openaiRequest.stream_options?.include_usage, progress),
+            });
+
+            res.setHeader('Content-Type', 'text/event-stream');
+            res.setHeader('Cache-Control', 'no-cache');
+            res.setHeader('X-Accel-Buffering', 'no');
+            res.setHeader('Connection', 'keep-alive');
+            trackInflightStream(res, access.route);
+
+            if (claudeApiResponse.body) {
+                const upstreamBody = withIdleTimeout(claudeApiResponse.body, env.UPSTREAM_IDLE_TIMEOUT_MS);
+                withPings(upstreamBody.pipeThrough(transformStream), env.STREAM_PING_INTERVAL_MS, SSE_COMMENT_PING).pipeTo(
+                    new WritableStream({
+                        write(chunk) {
+                            if (progress.firstTokenAt !== undefined) markFirstToken(res, progress.firstTokenAt);
+                            res.write(chunk);
+                        },
+                        close() {
+                            res.end();
+                        }
+                    }),
+                    { signal: clientSignal }
+                ).catch((err: any) => {
+                    if (clientSignal.aborted) {
+                        return;
+                    }
+                    access.error = `Upstream stream interrupted: ${err?.message || err}`;
+                    logger.error(`[stream] upstream pipe error: ${err?.message || err}`, { request_id: access.request_id });
                     if (!res.writableEnded) {
+                        // OpenAI 流式错误以 data: {"error": ...} 发送
+                        const message = err instanceof UpstreamIdleTimeoutError ? err.message : `Upstream stream interrupted: ${err?.message || err}`;
+                        res.write(`data: ${JSON.stringify(toOpenAIErrorBody(message))}\n\n`);
                         res.end();
                     }
                 });
             }
         } else {
-            const openaiResponse = await openaiApiResponse.json();
-            if (DEBUG_UPSTREAM_IO) {
-                console.log(`[upstream][response][non-stream] ${stringifyForDebug(openaiResponse)}`);
+            const claudeResponse: any = await claudeApiResponse.json();
+            logCategory('upstream_io', 'upstream response', { request_id: access.request_id, body: claudeResponse });
+            access.message_id = claudeResponse.id;
+            access.usage = claudeResponse.usage;
+            access.stop_reason = claudeResponse.stop_reason;
+            return res.json(convertClaudeToOpenAIResponse(claudeResponse, openaiRequest.model));
+        }
+    } catch (e: any) {
+        if (clientSignal.aborted) {
+            return;
+        }
+        access.error = e.message;
+        logger.error(`Error processing chat completions request: ${e.message}`, { request_id: access.request_id, stack: e.stack });
+        return res.status(500).json(toOpenAIErrorBody(e.message));
+    }
+});
+
+// --- Message Batches ---
+
+/**
+ * 执行批次中的单个请求，与 /v1/messages 的非流式路径相同：路由、故障转移与重试、响应转换。
+ * owner 为提交者的 key 指纹，与 /v1/messages 一样按它限流并计入 token。
+ */
+async function executeBatchRequest(params: ClaudeMessagesRequest, owner: string, credential: BatchCredential | null): Promise<BatchResult> {
+    // 批次中的请求没有访问日志，按相同字段单独记录指标并写入用量账本
+    const access: AccessLogRecord = {
+        request_id: `req_${randomUUID().replace(/-/g, '')}`,
+        method: 'POST',
+        route: '/v1/messages/batches',
+        key_fingerprint: owner,
+        model: params.model,
+        stream: false,
+    };
+    const startedAt = Date.now();
+    const result = await runBatchRequest(params, owner, credential, access);
+    access.latency_ms = Date.now() - startedAt;
+    recordRequest(access, { routes: modelRoutes, route: 'batch' });
+    recordUsage(access);
+    return result;
+}
+
+/**
+ * 批次请求执行时的上游凭据：虚拟 key 按 id 重新校验（执行前可能已被吊销或过期），透传模式下为提交时的客户端 key。
+ */
+function batchUpstreamApiKey(credential: BatchCredential | null, access: AccessLogRecord): string {
+    if (credential && 'keyId' in credential && virtualKeys) {
+        const key = virtualKeys.authenticateId(credential.keyId);
+        virtualKeys.checkModel(key, access.model || '');
+        access.key_id = key.id;
+        access.key_owner = key.owner;
+        return virtualKeys.upstreamApiKey(key);
+    }
+    if (credential && 'apiKey' in credential) {
+        return upstreamApiKeyOf(credential.apiKey);
+    }
+    throw new VirtualKeyError(401, 'authentication_error', 'No credentials available for this batch request');
+}
+
+async function runBatchRequest(params: ClaudeMessagesRequest, owner: string, credential: BatchCredential | null, access: AccessLogRecord): Promise<BatchResult> {
+    let upstreamApiKey: string;
+    try {
+        upstreamApiKey = batchUpstreamApiKey(credential, access);
+    } catch (err) {
+        // 虚拟 key 在批次执行前被吊销或过期
+        if (err instanceof VirtualKeyError) {
+            access.status = err.status;
+            return { type: 'errored', error: anthropicErrorBody(err.type, err.message) };
+        }
+        throw err;
+    }
+    // 批次中的每个请求同样计入提交者的请求数限制，超限时该请求记为 errored
+    if (rateLimiter) {
+        const decision = rateLimiter.check(owner);
+        if (!decision.allowed) {
+            access.status = 429;
+            access.error = decision.message;
+            return { type: 'errored', error: anthropicErrorBody('rate_limit_error', decision.message) };
+        }
+    }
+    const target = resolveTarget(modelRoutes, params.model, upstreamApiKey, env.OPENAI_BASE_URL);
+    const claudeRequest = applyRouteDefaults(params, target.defaults);
+    const headers = { "Content-Type": "application/json", "X-Qiniu-Source": "anthropic" };
+    const result = await requestClaudeMessage(target.upstreams, claudeRequest, headers, undefined, access.request_id);
+    if ('error' in result) {
+        access.status = result.error.status;
+        return { type: 'errored', error: result.error.body };
+    }
+    access.upstream = result.upstream.name;
+    access.upstream_model = result.upstream.modelName;
+    const toolChoiceChecked = await applyToolChoiceEnforcement(target.upstreams, claudeRequest, result.message, headers, undefined, access.request_id);
+    const toolArgsChecked = await applyToolArgsEnforcement(target.upstreams, claudeRequest, toolChoiceChecked, headers, undefined, access.request_id);
+    const structured = await applyStructuredOutputEnforcement(result.upstream, target.upstreams, claudeRequest, toolArgsChecked, headers, undefined, access.request_id);
+    if ('error' in structured) {
+        access.status = structured.error.status;
+        access.usage = structured.usage;
+        if (rateLimiter && structured.usage) rateLimiter.recordUsage(owner, structured.usage);
+        return { type: 'errored', error: structured.error.body };
+    }
+    const message = structured.message;
+    access.status = 200;
+    access.usage = message.usage;
+    // 批次用量同样计入提交者的 token 限额
+    if (rateLimiter && message.usage) rateLimiter.recordUsage(owner, message.usage);
+    return { type: 'succeeded', message };
+}
+
+// 批次及结果持久化在 BATCHES_DIR，启动时恢复未完成的批次
+const batchManager = createBatchManager({
+    dir: env.BATCHES_DIR,
+    concurrency: env.BATCH_CONCURRENCY,
+    execute: executeBatchRequest,
+});
+
+/**
+ * 将 results_url 补全为完整 URL（兼容 nginx 转发的 X-Forwarded-Proto / X-Forwarded-Host）。
+ */
+function batchWithResultsUrl(req: express.Request, batch: MessageBatch): MessageBatch {
+    if (!batch.results_url) return batch;
+    const proto = (req.headers['x-forwarded-proto'] as string) || req.protocol;
+    const host = (req.headers['x-forwarded-host'] as string) || req.get('host');
+    return { ...batch, results_url: `${proto}://${host}${batch.results_url}` };
+}
+
+/**
+ * 批次接口的公共处理：校验 API key，按 key 指纹隔离批次，并把 BatchError 转换为对应的错误响应。
+ */
+function batchRoute(handler: (req: express.Request, res: express.Response, apiKey: string, owner: string) => void) {
+    return (req: express.Request, res: express.Response) => {
+        const apiKey = extractApiKey(req);
+        if (!apiKey) {
+            return sendAnthropicError(res, 401, 'authentication_error', 'Missing API key. Provide Authorization: Bearer <key> or x-api-key header.');
+        }
+        try {
+            handler(req, res, apiKey, apiKeyFingerprint(apiKey));
+        } catch (e: any) {
+            if (e instanceof BatchError) {
+                return sendAnthropicError(res, e.status, errorTypeForStatus(e.status), e.message);
             }
-            const claudeResponse = convertOpenAIToClaudeResponse(openaiResponse, claudeRequest.model);
-            return res.json(claudeResponse);
+            logger.error(`Error processing batch request: ${e.message}`, { request_id: accessLogOf(res).request_id, stack: e.stack });
+            return sendAnthropicError(res, 500, 'api_error', e.message);
         }
+    };
+}
+
+app.post('/v1/messages/batches', batchRoute((req, res, apiKey, owner) => {
+    const requests = validateBatchRequests(req.body);
+    // 虚拟 key 模式下只保存 key id；透传模式的客户端 key 只保存在内存中，都不会写入磁盘
+    const credential: BatchCredential = virtualKeys ? { keyId: virtualKeys.authenticate(apiKey).id } : { apiKey };
+    const batch = batchManager.create(requests, credential, owner);
+    logger.info(`[batch] created ${batch.id} with ${requests.length} requests`, { request_id: accessLogOf(res).request_id });
+    res.json(batch);
+}));
+
+app.get('/v1/messages/batches', batchRoute((req, res, apiKey, owner) => {
+    const page = batchManager.list(owner, {
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+        before_id: req.query.before_id as string | undefined,
+        after_id: req.query.after_id as string | undefined,
+    });
+    res.json({ ...page, data: page.data.map(batch => batchWithResultsUrl(req, batch)) });
+}));
+
+app.get('/v1/messages/batches/:id', batchRoute((req, res, apiKey, owner) => {
+    res.json(batchWithResultsUrl(req, batchManager.get(req.params.id, owner)));
+}));
+
+app.delete('/v1/messages/batches/:id', batchRoute((req, res, apiKey, owner) => {
+    res.json(batchManager.remove(req.params.id, owner));
+}));
+
+app.get('/v1/messages/batches/:id/results', batchRoute((req, res, apiKey, owner) => {
+    const results = batchManager.results(req.params.id, owner);
+    res.setHeader('Content-Type', 'application/x-jsonl');
+    res.send(results);
+}));
+
+app.post('/v1/messages/batches/:id/cancel', batchRoute((req, res, apiKey, owner) => {
+    res.json(batchWithResultsUrl(req, batchManager.cancel(req.params.id, owner)));
+}));
+
+// --- Token Counting ---
+
+app.all('/v1/messages/count_tokens', async (req, res) => {
+    if (req.method === "OPTIONS") {
+        return handleOptions(res);
+    }
+
+    if (req.method !== "POST") {
+        return sendAnthropicError(res, 405, 'invalid_request_error', `Method ${req.method} not allowed`);
+    }
+
+    const apiKey = extractApiKey(req);
+    if (!apiKey) {
+        return sendAnthropicError(res, 401, 'authentication_error', 'Missing API key. Provide Authorization: Bearer <key> or x-api-key header.');
+    }
+
+    const clientSignal = abortOnClientDisconnect(res);
+
+    try {
+        const claudeRequest: ClaudeMessagesRequest = req.body;
+        const target = resolveTarget(modelRoutes, claudeRequest.model, upstreamApiKeyOf(apiKey), env.OPENAI_BASE_URL);
+
+        if (env.COUNT_TOKENS_MODE === 'upstream') {
+            const upstreamCount = await countTokensUpstream(claudeRequest, target.upstreams[0], clientSignal);
+            if (upstreamCount !== null) {
+                return res.json({ input_tokens: upstreamCount });
+            }
+        }
+
+        // tokenizer 按路由后的上游模型家族选择
+        const tokenizer = getTokenizerForModel(target.upstreams[0].modelName);
+        return res.json({ input_tokens: countRequestTokens(claudeRequest, tokenizer) });
     } catch (e: any) {
-        console.error('Error processing request:', e);
-        return res.status(500).json({ error: e.message });
+        if (clientSignal.aborted) {
+            return;
+        }
+        accessLogOf(res).error = e.message;
+        logger.error(`Error counting tokens: ${e.message}`, { request_id: accessLogOf(res).request_id, stack: e.stack });
+        return sendAnthropicError(res, 500, 'api_error', e.message);
+    }
+});
+
+/**
+ * 调用上游 tokenize 接口（如 vLLM 的 POST /tokenize）计数。
+ * 兼容 count / input_tokens / token_count / tokens 几种返回格式，失败时返回 null 由调用方回退到本地估算。
+ * 超过 UPSTREAM_FIRST_BYTE_TIMEOUT_MS 同样回退；客户端断开时中止请求并抛出。
+ */
+async function countTokensUpstream(claudeRequest: ClaudeMessagesRequest, target: UpstreamTarget, signal: AbortSignal): Promise<number | null> {
+    const url = env.COUNT_TOKENS_UPSTREAM_URL || `${target.baseUrl}/tokenize`;
+    const controller = new AbortController();
+    const onClientAbort = () => controller.abort(signal.reason);
+    signal.addEventListener('abort', onClientAbort, { once: true });
+    const timer = env.UPSTREAM_FIRST_BYTE_TIMEOUT_MS > 0
+        ? setTimeout(() => controller.abort(new Error(`no response within ${env.UPSTREAM_FIRST_BYTE_TIMEOUT_MS}ms`)), env.UPSTREAM_FIRST_BYTE_TIMEOUT_MS)
+        : undefined;
+    try {
+        const openaiRequest = convertClaudeToOpenAIRequest({ ...claudeRequest, stream: false }, target.modelName);
+        const response = await fetch(url, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                Authorization: `Bearer ${target.apiKey}`,
+            },
+            body: JSON.stringify({ model: openaiRequest.model, messages: openaiRequest.messages, tools: openaiRequest.tools }),
+            signal: controller.signal,
+        });
+        if (!response.ok) {
+            logger.warn(`[count_tokens] upstream tokenize returned ${response.status}, fallback to local tokenizer`);
+            return null;
+        }
+        const body: any = await response.json();
+        for (const key of ['count', 'input_tokens', 'token_count']) {
+            if (typeof body?.[key] === 'number') return body[key];
+        }
+        if (Array.isArray(body?.tokens)) return body.tokens.length;
+        logger.warn('[count_tokens] unrecognized upstream tokenize response, fallback to local tokenizer');
+        return null;
+    } catch (err: any) {
+        signal.throwIfAborted();
+        logger.warn(`[count_tokens] upstream tokenize failed, fallback to local tokenizer: ${err?.message || err}`);
+        return null;
+    } finally {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', onClientAbort);
+    }
+}
+
+// --- Models ---
+
+// 模型列表：路由表中的别名与路由表各上游的 /models 合并，上游列表缓存 MODELS_CACHE_TTL_MS
+const modelCatalog = createModelCatalog({
+    routes: modelRoutes,
+    ttlMs: env.MODELS_CACHE_TTL_MS,
+    onError: (baseUrl, err) => logger.warn(`[models] failed to list upstream models from ${baseUrl}/models: ${err.message}`),
+});
+
+interface VisibleModels {
+    list(): Promise<ModelInfo[]>;
+    get(id: string): Promise<ModelInfo | undefined>;
+}
+
+/**
+ * 模型接口的公共处理：校验 API key，按上游凭据读取模型列表；虚拟 key 只能看到允许使用的模型。
+ */
+function modelsRoute(handler: (req: express.Request, res: express.Response, models: VisibleModels) => Promise<unknown>) {
+    return async (req: express.Request, res: express.Response) => {
+        const apiKey = extractApiKey(req);
+        if (!apiKey) {
+            return sendAnthropicError(res, 401, 'authentication_error', 'Missing API key. Provide Authorization: Bearer <key> or x-api-key header.');
+        }
+        try {
+            const key = virtualKeys?.authenticate(apiKey);
+            const allowed = (model: ModelInfo) => !key?.models || key.models.some(pattern => matchesModel(pattern, model.id));
+            const upstreams = listUpstreams(modelRoutes, upstreamApiKeyOf(apiKey), env.OPENAI_BASE_URL);
+            await handler(req, res, {
+                list: async () => (await modelCatalog.list(upstreams)).filter(allowed),
+                async get(id) {
+                    const model = await modelCatalog.get(upstreams, id);
+                    return model && allowed(model) ? model : undefined;
+                },
+            });
+        } catch (e: any) {
+            accessLogOf(res).error = e.message;
+            logger.error(`Error listing models: ${e.message}`, { request_id: accessLogOf(res).request_id, stack: e.stack });
+            return sendAnthropicError(res, 500, 'api_error', e.message);
+        }
+    };
+}
+
+app.get('/v1/models', modelsRoute(async (req, res, models) => {
+    res.json(paginateModels(await models.list(), {
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+        before_id: req.query.before_id as string | undefined,
+        after_id: req.query.after_id as string | undefined,
+    }));
+}));
+
+app.get('/v1/models/:id', modelsRoute(async (req, res, models) => {
+    const model = await models.get(req.params.id);
+    if (!model) {
+        return sendAnthropicError(res, 404, 'not_found_error', `model: ${req.params.id}`);
+    }
+    res.json(model);
+}));
+
+// --- Usage ---
+
+const USAGE_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_USAGE_DAYS = 366;
+
+/**
+ * 按 key、模型、天等维度汇总用量账本。USAGE_ADMIN_KEY 可以查看所有 key，其他 key 只能查看自己的用量。
+ * 参数：start / end（UTC 日期，默认最近 7 天）、group_by（默认 key,model,day）、key、model、format=csv。
+ */
+app.get('/v1/usage', async (req, res) => {
+    const apiKey = extractApiKey(req);
+    if (!apiKey) {
+        return sendAnthropicError(res, 401, 'authentication_error', 'Missing API key. Provide Authorization: Bearer <key> or x-api-key header.');
+    }
+    if (!usageLedger) {
+        return sendAnthropicError(res, 404, 'not_found_error', 'Usage ledger is disabled (USAGE_LEDGER_DIR is empty)');
+    }
+
+    const query = (name: string) => (typeof req.query[name] === 'string' ? req.query[name] as string : undefined);
+    const today = new Date().toISOString().slice(0, 10);
+    const end = query('end') || today;
+    const start = query('start') || new Date(Date.parse(end) - 6 * 86_400_000).toISOString().slice(0, 10);
+    if (!USAGE_DATE.test(start) || !USAGE_DATE.test(end) || Number.isNaN(Date.parse(start)) || Number.isNaN(Date.parse(end))) {
+        return sendAnthropicError(res, 400, 'invalid_request_error', 'start and end must be dates in YYYY-MM-DD format');
+    }
+    const days = (Date.parse(end) - Date.parse(start)) / 86_400_000 + 1;
+    if (days < 1 || days > MAX_USAGE_DAYS) {
+        return sendAnthropicError(res, 400, 'invalid_request_error', `start must not be after end, and the range must not exceed ${MAX_USAGE_DAYS} days`);
+    }
+    const groupBy = (query('group_by') ?? 'key,model,day').split(',').map(item => item.trim()).filter(Boolean) as UsageGroupBy[];
+    const invalid = groupBy.find(item => !USAGE_GROUP_BY.includes(item));
+    if (invalid) {
+        return sendAnthropicError(res, 400, 'invalid_request_error', `Invalid group_by "${invalid}", expected any of: ${USAGE_GROUP_BY.join(', ')}`);
+    }
+
+    try {
+        const access = accessLogOf(res);
+        const ownKey = access.key_id || access.key_fingerprint;
+        const keyFilter = isUsageAdmin(apiKey) ? query('key') : ownKey;
+        const modelFilter = query('model');
+        const records = (await usageLedger.read(start, end))
+            .filter(record => (!keyFilter || record.key === keyFilter) && (!modelFilter || record.model === modelFilter));
+        const rows = aggregateUsage(records, groupBy, modelPrices);
+
+        if (query('format') === 'csv' || (!query('format') && req.accepts(['json', 'text/csv']) === 'text/csv')) {
+            res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+            res.setHeader('Content-Disposition', `attachment; filename="usage-${start}-${end}.csv"`);
+            return res.send(usageToCsv(rows, groupBy));
+        }
+        return res.json({ start, end, group_by: groupBy, data: rows, total: totalUsage(records, modelPrices) });
+    } catch (e: any) {
+        accessLogOf(res).error = e.message;
+        logger.error(`Error reading usage ledger: ${e.message}`, { request_id: accessLogOf(res).request_id, stack: e.stack });
+        return sendAnthropicError(res, 500, 'api_error', e.message);
     }
 });
 
@@ -383,17 +1745,46 @@ app.get('/health', (req, res) => {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Prometheus 指标
+app.get('/metrics', (req, res) => {
+    res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.send(renderMetrics());
+});
+
+// 请求体解析失败（非法 JSON、超过 10mb 等）时按接口格式返回错误，而不是 Express 默认的 HTML 页面
+app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (res.headersSent) {
+        return next(err);
+    }
+    const status = typeof err?.status === 'number' ? err.status : 500;
+    const message = err?.type === 'entity.parse.failed' ? `Invalid JSON in request body: ${err.message}` : (err?.message || 'Internal server error');
+    if (req.path === '/v1/chat/completions') {
+        return res.status(status).json(toOpenAIErrorBody(message));
+    }
+    return sendAnthropicError(res, status, errorTypeForStatus(status), message);
+});
+
 // 全局兜底：捕获所有未处理的 Promise rejection，防止进程崩溃
 process.on('unhandledRejection', (reason: any, promise) => {
-    console.error('[unhandledRejection] Unhandled promise rejection:', reason?.message || reason);
+    logger.error(`[unhandledRejection] Unhandled promise rejection: ${reason?.message || reason}`);
     // 仅记录日志，不退出进程，保持服务可用
 });
 
-// 启动服务器
-app.listen(PORT, () => {
-    console.log(`Claude Proxy server is running on port ${PORT}`);
-    console.log(`Health check: http://localhost:${PORT}/health`);
-    console.log(`API endpoint: http://localhost:${PORT}/v1/messages`);
+// 启动服务器（replay 等工具只引入转换函数，不启动）
+if (require.main === module) app.listen(PORT, () => {
+    logger.info(`Claude Proxy server is running on port ${PORT}`);
+    logger.info(`Health check: http://localhost:${PORT}/health`);
+    logger.info(`Metrics: http://localhost:${PORT}/metrics`);
+    logger.info(`API endpoint: http://localhost:${PORT}/v1/messages`);
+    logger.info(`Reverse endpoint: http://localhost:${PORT}/v1/chat/completions -> ${env.ANTHROPIC_BASE_URL}`);
+    logger.info(`Models: http://localhost:${PORT}/v1/models`);
+    logger.info(`Token counting: http://localhost:${PORT}/v1/messages/count_tokens (${env.COUNT_TOKENS_MODE})`);
+    logger.info(`Message batches: http://localhost:${PORT}/v1/messages/batches (dir=${env.BATCHES_DIR}, concurrency=${env.BATCH_CONCURRENCY})`);
+    try {
+        batchManager.resume();
+    } catch (err: any) {
+        logger.error(`[batch] failed to resume batches from ${env.BATCHES_DIR}: ${err.message}`);
+    }
 });
 
 // ======================= Helper Functions =======================
@@ -459,12 +1850,19 @@ export function convertImageBlockToOpenAI(block: ClaudeTextBlock): OpenAIContent
  */
 export function convertClaudeToOpenAIRequest(
     claudeRequest: ClaudeMessagesRequest,
-    modelName: string
+    modelName: string,
+    dialect: DialectProfile = DIALECT_PROFILES.passthrough
 ): OpenAIRequest {
     const openaiMessages: OpenAIMessage[] = [];
 
-    if (claudeRequest.system) {
+    if (typeof claudeRequest.system === 'string' && claudeRequest.system) {
         openaiMessages.push({ role: "system", content: claudeRequest.system });
+    } else if (Array.isArray(claudeRequest.system) && claudeRequest.system.length > 0) {
+        // text 块数组逐块转换，保留 cache_control
+        openaiMessages.push({
+            role: "system",
+            content: claudeRequest.system.map(block => ({ type: 'text', text: block.text || '', ...(block.cache_control ? { cache_control: block.cache_control } : {}) })),
+        });
     }
 
     for (let i = 0; i < claudeRequest.messages.length; i++) {
@@ -703,13 +2101,19 @@ export function convertClaudeToOpenAIRequest(
     }
 
     if (claudeRequest.tool_choice) {
-        if (claudeRequest.tool_choice.type === 'auto' || claudeRequest.tool_choice.type === 'any') {
+        if (claudeRequest.tool_choice.type === 'auto') {
             openaiRequest.tool_choice = 'auto';
+        } else if (claudeRequest.tool_choice.type === 'any') {
+            openaiRequest.tool_choice = 'required';
         } else if (claudeRequest.tool_choice.type === 'none') {
             openaiRequest.tool_choice = 'none';
         } else if (claudeRequest.tool_choice.type === 'tool') {
             openaiRequest.tool_choice = { type: 'function', function: { name: claudeRequest.tool_choice.name! }};
         }
+        // OpenAI 只允许在提供 tools 时设置 parallel_tool_calls
+        if (claudeRequest.tool_choice.disable_parallel_tool_use && openaiRequest.tools?.length) {
+            openaiRequest.parallel_tool_calls = false;
+        }
     }
 
     // Ensure usage is included in streaming responses when supported by the upstream API
@@ -717,13 +2121,15 @@ export function convertClaudeToOpenAIRequest(
         openaiRequest.stream_options = { include_usage: true };
     }
 
-    return openaiRequest;
+    // 按上游方言去掉或翻译 Claude 专有字段
+    return applyDialect(openaiRequest, claudeRequest, dialect);
 }
 
 /**
  * Converts a non-streaming OpenAI response to the Claude format.
+ * promptToolCalls 为 true 时从正文中解析 <tool_call> 块（见 toolPrompt.ts）。
  */
-function convertOpenAIToClaudeResponse(openaiResponse: any, model: string): any {
+export function convertOpenAIToClaudeResponse(openaiResponse: any, model: string, stopSequences?: string[], promptToolCalls = false): any {
     const mapOpenAIIdToClaude = (openaiId: string): string => {
         if (!openaiId || typeof openaiId !== 'string') return `msg_${Math.random().toString(36).substr(2, 9)}`;
         const match = openaiId.match(/^[a-zA-Z]+-([A-Za-z0-9_\-]+)/);
@@ -765,21 +2171,44 @@ function convertOpenAIToClaudeResponse(openaiResponse: any, model: string): any
         contentBlocks.push(thinkingBlock);
     }
 
-    if (choice.message.content) {
-        contentBlocks.push({ type: 'text', text: choice.message.content });
+    // 命中的 stop 序列：优先使用上游报告的，否则在正文中查找并截断。
+    // 模拟工具调用时先解析出 <tool_call> 块，只在正文片段中查找：命中之前的工具调用保留，之后的内容不返回
+    let stopSequence = reportedStopSequence(choice, stopSequences);
+    const content: string = choice.message.content || '';
+    const events: ToolCallTextEvent[] = promptToolCalls ? parseToolCallText(content) : content ? [{ type: 'text', text: content }] : [];
+    let promptToolUses = 0;
+    for (const event of events) {
+        if (event.type === 'tool_call') {
+            contentBlocks.push({ type: 'tool_use', id: promptToolUseId(messageId, promptToolUses++), name: event.name, input: event.input });
+            continue;
+        }
+        const found = stopSequence ? null : findStopSequence(event.text, stopSequences);
+        const text = found ? event.text.slice(0, found.index) : event.text;
+        if (text) contentBlocks.push({ type: 'text', text });
+        if (found) {
+            stopSequence = found.sequence;
+            break;
+        }
     }
+    // 原生工具调用不在正文中，与正文中命中的 stop 序列无先后关系，始终保留
     if (choice.message.tool_calls) {
         choice.message.tool_calls.forEach((call: OpenAIToolCall) => {
+            const args = resolveToolArguments(call.function.arguments);
+            if (args.repairs.length > 0 || args.errors.length > 0) {
+                logger.warn(`[tool_args] name=${call.function.name} repairs=${args.repairs.join(',') || '-'} errors=${args.errors.join('; ') || '-'} args=${String(call.function.arguments).slice(0, 500)}`);
+            }
             contentBlocks.push({
                 type: 'tool_use',
                 id: call.id,
                 name: call.function.name,
-                input: JSON.parse(call.function.arguments),
+                input: args.input,
             });
         });
     }
-    const stopReasonMap: Record<string, string> = { stop: "end_turn", length: "max_tokens", tool_calls: "tool_use" };
-    console.log(`messageId: ${messageId}`);
+    const finishReason = mapFinishReason(choice.finish_reason);
+    if (!finishReason.known) {
+        logger.warn(`[stop_reason] unknown finish_reason "${choice.finish_reason}", treated as end_turn`, { message_id: messageId });
+    }
 
     // Build usage object with cache details if available
     // Anthropic: total_input_tokens = cache_read_input_tokens + cache_creation_input_tokens + input_tokens
@@ -796,7 +2225,7 @@ function convertOpenAIToClaudeResponse(openaiResponse: any, model: string): any
             cacheCreationTokens = details.cache_creation_tokens;
         }
     }
-    const usage: any = {
+    const usage: ClaudeUsage = {
         input_tokens: Math.max(0, inputTokens - cacheReadTokens - cacheCreationTokens),
         output_tokens: openaiResponse.usage.completion_tokens,
         cache_read_input_tokens: cacheReadTokens,
@@ -809,16 +2238,68 @@ function convertOpenAIToClaudeResponse(openaiResponse: any, model: string): any
         role: "assistant",
         model: model,
         content: contentBlocks,
-        stop_reason: stopReasonMap[choice.finish_reason] || "end_turn",
+        stop_reason: stopSequence ? "stop_sequence" : promptToolUses > 0 && finishReason.stopReason === 'end_turn' ? 'tool_use' : finishReason.stopReason,
+        stop_sequence: stopSequence,
         usage: usage,
     };
 }
 
+/**
+ * 流式转换过程中的累计状态，客户端中途断开时用于记录已消耗的 token。
+ */
+export interface StreamProgress {
+    messageId: string | null;
+    /**
+     * 上游在流中报告的 usage，尚未报告时为 null。
+     */
+    usage: ClaudeUsage | null;
+    /**
+     * 已生成的正文、推理内容和工具参数，上游未报告 usage 时用于估算输出 token。
+     */
+    generatedText: string;
+    stopReason: string | null;
+    /**
+     * 修复后仍然不合法的工具调用（只在 StreamTransformOptions.toolSchemas 设置时记录）。
+     */
+    invalidToolUses?: InvalidToolUse[];
+    /**
+     * 输出第一个内容增量（正文、推理或工具参数）的时间，用于计算首 token 时间；message_start 和 ping 不计入。
+     */
+    firstTokenAt?: number;
+}
+
+export function createStreamProgress(): StreamProgress {
+    return { messageId: null, usage: null, generatedText: '', stopReason: null };
+}
+
+export interface StreamTransformOptions {
+    /**
+     * 只输出第一个工具调用，丢弃之后的（disable_parallel_tool_use 的强制执行）。
+     */
+    singleToolCall?: boolean;
+    /**
+     * 请求的 stop_sequences，正文命中时截断并返回 stop_reason: "stop_sequence"。
+     */
+    stopSequences?: string[];
+    /**
+     * 上游方言中承载推理内容的字段，缺省按原有逻辑读取 thinking_blocks 和 reasoning_content。
+     */
+    reasoningFields?: ReasoningField[];
+    /**
+     * 请求中各工具的 input_schema（TOOL_ARGS_REPAIR 开启时设置）：工具参数缓存到调用结束，修复并校验后一次性输出。
+     */
+    toolSchemas?: Record<string, any>;
+    /**
+     * 上游以提示词模拟工具调用：正文中的 <tool_call> 块增量解析为 tool_use 块（见 toolPrompt.ts）。
+     */
+    promptToolCalls?: boolean;
+}
+
 /**
  * Creates a transform function for the streaming response.
  * Handles OpenAI streaming format including thinking_blocks and converts to Claude SSE format.
  */
-function streamTransformer(model: string, debugUpstreamIo = false) {
+export function streamTransformer(model: string, progress: StreamProgress = createStreamProgress(), options: StreamTransformOptions = {}) {
     const mapOpenAIIdToClaude = (openaiId: string): string => {
         if (!openaiId || typeof openaiId !== 'string') return `msg_${Math.random().toString(36).substr(2, 9)}`;
         const match = openaiId.match(/^[a-zA-Z]+-([A-Za-z0-9_\-]+)/);
@@ -836,6 +2317,8 @@ function streamTransformer(model: string, debugUpstreamIo = false) {
     let messageId: string | null = null;
     let requestId: string | null = null; // Store original OpenAI request id for signature
     const toolCalls: { [index: number]: { id: string, name: string, args: string, claudeIndex: number, started: boolean, stopped: boolean } } = {};
+    let firstToolIndex: number | null = null;
+    const droppedToolIndexes = new Set<number>();
     const thinkingBlocks: { [index: number]: { content: string, claudeIndex: number, started: boolean, stopped: boolean, signature?: string } } = {};
     let contentBlockIndex = -1; // Start at -1, will be incremented to 0 for first block
     let textBlockStarted = false; // Track if text block has been started
@@ -850,7 +2333,14 @@ function streamTransformer(model: string, debugUpstreamIo = false) {
     let cacheCreationTokens = 0;
     let lastDelta: any = null; // Track last delta to detect transitions
     let lastFinishReasonFromChunks: string | null = null;
+    // 正文中的 stop 序列由 stopMatcher 检测，上游报告的命中序列记录在 reportedStop
+    const stopMatcher = options.stopSequences?.length ? new StopSequenceMatcher(options.stopSequences) : null;
+    let reportedStop: string | null = null;
+    // 模拟工具调用时正文先经过 toolCallParser，解析出的调用转换为 OpenAI 的 tool_calls 增量，沿用下面的工具调用处理
+    const toolCallParser = options.promptToolCalls ? new ToolCallTextParser() : null;
+    let promptToolUses = 0;
     const sendEvent = (controller: TransformStreamDefaultController, event: string, data: object) => {
+        if (event === 'content_block_delta') progress.firstTokenAt ??= Date.now();
         controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
     };
     return (chunk: Uint8Array, controller: TransformStreamDefaultController) => {
@@ -861,7 +2351,25 @@ function streamTransformer(model: string, debugUpstreamIo = false) {
                 tb.stopped = true;
             }
         };
+        const sendTextDelta = (text: string) => {
+            if (!textBlockStarted) {
+                // 如果是第一个 block，从 -1 递增到 0；否则递增 contentBlockIndex
+                if (contentBlockIndex === -1) {
+                    contentBlockIndex = 0;
+                } else {
+                    contentBlockIndex++;
+                }
+                sendEvent(controller, 'content_block_start', { type: 'content_block_start', index: contentBlockIndex, content_block: { type: 'text', text: '' } });
+                textBlockStarted = true;
+            }
+            textContent += text;
+            progress.generatedText += text;
+            sendEvent(controller, 'content_block_delta', { type: 'content_block_delta', index: contentBlockIndex, delta: { type: 'text_delta', text } });
+        };
         const stopTextBlock = () => {
+            // 结束文本块前输出为匹配 stop 序列而暂存的文本
+            const held = stopMatcher?.flush();
+            if (held) sendTextDelta(held);
             if (textBlockStarted) {
                 sendEvent(controller, 'content_block_stop', { type: 'content_block_stop', index: contentBlockIndex });
                 textBlockStarted = false;
@@ -870,21 +2378,88 @@ function streamTransformer(model: string, debugUpstreamIo = false) {
         const stopToolBlock = (toolIndex: number) => {
             const tc = toolCalls[toolIndex];
             if (tc && tc.started && !tc.stopped) {
+                if (options.toolSchemas) {
+                    // 参数已缓存，修复后一次性输出
+                    const args = resolveToolArguments(tc.args, options.toolSchemas[tc.name]);
+                    if (args.repairs.length > 0 || args.errors.length > 0) {
+                        logger.warn(`[tool_args] messageId=${messageId} name=${tc.name} repairs=${args.repairs.join(',') || '-'} errors=${args.errors.join('; ') || '-'} args=${tc.args.slice(0, 500)}`);
+                    }
+                    recordInvalidToolUse(progress, tc.id, tc.name, args.errors);
+                    sendEvent(controller, 'content_block_delta', { type: 'content_block_delta', index: tc.claudeIndex, delta: { type: 'input_json_delta', partial_json: JSON.stringify(args.input) } });
+                }
                 sendEvent(controller, 'content_block_stop', { type: 'content_block_stop', index: tc.claudeIndex });
                 tc.stopped = true;
             }
         };
+        const handleText = (content: string) => {
+            const text = stopMatcher ? stopMatcher.push(content) : content;
+            if (text) sendTextDelta(text);
+        };
+        // 按解析顺序输出正文和工具调用：解析出的调用参数已完整，输出后立即结束该块，之后的正文开始新的文本块。
+        // 命中 stop 序列后的正文和调用都不输出，与非流式一致
+        const handlePromptEvents = (events: ToolCallTextEvent[]) => {
+            for (const event of events) {
+                if (stopMatcher?.matched) return;
+                if (event.type === 'text') {
+                    handleText(event.text);
+                    continue;
+                }
+                const index = promptToolUses;
+                handleToolCallDeltas([{ index, id: promptToolUseId(messageId || '', promptToolUses++), function: { name: event.name, arguments: JSON.stringify(event.input) } }]);
+                stopToolBlock(index);
+            }
+        };
+        const handleToolCallDeltas = (toolCallDeltas: any[]) => {
+            for(const tc_delta of toolCallDeltas) {
+                const index = tc_delta.index;
+                if (options.singleToolCall) {
+                    if (firstToolIndex === null) firstToolIndex = index;
+                    if (index !== firstToolIndex) {
+                        if (!droppedToolIndexes.has(index)) {
+                            droppedToolIndexes.add(index);
+                            logger.warn(`[tool_choice] dropping parallel tool call. messageId=${messageId}, index=${index}`);
+                        }
+                        continue;
+                    }
+                }
+                if (!toolCalls[index]) {
+                    toolCalls[index] = { id: '', name: '', args: '', claudeIndex: 0, started: false, stopped: false };
+                }
+                if (tc_delta.id) toolCalls[index].id = tc_delta.id;
+                if (tc_delta.function?.name) toolCalls[index].name = tc_delta.function.name;
+                if (tc_delta.function?.arguments) {
+                    toolCalls[index].args += tc_delta.function.arguments;
+                    progress.generatedText += tc_delta.function.arguments;
+                }
+                if (toolCalls[index].id && toolCalls[index].name && !toolCalls[index].started) {
+                    // 同一增量中先有正文再有工具调用时，先结束文本块
+                    if (textBlockStarted) stopTextBlock();
+                    // 如果是第一个 block，从 -1 递增到 0；否则递增 contentBlockIndex
+                    if (contentBlockIndex === -1) {
+                        contentBlockIndex = 0;
+                    } else {
+                        contentBlockIndex++;
+                    }
+                    toolCalls[index].claudeIndex = contentBlockIndex;
+                    toolCalls[index].started = true;
+                    sendEvent(controller, 'content_block_start', { type: 'content_block_start', index: contentBlockIndex, content_block: { type: 'tool_use', id: toolCalls[index].id, name: toolCalls[index].name, input: {} } });
+                }
+                if (toolCalls[index].started && tc_delta.function?.arguments && !options.toolSchemas) {
+                    sendEvent(controller, 'content_block_delta', { type: 'content_block_delta', index: toolCalls[index].claudeIndex, delta: { type: 'input_json_delta', partial_json: tc_delta.function.arguments } });
+                }
+            }
+        };
         buffer += decoder.decode(chunk, { stream: true });
         const lines = buffer.split("\n");
         buffer = lines.pop() || "";
         // removed per-chunk reinitialization of inputTokens/outputTokens to preserve totals across chunks
         for (const line of lines) {
             if (!line.startsWith("data: ")) continue;
-            if (debugUpstreamIo) {
-                console.log(`[upstream][response][stream-line] ${line}`);
-            }
+            logCategory('upstream_io', 'upstream stream line', { line });
             const data = line.substring(6);
             if (data.trim() === "[DONE]") {
+                // 模拟工具调用：输出暂存的正文，未闭合的 <tool_call> 按截断的调用解析
+                if (toolCallParser) handlePromptEvents(toolCallParser.flush());
                 // Stop all active content blocks
                 // Stop reasoning block if it's still active
                 if (reasoningBlockStarted) {
@@ -904,9 +2479,7 @@ function streamTransformer(model: string, debugUpstreamIo = false) {
 
                 let finalStopReason = "end_turn";
                 try {
-                    if (DEBUG_STOP_REASON) {
-                        console.log(`[stop_reason][DONE] messageId=${messageId} lines_count=${lines.length} tail=${JSON.stringify(lines.slice(-3))} last_finish_reason_seen=${lastFinishReasonFromChunks}`);
-                    }
+                    logCategory('stop_reason', 'DONE received', { message_id: messageId, lines_count: lines.length, tail: lines.slice(-3), last_finish_reason_seen: lastFinishReasonFromChunks });
                     // Prefer finish_reason captured from normal chunk parsing.
                     // Fallback to historical line-based parsing only when missing.
                     let finishReason = lastFinishReasonFromChunks;
@@ -914,16 +2487,15 @@ function streamTransformer(model: string, debugUpstreamIo = false) {
                         const lastChunk = JSON.parse(lines[lines.length - 2].substring(6));
                         finishReason = lastChunk.choices[0].finish_reason;
                     }
-                    if (finishReason === 'tool_calls') finalStopReason = 'tool_use';
-                    if (finishReason === 'length') finalStopReason = 'max_tokens';
-                    if (DEBUG_STOP_REASON) {
-                        console.log(`[stop_reason][DONE] parsed_finish_reason=${finishReason} final_stop_reason=${finalStopReason} messageId=${messageId}`);
+                    const mapped = mapFinishReason(finishReason);
+                    finalStopReason = mapped.stopReason;
+                    if (!mapped.known) {
+                        logger.warn(`[stop_reason] unknown finish_reason "${finishReason}", treated as end_turn. messageId=${messageId}`);
                     }
+                    logCategory('stop_reason', 'stop reason resolved', { message_id: messageId, parsed_finish_reason: finishReason, final_stop_reason: finalStopReason });
                 } catch (error) {
-                    if (DEBUG_STOP_REASON) {
-                        const errorMessage = error instanceof Error ? error.message : String(error);
-                        console.log(`[stop_reason][DONE] parse_failed messageId=${messageId} error=${errorMessage} fallback_final_stop_reason=${finalStopReason} last_finish_reason_seen=${lastFinishReasonFromChunks}`);
-                    }
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    logCategory('stop_reason', 'finish_reason parse failed', { message_id: messageId, error: errorMessage, fallback_final_stop_reason: finalStopReason, last_finish_reason_seen: lastFinishReasonFromChunks });
                 }
 
                 // 构建完整的 Claude 响应内容
@@ -950,18 +2522,11 @@ function streamTransformer(model: string, debugUpstreamIo = false) {
                 }
                 Object.values(toolCalls).forEach(tc => {
                     if (tc.started) {
-                        let input_tmp: object;
-                        try {
-                            input_tmp = JSON.parse(tc.args || '{}');
-                        } catch {
-                            input_tmp = { input_str: tc.args || '' };
-                            console.log(`[tool_use] Invalid JSON in args, fallback to input_str. messageId=${messageId}, name=${tc.name}, args=${tc.args}`);
-                        }
                         claudeContent.push({
                             type: 'tool_use',
                             id: tc.id,
                             name: tc.name,
-                            input:input_tmp
+                            input: resolveToolArguments(tc.args).input
                         });
                     }
                 });
@@ -969,28 +2534,44 @@ function streamTransformer(model: string, debugUpstreamIo = false) {
                 // Build usage object with cache details
                 // Anthropic: total_input_tokens = cache_read_input_tokens + cache_creation_input_tokens + input_tokens
                 // OpenAI prompt_tokens = total, so input_tokens = prompt_tokens - cached - cache_creation
-                const usageData: any = {
+                const usageData: ClaudeUsage = {
                     input_tokens: Math.max(0, inputTokens - cacheReadTokens - cacheCreationTokens),
                     output_tokens: outputTokens,
                     cache_read_input_tokens: cacheReadTokens,
                     cache_creation_input_tokens: cacheCreationTokens,
                 };
 
-                sendEvent(controller, 'message_delta', { type: 'message_delta', delta: { stop_reason: finalStopReason, stop_sequence: null }, usage: usageData });
+                const stopSequence = stopMatcher?.matched ?? reportedStop;
+                if (stopSequence) {
+                    finalStopReason = 'stop_sequence';
+                } else if (promptToolUses > 0 && finalStopReason === 'end_turn') {
+                    finalStopReason = 'tool_use';
+                }
+                progress.stopReason = finalStopReason;
+                sendEvent(controller, 'message_delta', { type: 'message_delta', delta: { stop_reason: finalStopReason, stop_sequence: stopSequence }, usage: usageData });
                 sendEvent(controller, 'message_stop', { type: 'message_stop' });
                 controller.terminate();
                 return;
             }
             try {
                 const openaiChunk = JSON.parse(data);
+                // 上游在流中途返回错误（OpenAI 兼容格式为 data: {"error": {...}}），转换为 Claude 的 event: error 并结束
+                if (openaiChunk?.error && !openaiChunk.choices) {
+                    const code = Number(openaiChunk.error.code);
+                    const translated = translateUpstreamError(code >= 400 && code < 600 ? code : 500, data);
+                    logger.error(`[stream] upstream error event messageId=${messageId}: ${translated.body.error.message}`);
+                    sendEvent(controller, 'error', translated.body);
+                    controller.terminate();
+                    return;
+                }
                 const chunkFinishReason = openaiChunk?.choices?.[0]?.finish_reason;
                 if (typeof chunkFinishReason === 'string') {
                     lastFinishReasonFromChunks = chunkFinishReason;
-                    if (DEBUG_STOP_REASON) {
-                        console.log(`[stop_reason][chunk] messageId=${messageId} finish_reason=${chunkFinishReason}`);
-                    }
+                    logCategory('stop_reason', 'finish_reason chunk', { message_id: messageId, finish_reason: chunkFinishReason });
                 }
+                reportedStop = reportedStopSequence(openaiChunk?.choices?.[0], options.stopSequences) ?? reportedStop;
                 const delta = openaiChunk.choices[0]?.delta;
+                if (options.reasoningFields) normalizeReasoning(delta, options.reasoningFields);
 
                 // 第一次解析：获取 id 或备用占位 id，并发送 message_start
                 if (!initialized) {
@@ -1000,7 +2581,7 @@ function streamTransformer(model: string, debugUpstreamIo = false) {
                     } else {
                         messageId = `msg_${Math.random().toString(36).substr(2, 9)}`;
                     }
-                    console.log(`messageId: ${messageId}`);
+                    progress.messageId = messageId;
                     sendEvent(controller, 'message_start', { type: 'message_start', message: { id: messageId, type: 'message', role: 'assistant', model, content: [], stop_reason: null, usage: { input_tokens: 0, output_tokens: 0 } } });
                     initialized = true;
                 }
@@ -1022,10 +2603,21 @@ function streamTransformer(model: string, debugUpstreamIo = false) {
                             cacheCreationTokens = Math.max(cacheCreationTokens, prompt_tokens_details.cache_creation_tokens);
                         }
                     }
+                    progress.usage = {
+                        input_tokens: Math.max(0, inputTokens - cacheReadTokens - cacheCreationTokens),
+                        output_tokens: outputTokens,
+                        cache_read_input_tokens: cacheReadTokens,
+                        cache_creation_input_tokens: cacheCreationTokens,
+                    };
                     // Log each time usage appears in the stream
                     // console.log('[stream usage]', { prompt_tokens, completion_tokens, inputTokens, outputTokens });
                 }
                 if (!delta) continue;
+                // 命中 stop 序列后丢弃之后的正文和推理内容，原生工具调用照常输出（与非流式一致），并继续读取 usage 和 finish_reason
+                if (stopMatcher?.matched) {
+                    if (delta.tool_calls) handleToolCallDeltas(delta.tool_calls);
+                    continue;
+                }
 
                 // Detect transitions between different content types
                 // If we're switching from thinking to text/tool_calls, stop thinking block
@@ -1112,6 +2704,7 @@ function streamTransformer(model: string, debugUpstreamIo = false) {
                             // Only send thinking_delta if there's actual content
                             if (thinking_delta.thinking) {
                                 thinkingBlocks[thinkingIndex].content += thinking_delta.thinking;
+                                progress.generatedText += thinking_delta.thinking;
                                 sendEvent(controller, 'content_block_delta', { type: 'content_block_delta', index: thinkingBlocks[thinkingIndex].claudeIndex, delta: { type: 'thinking_delta', thinking: thinking_delta.thinking } });
                             }
                             // If we just received the signature for an already-started block, send a signature_delta
@@ -1141,6 +2734,7 @@ function streamTransformer(model: string, debugUpstreamIo = false) {
                         });
                     }
                     reasoningContent += delta.reasoning_content;
+                    progress.generatedText += delta.reasoning_content;
                     sendEvent(controller, 'content_block_delta', {
                         type: 'content_block_delta',
                         index: contentBlockIndex,
@@ -1149,46 +2743,15 @@ function streamTransformer(model: string, debugUpstreamIo = false) {
                 }
 
                 // Handle text content
-                if (delta.content) {
-                    if (!textBlockStarted) {
-                        // 如果是第一个 block，从 -1 递增到 0；否则递增 contentBlockIndex
-                        if (contentBlockIndex === -1) {
-                            contentBlockIndex = 0;
-                        } else {
-                            contentBlockIndex++;
-                        }
-                        sendEvent(controller, 'content_block_start', { type: 'content_block_start', index: contentBlockIndex, content_block: { type: 'text', text: '' } });
-                        textBlockStarted = true;
-                    }
-                    textContent += delta.content;
-                    sendEvent(controller, 'content_block_delta', { type: 'content_block_delta', index: contentBlockIndex, delta: { type: 'text_delta', text: delta.content } });
+                if (toolCallParser && delta.content) {
+                    handlePromptEvents(toolCallParser.push(delta.content));
+                } else if (delta.content) {
+                    handleText(delta.content);
                 }
 
                 // Handle tool calls
                 if (delta.tool_calls) {
-                    for(const tc_delta of delta.tool_calls) {
-                        const index = tc_delta.index;
-                        if (!toolCalls[index]) {
-                            toolCalls[index] = { id: '', name: '', args: '', claudeIndex: 0, started: false, stopped: false };
-                        }
-                        if (tc_delta.id) toolCalls[index].id = tc_delta.id;
-                        if (tc_delta.function?.name) toolCalls[index].name = tc_delta.function.name;
-                        if (tc_delta.function?.arguments) toolCalls[index].args += tc_delta.function.arguments;
-                        if (toolCalls[index].id && toolCalls[index].name && !toolCalls[index].started) {
-                            // 如果是第一个 block，从 -1 递增到 0；否则递增 contentBlockIndex
-                            if (contentBlockIndex === -1) {
-                                contentBlockIndex = 0;
-                            } else {
-                                contentBlockIndex++;
-                            }
-                            toolCalls[index].claudeIndex = contentBlockIndex;
-                            toolCalls[index].started = true;
-                            sendEvent(controller, 'content_block_start', { type: 'content_block_start', index: contentBlockIndex, content_block: { type: 'tool_use', id: toolCalls[index].id, name: toolCalls[index].name, input: {} } });
-                        }
-                        if (toolCalls[index].started && tc_delta.function?.arguments) {
-                            sendEvent(controller, 'content_block_delta', { type: 'content_block_delta', index: toolCalls[index].claudeIndex, delta: { type: 'input_json_delta', partial_json: tc_delta.function.arguments } });
-                        }
-                    }
+                    handleToolCallDeltas(delta.tool_calls);
                 }
             } catch (e) {
                 // Ignore JSON parse errors
@@ -0,0 +1,98 @@
+/**
+ * 单元测试：流式响应保活
+ */
+import { describe, it, expect } from 'vitest';
+import { ANTHROPIC_PING_EVENT, startPings, UpstreamIdleTimeoutError, withIdleTimeout, withPings } from './keepalive';
+
+const encoder = new TextEncoder();
+
+/**
+ * 按给定延迟依次输出数据块的流，最后一个延迟之后结束；never 为 true 时输出完不结束。
+ */
+function delayedStream(chunks: [number, string][], never = false) {
+    let cancelled = false;
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            for (const [delay, text] of chunks) {
+                await new Promise(resolve => setTimeout(resolve, delay));
+                if (cancelled) return;
+                controller.enqueue(encoder.encode(text));
+            }
+            if (!never) controller.close();
+        },
+        cancel() {
+            cancelled = true;
+        },
+    });
+    return { stream, isCancelled: () => cancelled };
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+    return new Response(stream).text();
+}
+
+describe('withPings', () => {
+    it('输出空闲时插入 ping，数据不丢失', async () => {
+        const { stream } = delayedStream([[0, 'a'], [80, 'b']]);
+        const output = await readAll(withPings(stream, 30, ANTHROPIC_PING_EVENT));
+        expect(output.startsWith('a')).toBe(true);
+        expect(output.endsWith('b')).toBe(true);
+        expect(output).toContain('event: ping');
+    });
+
+    it('数据持续到达时不发送 ping', async () => {
+        const { stream } = delayedStream([[0, 'a'], [5, 'b'], [5, 'c']]);
+        expect(await readAll(withPings(stream, 1000, ANTHROPIC_PING_EVENT))).toBe('abc');
+    });
+});
+
+describe('withIdleTimeout', () => {
+    it('上游超时无数据时报错并取消上游', async () => {
+        const { stream, isCancelled } = delayedStream([[0, 'a']], true);
+        const error = await readAll(withIdleTimeout(stream, 30)).catch(e => e);
+        expect(error).toBeInstanceOf(UpstreamIdleTimeoutError);
+        expect(isCancelled()).toBe(true);
+    });
+
+    it('数据间隔小于超时时间时正常结束', async () => {
+        const { stream } = delayedStream([[10, 'a'], [10, 'b']]);
+        expect(await readAll(withIdleTimeout(stream, 200))).toBe('ab');
+    });
+
+    it('下游提前结束（如收到 [DONE] 后 terminate）时取消上游且不再操作已关闭的流', async () => {
+        const { stream, isCancelled } = delayedStream([[0, 'a'], [20, 'b']], true);
+        const terminateAfterFirst = new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+                controller.enqueue(chunk);
+                controller.terminate();
+            },
+        });
+        expect(await readAll(withIdleTimeout(stream, 1000).pipeThrough(terminateAfterFirst))).toBe('a');
+        await new Promise(resolve => setTimeout(resolve, 40));
+        expect(isCancelled()).toBe(true);
+    });
+});
+
+describe('startPings', () => {
+    it('等待延迟的上游响应期间发送 ping，停止后不再发送', async () => {
+        const written: string[] = [];
+        const stop = startPings(ping => written.push(ping), 20, ANTHROPIC_PING_EVENT);
+        const upstream = new Promise<string>(resolve => setTimeout(() => resolve('message'), 90));
+        expect(written).toEqual([]);
+        written.push(await upstream);
+        stop();
+        const pings = written.length - 1;
+        expect(pings).toBeGreaterThanOrEqual(2);
+        expect(written.slice(0, pings).every(chunk => chunk === ANTHROPIC_PING_EVENT)).toBe(true);
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(written).toHaveLength(pings + 1);
+    });
+
+    it('间隔为 0 时不发送', async () => {
+        const written: string[] = [];
+        const stop = startPings(ping => written.push(ping), 0, ANTHROPIC_PING_EVENT);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        stop();
+        expect(written).toEqual([]);
+    });
+});
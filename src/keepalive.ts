@@ -0,0 +1,129 @@
+/**
+ * 流式响应保活
+ *
+ * 上游长时间思考时可能几分钟不输出数据，中间的代理会因此断开 SSE 连接。
+ * withPings 在输出流空闲时按间隔插入 ping；withIdleTimeout 在上游超过指定时间没有数据时以
+ * UpstreamIdleTimeoutError 结束流，由调用方转换为 `event: error`，而不是留下没有 message_stop 的截断流。
+ */
+
+/**
+ * Anthropic 的 ping 事件。
+ */
+export const ANTHROPIC_PING_EVENT = 'event: ping\ndata: {"type": "ping"}\n\n';
+
+/**
+ * OpenAI 流没有 ping 事件，用 SSE 注释行保活，客户端会忽略。
+ */
+export const SSE_COMMENT_PING = ': ping\n\n';
+
+/**
+ * 上游超过空闲时间没有输出任何数据时抛出。
+ */
+export class UpstreamIdleTimeoutError extends Error {
+    idleTimeoutMs: number;
+
+    constructor(idleTimeoutMs: number) {
+        super(`Upstream stream idle for more than ${idleTimeoutMs}ms`);
+        this.name = 'UpstreamIdleTimeoutError';
+        this.idleTimeoutMs = idleTimeoutMs;
+    }
+}
+
+/**
+ * 上游超过 idleTimeoutMs 没有数据块时让流出错并取消上游读取，0 表示不限制。
+ */
+export function withIdleTimeout(source: ReadableStream<Uint8Array>, idleTimeoutMs: number): ReadableStream<Uint8Array> {
+    if (idleTimeoutMs <= 0) return source;
+    const reader = source.getReader();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // 下游取消后，挂起的 read 会以 done 返回，此时 controller 已关闭，不能再操作
+    let cancelled = false;
+
+    return new ReadableStream<Uint8Array>({
+        pull(controller) {
+            return new Promise<void>(resolve => {
+                let timedOut = false;
+                timer = setTimeout(() => {
+                    timedOut = true;
+                    const error = new UpstreamIdleTimeoutError(idleTimeoutMs);
+                    controller.error(error);
+                    reader.cancel(error).catch(() => {});
+                    resolve();
+                }, idleTimeoutMs);
+                reader.read().then(({ done, value }) => {
+                    clearTimeout(timer);
+                    if (timedOut) return;
+                    if (cancelled) return resolve();
+                    if (done) {
+                        controller.close();
+                    } else {
+                        controller.enqueue(value);
+                    }
+                    resolve();
+                }, err => {
+                    clearTimeout(timer);
+                    if (timedOut) return;
+                    if (cancelled) return resolve();
+                    controller.error(err);
+                    resolve();
+                });
+            });
+        },
+        cancel(reason) {
+            cancelled = true;
+            clearTimeout(timer);
+            return reader.cancel(reason);
+        },
+    });
+}
+
+/**
+ * 输出流超过 intervalMs 没有数据时插入 ping，0 表示不发送。流结束、出错或被取消时停止计时。
+ */
+export function withPings(source: ReadableStream<Uint8Array>, intervalMs: number, ping: string): ReadableStream<Uint8Array> {
+    if (intervalMs <= 0) return source;
+    const reader = source.getReader();
+    const pingChunk = new TextEncoder().encode(ping);
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let lastOutputAt = Date.now();
+
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            timer = setInterval(() => {
+                if (Date.now() - lastOutputAt >= intervalMs) {
+                    controller.enqueue(pingChunk);
+                    lastOutputAt = Date.now();
+                }
+            }, Math.max(1, Math.floor(intervalMs / 2)));
+        },
+        async pull(controller) {
+            try {
+                const { done, value } = await reader.read();
+                if (done) {
+                    clearInterval(timer);
+                    controller.close();
+                    return;
+                }
+                lastOutputAt = Date.now();
+                controller.enqueue(value);
+            } catch (err) {
+                clearInterval(timer);
+                controller.error(err);
+            }
+        },
+        cancel(reason) {
+            clearInterval(timer);
+            return reader.cancel(reason);
+        },
+    });
+}
+
+/**
+ * 等待完整响应期间（例如先向上游发非流式请求再一次性输出 SSE）按 intervalMs 调用 write 发送 ping，0 表示不发送。
+ * 返回停止函数，可重复调用。
+ */
+export function startPings(write: (ping: string) => void, intervalMs: number, ping: string): () => void {
+    if (intervalMs <= 0) return () => {};
+    const timer = setInterval(() => write(ping), intervalMs);
+    return () => clearInterval(timer);
+}
@@ -0,0 +1,35 @@
+/**
+ * 单元测试：日志配置
+ */
+import { describe, it, expect, vi } from 'vitest';
+
+// 测试中不写日志文件
+vi.hoisted(() => {
+    process.env.LOG_DIR = '';
+});
+
+import { apiKeyFingerprint, loadLogConfig } from './logger';
+
+describe('loadLogConfig', () => {
+    it('默认值', () => {
+        expect(loadLogConfig({})).toEqual({ level: 'info', dir: 'logs', retention: '14d', categories: new Set() });
+    });
+
+    it('LOG_DIR 为空时不写文件', () => {
+        expect(loadLogConfig({ LOG_DIR: '' }).dir).toBe('');
+    });
+
+    it('旧的 DEBUG_* 开关映射为日志类别', () => {
+        const config = loadLogConfig({ LOG_CATEGORIES: 'upstream_io, ', DEBUG_STOP_REASON: '1' });
+        expect([...config.categories]).toEqual(['upstream_io', 'stop_reason']);
+    });
+});
+
+describe('apiKeyFingerprint', () => {
+    it('同一 key 指纹稳定，且不包含 key 本身', () => {
+        const fingerprint = apiKeyFingerprint('sk-secret-key');
+        expect(fingerprint).toMatch(/^sha256:[0-9a-f]{12}$/);
+        expect(fingerprint).toBe(apiKeyFingerprint('sk-secret-key'));
+        expect(fingerprint).not.toBe(apiKeyFingerprint('sk-other-key'));
+    });
+});
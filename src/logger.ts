@@ -0,0 +1,164 @@
+/**
+ * 日志
+ *
+ * 应用日志与访问日志均为 JSON 行，按天滚动写入 LOG_DIR（LOG_DIR 为空时只输出到控制台）。
+ * 访问日志每个请求一条记录；调试输出按类别开启（LOG_CATEGORIES），
+ * 旧的 DEBUG_UPSTREAM_IO / DEBUG_STOP_REASON 开关分别对应 upstream_io / stop_reason 类别。
+ */
+
+import { createHash } from 'crypto';
+import winston from 'winston';
+import DailyRotateFile from 'winston-daily-rotate-file';
+import type { ClaudeUsage } from './index';
+
+export type LogCategory = 'upstream_io' | 'stop_reason';
+
+export interface LogConfig {
+    level: string;
+    /**
+     * 日志目录，空字符串表示不写文件。
+     */
+    dir: string;
+    /**
+     * 滚动文件保留策略，如 "14d"（天数）或 "20"（文件个数）。
+     */
+    retention: string;
+    categories: Set<string>;
+}
+
+/**
+ * 访问日志记录，每个请求一条。
+ */
+export interface AccessLogRecord {
+    request_id: string;
+    method: string;
+    route: string;
+    real_ip?: string;
+    /**
+     * API key 的 sha256 前缀，不记录 key 本身。
+     */
+    key_fingerprint?: string;
+    /**
+     * 虚拟 key（VIRTUAL_KEYS_FILE）的 id 和所有者。
+     */
+    key_id?: string;
+    key_owner?: string;
+    /**
+     * 客户端请求的模型名。
+     */
+    model?: string;
+    upstream?: string;
+    upstream_model?: string;
+    upstream_request_id?: string;
+    message_id?: string;
+    attempts?: string;
+    retries?: number;
+    stream: boolean;
+    status?: number;
+    latency_ms?: number;
+    /**
+     * 流式请求从收到请求到向客户端写出第一个数据块的时间。
+     */
+    ttft_ms?: number;
+    usage?: ClaudeUsage;
+    stop_reason?: string | null;
+    /**
+     * 响应结束前客户端已断开。
+     */
+    cancelled?: boolean;
+    error?: string;
+}
+
+/**
+ * 从环境变量读取日志配置。
+ */
+export function loadLogConfig(source: NodeJS.ProcessEnv = process.env): LogConfig {
+    const categories = new Set(
+        (source.LOG_CATEGORIES || '')
+            .split(',')
+            .map(item => item.trim())
+            .filter(Boolean)
+    );
+    // 兼容旧的调试开关
+    if (source.DEBUG_UPSTREAM_IO === '1') categories.add('upstream_io');
+    if (source.DEBUG_STOP_REASON === '1') categories.add('stop_reason');
+    return {
+        level: source.LOG_LEVEL || 'info',
+        dir: source.LOG_DIR ?? 'logs',
+        retention: source.LOG_RETENTION || '14d',
+        categories,
+    };
+}
+
+/**
+ * API key 指纹，用于在日志中区分调用方而不泄露 key。
+ */
+export function apiKeyFingerprint(apiKey: string): string {
+    return `sha256:${createHash('sha256').update(apiKey).digest('hex').slice(0, 12)}`;
+}
+
+function rotatingFile(config: LogConfig, name: string) {
+    return new DailyRotateFile({
+        dirname: config.dir,
+        filename: `${name}-%DATE%.log`,
+        datePattern: 'YYYY-MM-DD',
+        maxFiles: config.retention,
+    });
+}
+
+/**
+ * 按配置创建应用日志和访问日志。
+ */
+export function createLoggers(config: LogConfig) {
+    const jsonFormat = winston.format.combine(winston.format.timestamp(), winston.format.json());
+    const consoleFormat = winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.printf(({ timestamp, level, message, category, ...meta }) => {
+            const prefix = category ? `[${category}] ` : '';
+            const extra = Object.keys(meta).length > 0 ? ` ${JSON.stringify(meta)}` : '';
+            return `${timestamp} ${level}: ${prefix}${message}${extra}`;
+        })
+    );
+
+    const logger = winston.createLogger({
+        level: config.level,
+        format: jsonFormat,
+        transports: [
+            new winston.transports.Console({ format: consoleFormat }),
+            ...(config.dir ? [rotatingFile(config, 'proxy')] : []),
+        ],
+    });
+    // 访问日志单独成文件，便于统计；不写文件时输出到控制台
+    const accessLogger = winston.createLogger({
+        level: 'info',
+        format: jsonFormat,
+        transports: [config.dir ? rotatingFile(config, 'access') : new winston.transports.Console()],
+    });
+    return { logger, accessLogger };
+}
+
+export const logConfig = loadLogConfig();
+export const { logger, accessLogger } = createLoggers(logConfig);
+
+/**
+ * 该调试类别是否开启。输出较大的调试内容前先判断，避免无谓的序列化。
+ */
+export function isLogCategoryEnabled(category: LogCategory): boolean {
+    return logConfig.categories.has(category);
+}
+
+/**
+ * 按类别输出调试日志，类别未开启时不输出。
+ */
+export function logCategory(category: LogCategory, message: string, meta: Record<string, unknown> = {}) {
+    if (isLogCategoryEnabled(category)) {
+        logger.info(message, { category, ...meta });
+    }
+}
+
+/**
+ * 写入一条访问日志。
+ */
+export function writeAccessLog(record: AccessLogRecord) {
+    accessLogger.info('access', record);
+}
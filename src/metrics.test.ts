@@ -0,0 +1,110 @@
+/**
+ * 单元测试：Prometheus 指标
+ */
+import { describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+import {
+    Counter,
+    Histogram,
+    inflightStreams,
+    recordRequest,
+    recordUpstreamAttempts,
+    renderMetrics,
+    requestsTotal,
+    routeLabel,
+    tokensTotal,
+    trackInflightStream,
+    upstreamErrorsTotal,
+    upstreamRetriesTotal,
+} from './metrics';
+
+describe('Counter', () => {
+    it('按 label 累加并输出文本格式，转义 label 值', () => {
+        const counter = new Counter('test_total', 'Test counter.', ['model']);
+        counter.inc({ model: 'a' });
+        counter.inc({ model: 'a' }, 2);
+        counter.inc({ model: 'say "hi"' });
+        expect(counter.render()).toBe([
+            '# HELP test_total Test counter.',
+            '# TYPE test_total counter',
+            'test_total{model="a"} 3',
+            'test_total{model="say \\"hi\\""} 1',
+        ].join('\n'));
+    });
+});
+
+describe('Histogram', () => {
+    it('bucket 为累计计数，并输出 sum 和 count', () => {
+        const histogram = new Histogram('test_seconds', 'Test histogram.', ['route'], [0.1, 1]);
+        histogram.observe({ route: '/r' }, 0.05);
+        histogram.observe({ route: '/r' }, 0.5);
+        histogram.observe({ route: '/r' }, 3);
+        expect(histogram.render().split('\n').slice(2)).toEqual([
+            'test_seconds_bucket{route="/r",le="0.1"} 1',
+            'test_seconds_bucket{route="/r",le="1"} 2',
+            'test_seconds_bucket{route="/r",le="+Inf"} 3',
+            'test_seconds_sum{route="/r"} 3.55',
+            'test_seconds_count{route="/r"} 3',
+        ]);
+    });
+});
+
+describe('recordRequest', () => {
+    it('按访问日志记录更新请求数和 token 用量', () => {
+        recordRequest({
+            request_id: 'req_1',
+            method: 'POST',
+            route: '/v1/messages',
+            model: 'claude-test',
+            upstream: 'primary',
+            stream: true,
+            status: 200,
+            latency_ms: 1200,
+            ttft_ms: 300,
+            usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 100, cache_creation_input_tokens: 0 },
+        }, { routes: [{ match: 'claude-test' }] });
+        expect(requestsTotal.get({ route: '/v1/messages', model: 'claude-test', upstream: 'primary', status: '200' })).toBe(1);
+        expect(tokensTotal.get({ model: 'claude-test', type: 'input' })).toBe(10);
+        expect(tokensTotal.get({ model: 'claude-test', type: 'cache_read' })).toBe(100);
+        expect(renderMetrics()).toContain('claude_proxy_time_to_first_token_seconds_count{route="/v1/messages",model="claude-test"} 1');
+    });
+
+    it('route 按路由模板归并，未命中路由表的模型记为 other，通配路由记为 match 模式', () => {
+        const routes = [{ match: 'claude-sonnet-*' }];
+        recordRequest({ request_id: 'req_2', method: 'GET', route: '/v1/messages/batches/msgbatch_1/results', stream: false, status: 200 });
+        recordRequest({ request_id: 'req_3', method: 'POST', route: '/v1/messages', model: 'claude-sonnet-4-5', stream: false, status: 200 }, { routes });
+        recordRequest({ request_id: 'req_4', method: 'POST', route: '/v1/messages', model: 'anything-123', stream: false, status: 200 }, { routes });
+        recordRequest({ request_id: 'req_5', method: 'POST', route: '/v1/messages/batches', model: 'claude-sonnet-4-5', stream: false, status: 200 }, { routes, route: 'batch' });
+        expect(requestsTotal.get({ route: '/v1/messages/batches/:id/results', model: '', upstream: '', status: '200' })).toBe(1);
+        expect(requestsTotal.get({ route: '/v1/messages', model: 'claude-sonnet-*', upstream: '', status: '200' })).toBe(1);
+        expect(requestsTotal.get({ route: '/v1/messages', model: 'other', upstream: '', status: '200' })).toBe(1);
+        expect(requestsTotal.get({ route: 'batch', model: 'claude-sonnet-*', upstream: '', status: '200' })).toBe(1);
+        expect(routeLabel('/v1/models/claude-x/')).toBe('/v1/models/:id');
+        expect(routeLabel('/v1/unknown/path')).toBe('other');
+    });
+});
+
+describe('recordUpstreamAttempts', () => {
+    it('统计失败的尝试，同一上游的连续尝试计为重试', () => {
+        recordUpstreamAttempts([
+            { upstream: 'a', outcome: 503, durationMs: 1 },
+            { upstream: 'a', outcome: 'timeout', durationMs: 1 },
+            { upstream: 'b', outcome: 200, durationMs: 1 },
+        ]);
+        expect(upstreamErrorsTotal.get({ upstream: 'a', reason: '503' })).toBe(1);
+        expect(upstreamErrorsTotal.get({ upstream: 'a', reason: 'timeout' })).toBe(1);
+        expect(upstreamErrorsTotal.get({ upstream: 'b', reason: '200' })).toBe(0);
+        expect(upstreamRetriesTotal.get({ upstream: 'a' })).toBe(1);
+        expect(upstreamRetriesTotal.get({ upstream: 'b' })).toBe(0);
+    });
+});
+
+describe('trackInflightStream', () => {
+    it('连接关闭时扣除进行中的流', () => {
+        const res = new EventEmitter();
+        trackInflightStream(res, '/v1/messages');
+        expect(inflightStreams.get({ route: '/v1/messages' })).toBe(1);
+        res.emit('close');
+        expect(inflightStreams.get({ route: '/v1/messages' })).toBe(0);
+    });
+});
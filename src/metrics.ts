@@ -0,0 +1,232 @@
+/**
+ * Prometheus 指标
+ *
+ * 以 Prometheus 文本格式（0.0.4）输出代理的请求量、延迟、首 token 时间、进行中的流、token 用量以及上游错误和重试。
+ * 请求级指标来自访问日志记录（logger.ts 的 AccessLogRecord），与访问日志口径一致。
+ */
+
+import type { AccessLogRecord } from './logger';
+import type { UpstreamAttempt } from './upstream';
+import { matchModelRoute, ModelRoute } from './routing';
+
+type Labels = Record<string, string>;
+
+const DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+const TTFT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30, 60];
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * 按 labelNames 的顺序取值，缺失的 label 记为空字符串，保证同一组 label 总是得到相同的 key。
+ */
+function normalizeLabels(labelNames: string[], labels: Labels): Labels {
+    const normalized: Labels = {};
+    for (const name of labelNames) {
+        normalized[name] = labels[name] ?? '';
+    }
+    return normalized;
+}
+
+interface Metric {
+    render(): string;
+}
+
+export class Counter implements Metric {
+    private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(readonly name: string, readonly help: string, readonly labelNames: string[] = []) {}
+
+    inc(labels: Labels = {}, value = 1) {
+        const normalized = normalizeLabels(this.labelNames, labels);
+        const key = formatLabels(normalized);
+        const entry = this.values.get(key) || { labels: normalized, value: 0 };
+        entry.value += value;
+        this.values.set(key, entry);
+    }
+
+    get(labels: Labels = {}): number {
+        return this.values.get(formatLabels(normalizeLabels(this.labelNames, labels)))?.value ?? 0;
+    }
+
+    render(): string {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+        for (const [key, entry] of this.values) {
+            lines.push(`${this.name}${key} ${entry.value}`);
+        }
+        return lines.join('\n');
+    }
+}
+
+export class Gauge implements Metric {
+    private readonly values = new Map<string, number>();
+
+    constructor(readonly name: string, readonly help: string, readonly labelNames: string[] = []) {}
+
+    inc(labels: Labels = {}, value = 1) {
+        const key = formatLabels(normalizeLabels(this.labelNames, labels));
+        this.values.set(key, (this.values.get(key) ?? 0) + value);
+    }
+
+    dec(labels: Labels = {}, value = 1) {
+        this.inc(labels, -value);
+    }
+
+    get(labels: Labels = {}): number {
+        return this.values.get(formatLabels(normalizeLabels(this.labelNames, labels))) ?? 0;
+    }
+
+    render(): string {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`];
+        for (const [key, value] of this.values) {
+            lines.push(`${this.name}${key} ${value}`);
+        }
+        return lines.join('\n');
+    }
+}
+
+export class Histogram implements Metric {
+    private readonly values = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+    constructor(readonly name: string, readonly help: string, readonly labelNames: string[], readonly buckets: number[]) {}
+
+    observe(labels: Labels, value: number) {
+        const normalized = normalizeLabels(this.labelNames, labels);
+        const key = formatLabels(normalized);
+        let entry = this.values.get(key);
+        if (!entry) {
+            entry = { labels: normalized, buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+            this.values.set(key, entry);
+        }
+        this.buckets.forEach((bound, i) => {
+            if (value <= bound) entry!.buckets[i]++;
+        });
+        entry.sum += value;
+        entry.count++;
+    }
+
+    render(): string {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+        for (const [key, entry] of this.values) {
+            this.buckets.forEach((bound, i) => {
+                lines.push(`${this.name}_bucket${formatLabels({ ...entry.labels, le: String(bound) })} ${entry.buckets[i]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels({ ...entry.labels, le: '+Inf' })} ${entry.count}`);
+            lines.push(`${this.name}_sum${key} ${entry.sum}`);
+            lines.push(`${this.name}_count${key} ${entry.count}`);
+        }
+        return lines.join('\n');
+    }
+}
+
+export const requestsTotal = new Counter('claude_proxy_requests_total', 'Requests handled by the proxy.', ['route', 'model', 'upstream', 'status']);
+export const requestDuration = new Histogram('claude_proxy_request_duration_seconds', 'Request latency until the response finished.', ['route', 'model'], DURATION_BUCKETS);
+export const timeToFirstToken = new Histogram('claude_proxy_time_to_first_token_seconds', 'Time until the first streamed chunk was written to the client.', ['route', 'model'], TTFT_BUCKETS);
+export const inflightStreams = new Gauge('claude_proxy_inflight_streams', 'Streaming responses currently open.', ['route']);
+export const tokensTotal = new Counter('claude_proxy_tokens_total', 'Tokens reported by upstream usage (estimated for cancelled streams).', ['model', 'type']);
+export const upstreamErrorsTotal = new Counter('claude_proxy_upstream_errors_total', 'Failed upstream attempts by HTTP status, timeout or connection error.', ['upstream', 'reason']);
+export const upstreamRetriesTotal = new Counter('claude_proxy_upstream_retries_total', 'Retries against the same upstream.', ['upstream']);
+
+const metrics: Metric[] = [requestsTotal, requestDuration, timeToFirstToken, inflightStreams, tokensTotal, upstreamErrorsTotal, upstreamRetriesTotal];
+
+/**
+ * 代理提供的接口，带 id 的路径归并为路由模板。
+ */
+const ROUTE_TEMPLATES: Array<[RegExp, string]> = [
+    [/^\/v1\/messages$/, '/v1/messages'],
+    [/^\/v1\/messages\/count_tokens$/, '/v1/messages/count_tokens'],
+    [/^\/v1\/messages\/batches$/, '/v1/messages/batches'],
+    [/^\/v1\/messages\/batches\/[^/]+$/, '/v1/messages/batches/:id'],
+    [/^\/v1\/messages\/batches\/[^/]+\/results$/, '/v1/messages/batches/:id/results'],
+    [/^\/v1\/messages\/batches\/[^/]+\/cancel$/, '/v1/messages/batches/:id/cancel'],
+    [/^\/v1\/chat\/completions$/, '/v1/chat/completions'],
+    [/^\/v1\/models$/, '/v1/models'],
+    [/^\/v1\/models\/[^/]+$/, '/v1/models/:id'],
+    [/^\/v1\/usage$/, '/v1/usage'],
+];
+
+/**
+ * 指标中的 route label：请求路径对应的路由模板，未知路径记为 "other"，避免每个 id 产生新的时间序列。
+ */
+export function routeLabel(path: string): string {
+    const normalized = path.length > 1 ? path.replace(/\/+$/, '') : path;
+    return ROUTE_TEMPLATES.find(([pattern]) => pattern.test(normalized))?.[1] ?? 'other';
+}
+
+/**
+ * 指标中的 model label：命中精确路由时为模型名，命中通配路由时为路由的 match 模式，其他记为 "other"。
+ * 客户端传入的模型名不受限制，不能直接作为 label。
+ */
+export function modelLabel(model: string | undefined, routes: ModelRoute[]): string {
+    if (!model) return '';
+    return matchModelRoute(routes, model)?.match ?? 'other';
+}
+
+export interface RecordRequestOptions {
+    /**
+     * 决定 model label 的路由表，缺省为空（所有模型记为 "other"）。
+     */
+    routes?: ModelRoute[];
+    /**
+     * 覆盖按路径得到的 route label，如批次中执行的请求记为 "batch"。
+     */
+    route?: string;
+}
+
+/**
+ * 按访问日志记录更新请求、延迟、首 token 时间和 token 指标。
+ */
+export function recordRequest(record: AccessLogRecord, options: RecordRequestOptions = {}) {
+    const route = options.route ?? routeLabel(record.route);
+    const model = modelLabel(record.model, options.routes ?? []);
+    requestsTotal.inc({ route, model, upstream: record.upstream || '', status: String(record.status ?? 0) });
+    if (record.latency_ms !== undefined) {
+        requestDuration.observe({ route, model }, record.latency_ms / 1000);
+    }
+    if (record.ttft_ms !== undefined) {
+        timeToFirstToken.observe({ route, model }, record.ttft_ms / 1000);
+    }
+    if (record.usage) {
+        const usage = record.usage;
+        tokensTotal.inc({ model, type: 'input' }, usage.input_tokens || 0);
+        tokensTotal.inc({ model, type: 'output' }, usage.output_tokens || 0);
+        tokensTotal.inc({ model, type: 'cache_read' }, usage.cache_read_input_tokens || 0);
+        tokensTotal.inc({ model, type: 'cache_creation' }, usage.cache_creation_input_tokens || 0);
+    }
+}
+
+/**
+ * 统计上游尝试记录中的失败和重试。紧接在同一上游之后的尝试视为重试。
+ */
+export function recordUpstreamAttempts(attempts: UpstreamAttempt[]) {
+    attempts.forEach((attempt, i) => {
+        if (typeof attempt.outcome !== 'number' || attempt.outcome >= 400) {
+            upstreamErrorsTotal.inc({ upstream: attempt.upstream, reason: String(attempt.outcome) });
+        }
+        if (i > 0 && attempts[i - 1].upstream === attempt.upstream) {
+            upstreamRetriesTotal.inc({ upstream: attempt.upstream });
+        }
+    });
+}
+
+/**
+ * 流式响应开始时计入进行中的流，连接关闭时扣除。
+ */
+export function trackInflightStream(res: { once(event: 'close', listener: () => void): unknown }, path: string) {
+    const route = routeLabel(path);
+    inflightStreams.inc({ route });
+    res.once('close', () => inflightStreams.dec({ route }));
+}
+
+/**
+ * 输出全部指标（Prometheus 文本格式）。
+ */
+export function renderMetrics(): string {
+    return metrics.map(metric => metric.render()).join('\n') + '\n';
+}
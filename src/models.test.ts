@@ -0,0 +1,109 @@
+/**
+ * 单元测试：Anthropic 格式的模型列表
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { createModelCatalog, mergeModels, OpenAIModel, paginateModels, toModelInfo } from './models';
+import type { ModelRoute } from './routing';
+
+const routes: ModelRoute[] = [
+    { match: 'claude-3-5-haiku-20241022', model: 'deepseek-v3' },
+    { match: 'claude-sonnet-*', model: 'qwen3-coder' },
+    { match: 'claude-opus-4', upstreams: [{ model: 'deepseek-r1' }] },
+];
+
+const upstream: OpenAIModel[] = [
+    { id: 'deepseek-v3', created: 1700000000 },
+    { id: 'deepseek-r1', created: 1730000000 },
+    { id: 'qwen3-coder', created: 1720000000 },
+];
+
+describe('mergeModels', () => {
+    it('别名在前，上游模型按创建时间倒序，跳过通配路由', () => {
+        const models = mergeModels(routes, upstream);
+        expect(models.map(model => model.id)).toEqual(['claude-3-5-haiku-20241022', 'claude-opus-4', 'deepseek-r1', 'qwen3-coder', 'deepseek-v3']);
+        expect(models[0]).toEqual({ type: 'model', id: 'claude-3-5-haiku-20241022', display_name: 'claude-3-5-haiku-20241022', created_at: '2023-11-14T22:13:20Z' });
+    });
+
+    it('别名取映射上游模型的创建时间，上游没有时为 1970-01-01', () => {
+        const [haiku, opus] = mergeModels(routes, [{ id: 'deepseek-r1', created: 1730000000 }]);
+        expect(haiku.created_at).toBe('1970-01-01T00:00:00Z');
+        expect(opus.created_at).toBe('2024-10-27T03:33:20Z');
+    });
+
+    it('上游模型与别名重名时只保留别名', () => {
+        const models = mergeModels([{ match: 'deepseek-v3', model: 'other' }], upstream);
+        expect(models.filter(model => model.id === 'deepseek-v3')).toHaveLength(1);
+        expect(models[0].created_at).toBe(toModelInfo('deepseek-v3', 1700000000).created_at);
+    });
+});
+
+describe('paginateModels', () => {
+    const models = ['a', 'b', 'c', 'd', 'e'].map(id => toModelInfo(id));
+
+    it('默认返回第一页', () => {
+        expect(paginateModels(models, { limit: 2 })).toMatchObject({ has_more: true, first_id: 'a', last_id: 'b' });
+    });
+
+    it('after_id 向后翻页', () => {
+        expect(paginateModels(models, { limit: 2, after_id: 'd' })).toMatchObject({ data: [{ id: 'e' }], has_more: false, first_id: 'e', last_id: 'e' });
+    });
+
+    it('before_id 向前翻页', () => {
+        const page = paginateModels(models, { limit: 2, before_id: 'd' });
+        expect(page.data.map(model => model.id)).toEqual(['b', 'c']);
+        expect(page.has_more).toBe(true);
+    });
+
+    it('空列表', () => {
+        expect(paginateModels([])).toEqual({ data: [], has_more: false, first_id: null, last_id: null });
+    });
+});
+
+describe('createModelCatalog', () => {
+    it('在 TTL 内复用上游列表，过期后重新请求', async () => {
+        let now = 0;
+        const fetchModels = vi.fn(async () => upstream);
+        const catalog = createModelCatalog({ routes, ttlMs: 1000, fetchModels, now: () => now });
+        await catalog.list([{ baseUrl: 'http://up/v1', apiKey: 'sk-a' }]);
+        await catalog.list([{ baseUrl: 'http://up/v1', apiKey: 'sk-a' }]);
+        expect(fetchModels).toHaveBeenCalledTimes(1);
+        await catalog.list([{ baseUrl: 'http://up/v1', apiKey: 'sk-b' }]);
+        expect(fetchModels).toHaveBeenCalledTimes(2);
+        now = 1000;
+        await catalog.list([{ baseUrl: 'http://up/v1', apiKey: 'sk-a' }]);
+        expect(fetchModels).toHaveBeenCalledTimes(3);
+    });
+
+    it('合并多个上游的列表，跳过 gemini 上游，缓存超出上限时淘汰最久未使用的项', async () => {
+        const fetchModels = vi.fn(async (baseUrl: string) => baseUrl === 'http://a/v1' ? upstream.slice(0, 2) : upstream.slice(1));
+        const catalog = createModelCatalog({ routes, ttlMs: 60_000, maxEntries: 2, fetchModels });
+        const upstreams = [{ baseUrl: 'http://a/v1', apiKey: 'sk' }, { baseUrl: 'http://b/v1', apiKey: 'sk' }, { baseUrl: 'http://g/v1', apiKey: 'sk', api: 'gemini' as const }];
+        expect((await catalog.list(upstreams)).map(model => model.id)).toEqual(['claude-3-5-haiku-20241022', 'claude-opus-4', 'deepseek-r1', 'qwen3-coder', 'deepseek-v3']);
+        expect(fetchModels.mock.calls.map(call => call[0])).toEqual(['http://a/v1', 'http://b/v1']);
+        await catalog.list([{ baseUrl: 'http://a/v1', apiKey: 'sk' }]);
+        await catalog.list([{ baseUrl: 'http://c/v1', apiKey: 'sk' }]);
+        expect(fetchModels).toHaveBeenCalledTimes(3);
+        await catalog.list([{ baseUrl: 'http://a/v1', apiKey: 'sk' }]);
+        expect(fetchModels).toHaveBeenCalledTimes(3);
+        await catalog.list([{ baseUrl: 'http://b/v1', apiKey: 'sk' }]);
+        expect(fetchModels).toHaveBeenCalledTimes(4);
+    });
+
+    it('上游失败时只返回别名，且不缓存失败', async () => {
+        const onError = vi.fn();
+        const fetchModels = vi.fn()
+            .mockRejectedValueOnce(new Error('upstream returned 500'))
+            .mockResolvedValueOnce(upstream);
+        const catalog = createModelCatalog({ routes, ttlMs: 60_000, fetchModels, onError });
+        expect((await catalog.list([{ baseUrl: 'http://up/v1', apiKey: 'sk' }])).map(model => model.id)).toEqual(['claude-3-5-haiku-20241022', 'claude-opus-4']);
+        expect(onError).toHaveBeenCalledWith('http://up/v1', expect.any(Error));
+        expect(await catalog.list([{ baseUrl: 'http://up/v1', apiKey: 'sk' }])).toHaveLength(5);
+    });
+
+    it('查询单个模型，命中通配路由的名称同样可用', async () => {
+        const catalog = createModelCatalog({ routes, ttlMs: 0, fetchModels: async () => upstream });
+        expect(await catalog.get([{ baseUrl: 'http://up/v1', apiKey: 'sk' }], 'deepseek-r1')).toMatchObject({ id: 'deepseek-r1' });
+        expect(await catalog.get([{ baseUrl: 'http://up/v1', apiKey: 'sk' }], 'claude-sonnet-4-5')).toEqual(toModelInfo('claude-sonnet-4-5'));
+        expect(await catalog.get([{ baseUrl: 'http://up/v1', apiKey: 'sk' }], 'gpt-unknown')).toBeUndefined();
+    });
+});
@@ -0,0 +1,185 @@
+/**
+ * Anthropic 格式的模型列表（GET /v1/models）
+ *
+ * 列表由路由表中的模型别名（精确名称的 match，通配模式无法列出）与路由表中各上游 OpenAI `/models` 的结果合并而成：
+ * 别名按路由表顺序排在前面，其后是上游模型（按创建时间倒序），重名时只保留别名。
+ * Gemini 原生接口的上游没有 OpenAI 格式的 `/models`，不参与列表。
+ * 上游列表按 base URL 和凭据分别缓存 MODELS_CACHE_TTL_MS，最多保留最近使用的 maxEntries 项；请求失败时该上游不贡献模型且不缓存。
+ */
+
+import { createHash } from 'crypto';
+import { matchesModel, ModelRoute, UpstreamTarget } from './routing';
+
+export interface ModelInfo {
+    type: 'model';
+    id: string;
+    display_name: string;
+    /**
+     * RFC 3339 时间，来自上游的 created；没有时为 1970-01-01T00:00:00Z。
+     */
+    created_at: string;
+}
+
+export interface ModelListPage {
+    data: ModelInfo[];
+    has_more: boolean;
+    first_id: string | null;
+    last_id: string | null;
+}
+
+/**
+ * 上游 OpenAI `/models` 返回的模型。
+ */
+export interface OpenAIModel {
+    id: string;
+    created?: number;
+    owned_by?: string;
+}
+
+export function toModelInfo(id: string, created?: number): ModelInfo {
+    return {
+        type: 'model',
+        id,
+        display_name: id,
+        created_at: new Date((created || 0) * 1000).toISOString().replace('.000Z', 'Z'),
+    };
+}
+
+/**
+ * 合并路由别名与上游模型。别名的创建时间取其映射的上游模型（路由本身或第一个上游的 model）。
+ */
+export function mergeModels(routes: ModelRoute[], upstreamModels: OpenAIModel[]): ModelInfo[] {
+    const createdOf = new Map(upstreamModels.map(model => [model.id, model.created]));
+    const models = new Map<string, ModelInfo>();
+    for (const route of routes) {
+        if (route.match.includes('*') || models.has(route.match)) continue;
+        const target = route.upstreams?.[0]?.model || route.model || route.match;
+        models.set(route.match, toModelInfo(route.match, createdOf.get(route.match) ?? createdOf.get(target)));
+    }
+    const upstream = upstreamModels
+        .filter(model => !models.has(model.id))
+        .sort((a, b) => (b.created || 0) - (a.created || 0));
+    for (const model of upstream) {
+        models.set(model.id, toModelInfo(model.id, model.created));
+    }
+    return [...models.values()];
+}
+
+/**
+ * 按列表顺序分页，limit / before_id / after_id 与 Anthropic 的分页参数含义一致。
+ */
+export function paginateModels(models: ModelInfo[], params: { limit?: number; before_id?: string; after_id?: string } = {}): ModelListPage {
+    const limit = Math.min(Math.max(params.limit || 20, 1), 1000);
+    let start = 0;
+    let end = models.length;
+    if (params.after_id) {
+        start = models.findIndex(model => model.id === params.after_id) + 1;
+    } else if (params.before_id) {
+        end = Math.max(0, models.findIndex(model => model.id === params.before_id));
+        start = Math.max(0, end - limit);
+    }
+    const data = models.slice(start, Math.min(end, start + limit));
+    return {
+        data,
+        has_more: params.before_id ? start > 0 : start + data.length < end,
+        first_id: data[0]?.id ?? null,
+        last_id: data[data.length - 1]?.id ?? null,
+    };
+}
+
+/**
+ * 请求上游 `${baseUrl}/models`，返回其中的模型列表。
+ */
+export async function fetchUpstreamModels(baseUrl: string, apiKey: string, timeoutMs = 10_000): Promise<OpenAIModel[]> {
+    const response = await fetch(`${baseUrl}/models`, {
+        headers: { Authorization: `Bearer ${apiKey}` },
+        signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) {
+        throw new Error(`upstream returned ${response.status}`);
+    }
+    const body: any = await response.json();
+    const list = Array.isArray(body?.data) ? body.data : Array.isArray(body) ? body : null;
+    if (!list) {
+        throw new Error('unrecognized upstream /models response');
+    }
+    return list.filter((model: any) => typeof model?.id === 'string');
+}
+
+export interface ModelCatalogOptions {
+    routes: ModelRoute[];
+    /**
+     * 上游列表的缓存时间，0 表示每次都请求上游。
+     */
+    ttlMs: number;
+    /**
+     * 缓存的上游列表项数上限（按 base URL 和凭据计），超出时淘汰最久未使用的项，默认 1000。
+     */
+    maxEntries?: number;
+    fetchModels?: (baseUrl: string, apiKey: string) => Promise<OpenAIModel[]>;
+    /**
+     * 上游请求失败时调用，失败不影响别名的返回。
+     */
+    onError?: (baseUrl: string, err: Error) => void;
+    now?: () => number;
+}
+
+/**
+ * 模型目录：合并路由别名与缓存的上游列表。
+ */
+export function createModelCatalog(options: ModelCatalogOptions) {
+    const { routes, ttlMs, maxEntries = 1000, fetchModels = fetchUpstreamModels, onError, now = Date.now } = options;
+    // Map 按插入顺序迭代，命中时重新插入，第一项即最久未使用的项
+    const cache = new Map<string, { expiresAt: number; models: Promise<OpenAIModel[]> }>();
+
+    const upstreamModels = async (baseUrl: string, apiKey: string): Promise<OpenAIModel[]> => {
+        // 不同凭据可见的模型可能不同，按 key 的摘要分别缓存，不保存明文
+        const cacheKey = `${baseUrl}\n${createHash('sha256').update(apiKey).digest('hex')}`;
+        let entry = cache.get(cacheKey);
+        if (!entry || entry.expiresAt <= now()) {
+            // 缓存 Promise，并发的请求共用同一次上游调用
+            entry = { expiresAt: now() + ttlMs, models: fetchModels(baseUrl, apiKey) };
+        }
+        if (ttlMs > 0) {
+            cache.delete(cacheKey);
+            cache.set(cacheKey, entry);
+            if (cache.size > maxEntries) cache.delete(cache.keys().next().value!);
+        }
+        try {
+            return await entry.models;
+        } catch (err: any) {
+            if (cache.get(cacheKey) === entry) cache.delete(cacheKey);
+            onError?.(baseUrl, err);
+            return [];
+        }
+    };
+
+    /**
+     * 合并路由别名与各上游的模型，多个上游有同名模型时保留排在前面的上游的。
+     */
+    const list = async (upstreams: Pick<UpstreamTarget, 'baseUrl' | 'apiKey' | 'api'>[]): Promise<ModelInfo[]> => {
+        const listed = await Promise.all(upstreams
+            .filter(upstream => upstream.api !== 'gemini')
+            .map(upstream => upstreamModels(upstream.baseUrl, upstream.apiKey)));
+        const models = new Map<string, OpenAIModel>();
+        for (const model of listed.flat()) {
+            if (!models.has(model.id)) models.set(model.id, model);
+        }
+        return mergeModels(routes, [...models.values()]);
+    };
+
+    return {
+        list,
+
+        /**
+         * 查询单个模型；不在列表中但命中通配路由的模型名同样可用，返回以该名称构造的模型。
+         */
+        async get(upstreams: Pick<UpstreamTarget, 'baseUrl' | 'apiKey' | 'api'>[], id: string): Promise<ModelInfo | undefined> {
+            const found = (await list(upstreams)).find(model => model.id === id);
+            if (found) return found;
+            return routes.some(route => route.match.includes('*') && matchesModel(route.match, id)) ? toModelInfo(id) : undefined;
+        },
+    };
+}
+
+export type ModelCatalog = ReturnType<typeof createModelCatalog>;
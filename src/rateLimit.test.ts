@@ -0,0 +1,134 @@
+/**
+ * 单元测试：按 API key 限流
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createFileStore, createRateLimiter, hasRateLimits, loadRateLimitConfig, RateLimitConfig } from './rateLimit';
+
+// 2026-01-01T00:00:10Z
+const T0 = Date.UTC(2026, 0, 1, 0, 0, 10);
+
+function config(overrides: Partial<RateLimitConfig['defaults']> = {}, keys: RateLimitConfig['keys'] = {}): RateLimitConfig {
+    return {
+        defaults: {
+            requestsPerMinute: 0, concurrentStreams: 0,
+            inputTokensPerMinute: 0, outputTokensPerMinute: 0,
+            inputTokensPerDay: 0, outputTokensPerDay: 0,
+            ...overrides,
+        },
+        keys,
+    };
+}
+
+describe('loadRateLimitConfig', () => {
+    it('从环境变量读取默认限制和按 key 的覆盖', () => {
+        const loaded = loadRateLimitConfig({
+            RATE_LIMIT_REQUESTS_PER_MINUTE: '60',
+            RATE_LIMIT_OUTPUT_TOKENS_PER_DAY: '100000',
+            RATE_LIMITS: JSON.stringify({ keys: { 'sha256:abc': { requestsPerMinute: 5 } } }),
+        });
+        expect(loaded.defaults).toMatchObject({ requestsPerMinute: 60, outputTokensPerDay: 100000, concurrentStreams: 0 });
+        expect(loaded.keys['sha256:abc']).toEqual({ requestsPerMinute: 5 });
+        expect(hasRateLimits(loaded)).toBe(true);
+        expect(hasRateLimits(loadRateLimitConfig({}))).toBe(false);
+    });
+
+    it('拒绝未知或非法的限制', () => {
+        expect(() => loadRateLimitConfig({ RATE_LIMITS: '{"keys":{"k":{"rpm":1}}}' })).toThrow(/keys\["k"\]\.rpm is not a known limit/);
+        expect(() => loadRateLimitConfig({ RATE_LIMITS: '{"keys":{"k":{"requestsPerMinute":-1}}}' })).toThrow(/non-negative/);
+        expect(() => loadRateLimitConfig({ RATE_LIMITS: '[]' })).toThrow(/expected/);
+    });
+});
+
+describe('createRateLimiter', () => {
+    it('每分钟请求数超限时拒绝，并给出 retry-after 和剩余额度', () => {
+        let now = T0;
+        const limiter = createRateLimiter(config({ requestsPerMinute: 2 }), undefined, () => now);
+        const first = limiter.check('k');
+        expect(first.allowed).toBe(true);
+        expect(first.headers).toEqual({
+            'anthropic-ratelimit-requests-limit': '2',
+            'anthropic-ratelimit-requests-remaining': '1',
+            'anthropic-ratelimit-requests-reset': '2026-01-01T00:01:00.000Z',
+        });
+        expect(limiter.check('k').allowed).toBe(true);
+
+        const denied = limiter.check('k');
+        expect(denied.allowed).toBe(false);
+        expect(denied.headers['retry-after']).toBe('50');
+        expect(denied.headers['anthropic-ratelimit-requests-remaining']).toBe('0');
+        expect(!denied.allowed && denied.message).toMatch(/2 requests per minute/);
+
+        // 其他 key 不受影响，下一分钟恢复
+        expect(limiter.check('other').allowed).toBe(true);
+        now += 60_000;
+        expect(limiter.check('k').allowed).toBe(true);
+    });
+
+    it('token 用完后拒绝，报告剩余最少的窗口', () => {
+        let now = T0;
+        const limiter = createRateLimiter(config({ inputTokensPerMinute: 1000, inputTokensPerDay: 1500 }), undefined, () => now);
+        limiter.recordUsage('k', { input_tokens: 600, output_tokens: 10, cache_creation_input_tokens: 100 });
+        expect(limiter.check('k').headers['anthropic-ratelimit-input-tokens-remaining']).toBe('300');
+
+        now += 60_000;
+        // 分钟窗口已重置，天窗口剩余 800
+        expect(limiter.check('k').headers).toMatchObject({
+            'anthropic-ratelimit-input-tokens-remaining': '800',
+            'anthropic-ratelimit-input-tokens-reset': '2026-01-02T00:00:00.000Z',
+        });
+        limiter.recordUsage('k', { input_tokens: 800, output_tokens: 0 });
+        const denied = limiter.check('k');
+        expect(denied.allowed).toBe(false);
+        expect(!denied.allowed && denied.message).toMatch(/1500 input tokens per day/);
+    });
+
+    it('限制同时进行的流式请求，release 后释放名额', () => {
+        const limiter = createRateLimiter(config({ concurrentStreams: 1 }), undefined, () => T0);
+        const stream = limiter.check('k', { stream: true });
+        expect(stream.allowed).toBe(true);
+        expect(limiter.check('k').allowed).toBe(true);
+        const denied = limiter.check('k', { stream: true });
+        expect(denied.allowed).toBe(false);
+        expect(denied.headers['retry-after']).toBe('1');
+
+        if (stream.allowed) {
+            stream.release();
+            stream.release();
+        }
+        expect(limiter.activeStreams('k')).toBe(0);
+        expect(limiter.check('k', { stream: true }).allowed).toBe(true);
+    });
+
+    it('按 key 指纹覆盖默认限制，0 表示不限制', () => {
+        const limiter = createRateLimiter(config({ requestsPerMinute: 1 }, { vip: { requestsPerMinute: 0 } }), undefined, () => T0);
+        for (let i = 0; i < 5; i++) expect(limiter.check('vip').allowed).toBe(true);
+        limiter.check('k');
+        expect(limiter.check('k').allowed).toBe(false);
+    });
+});
+
+describe('createFileStore', () => {
+    let dir: string;
+
+    afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+    it('计数持久化到文件，重启后继续生效，过期的 key 被丢弃', () => {
+        dir = mkdtempSync(join(tmpdir(), 'ratelimit-'));
+        const file = join(dir, 'state', 'ratelimit.json');
+        let now = T0;
+        const store = createFileStore(file, 1000, () => now);
+        const limiter = createRateLimiter(config({ outputTokensPerDay: 100 }), store, () => now);
+        limiter.recordUsage('k', { input_tokens: 1, output_tokens: 100 });
+        store.flush();
+
+        const restarted = createRateLimiter(config({ outputTokensPerDay: 100 }), createFileStore(file, 1000, () => now), () => now);
+        expect(restarted.check('k').allowed).toBe(false);
+
+        now += 86_400_000;
+        store.flush();
+        expect(JSON.parse(readFileSync(file, 'utf8'))).toEqual({});
+    });
+});
@@ -0,0 +1,271 @@
+/**
+ * 按 API key 限流
+ *
+ * 每个 key 限制每分钟请求数、同时进行的流式请求数，以及每分钟 / 每天的输入、输出 token 数。
+ * token 在响应结束后按代理已计算的 usage 计入（输入 token 含 cache_creation_input_tokens），
+ * 因此只在窗口内已用完时拒绝后续请求，不预估单个请求的用量。
+ * 分钟和天都是固定窗口（天按 UTC），计数默认保存在内存中，可选持久化到文件；同时进行的流只在本进程内统计。
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { ClaudeUsage } from './index';
+
+export interface RateLimits {
+    /**
+     * 以下各项为 0 表示不限制。
+     */
+    requestsPerMinute: number;
+    concurrentStreams: number;
+    inputTokensPerMinute: number;
+    outputTokensPerMinute: number;
+    inputTokensPerDay: number;
+    outputTokensPerDay: number;
+}
+
+export interface RateLimitConfig {
+    defaults: RateLimits;
+    /**
+     * 按 key 指纹（与访问日志的 key_fingerprint 相同，如 sha256:0123456789ab）覆盖默认限制。
+     */
+    keys: Record<string, Partial<RateLimits>>;
+    /**
+     * 计数持久化文件（RATE_LIMIT_STORE_FILE），未设置时只保存在内存中。
+     */
+    storeFile?: string;
+}
+
+const LIMIT_ENV: Record<keyof RateLimits, string> = {
+    requestsPerMinute: 'RATE_LIMIT_REQUESTS_PER_MINUTE',
+    concurrentStreams: 'RATE_LIMIT_CONCURRENT_STREAMS',
+    inputTokensPerMinute: 'RATE_LIMIT_INPUT_TOKENS_PER_MINUTE',
+    outputTokensPerMinute: 'RATE_LIMIT_OUTPUT_TOKENS_PER_MINUTE',
+    inputTokensPerDay: 'RATE_LIMIT_INPUT_TOKENS_PER_DAY',
+    outputTokensPerDay: 'RATE_LIMIT_OUTPUT_TOKENS_PER_DAY',
+};
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 86_400_000;
+
+/**
+ * 从环境变量读取默认限制（RATE_LIMIT_*），以及 RATE_LIMITS_FILE / RATE_LIMITS 中按 key 的覆盖：
+ * `{ "keys": { "sha256:...": { "requestsPerMinute": 10 } } }`。
+ */
+export function loadRateLimitConfig(source: NodeJS.ProcessEnv = process.env): RateLimitConfig {
+    const defaults = {} as RateLimits;
+    for (const [field, name] of Object.entries(LIMIT_ENV) as [keyof RateLimits, string][]) {
+        defaults[field] = Math.max(0, Number(source[name] ?? 0) || 0);
+    }
+
+    const storeFile = source.RATE_LIMIT_STORE_FILE || undefined;
+    const origin = source.RATE_LIMITS_FILE || 'RATE_LIMITS';
+    const raw = source.RATE_LIMITS_FILE ? readFileSync(source.RATE_LIMITS_FILE, 'utf8') : source.RATE_LIMITS;
+    if (!raw || !raw.trim()) {
+        return { defaults, keys: {}, storeFile };
+    }
+    let parsed: any;
+    try {
+        parsed = JSON.parse(raw);
+    } catch (err: any) {
+        throw new Error(`Invalid rate limits in ${origin}: ${err.message}`);
+    }
+    if (!parsed || typeof parsed.keys !== 'object' || Array.isArray(parsed.keys)) {
+        throw new Error(`Invalid rate limits in ${origin}: expected { "keys": { "<key fingerprint>": {...} } }`);
+    }
+    for (const [key, limits] of Object.entries<any>(parsed.keys)) {
+        for (const [field, value] of Object.entries<any>(limits || {})) {
+            if (!(field in LIMIT_ENV)) {
+                throw new Error(`Invalid rate limits in ${origin}: keys["${key}"].${field} is not a known limit`);
+            }
+            if (typeof value !== 'number' || value < 0) {
+                throw new Error(`Invalid rate limits in ${origin}: keys["${key}"].${field} must be a non-negative number`);
+            }
+        }
+    }
+    return { defaults, keys: parsed.keys, storeFile };
+}
+
+/**
+ * 是否配置了任何限制，未配置时不启用限流。
+ */
+export function hasRateLimits(config: RateLimitConfig): boolean {
+    return Object.values(config.defaults).some(value => value > 0)
+        || Object.values(config.keys).some(limits => Object.values(limits).some(value => value! > 0));
+}
+
+/**
+ * 一个 key 在当前窗口内的计数。
+ */
+export interface KeyUsage {
+    minute: { start: number; requests: number; inputTokens: number; outputTokens: number };
+    day: { start: number; inputTokens: number; outputTokens: number };
+}
+
+export interface RateLimitStore {
+    get(key: string): KeyUsage | undefined;
+    set(key: string, usage: KeyUsage): void;
+}
+
+export function createMemoryStore(): RateLimitStore {
+    const entries = new Map<string, KeyUsage>();
+    return {
+        get: key => entries.get(key),
+        set: (key, usage) => { entries.set(key, usage); },
+    };
+}
+
+/**
+ * 持久化到 JSON 文件的存储：启动时读取，变更后合并在 flushDelayMs 内写入一次（先写临时文件再重命名）。
+ * 写入时丢弃天窗口已过期的 key。
+ */
+export function createFileStore(file: string, flushDelayMs = 1000, now: () => number = Date.now): RateLimitStore & { flush(): void } {
+    const entries = new Map<string, KeyUsage>(existsSync(file) ? Object.entries(JSON.parse(readFileSync(file, 'utf8'))) : []);
+    let timer: NodeJS.Timeout | null = null;
+
+    const flush = () => {
+        if (timer) clearTimeout(timer);
+        timer = null;
+        const today = Math.floor(now() / DAY_MS) * DAY_MS;
+        for (const [key, usage] of entries) {
+            if (usage.day.start < today) entries.delete(key);
+        }
+        mkdirSync(dirname(file), { recursive: true });
+        const tmp = `${file}.tmp`;
+        writeFileSync(tmp, JSON.stringify(Object.fromEntries(entries)), { mode: 0o600 });
+        renameSync(tmp, file);
+    };
+
+    return {
+        get: key => entries.get(key),
+        set(key, usage) {
+            entries.set(key, usage);
+            if (!timer) {
+                timer = setTimeout(flush, flushDelayMs);
+                timer.unref();
+            }
+        },
+        flush,
+    };
+}
+
+export type RateLimitDecision =
+    | { allowed: true; headers: Record<string, string>; release(): void }
+    | { allowed: false; headers: Record<string, string>; message: string };
+
+interface Budget {
+    name: 'requests' | 'input-tokens' | 'output-tokens';
+    limit: number;
+    used: number;
+    reset: number;
+    description: string;
+}
+
+/**
+ * 创建限流器。check 在放行时计入一次请求（流式请求同时占用一个并发名额，响应结束后调用 release），
+ * recordUsage 在响应结束后计入 token。
+ */
+export function createRateLimiter(config: RateLimitConfig, store: RateLimitStore = createMemoryStore(), now: () => number = Date.now) {
+    const activeStreams = new Map<string, number>();
+
+    const limitsOf = (fingerprint: string): RateLimits => ({ ...config.defaults, ...config.keys[fingerprint] });
+
+    // 取出 key 的计数，已过期的窗口清零
+    const usageOf = (fingerprint: string, at: number): KeyUsage => {
+        const minuteStart = Math.floor(at / MINUTE_MS) * MINUTE_MS;
+        const dayStart = Math.floor(at / DAY_MS) * DAY_MS;
+        const stored = store.get(fingerprint);
+        return {
+            minute: stored && stored.minute.start === minuteStart ? { ...stored.minute } : { start: minuteStart, requests: 0, inputTokens: 0, outputTokens: 0 },
+            day: stored && stored.day.start === dayStart ? { ...stored.day } : { start: dayStart, inputTokens: 0, outputTokens: 0 },
+        };
+    };
+
+    const budgetsOf = (limits: RateLimits, usage: KeyUsage): Budget[] => {
+        const minuteReset = usage.minute.start + MINUTE_MS;
+        const dayReset = usage.day.start + DAY_MS;
+        const budgets: Budget[] = [
+            { name: 'requests', limit: limits.requestsPerMinute, used: usage.minute.requests, reset: minuteReset, description: 'requests per minute' },
+            { name: 'input-tokens', limit: limits.inputTokensPerMinute, used: usage.minute.inputTokens, reset: minuteReset, description: 'input tokens per minute' },
+            { name: 'output-tokens', limit: limits.outputTokensPerMinute, used: usage.minute.outputTokens, reset: minuteReset, description: 'output tokens per minute' },
+            { name: 'input-tokens', limit: limits.inputTokensPerDay, used: usage.day.inputTokens, reset: dayReset, description: 'input tokens per day' },
+            { name: 'output-tokens', limit: limits.outputTokensPerDay, used: usage.day.outputTokens, reset: dayReset, description: 'output tokens per day' },
+        ];
+        return budgets.filter(budget => budget.limit > 0);
+    };
+
+    // 同一类限制（如输入 token 的分钟和天）取剩余最少的一个
+    const rateLimitHeaders = (budgets: Budget[]): Record<string, string> => {
+        const tightest = new Map<string, Budget>();
+        for (const budget of budgets) {
+            const current = tightest.get(budget.name);
+            if (!current || budget.limit - budget.used < current.limit - current.used) tightest.set(budget.name, budget);
+        }
+        const headers: Record<string, string> = {};
+        for (const [name, budget] of tightest) {
+            headers[`anthropic-ratelimit-${name}-limit`] = String(budget.limit);
+            headers[`anthropic-ratelimit-${name}-remaining`] = String(Math.max(0, budget.limit - budget.used));
+            headers[`anthropic-ratelimit-${name}-reset`] = new Date(budget.reset).toISOString();
+        }
+        return headers;
+    };
+
+    return {
+        check(fingerprint: string, options: { stream?: boolean } = {}): RateLimitDecision {
+            const at = now();
+            const limits = limitsOf(fingerprint);
+            const usage = usageOf(fingerprint, at);
+            const budgets = budgetsOf(limits, usage);
+
+            const exceeded = budgets.find(budget => budget.used >= budget.limit);
+            if (exceeded) {
+                return {
+                    allowed: false,
+                    headers: { ...rateLimitHeaders(budgets), 'retry-after': String(Math.max(1, Math.ceil((exceeded.reset - at) / 1000))) },
+                    message: `This request would exceed the rate limit for this API key of ${exceeded.limit} ${exceeded.description}. Please try again later.`,
+                };
+            }
+            const streams = activeStreams.get(fingerprint) ?? 0;
+            if (options.stream && limits.concurrentStreams > 0 && streams >= limits.concurrentStreams) {
+                return {
+                    allowed: false,
+                    headers: { ...rateLimitHeaders(budgets), 'retry-after': '1' },
+                    message: `This request would exceed the limit for this API key of ${limits.concurrentStreams} concurrent streaming requests. Please try again later.`,
+                };
+            }
+
+            usage.minute.requests++;
+            store.set(fingerprint, usage);
+            let released = !options.stream;
+            if (options.stream) activeStreams.set(fingerprint, streams + 1);
+            return {
+                allowed: true,
+                headers: rateLimitHeaders(budgetsOf(limits, usage)),
+                release() {
+                    if (released) return;
+                    released = true;
+                    const remaining = (activeStreams.get(fingerprint) ?? 1) - 1;
+                    if (remaining > 0) activeStreams.set(fingerprint, remaining);
+                    else activeStreams.delete(fingerprint);
+                },
+            };
+        },
+
+        recordUsage(fingerprint: string, usage: ClaudeUsage) {
+            const inputTokens = (usage.input_tokens || 0) + (usage.cache_creation_input_tokens || 0);
+            const outputTokens = usage.output_tokens || 0;
+            if (inputTokens === 0 && outputTokens === 0) return;
+            const current = usageOf(fingerprint, now());
+            current.minute.inputTokens += inputTokens;
+            current.minute.outputTokens += outputTokens;
+            current.day.inputTokens += inputTokens;
+            current.day.outputTokens += outputTokens;
+            store.set(fingerprint, current);
+        },
+
+        activeStreams(fingerprint: string): number {
+            return activeStreams.get(fingerprint) ?? 0;
+        },
+    };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
@@ -0,0 +1,74 @@
+/**
+ * 单元测试：录制重放
+ */
+import { describe, it, expect } from 'vitest';
+import { diffLines, parseCaptureFile, replayRecord, ReplayConverters } from './replay';
+import type { CaptureRecord } from './capture';
+
+const encoder = new TextEncoder();
+
+// 把每个数据块转为大写，非流式返回 { text }
+const converters: ReplayConverters = {
+    streamTransformer: () => (chunk, controller) => {
+        controller.enqueue(encoder.encode(new TextDecoder().decode(chunk).toUpperCase()));
+    },
+    convertResponse: (openaiResponse) => ({ text: openaiResponse.choices[0].message.content }),
+};
+
+function record(overrides: Partial<CaptureRecord> = {}): CaptureRecord {
+    return {
+        id: 'req_1',
+        timestamp: '2026-01-01T00:00:00.000Z',
+        model: 'claude-test',
+        claude_request: { model: 'claude-test', max_tokens: 16, messages: [] },
+        stream: true,
+        upstream_chunks: ['data: a\n\n', 'data: b\n\n'],
+        claude_sse: 'DATA: A\n\nDATA: B\n\n',
+        ...overrides,
+    };
+}
+
+describe('diffLines', () => {
+    it('列出不同的行', () => {
+        expect(diffLines('a\nb\nc', 'a\nB\nc')).toEqual(['-2: b', '+2: B']);
+        expect(diffLines('a', 'a\nb')).toEqual(['+2: b']);
+        expect(diffLines('same', 'same')).toEqual([]);
+    });
+});
+
+describe('parseCaptureFile', () => {
+    it('解析 JSONL，忽略空行并报告出错的行号', () => {
+        expect(parseCaptureFile('{"id":"a"}\n\n{"id":"b"}\n').map(r => r.id)).toEqual(['a', 'b']);
+        expect(() => parseCaptureFile('{"id":"a"}\n{oops')).toThrow(/line 2/);
+    });
+});
+
+describe('replayRecord', () => {
+    it('流式输出一致时返回 ok', async () => {
+        expect(await replayRecord(record(), converters)).toEqual({ id: 'req_1', status: 'ok' });
+    });
+
+    it('输出不一致时返回差异', async () => {
+        const result = await replayRecord(record({ claude_sse: 'DATA: A\n\nDATA: C\n\n' }), converters);
+        expect(result.status).toBe('diff');
+        expect(result.diff).toEqual(['-3: DATA: C', '+3: DATA: B']);
+    });
+
+    it('比较非流式响应', async () => {
+        const nonStream = record({
+            stream: false,
+            upstream_chunks: undefined,
+            claude_sse: undefined,
+            upstream_response: { choices: [{ message: { content: 'hi' } }] },
+            claude_response: { text: 'hi' },
+        });
+        expect((await replayRecord(nonStream, converters)).status).toBe('ok');
+        expect((await replayRecord({ ...nonStream, claude_response: { text: 'bye' } }, converters)).status).toBe('diff');
+    });
+
+    it('跳过无法由转换重现的记录', async () => {
+        expect(await replayRecord(record({ tool_choice_enforced: true }), converters)).toMatchObject({ status: 'skipped', reason: 'tool_choice enforced' });
+        expect(await replayRecord(record({ cancelled: true }), converters)).toMatchObject({ status: 'skipped', reason: 'client cancelled' });
+        expect(await replayRecord(record({ upstream_chunks: undefined }), converters)).toMatchObject({ status: 'skipped', reason: 'no upstream response' });
+    });
+});
@@ -0,0 +1,169 @@
+/**
+ * 离线重放录制文件（CAPTURE_FILE）
+ *
+ * 把录制的上游响应重新经过 streamTransformer / convertOpenAIToClaudeResponse（Responses API 与 Gemini 上游为 responses.ts、gemini.ts 中的对应函数），
+ * 与录制时的 Claude 输出逐行比较，用于在不访问上游的情况下检查转换逻辑的改动。用法：npm run replay -- <capture.jsonl>，有差异时退出码为 1。
+ * 经过 tool_choice 强制执行、工具参数重新请求、结构化输出模拟、客户端中途断开以及没有成功响应的记录无法单纯由转换重现，跳过。
+ */
+
+import { readFileSync } from 'fs';
+import type { CaptureRecord } from './capture';
+import type { StreamTransformOptions } from './index';
+import type { UpstreamApi } from './routing';
+
+export interface ReplayConverters {
+    /**
+     * 与代理中相同的流式转换函数，api 为录制时的上游接口。
+     */
+    streamTransformer(model: string, options: StreamTransformOptions, api?: UpstreamApi): (chunk: Uint8Array, controller: TransformStreamDefaultController) => void;
+    /**
+     * 非流式转换（含推理字段整理）。
+     */
+    convertResponse(openaiResponse: any, model: string, options: StreamTransformOptions, api?: UpstreamApi): any;
+}
+
+export interface ReplayResult {
+    id: string;
+    status: 'ok' | 'diff' | 'skipped';
+    reason?: string;
+    diff?: string[];
+}
+
+const MAX_DIFF_LINES = 20;
+
+/**
+ * 逐行比较，返回不同的行（- 为录制内容，+ 为重放结果），最多 MAX_DIFF_LINES 组。
+ */
+export function diffLines(expected: string, actual: string): string[] {
+    const expectedLines = expected.split('\n');
+    const actualLines = actual.split('\n');
+    const diff: string[] = [];
+    for (let i = 0; i < Math.max(expectedLines.length, actualLines.length); i++) {
+        if (expectedLines[i] === actualLines[i]) continue;
+        if (diff.length >= MAX_DIFF_LINES * 2) {
+            diff.push('...');
+            break;
+        }
+        if (i < expectedLines.length) diff.push(`-${i + 1}: ${expectedLines[i]}`);
+        if (i < actualLines.length) diff.push(`+${i + 1}: ${actualLines[i]}`);
+    }
+    return diff;
+}
+
+function skipReason(record: CaptureRecord): string | null {
+    if (record.cancelled) return 'client cancelled';
+    if (record.tool_choice_enforced) return 'tool_choice enforced';
+    if (record.tool_args_enforced) return 'tool arguments reasked';
+    if (record.structured_output_emulated) return 'structured output emulated';
+    if (record.stream ? !record.upstream_chunks || record.claude_sse === undefined : !record.claude_response) return 'no upstream response';
+    return null;
+}
+
+async function replayStream(record: CaptureRecord, converters: ReplayConverters): Promise<string> {
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    const transform = new TransformStream({ transform: converters.streamTransformer(record.claude_request.model, record.transform_options || {}, record.upstream_api) });
+    // 按录制时的数据块边界写入，SSE 行跨数据块的情况也能重现
+    const source = new ReadableStream<Uint8Array>({
+        start(controller) {
+            record.upstream_chunks!.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+            controller.close();
+        },
+    });
+    let output = '';
+    await source.pipeThrough(transform).pipeTo(new WritableStream({
+        write(chunk) {
+            output += decoder.decode(chunk, { stream: true });
+        },
+    }));
+    return output + decoder.decode();
+}
+
+/**
+ * 重放一条录制记录并与录制的输出比较。
+ */
+export async function replayRecord(record: CaptureRecord, converters: ReplayConverters): Promise<ReplayResult> {
+    const reason = skipReason(record);
+    if (reason) return { id: record.id, status: 'skipped', reason };
+    let expected: string;
+    let actual: string;
+    if (record.stream) {
+        expected = record.claude_sse!;
+        actual = await replayStream(record, converters);
+    } else {
+        // 转换会原地修改响应，使用副本
+        const response = converters.convertResponse(structuredClone(record.upstream_response), record.claude_request.model, record.transform_options || {}, record.upstream_api);
+        expected = JSON.stringify(record.claude_response, null, 2);
+        actual = JSON.stringify(response, null, 2);
+    }
+    const diff = diffLines(expected, actual);
+    return diff.length ? { id: record.id, status: 'diff', diff } : { id: record.id, status: 'ok' };
+}
+
+/**
+ * 解析 JSONL 录制文件，忽略空行。
+ */
+export function parseCaptureFile(content: string): CaptureRecord[] {
+    return content
+        .split('\n')
+        .filter(line => line.trim())
+        .map((line, index) => {
+            try {
+                return JSON.parse(line);
+            } catch (err: any) {
+                throw new Error(`line ${index + 1}: ${err.message}`);
+            }
+        });
+}
+
+async function main(files: string[]) {
+    if (files.length === 0) {
+        console.error('Usage: npm run replay -- <capture.jsonl> [...]');
+        process.exit(2);
+    }
+    // 只需要转换函数，不写日志文件
+    process.env.LOG_DIR ??= '';
+    const { streamTransformer, convertOpenAIToClaudeResponse } = await import('./index');
+    const { DIALECT_PROFILES, normalizeReasoning } = await import('./dialects');
+    const { convertResponsesToClaudeResponse, responsesStreamTransformer } = await import('./responses');
+    const { convertGeminiToClaudeResponse, geminiStreamTransformer } = await import('./gemini');
+    const streamTransformers = { chat_completions: streamTransformer, responses: responsesStreamTransformer, gemini: geminiStreamTransformer };
+    const converters: ReplayConverters = {
+        streamTransformer: (model, options, api) => streamTransformers[api || 'chat_completions'](model, undefined, options),
+        convertResponse(openaiResponse, model, options, api) {
+            if (api === 'responses') {
+                return convertResponsesToClaudeResponse(openaiResponse, model, options.stopSequences);
+            }
+            if (api === 'gemini') {
+                return convertGeminiToClaudeResponse(openaiResponse, model, options.stopSequences);
+            }
+            normalizeReasoning(openaiResponse?.choices?.[0]?.message, options.reasoningFields || DIALECT_PROFILES.passthrough.reasoningFields);
+            return convertOpenAIToClaudeResponse(openaiResponse, model, options.stopSequences, options.promptToolCalls);
+        },
+    };
+
+    const counts = { ok: 0, diff: 0, skipped: 0 };
+    for (const file of files) {
+        for (const record of parseCaptureFile(readFileSync(file, 'utf8'))) {
+            const result = await replayRecord(record, converters);
+            counts[result.status]++;
+            if (result.status === 'ok') {
+                console.log(`OK    ${result.id}`);
+            } else if (result.status === 'skipped') {
+                console.log(`SKIP  ${result.id} (${result.reason})`);
+            } else {
+                console.log(`DIFF  ${result.id}`);
+                result.diff!.forEach(line => console.log(`      ${line}`));
+            }
+        }
+    }
+    console.log(`\n${counts.ok} ok, ${counts.diff} diff, ${counts.skipped} skipped`);
+    process.exit(counts.diff > 0 ? 1 : 0);
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).catch(err => {
+        console.error(err.message);
+        process.exit(2);
+    });
+}
@@ -0,0 +1,278 @@
+/**
+ * 单元测试：OpenAI Responses API 上游转换
+ */
+import { describe, it, expect } from 'vitest';
+import {
+    convertClaudeToResponsesRequest,
+    convertResponsesToClaudeResponse,
+    decodeReasoningSignature,
+    encodeReasoningSignature,
+    responsesStreamTransformer,
+} from './responses';
+
+/**
+ * 把 SSE 文本喂给 transformer，收集输出的 Claude 事件
+ */
+async function runStream(transform: ReturnType<typeof responsesStreamTransformer>, sse: string): Promise<any[]> {
+    const stream = new Blob([sse]).stream().pipeThrough(new TransformStream({ transform }));
+    const text = await new Response(stream).text();
+    return text.split('\n\n').filter(Boolean).map(event => JSON.parse(event.split('\n')[1].replace(/^data: /, '')));
+}
+
+function sseEvent(data: any): string {
+    return `event: ${data.type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function sse(events: any[]): string {
+    return events.map(sseEvent).join('');
+}
+
+const usage = { input_tokens: 120, input_tokens_details: { cached_tokens: 20 }, output_tokens: 30 };
+
+describe('reasoning signature', () => {
+    it('编码与解码推理项', () => {
+        const signature = encodeReasoningSignature('rs_1', 'gAAAA==');
+        expect(decodeReasoningSignature(signature)).toEqual({ id: 'rs_1', encryptedContent: 'gAAAA==' });
+    });
+
+    it('其他来源或没有 encrypted_content 的签名返回 null', () => {
+        expect(decodeReasoningSignature('abc123')).toBeNull();
+        expect(decodeReasoningSignature(encodeReasoningSignature('rs_1', undefined))).toBeNull();
+        expect(decodeReasoningSignature(undefined)).toBeNull();
+    });
+});
+
+describe('convertClaudeToResponsesRequest', () => {
+    it('消息转换为 input items，system 转为 instructions', () => {
+        const result = convertClaudeToResponsesRequest({
+            model: 'claude-sonnet-4',
+            system: 'You are helpful.',
+            max_tokens: 1024,
+            messages: [
+                {
+                    role: 'user',
+                    content: [
+                        { type: 'text', text: '看图' },
+                        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'abc' } },
+                        { type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: 'pdf' } },
+                    ],
+                },
+                {
+                    role: 'assistant',
+                    content: [
+                        { type: 'thinking', thinking: '想一想', signature: encodeReasoningSignature('rs_1', 'enc') },
+                        { type: 'thinking', thinking: '其他上游', signature: 'other' },
+                        { type: 'text', text: '我来查一下' },
+                        { type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } },
+                    ],
+                },
+                {
+                    role: 'user',
+                    content: [
+                        { type: 'tool_result', tool_use_id: 'call_1', content: [{ type: 'text', text: '晴' }, { type: 'image', source: { type: 'url', url: 'https://example.com/a.png' } }] },
+                        { type: 'text', text: '继续' },
+                    ],
+                },
+            ],
+        }, 'gpt-5');
+
+        expect(result).toMatchObject({ model: 'gpt-5', instructions: 'You are helpful.', max_output_tokens: 1024, store: false });
+        expect(result.input).toEqual([
+            {
+                type: 'message',
+                role: 'user',
+                content: [
+                    { type: 'input_text', text: '看图' },
+                    { type: 'input_image', image_url: 'data:image/png;base64,abc' },
+                    { type: 'input_file', filename: 'document.pdf', file_data: 'data:application/pdf;base64,pdf' },
+                ],
+            },
+            { type: 'reasoning', id: 'rs_1', summary: [{ type: 'summary_text', text: '想一想' }], encrypted_content: 'enc' },
+            { type: 'message', role: 'assistant', content: '我来查一下' },
+            { type: 'function_call', call_id: 'call_1', name: 'get_weather', arguments: '{"city":"Paris"}' },
+            { type: 'function_call_output', call_id: 'call_1', output: '晴' },
+            { type: 'message', role: 'user', content: [{ type: 'input_image', image_url: 'https://example.com/a.png' }] },
+            { type: 'message', role: 'user', content: [{ type: 'input_text', text: '继续' }] },
+        ]);
+    });
+
+    it('工具、tool_choice、thinking 与结构化输出', () => {
+        const result = convertClaudeToResponsesRequest({
+            model: 'claude-sonnet-4',
+            max_tokens: 1024,
+            messages: [{ role: 'user', content: 'hi' }],
+            tools: [{ name: 'get_weather', description: '查询天气', input_schema: { type: 'object', properties: { city: { type: 'string' } } } }],
+            tool_choice: { type: 'tool', name: 'get_weather', disable_parallel_tool_use: true },
+            thinking: { type: 'enabled', budget_tokens: 8000 },
+            output_config: { format: { type: 'json_schema', schema: { type: 'object' } } },
+        }, 'gpt-5');
+
+        expect(result.tools).toEqual([{ type: 'function', name: 'get_weather', description: '查询天气', parameters: { type: 'object', properties: { city: { type: 'string' } } }, strict: false }]);
+        expect(result.tool_choice).toEqual({ type: 'function', name: 'get_weather' });
+        expect(result.parallel_tool_calls).toBe(false);
+        expect(result.reasoning).toEqual({ effort: 'medium', summary: 'auto' });
+        expect(result.include).toEqual(['reasoning.encrypted_content']);
+        expect(result.text).toEqual({ format: { type: 'json_schema', name: 'json_output', schema: { type: 'object' }, strict: true } });
+    });
+
+    it('没有 thinking 时不请求推理内容，output_config.effort 优先', () => {
+        const base = { model: 'claude-sonnet-4', max_tokens: 1024, messages: [{ role: 'user' as const, content: 'hi' }] };
+        expect(convertClaudeToResponsesRequest(base, 'gpt-5').reasoning).toBeUndefined();
+        expect(convertClaudeToResponsesRequest({ ...base, thinking: { type: 'enabled', budget_tokens: 2000 }, output_config: { effort: 'max' } }, 'gpt-5').reasoning)
+            .toEqual({ effort: 'high', summary: 'auto' });
+    });
+});
+
+describe('convertResponsesToClaudeResponse', () => {
+    it('推理、文本和函数调用转换为 Claude 内容块', () => {
+        const result = convertResponsesToClaudeResponse({
+            id: 'resp_abc',
+            status: 'completed',
+            output: [
+                { type: 'reasoning', id: 'rs_1', summary: [{ type: 'summary_text', text: '第一段' }, { type: 'summary_text', text: '第二段' }], encrypted_content: 'enc' },
+                { type: 'message', role: 'assistant', content: [{ type: 'output_text', text: '查询中' }] },
+                { type: 'function_call', call_id: 'call_1', name: 'get_weather', arguments: '{"city":"Paris"}' },
+            ],
+            usage,
+        }, 'claude-sonnet-4');
+
+        expect(result).toEqual({
+            id: 'msg_abc',
+            type: 'message',
+            role: 'assistant',
+            model: 'claude-sonnet-4',
+            content: [
+                { type: 'thinking', thinking: '第一段\n\n第二段', signature: encodeReasoningSignature('rs_1', 'enc') },
+                { type: 'text', text: '查询中' },
+                { type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } },
+            ],
+            stop_reason: 'tool_use',
+            stop_sequence: null,
+            usage: { input_tokens: 100, output_tokens: 30, cache_read_input_tokens: 20, cache_creation_input_tokens: 0 },
+        });
+    });
+
+    it('incomplete 与 stop 序列', () => {
+        const incomplete = convertResponsesToClaudeResponse({
+            id: 'resp_1', status: 'incomplete', incomplete_details: { reason: 'max_output_tokens' },
+            output: [{ type: 'message', content: [{ type: 'output_text', text: 'abc' }] }], usage,
+        }, 'm');
+        expect(incomplete.stop_reason).toBe('max_tokens');
+
+        const stopped = convertResponsesToClaudeResponse({
+            id: 'resp_2', status: 'completed',
+            output: [
+                { type: 'message', content: [{ type: 'output_text', text: 'hello END world' }] },
+                { type: 'function_call', call_id: 'call_1', name: 'f', arguments: '{}' },
+            ],
+            usage,
+        }, 'm', ['END']);
+        expect(stopped.content).toEqual([
+            { type: 'text', text: 'hello ' },
+            { type: 'tool_use', id: 'call_1', name: 'f', input: {} },
+        ]);
+        expect(stopped).toMatchObject({ stop_reason: 'stop_sequence', stop_sequence: 'END' });
+    });
+});
+
+describe('responsesStreamTransformer', () => {
+    it('Responses 事件转换为 Claude SSE', async () => {
+        const events = await runStream(responsesStreamTransformer('claude-sonnet-4'), sse([
+            { type: 'response.created', response: { id: 'resp_abc', status: 'in_progress' } },
+            { type: 'response.output_item.added', output_index: 0, item: { type: 'reasoning', id: 'rs_1' } },
+            { type: 'response.reasoning_summary_part.added', output_index: 0, summary_index: 0 },
+            { type: 'response.reasoning_summary_text.delta', output_index: 0, summary_index: 0, delta: '想' },
+            { type: 'response.reasoning_summary_part.added', output_index: 0, summary_index: 1 },
+            { type: 'response.reasoning_summary_text.delta', output_index: 0, summary_index: 1, delta: '再想' },
+            { type: 'response.output_item.done', output_index: 0, item: { type: 'reasoning', id: 'rs_1', encrypted_content: 'enc' } },
+            { type: 'response.output_item.added', output_index: 1, item: { type: 'message' } },
+            { type: 'response.output_text.delta', output_index: 1, delta: '你好' },
+            { type: 'response.output_item.done', output_index: 1, item: { type: 'message' } },
+            { type: 'response.output_item.added', output_index: 2, item: { type: 'function_call', call_id: 'call_1', name: 'get_weather' } },
+            { type: 'response.function_call_arguments.delta', output_index: 2, delta: '{"city":' },
+            { type: 'response.function_call_arguments.delta', output_index: 2, delta: '"Paris"}' },
+            { type: 'response.output_item.done', output_index: 2, item: { type: 'function_call', call_id: 'call_1', name: 'get_weather', arguments: '{"city":"Paris"}' } },
+            { type: 'response.completed', response: { id: 'resp_abc', status: 'completed', usage } },
+        ]));
+
+        expect(events.map(event => event.delta?.type ? `${event.type}:${event.delta.type ?? ''}` : event.type)).toEqual([
+            'message_start',
+            'content_block_start',
+            'content_block_delta:thinking_delta',
+            'content_block_delta:thinking_delta',
+            'content_block_delta:thinking_delta',
+            'content_block_delta:signature_delta',
+            'content_block_stop',
+            'content_block_start',
+            'content_block_delta:text_delta',
+            'content_block_stop',
+            'content_block_start',
+            'content_block_delta:input_json_delta',
+            'content_block_delta:input_json_delta',
+            'content_block_stop',
+            'message_delta',
+            'message_stop',
+        ]);
+        expect(events[0].message.id).toBe('msg_abc');
+        expect(events[3].delta.thinking).toBe('\n\n');
+        expect(events[5].delta.signature).toBe(encodeReasoningSignature('rs_1', 'enc'));
+        expect(events[10]).toMatchObject({ index: 2, content_block: { type: 'tool_use', id: 'call_1', name: 'get_weather', input: {} } });
+        expect(events[14]).toEqual({
+            type: 'message_delta',
+            delta: { stop_reason: 'tool_use', stop_sequence: null },
+            usage: { input_tokens: 100, output_tokens: 30, cache_read_input_tokens: 20, cache_creation_input_tokens: 0 },
+        });
+    });
+
+    it('命中 stop 序列后截断正文，记录进度', async () => {
+        const progress = { messageId: null, usage: null, generatedText: '', stopReason: null };
+        const events = await runStream(responsesStreamTransformer('m', progress, { stopSequences: ['END'] }), sse([
+            { type: 'response.created', response: { id: 'resp_1' } },
+            { type: 'response.output_text.delta', output_index: 0, delta: 'hello EN' },
+            { type: 'response.output_text.delta', output_index: 0, delta: 'D world' },
+            { type: 'response.completed', response: { id: 'resp_1', status: 'completed', usage } },
+        ]));
+        const text = events.filter(event => event.delta?.type === 'text_delta').map(event => event.delta.text).join('');
+        expect(text).toBe('hello ');
+        expect(events.find(event => event.type === 'message_delta').delta).toEqual({ stop_reason: 'stop_sequence', stop_sequence: 'END' });
+        expect(progress).toMatchObject({ messageId: 'msg_1', generatedText: 'hello ', stopReason: 'stop_sequence' });
+    });
+
+    it('命中 stop 序列后丢弃之后的正文，函数调用照常输出', async () => {
+        const events = await runStream(responsesStreamTransformer('m', undefined, { stopSequences: ['END'] }), sse([
+            { type: 'response.output_text.delta', output_index: 0, delta: 'hello END world' },
+            { type: 'response.output_item.added', output_index: 1, item: { type: 'function_call', call_id: 'call_1', name: 'f' } },
+            { type: 'response.function_call_arguments.delta', output_index: 1, delta: '{}' },
+            { type: 'response.output_item.done', output_index: 1, item: { type: 'function_call', call_id: 'call_1', name: 'f', arguments: '{}' } },
+            { type: 'response.output_item.added', output_index: 2, item: { type: 'message' } },
+            { type: 'response.output_text.delta', output_index: 2, delta: 'more' },
+            { type: 'response.completed', response: { id: 'resp_1', status: 'completed', usage } },
+        ]));
+        const text = events.filter(event => event.delta?.type === 'text_delta').map(event => event.delta.text).join('');
+        expect(text).toBe('hello ');
+        expect(events.find(event => event.type === 'content_block_start' && event.index === 1).content_block).toEqual({ type: 'tool_use', id: 'call_1', name: 'f', input: {} });
+        expect(events.find(event => event.delta?.type === 'input_json_delta').delta.partial_json).toBe('{}');
+        expect(events.find(event => event.type === 'message_delta').delta).toEqual({ stop_reason: 'stop_sequence', stop_sequence: 'END' });
+    });
+
+    it('singleToolCall 只保留第一个函数调用，参数只在 done 事件中时一次性补发', async () => {
+        const events = await runStream(responsesStreamTransformer('m', undefined, { singleToolCall: true }), sse([
+            { type: 'response.output_item.added', output_index: 0, item: { type: 'function_call', call_id: 'call_1', name: 'a' } },
+            { type: 'response.output_item.done', output_index: 0, item: { type: 'function_call', call_id: 'call_1', name: 'a', arguments: '{"x":1}' } },
+            { type: 'response.output_item.added', output_index: 1, item: { type: 'function_call', call_id: 'call_2', name: 'b' } },
+            { type: 'response.function_call_arguments.delta', output_index: 1, delta: '{}' },
+            { type: 'response.output_item.done', output_index: 1, item: { type: 'function_call', call_id: 'call_2', name: 'b', arguments: '{}' } },
+            { type: 'response.completed', response: { status: 'completed', usage } },
+        ]));
+        expect(events.filter(event => event.type === 'content_block_start')).toHaveLength(1);
+        expect(events.find(event => event.delta?.type === 'input_json_delta').delta.partial_json).toBe('{"x":1}');
+    });
+
+    it('response.failed 转换为 event: error', async () => {
+        const events = await runStream(responsesStreamTransformer('m'), sse([
+            { type: 'response.created', response: { id: 'resp_1' } },
+            { type: 'response.failed', response: { id: 'resp_1', status: 'failed', error: { code: 'rate_limit_exceeded', message: 'slow down' } } },
+        ]));
+        expect(events[events.length - 1]).toEqual({ type: 'error', error: { type: 'rate_limit_error', message: 'slow down' } });
+    });
+});
@@ -0,0 +1,543 @@
+/**
+ * OpenAI Responses API（/v1/responses）上游
+ *
+ * 与 index.ts 中面向 /chat/completions 的 convertClaudeToOpenAIRequest / convertOpenAIToClaudeResponse / streamTransformer 并列，
+ * 路由表中 `"api": "responses"` 的上游使用这一组转换：
+ * - convertClaudeToResponsesRequest：Claude 请求 -> input items（message / function_call / function_call_output / reasoning）
+ * - convertResponsesToClaudeResponse：Responses 非流式响应 -> Claude 响应
+ * - responsesStreamTransformer：Responses SSE（response.* 事件）-> Claude SSE
+ *
+ * 推理摘要转换为 thinking 块，推理项的 id 和 encrypted_content 编码在 thinking 块的 signature 中，
+ * 客户端原样回传后还原为 reasoning 输入项。代理不在上游保存响应（store: false），多轮对话完全由客户端回传的历史承载。
+ */
+
+import type {
+    ClaudeMessagesRequest,
+    ClaudeTextBlock,
+    ClaudeUsage,
+    StreamProgress,
+    StreamTransformOptions,
+} from './index';
+import { budgetToReasoningEffort } from './dialects';
+import { translateUpstreamError } from './errors';
+import { findStopSequence, StopSequenceMatcher } from './stopReason';
+import { recordInvalidToolUse, resolveToolArguments } from './toolArgs';
+
+export interface ResponsesInputContent {
+    type: 'input_text' | 'input_image' | 'input_file';
+    text?: string;
+    image_url?: string;
+    file_data?: string;
+    file_url?: string;
+    filename?: string;
+}
+
+export type ResponsesInputItem =
+    | { type: 'message'; role: 'user' | 'assistant'; content: string | ResponsesInputContent[] }
+    | { type: 'function_call'; call_id: string; name: string; arguments: string }
+    | { type: 'function_call_output'; call_id: string; output: string }
+    | { type: 'reasoning'; id: string; summary: Array<{ type: 'summary_text'; text: string }>; encrypted_content: string };
+
+export interface ResponsesRequest {
+    model: string;
+    input: ResponsesInputItem[];
+    instructions?: string;
+    max_output_tokens?: number;
+    temperature?: number;
+    top_p?: number;
+    stream?: boolean;
+    tools?: Array<{ type: 'function'; name: string; description?: string; parameters: any; strict: boolean }>;
+    tool_choice?: 'auto' | 'none' | 'required' | { type: 'function'; name: string };
+    parallel_tool_calls?: boolean;
+    reasoning?: { effort: string; summary?: 'auto' | 'concise' | 'detailed' };
+    include?: string[];
+    text?: { format: { type: 'json_schema'; name: string; schema: any; strict: boolean } | { type: 'json_object' } };
+    store: boolean;
+}
+
+const SIGNATURE_PREFIX = 'responses:';
+
+/**
+ * 推理项编码为 thinking 块的 signature：`responses:<id>:<encrypted_content>`。
+ */
+export function encodeReasoningSignature(id: string, encryptedContent: string | undefined): string {
+    return `${SIGNATURE_PREFIX}${id}:${encryptedContent || ''}`;
+}
+
+/**
+ * 从 signature 还原推理项；不是本模块生成的签名（如其他上游或 Anthropic 的签名）或没有 encrypted_content 时返回 null。
+ */
+export function decodeReasoningSignature(signature: string | undefined): { id: string; encryptedContent: string } | null {
+    if (!signature?.startsWith(SIGNATURE_PREFIX)) return null;
+    const rest = signature.substring(SIGNATURE_PREFIX.length);
+    const separator = rest.indexOf(':');
+    if (separator <= 0 || separator === rest.length - 1) return null;
+    return { id: rest.substring(0, separator), encryptedContent: rest.substring(separator + 1) };
+}
+
+function toImageUrl(source: ClaudeTextBlock['source']): string {
+    if (source?.type === 'url') return source.url;
+    return `data:${source?.media_type};base64,${source?.data}`;
+}
+
+function convertUserBlock(block: ClaudeTextBlock): ResponsesInputContent | null {
+    if (block.type === 'text') {
+        return { type: 'input_text', text: block.text || '' };
+    }
+    if (block.type === 'image' && block.source) {
+        return { type: 'input_image', image_url: toImageUrl(block.source) };
+    }
+    if (block.type === 'document' && block.source) {
+        if (block.source.type === 'url') {
+            return { type: 'input_file', file_url: block.source.url };
+        }
+        const extension = block.source.media_type.split('/')[1] || 'bin';
+        return { type: 'input_file', filename: `document.${extension}`, file_data: toImageUrl(block.source) };
+    }
+    return null;
+}
+
+/**
+ * tool_result 的内容：单个文本块直接使用其文本，其他非图片内容 JSON 序列化；图片另外放入紧随其后的 user 消息。
+ */
+function convertToolResult(block: ClaudeTextBlock): { output: string; images: ResponsesInputContent[] } {
+    if (typeof block.content === 'string') {
+        return { output: block.content, images: [] };
+    }
+    if (!Array.isArray(block.content)) {
+        return { output: JSON.stringify(block.content ?? ''), images: [] };
+    }
+    const images: ResponsesInputContent[] = [];
+    const others: any[] = [];
+    for (const item of block.content) {
+        if (item.type === 'image' && item.source) {
+            images.push({ type: 'input_image', image_url: toImageUrl(item.source) });
+        } else {
+            others.push(item);
+        }
+    }
+    let output: string;
+    if (others.length === 1 && others[0].type === 'text' && others[0].text) {
+        output = others[0].text;
+    } else if (others.length > 0) {
+        output = JSON.stringify(others);
+    } else {
+        output = '[image]';
+    }
+    return { output, images };
+}
+
+function systemText(system: ClaudeMessagesRequest['system']): string | undefined {
+    if (!system) return undefined;
+    if (typeof system === 'string') return system;
+    return system.map(block => block.text || '').filter(Boolean).join('\n\n') || undefined;
+}
+
+function reasoningEffort(claudeRequest: ClaudeMessagesRequest): string | undefined {
+    const effort = claudeRequest.output_config?.effort;
+    if (effort) {
+        return effort === 'xhigh' || effort === 'max' ? 'high' : effort;
+    }
+    if (claudeRequest.thinking && claudeRequest.thinking.type !== 'disabled') {
+        return budgetToReasoningEffort(claudeRequest.thinking.budget_tokens);
+    }
+    return undefined;
+}
+
+/**
+ * Converts a Claude API request to the OpenAI Responses format.
+ */
+export function convertClaudeToResponsesRequest(claudeRequest: ClaudeMessagesRequest, modelName: string): ResponsesRequest {
+    const input: ResponsesInputItem[] = [];
+
+    for (const message of claudeRequest.messages) {
+        if (!Array.isArray(message.content)) {
+            input.push({ type: 'message', role: message.role, content: message.content });
+            continue;
+        }
+
+        if (message.role === 'user') {
+            for (const block of message.content.filter(c => c.type === 'tool_result')) {
+                const { output, images } = convertToolResult(block);
+                input.push({ type: 'function_call_output', call_id: block.tool_use_id!, output });
+                if (images.length > 0) {
+                    input.push({ type: 'message', role: 'user', content: images });
+                }
+            }
+            const content = message.content
+                .filter(c => c.type !== 'tool_result')
+                .map(convertUserBlock)
+                .filter((part): part is ResponsesInputContent => part !== null);
+            if (content.length > 0) {
+                input.push({ type: 'message', role: 'user', content });
+            }
+            continue;
+        }
+
+        // assistant：按顺序转换为输出项，相邻的文本块合并为一条消息
+        let text: string[] = [];
+        const flushText = () => {
+            if (text.length > 0) input.push({ type: 'message', role: 'assistant', content: text.join('') });
+            text = [];
+        };
+        for (const block of message.content) {
+            if (block.type === 'text') {
+                if (block.text) text.push(block.text);
+            } else if (block.type === 'thinking') {
+                // 只有本模块签发的推理项可以回传，其他来源的 thinking 块上游无法识别，丢弃
+                const reasoning = decodeReasoningSignature(block.signature);
+                if (!reasoning) continue;
+                flushText();
+                const thinking = block.thinking || block.text || '';
+                input.push({
+                    type: 'reasoning',
+                    id: reasoning.id,
+                    summary: thinking ? [{ type: 'summary_text', text: thinking }] : [],
+                    encrypted_content: reasoning.encryptedContent,
+                });
+            } else if (block.type === 'tool_use') {
+                flushText();
+                input.push({ type: 'function_call', call_id: block.id!, name: block.name!, arguments: JSON.stringify(block.input || {}) });
+            }
+        }
+        flushText();
+    }
+
+    const responsesRequest: ResponsesRequest = {
+        model: modelName,
+        input,
+        max_output_tokens: claudeRequest.max_tokens,
+        temperature: claudeRequest.temperature,
+        top_p: claudeRequest.top_p,
+        stream: claudeRequest.stream,
+        store: false,
+    };
+    const instructions = systemText(claudeRequest.system);
+    if (instructions) {
+        responsesRequest.instructions = instructions;
+    }
+
+    const effort = reasoningEffort(claudeRequest);
+    if (effort) {
+        responsesRequest.reasoning = { effort, summary: 'auto' };
+        // 不在上游保存响应，推理内容以加密形式随 thinking 块的 signature 回传
+        responsesRequest.include = ['reasoning.encrypted_content'];
+    }
+
+    const format = claudeRequest.output_config?.format;
+    if (format?.type === 'json_schema' && format.schema) {
+        responsesRequest.text = { format: { type: 'json_schema', name: 'json_output', schema: format.schema, strict: true } };
+    }
+
+    if (claudeRequest.tools) {
+        // Responses API 的函数工具默认 strict，任意 JSON Schema 需要显式关闭
+        responsesRequest.tools = claudeRequest.tools.map(tool => ({
+            type: 'function',
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.input_schema,
+            strict: false,
+        }));
+    }
+
+    const toolChoice = claudeRequest.tool_choice;
+    if (toolChoice) {
+        if (toolChoice.type === 'auto') {
+            responsesRequest.tool_choice = 'auto';
+        } else if (toolChoice.type === 'any') {
+            responsesRequest.tool_choice = 'required';
+        } else if (toolChoice.type === 'none') {
+            responsesRequest.tool_choice = 'none';
+        } else if (toolChoice.type === 'tool') {
+            responsesRequest.tool_choice = { type: 'function', name: toolChoice.name! };
+        }
+        if (toolChoice.disable_parallel_tool_use && responsesRequest.tools?.length) {
+            responsesRequest.parallel_tool_calls = false;
+        }
+    }
+
+    return responsesRequest;
+}
+
+function mapResponseIdToClaude(id: string | undefined): string {
+    if (!id || typeof id !== 'string') return `msg_${Math.random().toString(36).substr(2, 9)}`;
+    return `msg_${id.replace(/^resp_/, '')}`;
+}
+
+/**
+ * Responses usage -> Claude usage，input_tokens 包含缓存命中的部分。
+ */
+function convertUsage(usage: any): ClaudeUsage {
+    const inputTokens = usage?.input_tokens || 0;
+    const cachedTokens = usage?.input_tokens_details?.cached_tokens || 0;
+    return {
+        input_tokens: Math.max(0, inputTokens - cachedTokens),
+        output_tokens: usage?.output_tokens || 0,
+        cache_read_input_tokens: cachedTokens,
+        cache_creation_input_tokens: 0,
+    };
+}
+
+/**
+ * 推理项的文本：优先使用摘要，没有摘要时使用原始推理内容（部分开源模型的实现只返回 reasoning_text）。
+ */
+function reasoningText(item: any): string {
+    const parts = Array.isArray(item.summary) && item.summary.length > 0 ? item.summary : item.content;
+    return (Array.isArray(parts) ? parts : []).map((part: any) => part?.text || '').filter(Boolean).join('\n\n');
+}
+
+/**
+ * 响应结束时的 stop_reason：incomplete 按原因映射，否则有工具调用时为 tool_use。
+ */
+function stopReasonOf(response: any, hasToolUse: boolean): string {
+    if (response?.status === 'incomplete') {
+        const reason = response.incomplete_details?.reason;
+        if (reason === 'max_output_tokens') return 'max_tokens';
+        if (reason === 'content_filter') return 'refusal';
+        return 'end_turn';
+    }
+    return hasToolUse ? 'tool_use' : 'end_turn';
+}
+
+/**
+ * Converts a non-streaming Responses API response to the Claude format.
+ */
+export function convertResponsesToClaudeResponse(response: any, model: string, stopSequences?: string[]): any {
+    const messageId = mapResponseIdToClaude(response.id);
+    const content: any[] = [];
+    let stopSequence: string | null = null;
+
+    for (const item of response.output || []) {
+        // 命中 stop 序列后丢弃之后的正文和推理内容，函数调用照常返回（与 Chat Completions 一致）
+        if (stopSequence && item.type !== 'function_call') continue;
+        if (item.type === 'reasoning') {
+            content.push({ type: 'thinking', thinking: reasoningText(item), signature: encodeReasoningSignature(item.id, item.encrypted_content) });
+        } else if (item.type === 'message') {
+            let text = (item.content || [])
+                .map((part: any) => (part.type === 'refusal' ? part.refusal : part.text) || '')
+                .join('');
+            const found = findStopSequence(text, stopSequences);
+            if (found) {
+                text = text.slice(0, found.index);
+                stopSequence = found.sequence;
+            }
+            if (text) content.push({ type: 'text', text });
+        } else if (item.type === 'function_call') {
+            content.push({ type: 'tool_use', id: item.call_id, name: item.name, input: resolveToolArguments(item.arguments).input });
+        }
+    }
+
+    return {
+        id: messageId,
+        type: 'message',
+        role: 'assistant',
+        model,
+        content,
+        stop_reason: stopSequence ? 'stop_sequence' : stopReasonOf(response, content.some(block => block.type === 'tool_use')),
+        stop_sequence: stopSequence,
+        usage: convertUsage(response.usage),
+    };
+}
+
+interface OpenBlock {
+    kind: 'thinking' | 'text' | 'tool_use';
+    claudeIndex: number;
+    id?: string;
+    name?: string;
+    /**
+     * 已经通过 delta 收到的函数参数，上游只在结束事件中给出完整参数时补发。
+     */
+    args: string;
+    /**
+     * 推理摘要的分段序号，新分段之前插入空行。
+     */
+    summaryIndex: number;
+}
+
+/**
+ * Creates a transform function that converts a Responses API SSE stream to Claude SSE format.
+ */
+export function responsesStreamTransformer(
+    model: string,
+    progress: StreamProgress = { messageId: null, usage: null, generatedText: '', stopReason: null },
+    options: StreamTransformOptions = {}
+) {
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let messageId: string | null = null;
+    let nextIndex = 0;
+    // 按 output_index 记录对应的 Claude 内容块
+    const blocks = new Map<number, OpenBlock>();
+    let current: OpenBlock | null = null;
+    let hasToolUse = false;
+    let finished = false;
+    const droppedOutputs = new Set<number>();
+    const stopMatcher = options.stopSequences?.length ? new StopSequenceMatcher(options.stopSequences) : null;
+
+    return (chunk: Uint8Array, controller: TransformStreamDefaultController) => {
+        const sendEvent = (event: string, data: object) => {
+            controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+        const start = (responseId?: string) => {
+            if (messageId) return;
+            messageId = mapResponseIdToClaude(responseId);
+            progress.messageId = messageId;
+            sendEvent('message_start', { type: 'message_start', message: { id: messageId, type: 'message', role: 'assistant', model, content: [], stop_reason: null, usage: { input_tokens: 0, output_tokens: 0 } } });
+        };
+        const sendDelta = (block: OpenBlock, delta: object) => {
+            progress.firstTokenAt ??= Date.now();
+            sendEvent('content_block_delta', { type: 'content_block_delta', index: block.claudeIndex, delta });
+        };
+        const stopBlock = () => {
+            if (!current) return;
+            if (current.kind === 'text') {
+                // 结束文本块前输出为匹配 stop 序列而暂存的文本
+                const held = stopMatcher?.flush();
+                if (held) {
+                    progress.generatedText += held;
+                    sendDelta(current, { type: 'text_delta', text: held });
+                }
+            }
+            sendEvent('content_block_stop', { type: 'content_block_stop', index: current.claudeIndex });
+            current = null;
+        };
+        const openBlock = (outputIndex: number, kind: OpenBlock['kind'], contentBlock: object): OpenBlock => {
+            stopBlock();
+            const block: OpenBlock = { kind, claudeIndex: nextIndex++, args: '', summaryIndex: 0 };
+            blocks.set(outputIndex, block);
+            current = block;
+            sendEvent('content_block_start', { type: 'content_block_start', index: block.claudeIndex, content_block: contentBlock });
+            return block;
+        };
+        const thinkingDelta = (outputIndex: number, text: string) => {
+            const block = blocks.get(outputIndex) ?? openBlock(outputIndex, 'thinking', { type: 'thinking', thinking: '' });
+            progress.generatedText += text;
+            sendDelta(block, { type: 'thinking_delta', thinking: text });
+        };
+        const textDelta = (outputIndex: number, delta: string) => {
+            if (stopMatcher?.matched) return;
+            const text = stopMatcher ? stopMatcher.push(delta) : delta;
+            if (!text) return;
+            const block = blocks.get(outputIndex) ?? openBlock(outputIndex, 'text', { type: 'text', text: '' });
+            progress.generatedText += text;
+            sendDelta(block, { type: 'text_delta', text });
+        };
+        const finish = (response: any) => {
+            stopBlock();
+            const usage = convertUsage(response?.usage);
+            progress.usage = usage;
+            const stopSequence = stopMatcher?.matched ?? null;
+            const stopReason = stopSequence ? 'stop_sequence' : stopReasonOf(response, hasToolUse);
+            progress.stopReason = stopReason;
+            sendEvent('message_delta', { type: 'message_delta', delta: { stop_reason: stopReason, stop_sequence: stopSequence }, usage });
+            sendEvent('message_stop', { type: 'message_stop' });
+            finished = true;
+            controller.terminate();
+        };
+        const fail = (error: any) => {
+            stopBlock();
+            sendEvent('error', translateUpstreamError(error?.code === 'rate_limit_exceeded' ? 429 : 500, JSON.stringify({ error })).body);
+            finished = true;
+            controller.terminate();
+        };
+
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+            if (!line.startsWith('data:') || finished) continue;
+            let event: any;
+            try {
+                event = JSON.parse(line.substring(5).trim());
+            } catch {
+                continue;
+            }
+            if (event.type === 'error') {
+                fail({ code: event.code, message: event.message });
+                continue;
+            }
+            start(event.response?.id);
+            const outputIndex: number = event.output_index;
+            // 被丢弃的并行工具调用不再输出；命中 stop 序列后只保留函数调用，并等待结束事件中的 usage
+            const toolEvent = event.item?.type === 'function_call' || blocks.get(outputIndex)?.kind === 'tool_use';
+            const skipped = droppedOutputs.has(outputIndex) || (!!stopMatcher?.matched && !toolEvent && event.type !== 'response.completed' && event.type !== 'response.incomplete' && event.type !== 'response.failed');
+
+            switch (event.type) {
+                case 'response.output_item.added': {
+                    if (skipped || event.item?.type !== 'function_call') break;
+                    if (options.singleToolCall && hasToolUse) {
+                        droppedOutputs.add(outputIndex);
+                        break;
+                    }
+                    hasToolUse = true;
+                    const block = openBlock(outputIndex, 'tool_use', { type: 'tool_use', id: event.item.call_id, name: event.item.name, input: {} });
+                    block.id = event.item.call_id;
+                    block.name = event.item.name;
+                    break;
+                }
+                case 'response.reasoning_summary_part.added': {
+                    const block = blocks.get(outputIndex);
+                    if (!skipped && block && event.summary_index > block.summaryIndex) {
+                        block.summaryIndex = event.summary_index;
+                        thinkingDelta(outputIndex, '\n\n');
+                    }
+                    break;
+                }
+                case 'response.reasoning_summary_text.delta':
+                case 'response.reasoning_text.delta':
+                    if (!skipped && event.delta) thinkingDelta(outputIndex, event.delta);
+                    break;
+                case 'response.output_text.delta':
+                    if (!skipped && event.delta) textDelta(outputIndex, event.delta);
+                    break;
+                case 'response.refusal.delta':
+                    if (!skipped && event.delta) textDelta(outputIndex, event.delta);
+                    break;
+                case 'response.function_call_arguments.delta': {
+                    const block = blocks.get(outputIndex);
+                    if (skipped || !block || !event.delta) break;
+                    block.args += event.delta;
+                    progress.generatedText += event.delta;
+                    // 设置了 toolSchemas 时参数缓存到 output_item.done，修复后一次性输出
+                    if (!options.toolSchemas) sendDelta(block, { type: 'input_json_delta', partial_json: event.delta });
+                    break;
+                }
+                case 'response.output_item.done': {
+                    if (skipped) break;
+                    const item = event.item || {};
+                    let block = blocks.get(outputIndex);
+                    if (item.type === 'reasoning') {
+                        // 没有摘要的推理项同样输出 thinking 块，以便 encrypted_content 随 signature 回传
+                        if (!block && item.encrypted_content) {
+                            block = openBlock(outputIndex, 'thinking', { type: 'thinking', thinking: '' });
+                        }
+                        if (block) sendDelta(block, { type: 'signature_delta', signature: encodeReasoningSignature(item.id, item.encrypted_content) });
+                    } else if (item.type === 'function_call' && block && options.toolSchemas) {
+                        if (!block.args) progress.generatedText += item.arguments || '';
+                        const args = resolveToolArguments(item.arguments ?? block.args, options.toolSchemas[block.name!]);
+                        recordInvalidToolUse(progress, block.id!, block.name!, args.errors);
+                        sendDelta(block, { type: 'input_json_delta', partial_json: JSON.stringify(args.input) });
+                    } else if (item.type === 'function_call' && block && !block.args && item.arguments) {
+                        // 上游没有发送参数增量，一次性补发
+                        block.args = item.arguments;
+                        progress.generatedText += item.arguments;
+                        sendDelta(block, { type: 'input_json_delta', partial_json: item.arguments });
+                    }
+                    if (block && block === current) stopBlock();
+                    break;
+                }
+                case 'response.completed':
+                case 'response.incomplete':
+                    finish(event.response);
+                    break;
+                case 'response.failed':
+                    fail(event.response?.error || { message: 'Upstream response failed' });
+                    break;
+                default:
+                    // response.created / in_progress / content_part.* / *.done 等无需转换
+                    break;
+            }
+        }
+    };
+}
@@ -0,0 +1,77 @@
+/**
+ * 单元测试：上游重试策略
+ */
+import { describe, it, expect } from 'vitest';
+import { computeRetryDelay, loadRetryPolicy, parseResetDuration, retryAfterFromHeaders, sleep } from './retry';
+
+const policy = { maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 8000, retryStatuses: [429, 502, 503] };
+
+describe('loadRetryPolicy', () => {
+    it('默认值与自定义配置', () => {
+        expect(loadRetryPolicy({})).toEqual(policy);
+        expect(loadRetryPolicy({ UPSTREAM_RETRY_MAX_ATTEMPTS: '1', UPSTREAM_RETRY_STATUSES: '429, 529' })).toMatchObject({
+            maxAttempts: 1,
+            retryStatuses: [429, 529],
+        });
+    });
+});
+
+describe('parseResetDuration', () => {
+    it('解析 OpenAI 风格时长', () => {
+        expect(parseResetDuration('1s')).toBe(1000);
+        expect(parseResetDuration('6m0s')).toBe(360000);
+        expect(parseResetDuration('20ms')).toBe(20);
+        expect(parseResetDuration('1h2m3.5s')).toBe(3723500);
+    });
+
+    it('纯数字按秒处理，大数按 Unix 时间戳处理', () => {
+        expect(parseResetDuration('2')).toBe(2000);
+        expect(parseResetDuration('1700000010', 1700000000000)).toBe(10000);
+    });
+
+    it('无法解析时返回 null', () => {
+        expect(parseResetDuration('soon')).toBeNull();
+        expect(parseResetDuration(null)).toBeNull();
+    });
+});
+
+describe('retryAfterFromHeaders', () => {
+    it('多个提示取最大值', () => {
+        const headers = new Headers({ 'retry-after': '1', 'x-ratelimit-reset-tokens': '3s', 'x-ratelimit-reset-requests': '200ms' });
+        expect(retryAfterFromHeaders(headers)).toBe(3000);
+    });
+
+    it('支持 retry-after-ms 和 HTTP 日期', () => {
+        expect(retryAfterFromHeaders(new Headers({ 'retry-after-ms': '750' }))).toBe(750);
+        const now = Date.parse('2024-01-01T00:00:00Z');
+        expect(retryAfterFromHeaders(new Headers({ 'retry-after': 'Mon, 01 Jan 2024 00:00:05 GMT' }), now)).toBe(5000);
+    });
+
+    it('没有提示时返回 null', () => {
+        expect(retryAfterFromHeaders(new Headers())).toBeNull();
+    });
+});
+
+describe('computeRetryDelay', () => {
+    it('指数退避并加入抖动', () => {
+        expect(computeRetryDelay(policy, 1, undefined, () => 1)).toBe(500);
+        expect(computeRetryDelay(policy, 2, undefined, () => 1)).toBe(1000);
+        expect(computeRetryDelay(policy, 3, undefined, () => 0)).toBe(1000);
+        expect(computeRetryDelay(policy, 10, undefined, () => 1)).toBe(8000);
+    });
+
+    it('遵循上游提示，超过上限时放弃重试', () => {
+        expect(computeRetryDelay(policy, 1, new Headers({ 'retry-after': '2' }))).toBe(2000);
+        expect(computeRetryDelay(policy, 1, new Headers({ 'retry-after': '60' }))).toBeNull();
+    });
+});
+
+describe('sleep', () => {
+    it('signal 中止时立即 reject', async () => {
+        const controller = new AbortController();
+        const pending = sleep(60000, controller.signal);
+        controller.abort(new Error('aborted'));
+        await expect(pending).rejects.toThrow('aborted');
+        await expect(sleep(10, controller.signal)).rejects.toThrow('aborted');
+    });
+});
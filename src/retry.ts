@@ -0,0 +1,126 @@
+/**
+ * 上游重试策略
+ *
+ * 对同一个上游的瞬时错误（默认 429/502/503 以及连接错误）做带抖动的指数退避重试，
+ * 优先遵循上游返回的 Retry-After / retry-after-ms / x-ratelimit-reset-* 提示。
+ * 同一上游重试耗尽后再由 upstream.ts 切换到下一个上游。
+ */
+
+export interface RetryPolicy {
+    /**
+     * 每个上游最多尝试的次数（含第一次），1 表示不重试。
+     */
+    maxAttempts: number;
+    baseDelayMs: number;
+    /**
+     * 单次等待的上限；上游要求等待更久时放弃重试，直接切换上游或返回错误。
+     */
+    maxDelayMs: number;
+    retryStatuses: number[];
+}
+
+export const NO_RETRY: RetryPolicy = { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0, retryStatuses: [] };
+
+/**
+ * 从环境变量读取重试策略。
+ */
+export function loadRetryPolicy(source: NodeJS.ProcessEnv = process.env): RetryPolicy {
+    const statuses = (source.UPSTREAM_RETRY_STATUSES || '429,502,503')
+        .split(',')
+        .map(item => Number(item.trim()))
+        .filter(status => Number.isInteger(status) && status > 0);
+    return {
+        maxAttempts: Math.max(1, Number(source.UPSTREAM_RETRY_MAX_ATTEMPTS ?? 3) || 1),
+        baseDelayMs: Math.max(0, Number(source.UPSTREAM_RETRY_BASE_DELAY_MS ?? 500) || 0),
+        maxDelayMs: Math.max(0, Number(source.UPSTREAM_RETRY_MAX_DELAY_MS ?? 8000) || 0),
+        retryStatuses: statuses,
+    };
+}
+
+/**
+ * 解析 OpenAI 风格的时长（如 "1s"、"6m0s"、"20ms"、"1h2m3.5s"）或纯数字秒数，返回毫秒。
+ * 大于 1e9 的纯数字视为 Unix 时间戳（秒）。
+ */
+export function parseResetDuration(value: string | null, now = Date.now()): number | null {
+    if (!value) return null;
+    const trimmed = value.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        const num = Number(trimmed);
+        return num > 1e9 ? Math.max(0, num * 1000 - now) : num * 1000;
+    }
+    const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+    const regex = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+    let total = 0;
+    let matched = '';
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(trimmed)) !== null) {
+        total += Number(match[1]) * units[match[2]];
+        matched += match[0];
+    }
+    return matched === trimmed && matched ? total : null;
+}
+
+/**
+ * 从响应头中读取上游建议的等待时间（毫秒），多个提示取最大值，没有提示时返回 null。
+ */
+export function retryAfterFromHeaders(headers: Headers, now = Date.now()): number | null {
+    const hints: number[] = [];
+
+    const retryAfterMs = headers.get('retry-after-ms');
+    if (retryAfterMs && !Number.isNaN(Number(retryAfterMs))) {
+        hints.push(Number(retryAfterMs));
+    }
+
+    const retryAfter = headers.get('retry-after');
+    if (retryAfter) {
+        if (/^\d+(\.\d+)?$/.test(retryAfter.trim())) {
+            hints.push(Number(retryAfter) * 1000);
+        } else {
+            const date = Date.parse(retryAfter);
+            if (!Number.isNaN(date)) hints.push(Math.max(0, date - now));
+        }
+    }
+
+    headers.forEach((value, key) => {
+        if (key.toLowerCase().startsWith('x-ratelimit-reset')) {
+            const parsed = parseResetDuration(value, now);
+            if (parsed !== null) hints.push(parsed);
+        }
+    });
+
+    return hints.length > 0 ? Math.max(...hints) : null;
+}
+
+/**
+ * 计算第 retryNumber 次重试（从 1 开始）前的等待时间，返回 null 表示不应重试。
+ * 有上游提示时按提示等待（超过 maxDelayMs 则放弃）；否则指数退避并加入 50%~100% 的随机抖动。
+ */
+export function computeRetryDelay(policy: RetryPolicy, retryNumber: number, headers?: Headers, random = Math.random): number | null {
+    const hinted = headers ? retryAfterFromHeaders(headers) : null;
+    if (hinted !== null) {
+        return hinted <= policy.maxDelayMs ? hinted : null;
+    }
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, retryNumber - 1));
+    return Math.round(exponential * (0.5 + random() * 0.5));
+}
+
+/**
+ * 等待指定时间，signal 中止时立即以中止原因 reject。
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
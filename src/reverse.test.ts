@@ -0,0 +1,227 @@
+/**
+ * 单元测试：反向模式（OpenAI -> Anthropic）转换
+ */
+import { describe, it, expect } from 'vitest';
+import { claudeStreamTransformer, convertClaudeToOpenAIResponse, convertOpenAIToClaudeRequest, toOpenAIErrorBody } from './reverse';
+
+/**
+ * 把 SSE 文本喂给 transformer，收集输出的 OpenAI chunk
+ */
+async function runStream(transform: ReturnType<typeof claudeStreamTransformer>, sse: string): Promise<string[]> {
+    const stream = new Blob([sse]).stream().pipeThrough(new TransformStream({ transform }));
+    const text = await new Response(stream).text();
+    return text.split('\n\n').filter(Boolean).map(line => line.replace(/^data: /, ''));
+}
+
+function sseEvent(data: any): string {
+    return `event: ${data.type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+describe('convertOpenAIToClaudeRequest', () => {
+    it('system 消息合并为 system，图片 data URL 转为 base64 source', () => {
+        const result = convertOpenAIToClaudeRequest({
+            model: 'gpt-4o',
+            messages: [
+                { role: 'system', content: 'You are helpful.' },
+                {
+                    role: 'user',
+                    content: [
+                        { type: 'text', text: '看图' },
+                        { type: 'image_url', image_url: { url: 'data:image/png;base64,abc' } },
+                        { type: 'image_url', image_url: { url: 'https://example.com/a.png' } },
+                    ],
+                },
+            ],
+        }, 'claude-sonnet-4-5');
+
+        expect(result.model).toBe('claude-sonnet-4-5');
+        expect(result.system).toBe('You are helpful.');
+        expect(result.max_tokens).toBe(4096);
+        expect(result.messages).toEqual([{
+            role: 'user',
+            content: [
+                { type: 'text', text: '看图' },
+                { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'abc' } },
+                { type: 'image', source: { type: 'url', url: 'https://example.com/a.png' } },
+            ],
+        }]);
+    });
+
+    it('tool_calls 转为 tool_use，连续的 tool 消息合并到同一个 user 消息', () => {
+        const result = convertOpenAIToClaudeRequest({
+            model: 'gpt-4o',
+            messages: [
+                { role: 'user', content: '查天气' },
+                {
+                    role: 'assistant',
+                    content: '',
+                    tool_calls: [
+                        { id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{"city":"北京"}' } },
+                        { id: 'call_2', type: 'function', function: { name: 'weather', arguments: '{"city":"上海"}' } },
+                    ],
+                },
+                { role: 'tool', tool_call_id: 'call_1', content: '晴' },
+                { role: 'tool', tool_call_id: 'call_2', content: '雨' },
+            ],
+        }, 'claude');
+
+        expect(result.messages[1]).toEqual({
+            role: 'assistant',
+            content: [
+                { type: 'tool_use', id: 'call_1', name: 'weather', input: { city: '北京' } },
+                { type: 'tool_use', id: 'call_2', name: 'weather', input: { city: '上海' } },
+            ],
+        });
+        expect(result.messages[2]).toEqual({
+            role: 'user',
+            content: [
+                { type: 'tool_result', tool_use_id: 'call_1', content: '晴' },
+                { type: 'tool_result', tool_use_id: 'call_2', content: '雨' },
+            ],
+        });
+    });
+
+    it('转换 tools、tool_choice、stop 和 reasoning_effort', () => {
+        const result = convertOpenAIToClaudeRequest({
+            model: 'gpt-4o',
+            messages: [{ role: 'user', content: 'hi' }],
+            max_completion_tokens: 16000,
+            temperature: 1.5,
+            stop: 'END',
+            tools: [{ type: 'function', function: { name: 'read', description: 'read file', parameters: { type: 'object' } } }],
+            tool_choice: 'required',
+            reasoning_effort: 'medium',
+        }, 'claude');
+
+        expect(result.max_tokens).toBe(16000);
+        expect(result.temperature).toBe(1);
+        expect(result.stop_sequences).toEqual(['END']);
+        expect(result.tools).toEqual([{ name: 'read', description: 'read file', input_schema: { type: 'object' } }]);
+        expect(result.tool_choice).toEqual({ type: 'any' });
+        expect(result.thinking).toEqual({ type: 'enabled', budget_tokens: 8192 });
+    });
+
+    it('parallel_tool_calls: false 转换为 disable_parallel_tool_use', () => {
+        const result = convertOpenAIToClaudeRequest({
+            model: 'gpt-4o',
+            messages: [{ role: 'user', content: 'hi' }],
+            tools: [{ type: 'function', function: { name: 'read', parameters: { type: 'object' } } }],
+            parallel_tool_calls: false,
+        }, 'claude');
+
+        expect(result.tool_choice).toEqual({ type: 'auto', disable_parallel_tool_use: true });
+    });
+
+    it('没有签名的 reasoning 不回传给上游', () => {
+        const result = convertOpenAIToClaudeRequest({
+            model: 'gpt-4o',
+            messages: [
+                { role: 'user', content: 'hi' },
+                {
+                    role: 'assistant',
+                    content: 'hello',
+                    reasoning_content: 'thinking...',
+                    thinking_blocks: [{ type: 'thinking', thinking: 'signed', signature: 'sig' }],
+                },
+            ],
+        }, 'claude');
+        expect(result.messages[1].content).toEqual([
+            { type: 'thinking', thinking: 'signed', signature: 'sig' },
+            { type: 'text', text: 'hello' },
+        ]);
+    });
+});
+
+describe('convertClaudeToOpenAIResponse', () => {
+    it('转换文本、thinking、tool_use 和 usage', () => {
+        const result = convertClaudeToOpenAIResponse({
+            id: 'msg_abc',
+            type: 'message',
+            role: 'assistant',
+            content: [
+                { type: 'thinking', thinking: '想一想', signature: 'sig' },
+                { type: 'text', text: '好的' },
+                { type: 'tool_use', id: 'toolu_1', name: 'read', input: { path: 'a.txt' } },
+            ],
+            stop_reason: 'tool_use',
+            usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 90, cache_creation_input_tokens: 0 },
+        }, 'gpt-4o');
+
+        expect(result.id).toBe('chatcmpl-abc');
+        expect(result.model).toBe('gpt-4o');
+        expect(result.choices[0]).toEqual({
+            index: 0,
+            message: {
+                role: 'assistant',
+                content: '好的',
+                reasoning_content: '想一想',
+                thinking_blocks: [{ type: 'thinking', thinking: '想一想', signature: 'sig' }],
+                tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'read', arguments: '{"path":"a.txt"}' } }],
+            },
+            finish_reason: 'tool_calls',
+        });
+        expect(result.usage).toEqual({
+            prompt_tokens: 100,
+            completion_tokens: 5,
+            total_tokens: 105,
+            prompt_tokens_details: { cached_tokens: 90, cache_creation_tokens: 0 },
+        });
+    });
+});
+
+describe('claudeStreamTransformer', () => {
+    it('将 Claude SSE 转为 OpenAI chunk 并以 [DONE] 结束', async () => {
+        const sse = [
+            sseEvent({ type: 'message_start', message: { id: 'msg_1', usage: { input_tokens: 12, output_tokens: 0 } } }),
+            sseEvent({ type: 'ping' }),
+            sseEvent({ type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } }),
+            sseEvent({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '你好' } }),
+            sseEvent({ type: 'content_block_stop', index: 0 }),
+            sseEvent({ type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'read', input: {} } }),
+            sseEvent({ type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"path":' } }),
+            sseEvent({ type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"a"}' } }),
+            sseEvent({ type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 7 } }),
+            sseEvent({ type: 'message_stop' }),
+        ].join('');
+
+        const chunks = await runStream(claudeStreamTransformer('gpt-4o', true), sse);
+        expect(chunks[chunks.length - 1]).toBe('[DONE]');
+        const parsed = chunks.slice(0, -1).map(c => JSON.parse(c));
+
+        expect(parsed[0].id).toBe('chatcmpl-1');
+        expect(parsed[0].choices[0].delta).toEqual({ role: 'assistant', content: '' });
+        expect(parsed[1].choices[0].delta).toEqual({ content: '你好' });
+        expect(parsed[2].choices[0].delta.tool_calls[0]).toMatchObject({ index: 0, id: 'toolu_1', function: { name: 'read' } });
+        expect(parsed[3].choices[0].delta.tool_calls[0].function.arguments).toBe('{"path":');
+        expect(parsed[5].choices[0].finish_reason).toBe('tool_calls');
+        expect(parsed[6].choices).toEqual([]);
+        expect(parsed[6].usage).toMatchObject({ prompt_tokens: 12, completion_tokens: 7, total_tokens: 19 });
+    });
+
+    it('progress 记录 usage、消息 id 和 stop_reason，供访问日志与用量账本使用', async () => {
+        const progress = { messageId: null, usage: null, generatedText: '', stopReason: null };
+        const sse = [
+            sseEvent({ type: 'message_start', message: { id: 'msg_1', usage: { input_tokens: 12, output_tokens: 1 } } }),
+            sseEvent({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '你好' } }),
+            sseEvent({ type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 7 } }),
+            sseEvent({ type: 'message_stop' }),
+        ].join('');
+        await runStream(claudeStreamTransformer('gpt-4o', false, progress), sse);
+        expect(progress).toEqual({ messageId: 'msg_1', usage: { input_tokens: 12, output_tokens: 7 }, generatedText: '你好', stopReason: 'end_turn', firstTokenAt: expect.any(Number) });
+    });
+
+    it('error 事件转换为 OpenAI 错误并结束', async () => {
+        const sse = sseEvent({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } });
+        const chunks = await runStream(claudeStreamTransformer('gpt-4o'), sse);
+        expect(JSON.parse(chunks[0]).error).toMatchObject({ type: 'overloaded_error', message: 'Overloaded' });
+        expect(chunks[1]).toBe('[DONE]');
+    });
+});
+
+describe('toOpenAIErrorBody', () => {
+    it('兼容 Anthropic JSON 错误体和非 JSON 错误体', () => {
+        expect(toOpenAIErrorBody('{"type":"error","error":{"type":"rate_limit_error","message":"slow down"}}').error)
+            .toMatchObject({ type: 'rate_limit_error', message: 'slow down' });
+        expect(toOpenAIErrorBody('<html>502</html>').error).toMatchObject({ type: 'api_error', message: '<html>502</html>' });
+    });
+});
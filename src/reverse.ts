@@ -0,0 +1,440 @@
+/**
+ * 反向代理模式：在 Anthropic 格式的上游之上提供 OpenAI /v1/chat/completions
+ *
+ * 与 index.ts 中 convertClaudeToOpenAIRequest / convertOpenAIToClaudeResponse / streamTransformer 互为镜像：
+ * - convertOpenAIToClaudeRequest：OpenAIRequest -> ClaudeMessagesRequest
+ * - convertClaudeToOpenAIResponse：Claude 非流式响应 -> OpenAI chat.completion
+ * - claudeStreamTransformer：Claude SSE -> OpenAI chat.completion.chunk
+ */
+
+import type {
+    ClaudeMessage,
+    ClaudeMessagesRequest,
+    ClaudeTextBlock,
+    ClaudeTool,
+    OpenAIContentBlock,
+    OpenAIMessage,
+    OpenAIRequest,
+    OpenAIToolCall,
+    StreamProgress,
+} from './index';
+
+// Claude 要求 max_tokens 必填，OpenAI 客户端未指定时使用该默认值
+const DEFAULT_MAX_TOKENS = 4096;
+
+// OpenAI reasoning_effort 对应的 thinking.budget_tokens
+const REASONING_EFFORT_BUDGETS: Record<string, number> = {
+    minimal: 1024,
+    low: 2048,
+    medium: 8192,
+    high: 24576,
+};
+
+const finishReasonMap: Record<string, string> = {
+    end_turn: 'stop',
+    stop_sequence: 'stop',
+    pause_turn: 'stop',
+    max_tokens: 'length',
+    tool_use: 'tool_calls',
+    refusal: 'content_filter',
+};
+
+/**
+ * 将 data URL 或普通 URL 转换为 Claude 的 source 字段。
+ */
+function toClaudeSource(url: string): ClaudeTextBlock['source'] {
+    const match = url.match(/^data:([^;,]+);base64,(.*)$/s);
+    if (match) {
+        return { type: 'base64', media_type: match[1], data: match[2] };
+    }
+    return { type: 'url', url };
+}
+
+function convertUserContent(content: OpenAIMessage['content']): ClaudeTextBlock[] {
+    if (typeof content === 'string') {
+        return [{ type: 'text', text: content }];
+    }
+    const blocks: ClaudeTextBlock[] = [];
+    for (const part of content || []) {
+        if (part.type === 'text') {
+            blocks.push({ type: 'text', text: part.text || '' });
+        } else if (part.type === 'image_url' && part.image_url) {
+            blocks.push({ type: 'image', source: toClaudeSource(part.image_url.url) });
+        } else if (part.type === 'file' && part.file) {
+            const url = part.file.file_data || part.file.file_id || '';
+            blocks.push({ type: 'document', source: toClaudeSource(url) });
+        }
+        if (part.cache_control !== undefined && blocks.length > 0) {
+            blocks[blocks.length - 1].cache_control = part.cache_control;
+        }
+    }
+    return blocks;
+}
+
+function textOf(content: OpenAIMessage['content']): string {
+    if (typeof content === 'string') return content;
+    return (content || [])
+        .filter((part: OpenAIContentBlock) => part.type === 'text')
+        .map((part: OpenAIContentBlock) => part.text || '')
+        .join('\n');
+}
+
+function parseToolArguments(args: string): any {
+    if (!args) return {};
+    try {
+        return JSON.parse(args);
+    } catch {
+        return { input_str: args };
+    }
+}
+
+/**
+ * 追加一条 Claude 消息；与上一条角色相同时合并内容（例如多条 tool 结果合并到同一个 user 消息）。
+ */
+function pushClaudeMessage(messages: ClaudeMessage[], role: ClaudeMessage['role'], blocks: ClaudeTextBlock[]) {
+    if (blocks.length === 0) return;
+    const last = messages[messages.length - 1];
+    if (last && last.role === role && Array.isArray(last.content)) {
+        last.content.push(...blocks);
+    } else {
+        messages.push({ role, content: blocks });
+    }
+}
+
+/**
+ * Converts an OpenAI chat completion request to the Claude format.
+ */
+export function convertOpenAIToClaudeRequest(openaiRequest: OpenAIRequest, modelName: string): ClaudeMessagesRequest {
+    const systemParts: string[] = [];
+    const messages: ClaudeMessage[] = [];
+
+    for (const message of openaiRequest.messages || []) {
+        const role = message.role as string;
+        if (role === 'system' || role === 'developer') {
+            systemParts.push(textOf(message.content));
+        } else if (role === 'user') {
+            pushClaudeMessage(messages, 'user', convertUserContent(message.content));
+        } else if (role === 'tool') {
+            const toolResult: ClaudeTextBlock = {
+                type: 'tool_result',
+                tool_use_id: message.tool_call_id,
+                content: typeof message.content === 'string' ? message.content : convertUserContent(message.content),
+            };
+            if (message.cache_control !== undefined) {
+                toolResult.cache_control = message.cache_control;
+            }
+            pushClaudeMessage(messages, 'user', [toolResult]);
+        } else if (role === 'assistant') {
+            const blocks: ClaudeTextBlock[] = [];
+            // 只有带签名的 thinking 才能回传给 Anthropic 上游，裸 reasoning_content 直接丢弃
+            (message.thinking_blocks || []).forEach(tb => {
+                if (tb.signature) {
+                    blocks.push({ type: 'thinking', thinking: tb.thinking, signature: tb.signature });
+                }
+            });
+            if (Array.isArray(message.content)) {
+                message.content.forEach(part => {
+                    if (part.type === 'thinking' && part.signature) {
+                        blocks.push({ type: 'thinking', thinking: part.thinking || '', signature: part.signature });
+                    } else if (part.type === 'text' && part.text) {
+                        const block: ClaudeTextBlock = { type: 'text', text: part.text };
+                        if (part.cache_control !== undefined) block.cache_control = part.cache_control;
+                        blocks.push(block);
+                    }
+                });
+            } else if (message.content) {
+                blocks.push({ type: 'text', text: message.content });
+            }
+            (message.tool_calls || []).forEach((call: OpenAIToolCall) => {
+                const block: ClaudeTextBlock = {
+                    type: 'tool_use',
+                    id: call.id,
+                    name: call.function.name,
+                    input: parseToolArguments(call.function.arguments),
+                };
+                if (call.cache_control !== undefined) block.cache_control = call.cache_control;
+                blocks.push(block);
+            });
+            pushClaudeMessage(messages, 'assistant', blocks);
+        }
+    }
+
+    const claudeRequest: ClaudeMessagesRequest = {
+        model: modelName,
+        messages,
+        max_tokens: openaiRequest.max_completion_tokens || openaiRequest.max_tokens || DEFAULT_MAX_TOKENS,
+        stream: openaiRequest.stream,
+    };
+    if (systemParts.length > 0) {
+        claudeRequest.system = systemParts.join('\n\n');
+    }
+    // OpenAI temperature 范围是 0-2，Claude 是 0-1
+    if (typeof openaiRequest.temperature === 'number') {
+        claudeRequest.temperature = Math.min(1, openaiRequest.temperature);
+    }
+    if (typeof openaiRequest.top_p === 'number') {
+        claudeRequest.top_p = openaiRequest.top_p;
+    }
+    if (openaiRequest.stop) {
+        claudeRequest.stop_sequences = Array.isArray(openaiRequest.stop) ? openaiRequest.stop : [openaiRequest.stop];
+    }
+
+    if (openaiRequest.tools && openaiRequest.tools.length > 0) {
+        claudeRequest.tools = openaiRequest.tools.map((tool): ClaudeTool => ({
+            name: tool.function.name,
+            description: tool.function.description,
+            input_schema: tool.function.parameters || { type: 'object', properties: {} },
+        }));
+    }
+    if (openaiRequest.tool_choice) {
+        const choice = openaiRequest.tool_choice;
+        if (choice === 'auto' || choice === 'none') {
+            claudeRequest.tool_choice = { type: choice };
+        } else if (choice === 'required') {
+            claudeRequest.tool_choice = { type: 'any' };
+        } else if (typeof choice === 'object' && choice.function?.name) {
+            claudeRequest.tool_choice = { type: 'tool', name: choice.function.name };
+        }
+    }
+    // parallel_tool_calls: false 对应 Anthropic 的 disable_parallel_tool_use，未指定 tool_choice 时按 auto
+    if (openaiRequest.parallel_tool_calls === false && claudeRequest.tools && claudeRequest.tool_choice?.type !== 'none') {
+        claudeRequest.tool_choice = { ...(claudeRequest.tool_choice || { type: 'auto' }), disable_parallel_tool_use: true };
+    }
+
+    // thinking 优先透传；否则按 reasoning_effort 换算 budget_tokens（必须小于 max_tokens）
+    if (openaiRequest.thinking) {
+        claudeRequest.thinking = openaiRequest.thinking;
+    } else if (openaiRequest.reasoning_effort && REASONING_EFFORT_BUDGETS[openaiRequest.reasoning_effort]) {
+        const budget = Math.min(REASONING_EFFORT_BUDGETS[openaiRequest.reasoning_effort], claudeRequest.max_tokens - 1);
+        if (budget >= 1024) {
+            claudeRequest.thinking = { type: 'enabled', budget_tokens: budget };
+        }
+    }
+
+    if (openaiRequest.response_format?.type === 'json_schema' && openaiRequest.response_format.json_schema?.schema) {
+        claudeRequest.output_config = {
+            format: { type: 'json_schema', schema: openaiRequest.response_format.json_schema.schema },
+        };
+    }
+    if (openaiRequest.output_config?.effort) {
+        claudeRequest.output_config = { ...(claudeRequest.output_config || {}), effort: openaiRequest.output_config.effort };
+    }
+
+    return claudeRequest;
+}
+
+function mapClaudeIdToOpenAI(claudeId: string): string {
+    if (!claudeId || typeof claudeId !== 'string') return `chatcmpl-${Math.random().toString(36).substr(2, 9)}`;
+    return `chatcmpl-${claudeId.replace(/^msg_/, '')}`;
+}
+
+/**
+ * Anthropic usage -> OpenAI usage，prompt_tokens 为包含缓存在内的总输入。
+ */
+function convertUsage(usage: any) {
+    const inputTokens = usage?.input_tokens || 0;
+    const cacheReadTokens = usage?.cache_read_input_tokens || 0;
+    const cacheCreationTokens = usage?.cache_creation_input_tokens || 0;
+    const outputTokens = usage?.output_tokens || 0;
+    const promptTokens = inputTokens + cacheReadTokens + cacheCreationTokens;
+    return {
+        prompt_tokens: promptTokens,
+        completion_tokens: outputTokens,
+        total_tokens: promptTokens + outputTokens,
+        prompt_tokens_details: {
+            cached_tokens: cacheReadTokens,
+            cache_creation_tokens: cacheCreationTokens,
+        },
+    };
+}
+
+/**
+ * Converts a non-streaming Claude response to the OpenAI format.
+ */
+export function convertClaudeToOpenAIResponse(claudeResponse: any, model: string): any {
+    const textParts: string[] = [];
+    const thinkingBlocks: Array<{ type: 'thinking'; thinking: string; signature?: string }> = [];
+    const toolCalls: OpenAIToolCall[] = [];
+
+    for (const block of claudeResponse.content || []) {
+        if (block.type === 'text') {
+            textParts.push(block.text || '');
+        } else if (block.type === 'thinking') {
+            const thinkingBlock: { type: 'thinking'; thinking: string; signature?: string } = { type: 'thinking', thinking: block.thinking || '' };
+            if (block.signature) thinkingBlock.signature = block.signature;
+            thinkingBlocks.push(thinkingBlock);
+        } else if (block.type === 'tool_use') {
+            toolCalls.push({
+                id: block.id,
+                type: 'function',
+                function: { name: block.name, arguments: JSON.stringify(block.input || {}) },
+            });
+        }
+    }
+
+    const message: any = {
+        role: 'assistant',
+        content: textParts.length > 0 ? textParts.join('') : null,
+    };
+    if (thinkingBlocks.length > 0) {
+        message.reasoning_content = thinkingBlocks.map(tb => tb.thinking).join('');
+        message.thinking_blocks = thinkingBlocks;
+    }
+    if (toolCalls.length > 0) {
+        message.tool_calls = toolCalls;
+    }
+
+    return {
+        id: mapClaudeIdToOpenAI(claudeResponse.id),
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model,
+        choices: [{
+            index: 0,
+            message,
+            finish_reason: finishReasonMap[claudeResponse.stop_reason] || 'stop',
+        }],
+        usage: convertUsage(claudeResponse.usage),
+    };
+}
+
+/**
+ * Creates a transform function that converts a Claude SSE stream to OpenAI chat.completion.chunk format.
+ * progress 记录上游的消息 id、usage 与 stop_reason（Claude 格式），供访问日志、限流和用量账本使用。
+ */
+export function claudeStreamTransformer(
+    model: string,
+    includeUsage = false,
+    progress: StreamProgress = { messageId: null, usage: null, generatedText: '', stopReason: null }
+) {
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let id = mapClaudeIdToOpenAI('');
+    const created = Math.floor(Date.now() / 1000);
+    let usage: any = {};
+    let finishReason: string | null = null;
+    let finished = false;
+    // Claude content block index -> OpenAI tool_calls index
+    const toolIndexes: { [claudeIndex: number]: number } = {};
+    let nextToolIndex = 0;
+
+    const sendChunk = (controller: TransformStreamDefaultController, delta: object, reason: string | null = null) => {
+        const chunk = {
+            id,
+            object: 'chat.completion.chunk',
+            created,
+            model,
+            choices: [{ index: 0, delta, finish_reason: reason }],
+        };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+    };
+    const finish = (controller: TransformStreamDefaultController) => {
+        if (finished) return;
+        finished = true;
+        if (includeUsage) {
+            const usageChunk = { id, object: 'chat.completion.chunk', created, model, choices: [], usage: convertUsage(usage) };
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(usageChunk)}\n\n`));
+        }
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.terminate();
+    };
+
+    return (chunk: Uint8Array, controller: TransformStreamDefaultController) => {
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+            if (!line.startsWith('data:') || finished) continue;
+            let event: any;
+            try {
+                event = JSON.parse(line.substring(5).trim());
+            } catch {
+                continue;
+            }
+
+            switch (event.type) {
+                case 'message_start':
+                    id = mapClaudeIdToOpenAI(event.message?.id);
+                    progress.messageId = event.message?.id ?? null;
+                    usage = { ...(event.message?.usage || {}) };
+                    sendChunk(controller, { role: 'assistant', content: '' });
+                    break;
+                case 'content_block_start':
+                    if (event.content_block?.type === 'tool_use') {
+                        const toolIndex = nextToolIndex++;
+                        toolIndexes[event.index] = toolIndex;
+                        sendChunk(controller, {
+                            tool_calls: [{
+                                index: toolIndex,
+                                id: event.content_block.id,
+                                type: 'function',
+                                function: { name: event.content_block.name, arguments: '' },
+                            }],
+                        });
+                    }
+                    break;
+                case 'content_block_delta': {
+                    const delta = event.delta || {};
+                    progress.firstTokenAt ??= Date.now();
+                    if (delta.type === 'text_delta') {
+                        progress.generatedText += delta.text || '';
+                        sendChunk(controller, { content: delta.text });
+                    } else if (delta.type === 'thinking_delta') {
+                        progress.generatedText += delta.thinking || '';
+                        sendChunk(controller, { reasoning_content: delta.thinking });
+                    } else if (delta.type === 'signature_delta') {
+                        sendChunk(controller, { thinking_blocks: [{ type: 'thinking', thinking: '', signature: delta.signature }] });
+                    } else if (delta.type === 'input_json_delta' && toolIndexes[event.index] !== undefined) {
+                        progress.generatedText += delta.partial_json || '';
+                        sendChunk(controller, {
+                            tool_calls: [{ index: toolIndexes[event.index], function: { arguments: delta.partial_json } }],
+                        });
+                    }
+                    break;
+                }
+                case 'message_delta':
+                    if (event.usage) {
+                        usage = { ...usage, ...event.usage };
+                        // message_delta 中的 usage 为最终值，之前断开时由调用方按已生成内容估算
+                        progress.usage = { ...usage };
+                    }
+                    if (event.delta?.stop_reason) {
+                        progress.stopReason = event.delta.stop_reason;
+                        finishReason = finishReasonMap[event.delta.stop_reason] || 'stop';
+                        sendChunk(controller, {}, finishReason);
+                    }
+                    break;
+                case 'message_stop':
+                    finish(controller);
+                    break;
+                case 'error':
+                    controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: toOpenAIError(event.error?.message || 'Upstream stream error', event.error?.type) })}\n\n`));
+                    finish(controller);
+                    break;
+                default:
+                    // ping / content_block_stop 无需转换
+                    break;
+            }
+        }
+    };
+}
+
+function toOpenAIError(message: string, type = 'api_error', code: string | null = null) {
+    return { message, type, param: null, code };
+}
+
+/**
+ * 将上游 Anthropic 错误响应（可能不是 JSON）转换为 OpenAI 风格的错误体。
+ */
+export function toOpenAIErrorBody(errorBody: string): { error: ReturnType<typeof toOpenAIError> } {
+    try {
+        const parsed = JSON.parse(errorBody);
+        if (parsed?.error?.message) {
+            return { error: toOpenAIError(parsed.error.message, parsed.error.type) };
+        }
+    } catch {
+        // 非 JSON 错误体，按原文返回
+    }
+    return { error: toOpenAIError(errorBody || 'Upstream request failed') };
+}
@@ -0,0 +1,171 @@
+/**
+ * 单元测试：模型路由表
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { applyRouteDefaults, listUpstreams, loadModelRoutes, matchesModel, matchModelRoute, resolveTarget, ModelRoute } from './routing';
+
+const routes: ModelRoute[] = [
+    { match: 'claude-3-5-haiku*', baseUrl: 'https://haiku.example.com/v1/', model: 'deepseek-v3', apiKey: 'env:TEST_HAIKU_KEY' },
+    { match: 'claude-sonnet-*', model: 'qwen3-coder', defaults: { temperature: 0.7, max_tokens: 8192 } },
+    { match: 'claude-sonnet-4-5', model: 'glm-4.6', apiKey: 'sk-fixed' },
+];
+
+describe('loadModelRoutes', () => {
+    it('未配置时返回空路由表', () => {
+        expect(loadModelRoutes({})).toEqual([]);
+    });
+
+    it('支持数组和 { routes } 两种写法', () => {
+        expect(loadModelRoutes({ MODEL_ROUTES: '[{"match":"a"}]' })).toEqual([{ match: 'a' }]);
+        expect(loadModelRoutes({ MODEL_ROUTES: '{"routes":[{"match":"b"}]}' })).toEqual([{ match: 'b' }]);
+    });
+
+    it('配置非法时抛出错误', () => {
+        expect(() => loadModelRoutes({ MODEL_ROUTES: 'not json' })).toThrow(/Invalid model routes/);
+        expect(() => loadModelRoutes({ MODEL_ROUTES: '[{"model":"x"}]' })).toThrow(/match must be a non-empty string/);
+        expect(() => loadModelRoutes({ MODEL_ROUTES: '[{"match":"x","upstreams":[]}]' })).toThrow(/upstreams must be a non-empty array/);
+        expect(() => loadModelRoutes({ MODEL_ROUTES: '[{"match":"x","upstreams":[{"dialect":"nope"}]}]' })).toThrow(/routes\[0\]\.upstreams\[0\]\.dialect: Unknown dialect/);
+        expect(() => loadModelRoutes({ MODEL_ROUTES: '[{"match":"x","api":"completions"}]' })).toThrow(/routes\[0\]\.api must be one of chat_completions, responses/);
+        expect(() => loadModelRoutes({ MODEL_ROUTES: '[{"match":"x","structuredOutput":"json"}]' })).toThrow(/routes\[0\]\.structuredOutput must be one of native, json_object, prompt/);
+        expect(() => loadModelRoutes({ MODEL_ROUTES: '[{"match":"x","upstreams":[{"toolCalling":"text"}]}]' })).toThrow(/routes\[0\]\.upstreams\[0\]\.toolCalling must be one of native, prompt/);
+        expect(() => loadModelRoutes({ MODEL_ROUTES: '[{"match":"x","images":{"mode":"drop"}}]' })).toThrow(/routes\[0\]\.images\.mode must be one of pass, inline, strip/);
+    });
+});
+
+describe('matchModelRoute', () => {
+    it('精确匹配优先于通配模式', () => {
+        expect(matchModelRoute(routes, 'claude-sonnet-4-5')?.model).toBe('glm-4.6');
+        expect(matchModelRoute(routes, 'claude-sonnet-4-0')?.model).toBe('qwen3-coder');
+    });
+
+    it('通配符匹配前缀，未命中返回 undefined', () => {
+        expect(matchModelRoute(routes, 'claude-3-5-haiku-20241022')?.model).toBe('deepseek-v3');
+        expect(matchModelRoute(routes, 'claude-3-5-haiku')?.model).toBe('deepseek-v3');
+        expect(matchModelRoute(routes, 'claude-opus-4')).toBeUndefined();
+    });
+});
+
+describe('matchesModel', () => {
+    it('精确匹配或通配匹配（忽略大小写）', () => {
+        expect(matchesModel('gpt-4o', 'gpt-4o')).toBe(true);
+        expect(matchesModel('gpt-4o', 'gpt-4o-mini')).toBe(false);
+        expect(matchesModel('claude-*', 'Claude-Sonnet-4')).toBe(true);
+    });
+});
+
+describe('resolveTarget', () => {
+    afterEach(() => {
+        delete process.env.TEST_HAIKU_KEY;
+    });
+
+    it('未命中路由时透传模型名和客户端 key，上游名称固定为 default', () => {
+        expect(resolveTarget(routes, 'deepseek-v3', 'sk-client', 'http://localhost:8094/v1')).toEqual({
+            upstreams: [{
+                name: 'default',
+                modelName: 'deepseek-v3',
+                baseUrl: 'http://localhost:8094/v1',
+                apiKey: 'sk-client',
+            }],
+            defaults: {},
+        });
+    });
+
+    it('从环境变量读取 key，并去掉 baseUrl 末尾的斜杠', () => {
+        process.env.TEST_HAIKU_KEY = 'sk-env';
+        const target = resolveTarget(routes, 'claude-3-5-haiku-latest', 'sk-client', 'http://fallback/v1');
+        expect(target.route).toBe('claude-3-5-haiku*');
+        expect(target.upstreams).toEqual([{
+            name: 'haiku.example.com/deepseek-v3',
+            modelName: 'deepseek-v3',
+            baseUrl: 'https://haiku.example.com/v1',
+            apiKey: 'sk-env',
+        }]);
+    });
+
+    it('通配路由未指定模型时，上游名称使用 match 而不是客户端的模型名', () => {
+        const target = resolveTarget([{ match: 'gpt-*', baseUrl: 'https://openai.example.com/v1' }], 'gpt-4o-2024-08-06', 'sk-client', 'http://fallback/v1');
+        expect(target.upstreams[0]).toMatchObject({ name: 'openai.example.com/gpt-*', modelName: 'gpt-4o-2024-08-06' });
+    });
+
+    it('环境变量缺失时抛出错误', () => {
+        expect(() => resolveTarget(routes, 'claude-3-5-haiku', 'sk-client', 'http://fallback/v1')).toThrow(/TEST_HAIKU_KEY/);
+    });
+
+    it('固定 key 与默认 baseUrl', () => {
+        const target = resolveTarget(routes, 'claude-sonnet-4-5', 'sk-client', 'http://fallback/v1');
+        expect(target.upstreams[0].apiKey).toBe('sk-fixed');
+        expect(target.upstreams[0].baseUrl).toBe('http://fallback/v1');
+    });
+
+    it('upstreams 按顺序展开，缺省字段从路由继承', () => {
+        const target = resolveTarget([{
+            match: 'claude-opus-*',
+            model: 'deepseek-r1',
+            apiKey: 'sk-route',
+            upstreams: [
+                { name: 'primary', baseUrl: 'https://a.example.com/v1' },
+                { name: 'backup', baseUrl: 'https://b.example.com/v1', model: 'deepseek-v3', apiKey: 'client' },
+            ],
+        }], 'claude-opus-4', 'sk-client', 'http://fallback/v1');
+        expect(target.upstreams).toEqual([
+            { name: 'primary', modelName: 'deepseek-r1', baseUrl: 'https://a.example.com/v1', apiKey: 'sk-route' },
+            { name: 'backup', modelName: 'deepseek-v3', baseUrl: 'https://b.example.com/v1', apiKey: 'sk-client' },
+        ]);
+    });
+
+    it('上游的 dialect 覆盖路由的 dialect', () => {
+        const target = resolveTarget([{
+            match: 'claude-opus-*',
+            dialect: 'vllm',
+            upstreams: [{ name: 'primary' }, { name: 'backup', dialect: 'openai' }],
+        }], 'claude-opus-4', 'sk-client', 'http://fallback/v1');
+        expect(target.upstreams.map(u => u.dialect?.name)).toEqual(['vllm', 'openai']);
+        expect(resolveTarget([], 'm', 'sk-client', 'http://fallback/v1').upstreams[0].dialect).toBeUndefined();
+    });
+
+    it('上游的 api 覆盖路由的 api，未配置时不设置', () => {
+        const target = resolveTarget([{
+            match: 'claude-opus-*',
+            api: 'responses',
+            upstreams: [{ name: 'primary' }, { name: 'backup', api: 'chat_completions' }],
+        }], 'claude-opus-4', 'sk-client', 'http://fallback/v1');
+        expect(target.upstreams.map(u => u.api)).toEqual(['responses', 'chat_completions']);
+        expect(resolveTarget([], 'm', 'sk-client', 'http://fallback/v1').upstreams[0].api).toBeUndefined();
+    });
+
+    it('structuredOutput 同样可以按上游覆盖', () => {
+        const target = resolveTarget([{
+            match: 'claude-*',
+            structuredOutput: 'prompt',
+            upstreams: [{ name: 'primary', structuredOutput: 'native' }, { name: 'backup' }],
+        }], 'claude-haiku', 'sk-client', 'http://fallback/v1');
+        expect(target.upstreams.map(u => u.structuredOutput)).toEqual(['native', 'prompt']);
+        expect(resolveTarget([{ match: 'local-*', toolCalling: 'prompt' }], 'local-qwen', 'sk', 'http://fallback/v1').upstreams[0].toolCalling).toBe('prompt');
+        expect(resolveTarget([{ match: 'local-*', images: { mode: 'strip' } }], 'local-qwen', 'sk', 'http://fallback/v1').upstreams[0].images).toEqual({ mode: 'strip', maxPixels: 0, maxBytes: 0, formats: [] });
+    });
+});
+
+describe('listUpstreams', () => {
+    it('列出 fallback 与各路由的上游，按 base URL 和 key 去重，跳过缺少环境变量的路由', () => {
+        const upstreams = listUpstreams([
+            { match: 'claude-opus-4', baseUrl: 'https://a.example.com/v1/', model: 'm1' },
+            { match: 'claude-sonnet-*', upstreams: [{ baseUrl: 'https://a.example.com/v1', model: 'm2' }, { baseUrl: 'https://b.example.com/v1', apiKey: 'sk-b', api: 'gemini' }] },
+            { match: 'local-*', apiKey: 'env:TEST_MISSING_KEY' },
+        ], 'sk-client', 'http://fallback/v1');
+        expect(upstreams.map(u => [u.baseUrl, u.apiKey, u.api])).toEqual([
+            ['http://fallback/v1', 'sk-client', undefined],
+            ['https://a.example.com/v1', 'sk-client', undefined],
+            ['https://b.example.com/v1', 'sk-b', 'gemini'],
+        ]);
+    });
+});
+
+describe('applyRouteDefaults', () => {
+    it('只补齐客户端未提供的字段', () => {
+        const request = { model: 'claude-sonnet-4-0', max_tokens: 1024, messages: [] };
+        const merged = applyRouteDefaults(request, { temperature: 0.7, max_tokens: 8192 });
+        expect(merged.temperature).toBe(0.7);
+        expect(merged.max_tokens).toBe(1024);
+        expect(merged.model).toBe('claude-sonnet-4-0');
+    });
+});
@@ -0,0 +1,335 @@
+/**
+ * 模型路由表
+ *
+ * 将客户端请求的 Claude 模型名（精确名称或带 * 的通配模式，如 `claude-3-5-haiku*`）
+ * 映射到上游 base URL、上游模型名、API key 来源以及该模型的默认参数。
+ * 每个路由可以配置按顺序尝试的多个上游（upstreams），用于故障转移。
+ * 未配置路由或未命中时保持原有行为：模型名原样透传到 OPENAI_BASE_URL，使用客户端的 key。
+ */
+
+import { readFileSync } from 'fs';
+import type { ClaudeMessagesRequest } from './index';
+import { DialectConfig, DialectProfile, resolveDialect } from './dialects';
+import { ImagePolicy, ImagePolicyConfig, resolveImagePolicy } from './images';
+
+/**
+ * 路由命中后，客户端未显式指定时使用的默认参数。
+ */
+export type ModelRouteDefaults = Partial<Pick<ClaudeMessagesRequest,
+    'max_tokens' | 'temperature' | 'top_p' | 'top_k' | 'stop_sequences' | 'thinking'>>;
+
+export type UpstreamApi = 'chat_completions' | 'responses' | 'gemini';
+
+const UPSTREAM_APIS: readonly UpstreamApi[] = ['chat_completions', 'responses', 'gemini'];
+
+export type StructuredOutputMode = 'native' | 'json_object' | 'prompt';
+
+const STRUCTURED_OUTPUT_MODES: readonly StructuredOutputMode[] = ['native', 'json_object', 'prompt'];
+
+export type ToolCallingMode = 'native' | 'prompt';
+
+const TOOL_CALLING_MODES: readonly ToolCallingMode[] = ['native', 'prompt'];
+
+export interface ModelUpstream {
+    /**
+     * 上游名称，用于日志、响应头和指标，缺省为 `host/model`（路由未指定模型时为 `host/match`）。
+     */
+    name?: string;
+    /**
+     * 上游 OpenAI 兼容接口的 base URL，缺省为 OPENAI_BASE_URL。
+     */
+    baseUrl?: string;
+    /**
+     * 上游模型名，缺省为客户端请求的模型名。
+     */
+    model?: string;
+    /**
+     * API key 来源："client"（默认，透传客户端 key）、"env:VAR_NAME"（读取环境变量）或直接填写 key。
+     */
+    apiKey?: string;
+    /**
+     * 上游方言：内置方言名或 `{ "extends": 方言名, ...覆盖字段 }`，缺省使用 UPSTREAM_DIALECT。
+     */
+    dialect?: DialectConfig;
+    /**
+     * 上游接口："chat_completions"（默认，/chat/completions）、"responses"（/responses，见 responses.ts）
+     * 或 "gemini"（Gemini 原生 generateContent，见 gemini.ts）。
+     */
+    api?: UpstreamApi;
+    /**
+     * output_config.format 的处理："native"（默认，按上游接口的 json_schema 参数发送）、
+     * "json_object"（schema 写入 system，以 JSON 模式请求）或 "prompt"（只写入 system），后两者由代理校验输出，见 structuredOutput.ts。
+     */
+    structuredOutput?: StructuredOutputMode;
+    /**
+     * 工具调用方式："native"（默认，发送 tools）或 "prompt"（工具定义写入 system，从正文中解析调用，见 toolPrompt.ts），
+     * 只对 chat_completions 上游生效。
+     */
+    toolCalling?: ToolCallingMode;
+    /**
+     * 图片策略（mode / maxPixels / maxBytes / formats），缺省使用 IMAGE_POLICY，见 images.ts。
+     */
+    images?: ImagePolicyConfig;
+}
+
+export interface ModelRoute extends ModelUpstream {
+    /**
+     * 精确模型名或通配模式，`*` 匹配任意字符。
+     */
+    match: string;
+    /**
+     * 按顺序尝试的上游列表；未配置时路由本身的 baseUrl/model/apiKey 即唯一上游。
+     * 列表中缺省的字段从路由本身继承。
+     */
+    upstreams?: ModelUpstream[];
+    defaults?: ModelRouteDefaults;
+}
+
+/**
+ * 未命中路由时上游的名称。客户端传入的模型名不受限制，不能出现在名称中（名称会作为指标的 label）。
+ */
+export const DEFAULT_UPSTREAM_NAME = 'default';
+
+export interface UpstreamTarget {
+    name: string;
+    modelName: string;
+    baseUrl: string;
+    apiKey: string;
+    /**
+     * 路由表中配置的方言，未配置时由调用方使用默认方言。
+     */
+    dialect?: DialectProfile;
+    /**
+     * 路由表中配置的上游接口，未配置时为 chat_completions。
+     */
+    api?: UpstreamApi;
+    /**
+     * 路由表中配置的结构化输出方式，未配置时为 native。
+     */
+    structuredOutput?: StructuredOutputMode;
+    /**
+     * 路由表中配置的工具调用方式，未配置时为 native。
+     */
+    toolCalling?: ToolCallingMode;
+    /**
+     * 路由表中配置的图片策略，未配置时由调用方使用默认策略。
+     */
+    images?: ImagePolicy;
+}
+
+export interface ResolvedTarget {
+    /**
+     * 按优先级排列的上游，至少一个。
+     */
+    upstreams: UpstreamTarget[];
+    defaults: ModelRouteDefaults;
+    /**
+     * 命中的路由 match，未命中为 undefined。
+     */
+    route?: string;
+}
+
+/**
+ * 从 `${name}_FILE` 指向的 JSON 文件或 `${name}` 环境变量（JSON 字符串）加载路由表，name 默认为 MODEL_ROUTES。
+ * 支持 `[...]` 和 `{ "routes": [...] }` 两种写法；配置错误直接抛出，避免带着错误路由启动。
+ */
+export function loadModelRoutes(source: NodeJS.ProcessEnv = process.env, name = 'MODEL_ROUTES'): ModelRoute[] {
+    let raw: string | undefined;
+    let origin: string;
+    const file = source[`${name}_FILE`];
+    if (file) {
+        origin = file;
+        raw = readFileSync(file, 'utf8');
+    } else {
+        origin = name;
+        raw = source[name];
+    }
+    if (!raw || !raw.trim()) {
+        return [];
+    }
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(raw);
+    } catch (err: any) {
+        throw new Error(`Invalid model routes in ${origin}: ${err.message}`);
+    }
+    const routes = Array.isArray(parsed) ? parsed : parsed?.routes;
+    if (!Array.isArray(routes)) {
+        throw new Error(`Invalid model routes in ${origin}: expected an array or { "routes": [...] }`);
+    }
+    routes.forEach((route: any, i: number) => {
+        if (!route || typeof route.match !== 'string' || !route.match) {
+            throw new Error(`Invalid model routes in ${origin}: routes[${i}].match must be a non-empty string`);
+        }
+        if (route.upstreams !== undefined && (!Array.isArray(route.upstreams) || route.upstreams.length === 0)) {
+            throw new Error(`Invalid model routes in ${origin}: routes[${i}].upstreams must be a non-empty array`);
+        }
+        for (const [j, upstream] of [route, ...(route.upstreams || [])].entries()) {
+            const path = j === 0 ? `routes[${i}]` : `routes[${i}].upstreams[${j - 1}]`;
+            if (upstream?.api !== undefined && !UPSTREAM_APIS.includes(upstream.api)) {
+                throw new Error(`Invalid model routes in ${origin}: ${path}.api must be one of ${UPSTREAM_APIS.join(', ')}`);
+            }
+            if (upstream?.structuredOutput !== undefined && !STRUCTURED_OUTPUT_MODES.includes(upstream.structuredOutput)) {
+                throw new Error(`Invalid model routes in ${origin}: ${path}.structuredOutput must be one of ${STRUCTURED_OUTPUT_MODES.join(', ')}`);
+            }
+            if (upstream?.toolCalling !== undefined && !TOOL_CALLING_MODES.includes(upstream.toolCalling)) {
+                throw new Error(`Invalid model routes in ${origin}: ${path}.toolCalling must be one of ${TOOL_CALLING_MODES.join(', ')}`);
+            }
+            try {
+                resolveImagePolicy(upstream?.images);
+            } catch (err: any) {
+                throw new Error(`Invalid model routes in ${origin}: ${path}.${err.message}`);
+            }
+            if (upstream?.dialect === undefined) continue;
+            try {
+                resolveDialect(upstream.dialect);
+            } catch (err: any) {
+                throw new Error(`Invalid model routes in ${origin}: ${path}.dialect: ${err.message}`);
+            }
+        }
+    });
+    return routes;
+}
+
+function wildcardToRegExp(pattern: string): RegExp {
+    const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`^${escaped.join('.*')}$`, 'i');
+}
+
+/**
+ * 模型名是否匹配精确模型名或通配模式（`*` 匹配任意字符）。
+ */
+export function matchesModel(pattern: string, model: string): boolean {
+    return pattern.includes('*') ? wildcardToRegExp(pattern).test(model) : pattern === model;
+}
+
+/**
+ * 查找模型对应的路由：精确匹配优先，其次按声明顺序匹配通配模式。
+ */
+export function matchModelRoute(routes: ModelRoute[], model: string): ModelRoute | undefined {
+    const exact = routes.find(route => !route.match.includes('*') && route.match === model);
+    if (exact) return exact;
+    return routes.find(route => route.match.includes('*') && wildcardToRegExp(route.match).test(model));
+}
+
+function resolveApiKey(route: ModelRoute, spec: string | undefined, clientApiKey: string): string {
+    if (!spec || spec === 'client') {
+        return clientApiKey;
+    }
+    if (spec.startsWith('env:')) {
+        const name = spec.substring(4);
+        const value = process.env[name];
+        if (!value) {
+            throw new Error(`Environment variable ${name} required by model route "${route.match}" is not set`);
+        }
+        return value;
+    }
+    return spec;
+}
+
+function defaultUpstreamName(baseUrl: string, modelName: string): string {
+    try {
+        return `${new URL(baseUrl).host}/${modelName}`;
+    } catch {
+        return `${baseUrl}/${modelName}`;
+    }
+}
+
+type UpstreamOptions = Pick<ModelUpstream, 'dialect' | 'api' | 'structuredOutput' | 'toolCalling' | 'images'>;
+
+function toUpstreamTarget(name: string, baseUrl: string, modelName: string, apiKey: string, options: UpstreamOptions = {}): UpstreamTarget {
+    const normalizedBaseUrl = baseUrl.replace(/\/+$/, '');
+    const target: UpstreamTarget = {
+        name,
+        modelName,
+        baseUrl: normalizedBaseUrl,
+        apiKey,
+    };
+    if (options.dialect !== undefined) {
+        target.dialect = resolveDialect(options.dialect);
+    }
+    if (options.api !== undefined) {
+        target.api = options.api;
+    }
+    if (options.structuredOutput !== undefined) {
+        target.structuredOutput = options.structuredOutput;
+    }
+    if (options.toolCalling !== undefined) {
+        target.toolCalling = options.toolCalling;
+    }
+    if (options.images !== undefined) {
+        target.images = resolveImagePolicy(options.images);
+    }
+    return target;
+}
+
+function routeUpstreams(route: ModelRoute, model: string, clientApiKey: string, fallbackBaseUrl: string): UpstreamTarget[] {
+    const candidates: ModelUpstream[] = route.upstreams && route.upstreams.length > 0 ? route.upstreams : [{}];
+    return candidates.map(upstream => {
+        const baseUrl = upstream.baseUrl || route.baseUrl || fallbackBaseUrl;
+        const configuredModel = upstream.model || route.model;
+        return toUpstreamTarget(
+            upstream.name || (route.upstreams ? undefined : route.name) || defaultUpstreamName(baseUrl, configuredModel || route.match),
+            baseUrl,
+            configuredModel || model,
+            resolveApiKey(route, upstream.apiKey ?? route.apiKey, clientApiKey),
+            {
+                dialect: upstream.dialect ?? route.dialect,
+                api: upstream.api ?? route.api,
+                structuredOutput: upstream.structuredOutput ?? route.structuredOutput,
+                toolCalling: upstream.toolCalling ?? route.toolCalling,
+                images: upstream.images ?? route.images,
+            },
+        );
+    });
+}
+
+/**
+ * 解析请求模型对应的上游目标（按故障转移顺序排列）。
+ */
+export function resolveTarget(routes: ModelRoute[], model: string, clientApiKey: string, fallbackBaseUrl: string): ResolvedTarget {
+    const route = matchModelRoute(routes, model);
+    if (!route) {
+        return { upstreams: [toUpstreamTarget(DEFAULT_UPSTREAM_NAME, fallbackBaseUrl, model, clientApiKey)], defaults: {} };
+    }
+    return {
+        upstreams: routeUpstreams(route, model, clientApiKey, fallbackBaseUrl),
+        defaults: route.defaults || {},
+        route: route.match,
+    };
+}
+
+/**
+ * 路由表中所有上游与未命中路由时的 fallbackBaseUrl，按 base URL 和 API key 去重，用于列出上游模型。
+ * 引用的环境变量未设置的上游跳过，不影响其他上游。
+ */
+export function listUpstreams(routes: ModelRoute[], clientApiKey: string, fallbackBaseUrl: string): UpstreamTarget[] {
+    const upstreams = new Map<string, UpstreamTarget>();
+    const add = (target: UpstreamTarget) => {
+        const key = `${target.baseUrl}\n${target.apiKey}`;
+        if (!upstreams.has(key)) upstreams.set(key, target);
+    };
+    add(toUpstreamTarget(DEFAULT_UPSTREAM_NAME, fallbackBaseUrl, '', clientApiKey));
+    for (const route of routes) {
+        try {
+            routeUpstreams(route, route.match, clientApiKey, fallbackBaseUrl).forEach(add);
+        } catch {
+            continue;
+        }
+    }
+    return [...upstreams.values()];
+}
+
+/**
+ * 用路由默认参数补齐客户端未提供的字段，不覆盖客户端显式传入的值。
+ */
+export function applyRouteDefaults(request: ClaudeMessagesRequest, defaults: ModelRouteDefaults): ClaudeMessagesRequest {
+    const merged: any = { ...request };
+    for (const [key, value] of Object.entries(defaults)) {
+        if (merged[key] === undefined && value !== undefined) {
+            merged[key] = value;
+        }
+    }
+    return merged;
+}
@@ -0,0 +1,44 @@
+/**
+ * 单元测试：由完整消息生成 SSE 事件
+ */
+import { describe, it, expect } from 'vitest';
+import { claudeMessageToSse } from './sse';
+
+function parseEvents(sse: string) {
+    return sse.trim().split('\n\n').map(chunk => {
+        const [eventLine, dataLine] = chunk.split('\n');
+        return { event: eventLine.slice('event: '.length), data: JSON.parse(dataLine.slice('data: '.length)) };
+    });
+}
+
+describe('claudeMessageToSse', () => {
+    it('按 Anthropic 流式事件顺序输出内容块', () => {
+        const events = parseEvents(claudeMessageToSse({
+            id: 'msg_1',
+            type: 'message',
+            role: 'assistant',
+            model: 'claude-test',
+            content: [
+                { type: 'thinking', thinking: 'hmm', signature: 'sig' },
+                { type: 'text', text: 'Reading.' },
+                { type: 'tool_use', id: 'call_1', name: 'read', input: { path: 'a' } },
+            ],
+            stop_reason: 'tool_use',
+            usage: { input_tokens: 10, output_tokens: 5 },
+        }));
+
+        expect(events.map(e => e.event)).toEqual([
+            'message_start',
+            'content_block_start', 'content_block_delta', 'content_block_delta', 'content_block_stop',
+            'content_block_start', 'content_block_delta', 'content_block_stop',
+            'content_block_start', 'content_block_delta', 'content_block_stop',
+            'message_delta',
+            'message_stop',
+        ]);
+        expect(events[0].data.message).toMatchObject({ id: 'msg_1', content: [], stop_reason: null, usage: { input_tokens: 10, output_tokens: 0 } });
+        expect(events[3].data.delta).toEqual({ type: 'signature_delta', signature: 'sig' });
+        expect(events[8].data).toEqual({ type: 'content_block_start', index: 2, content_block: { type: 'tool_use', id: 'call_1', name: 'read', input: {} } });
+        expect(events[9].data.delta).toEqual({ type: 'input_json_delta', partial_json: '{"path":"a"}' });
+        expect(events[11].data).toEqual({ type: 'message_delta', delta: { stop_reason: 'tool_use', stop_sequence: null }, usage: { input_tokens: 10, output_tokens: 5 } });
+    });
+});
@@ -0,0 +1,60 @@
+/**
+ * 由完整的 Claude 消息生成 SSE 事件
+ *
+ * 有些场景必须先拿到上游的完整响应才能决定返回什么（例如 tool_choice 的重新请求），
+ * 客户端请求的又是流式响应，此时按 Anthropic 流式事件的顺序一次性输出整条消息。
+ */
+
+function sseEvent(event: string, data: object): string {
+    return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * 单个内容块的 content_block_start 与 content_block_delta 事件数据。
+ */
+function blockEvents(block: any): { start: object; deltas: object[] } {
+    switch (block.type) {
+        case 'text':
+            return { start: { type: 'text', text: '' }, deltas: [{ type: 'text_delta', text: block.text }] };
+        case 'thinking': {
+            const deltas: object[] = [{ type: 'thinking_delta', thinking: block.thinking }];
+            if (block.signature) deltas.push({ type: 'signature_delta', signature: block.signature });
+            return { start: { type: 'thinking', thinking: '' }, deltas };
+        }
+        case 'tool_use':
+            return {
+                start: { type: 'tool_use', id: block.id, name: block.name, input: {} },
+                deltas: [{ type: 'input_json_delta', partial_json: JSON.stringify(block.input ?? {}) }],
+            };
+        default:
+            // 其他块类型没有增量形式，整块放在 content_block_start 中
+            return { start: block, deltas: [] };
+    }
+}
+
+/**
+ * 把完整的 Claude 消息转换为 message_start ... message_stop 的 SSE 事件序列。
+ */
+export function claudeMessageToSse(message: any): string {
+    const events: string[] = [];
+    const { content, stop_reason, stop_sequence, usage, ...rest } = message;
+    events.push(sseEvent('message_start', {
+        type: 'message_start',
+        message: { ...rest, content: [], stop_reason: null, stop_sequence: null, usage: { ...usage, output_tokens: 0 } },
+    }));
+    (content || []).forEach((block: any, index: number) => {
+        const { start, deltas } = blockEvents(block);
+        events.push(sseEvent('content_block_start', { type: 'content_block_start', index, content_block: start }));
+        for (const delta of deltas) {
+            events.push(sseEvent('content_block_delta', { type: 'content_block_delta', index, delta }));
+        }
+        events.push(sseEvent('content_block_stop', { type: 'content_block_stop', index }));
+    });
+    events.push(sseEvent('message_delta', {
+        type: 'message_delta',
+        delta: { stop_reason, stop_sequence: stop_sequence ?? null },
+        usage,
+    }));
+    events.push(sseEvent('message_stop', { type: 'message_stop' }));
+    return events.join('');
+}
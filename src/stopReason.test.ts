@@ -0,0 +1,59 @@
+/**
+ * 单元测试：stop_reason 与 stop_sequence
+ */
+import { describe, it, expect } from 'vitest';
+import { findStopSequence, mapFinishReason, reportedStopSequence, StopSequenceMatcher } from './stopReason';
+
+describe('mapFinishReason', () => {
+    it('映射已知的 finish_reason', () => {
+        expect(mapFinishReason('stop')).toEqual({ stopReason: 'end_turn', known: true });
+        expect(mapFinishReason('length')).toEqual({ stopReason: 'max_tokens', known: true });
+        expect(mapFinishReason('tool_calls')).toEqual({ stopReason: 'tool_use', known: true });
+        expect(mapFinishReason('content_filter')).toEqual({ stopReason: 'refusal', known: true });
+    });
+
+    it('未知的 finish_reason 按 end_turn 处理并标记', () => {
+        expect(mapFinishReason('eos_token')).toEqual({ stopReason: 'end_turn', known: false });
+        expect(mapFinishReason(null)).toEqual({ stopReason: 'end_turn', known: true });
+    });
+});
+
+describe('reportedStopSequence', () => {
+    it('识别 vLLM 的 stop_reason 和 SGLang 的 matched_stop', () => {
+        expect(reportedStopSequence({ finish_reason: 'stop', stop_reason: '###' }, ['###'])).toBe('###');
+        expect(reportedStopSequence({ finish_reason: 'stop', matched_stop: 'END' }, ['###', 'END'])).toBe('END');
+    });
+
+    it('忽略不在 stop_sequences 中的值（如 token id）', () => {
+        expect(reportedStopSequence({ finish_reason: 'stop', stop_reason: 151643 }, ['###'])).toBeNull();
+        expect(reportedStopSequence({ finish_reason: 'stop', stop_reason: 'other' }, ['###'])).toBeNull();
+        expect(reportedStopSequence({ finish_reason: 'stop', stop_reason: '###' }, undefined)).toBeNull();
+    });
+});
+
+describe('findStopSequence', () => {
+    it('返回最早出现的序列', () => {
+        expect(findStopSequence('a END b ###', ['###', 'END'])).toEqual({ index: 2, sequence: 'END' });
+        expect(findStopSequence('no match', ['###'])).toBeNull();
+    });
+});
+
+describe('StopSequenceMatcher', () => {
+    it('序列跨数据块时暂存前缀，命中后只输出序列之前的文本', () => {
+        const matcher = new StopSequenceMatcher(['</answer>']);
+        expect(matcher.push('42 </ans')).toBe('42 ');
+        expect(matcher.push('wer> trailing')).toBe('');
+        expect(matcher.matched).toBe('</answer>');
+        expect(matcher.push('more')).toBe('');
+        expect(matcher.flush()).toBe('');
+    });
+
+    it('前缀最终没有构成序列时照常输出', () => {
+        const matcher = new StopSequenceMatcher(['</answer>']);
+        expect(matcher.push('a </a')).toBe('a ');
+        expect(matcher.push('b>')).toBe('</ab>');
+        expect(matcher.push('x <')).toBe('x ');
+        expect(matcher.flush()).toBe('<');
+        expect(matcher.matched).toBeNull();
+    });
+});
@@ -0,0 +1,108 @@
+/**
+ * stop_reason 与 stop_sequence
+ *
+ * OpenAI 的 finish_reason 不区分自然结束和命中 stop 序列（都是 "stop"），这里按以下顺序确定命中的 stop_sequence：
+ * 1. 上游在 choice 中报告的命中序列（vLLM 的 stop_reason、SGLang 的 matched_stop）
+ * 2. 正文中出现的 stop 序列（上游忽略 stop 参数或把序列包含在输出里时），正文在序列处截断
+ * 上游已按 stop 参数停止且没有报告命中序列时无法区分，按 end_turn 返回。
+ */
+
+const FINISH_REASON_MAP: Record<string, string> = {
+    stop: 'end_turn',
+    length: 'max_tokens',
+    tool_calls: 'tool_use',
+    function_call: 'tool_use',
+    content_filter: 'refusal',
+};
+
+/**
+ * 将 OpenAI 的 finish_reason 映射为 Claude 的 stop_reason。
+ * 无法识别的值按 end_turn 处理，known 为 false 供调用方记录日志。
+ */
+export function mapFinishReason(finishReason: string | null | undefined): { stopReason: string; known: boolean } {
+    if (!finishReason) return { stopReason: 'end_turn', known: true };
+    const stopReason = FINISH_REASON_MAP[finishReason];
+    return stopReason ? { stopReason, known: true } : { stopReason: 'end_turn', known: false };
+}
+
+/**
+ * 上游在 choice 中报告的命中序列，且必须是请求的 stop_sequences 之一。
+ */
+export function reportedStopSequence(choice: any, stopSequences: string[] | undefined): string | null {
+    if (!stopSequences?.length || !choice) return null;
+    for (const candidate of [choice.stop_reason, choice.matched_stop]) {
+        if (typeof candidate === 'string' && stopSequences.includes(candidate)) {
+            return candidate;
+        }
+    }
+    return null;
+}
+
+/**
+ * 查找正文中最早出现的 stop 序列，位置相同时取较长的序列。
+ */
+export function findStopSequence(text: string, stopSequences: string[] | undefined): { index: number; sequence: string } | null {
+    let found: { index: number; sequence: string } | null = null;
+    for (const sequence of stopSequences || []) {
+        if (!sequence) continue;
+        const index = text.indexOf(sequence);
+        if (index === -1) continue;
+        if (!found || index < found.index || (index === found.index && sequence.length > found.sequence.length)) {
+            found = { index, sequence };
+        }
+    }
+    return found;
+}
+
+/**
+ * 流式正文的 stop 序列匹配。
+ * 末尾可能是某个序列前缀的文本暂不输出，等后续数据确认；命中后只输出序列之前的文本。
+ */
+export class StopSequenceMatcher {
+    private held = '';
+    matched: string | null = null;
+
+    constructor(private readonly stopSequences: string[]) {}
+
+    /**
+     * 追加一段正文，返回可以立即输出的文本。命中后返回序列之前的部分，之后的输入全部丢弃。
+     */
+    push(text: string): string {
+        if (this.matched !== null) return '';
+        const buffer = this.held + text;
+        const found = findStopSequence(buffer, this.stopSequences);
+        if (found) {
+            this.matched = found.sequence;
+            this.held = '';
+            return buffer.slice(0, found.index);
+        }
+        const holdLength = this.partialMatchLength(buffer);
+        this.held = buffer.slice(buffer.length - holdLength);
+        return buffer.slice(0, buffer.length - holdLength);
+    }
+
+    /**
+     * 正文结束时输出暂存的文本。
+     */
+    flush(): string {
+        const rest = this.held;
+        this.held = '';
+        return rest;
+    }
+
+    /**
+     * buffer 末尾与某个序列前缀重合的最大长度。
+     */
+    private partialMatchLength(buffer: string): number {
+        let longest = 0;
+        for (const sequence of this.stopSequences) {
+            for (let length = Math.min(sequence.length - 1, buffer.length); length > longest; length--) {
+                if (buffer.endsWith(sequence.slice(0, length))) {
+                    longest = length;
+                    break;
+                }
+            }
+        }
+        return longest;
+    }
+}
@@ -0,0 +1,116 @@
+/**
+ * 单元测试：结构化输出模拟
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { checkStructuredOutput, enforceStructuredOutput, extractJson, requestJsonMode, structuredOutputModeOf, withSchemaInstructions } from './structuredOutput';
+import type { ClaudeMessagesRequest } from './index';
+
+const schema = {
+    type: 'object',
+    properties: { name: { type: 'string' }, score: { type: 'integer' } },
+    required: ['name', 'score'],
+    additionalProperties: false,
+};
+
+const request: ClaudeMessagesRequest = {
+    model: 'claude-test',
+    max_tokens: 64,
+    system: 'Be brief.',
+    messages: [{ role: 'user', content: 'rate it' }],
+    output_config: { effort: 'low', format: { type: 'json_schema', schema } },
+};
+
+function message(text: string, outputTokens = 5) {
+    return {
+        id: 'msg_1', type: 'message', role: 'assistant', stop_reason: 'end_turn',
+        content: [{ type: 'text', text }],
+        usage: { input_tokens: 10, output_tokens: outputTokens },
+    };
+}
+
+describe('structuredOutputModeOf', () => {
+    it('请求没有 output_config.format 时不模拟', () => {
+        const upstream = { name: 'u', modelName: 'm', baseUrl: 'http://u', apiKey: 'k', structuredOutput: 'prompt' as const };
+        expect(structuredOutputModeOf(upstream, request)).toBe('prompt');
+        expect(structuredOutputModeOf(upstream, { ...request, output_config: { effort: 'low' } })).toBe('native');
+        expect(structuredOutputModeOf({ ...upstream, structuredOutput: undefined }, request)).toBe('native');
+    });
+});
+
+describe('withSchemaInstructions / requestJsonMode', () => {
+    it('schema 写入 system，去掉 format 保留 effort', () => {
+        const emulated = withSchemaInstructions(request);
+        expect(emulated.system).toMatch(/^Be brief\.\n\nRespond with only a JSON value/);
+        expect(emulated.system).toContain(JSON.stringify(schema));
+        expect(emulated.output_config).toEqual({ effort: 'low', format: null });
+    });
+
+    it('system 为 text 块数组时追加 schema 块', () => {
+        const emulated = withSchemaInstructions({ ...request, system: [{ type: 'text', text: 'Be brief.' }] });
+        expect(emulated.system).toEqual([{ type: 'text', text: 'Be brief.' }, { type: 'text', text: expect.stringMatching(/^Respond with only a JSON value/) }]);
+    });
+
+    it('按上游接口开启 JSON 模式', () => {
+        const openai: any = {};
+        requestJsonMode(openai, undefined);
+        expect(openai.response_format).toEqual({ type: 'json_object' });
+        const responses: any = {};
+        requestJsonMode(responses, 'responses');
+        expect(responses.text).toEqual({ format: { type: 'json_object' } });
+        const gemini: any = { generationConfig: {} };
+        requestJsonMode(gemini, 'gemini');
+        expect(gemini.generationConfig.responseMimeType).toBe('application/json');
+    });
+});
+
+describe('extractJson', () => {
+    it('整段、代码块与正文中的 JSON', () => {
+        expect(extractJson(' {"a": 1} ')).toEqual({ value: { a: 1 } });
+        expect(extractJson('Here you go:\n```json\n{"a": 2}\n```\nDone.')).toEqual({ value: { a: 2 } });
+        expect(extractJson('Result: {"a": "}", "b": [1]} hope it helps')).toEqual({ value: { a: '}', b: [1] } });
+        expect(extractJson('no json here')).toBeUndefined();
+    });
+});
+
+describe('checkStructuredOutput', () => {
+    it('提取后按 schema 校验', () => {
+        expect(checkStructuredOutput(message('{"name": "a", "score": 3}'), schema)).toEqual({ value: { name: 'a', score: 3 }, errors: [] });
+        expect(checkStructuredOutput(message('{"name": "a"}'), schema).errors).toEqual(['output: missing required property "score"']);
+        expect(checkStructuredOutput(message('sorry'), schema).errors).toEqual(['response is not valid JSON']);
+    });
+});
+
+describe('enforceStructuredOutput', () => {
+    it('符合 schema 时正文替换为规范化的 JSON，不重新请求', async () => {
+        const reask = vi.fn();
+        const result = await enforceStructuredOutput(request, message('Sure! {"name": "a", "score": 3}'), 2, reask);
+        expect(result).toMatchObject({ errors: [], attempts: 1, message: { content: [{ type: 'text', text: '{"name":"a","score":3}' }] } });
+        expect(reask).not.toHaveBeenCalled();
+    });
+
+    it('不符合时带上输出和错误重新请求，usage 合计', async () => {
+        const reask = vi.fn().mockResolvedValue(message('{"name": "a", "score": 3}', 7));
+        const result = await enforceStructuredOutput(request, message('{"name": "a"}'), 2, reask);
+        const retried = reask.mock.calls[0][0];
+        expect(retried.messages.slice(1)).toEqual([
+            { role: 'assistant', content: '{"name": "a"}' },
+            { role: 'user', content: expect.stringContaining('- output: missing required property "score"') },
+        ]);
+        expect(result).toMatchObject({ errors: [], attempts: 2, message: { usage: { input_tokens: 20, output_tokens: 12 } } });
+    });
+
+    it('重试用尽后返回最后一次的错误', async () => {
+        const reask = vi.fn().mockResolvedValue(message('{"score": "x"}'));
+        const result = await enforceStructuredOutput(request, message('nope'), 2, reask);
+        expect(reask).toHaveBeenCalledTimes(2);
+        expect(result.attempts).toBe(3);
+        expect(result.errors).toEqual(['output: missing required property "name"', 'output.score: expected integer, got string']);
+        expect(result.message.usage).toEqual({ input_tokens: 30, output_tokens: 15, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 });
+    });
+
+    it('调用了工具的响应不校验', async () => {
+        const toolUse = { ...message(''), content: [{ type: 'tool_use', id: 'call_1', name: 'search', input: {} }] };
+        const result = await enforceStructuredOutput(request, toolUse, 2, vi.fn());
+        expect(result).toEqual({ message: toolUse, errors: [], attempts: 1 });
+    });
+});
@@ -0,0 +1,199 @@
+/**
+ * 结构化输出模拟
+ *
+ * output_config.format 默认按上游接口的 json_schema 参数发送（response_format、text.format、responseJsonSchema），
+ * 但不少 OpenAI 兼容后端会拒绝或忽略 strict json_schema。路由或上游配置 structuredOutput 后由代理模拟：
+ * - json_object：schema 写入 system，以上游的 JSON 模式（response_format: json_object 等）请求
+ * - prompt：只把 schema 写入 system
+ * 拿到响应后从正文中提取 JSON，按 schema 校验，不符合时附上错误重新请求，最多 STRUCTURED_OUTPUT_RETRIES 次。
+ * 最终的 text 块总是符合 schema 的 JSON；仍不符合时由调用方返回错误。
+ */
+
+import type { ClaudeMessagesRequest, OpenAIRequest } from './index';
+import type { StructuredOutputMode, UpstreamApi, UpstreamTarget } from './routing';
+import type { ResponsesRequest } from './responses';
+import type { GeminiRequest } from './gemini';
+import { appendSystem } from './systemPrompt';
+import { repairJson, validateSchema } from './toolArgs';
+import { addUsage } from './toolChoice';
+
+/**
+ * 请求 output_config.format 中的 JSON Schema，未要求结构化输出时为 undefined。
+ */
+export function outputSchemaOf(request: ClaudeMessagesRequest): any | undefined {
+    const format = request.output_config?.format;
+    return format?.type === 'json_schema' && format.schema ? format.schema : undefined;
+}
+
+/**
+ * 上游对该请求使用的结构化输出方式；请求没有 output_config.format 时为 native（不需要模拟）。
+ */
+export function structuredOutputModeOf(upstream: UpstreamTarget, request: ClaudeMessagesRequest): StructuredOutputMode {
+    return outputSchemaOf(request) ? upstream.structuredOutput ?? 'native' : 'native';
+}
+
+/**
+ * 去掉 output_config.format，改为在 system 末尾给出 schema。
+ */
+export function withSchemaInstructions(request: ClaudeMessagesRequest): ClaudeMessagesRequest {
+    const instructions = `Respond with only a JSON value that conforms to the following JSON Schema. Do not wrap it in markdown code fences or add any other text.\n\n${JSON.stringify(outputSchemaOf(request))}`;
+    return { ...appendSystem(request, instructions), output_config: { ...request.output_config, format: null } };
+}
+
+/**
+ * 按上游接口在已转换的请求体上开启 JSON 模式。
+ */
+export function requestJsonMode(body: OpenAIRequest | ResponsesRequest | GeminiRequest, api: UpstreamApi | undefined) {
+    if (api === 'responses') {
+        (body as ResponsesRequest).text = { format: { type: 'json_object' } };
+    } else if (api === 'gemini') {
+        (body as GeminiRequest).generationConfig.responseMimeType = 'application/json';
+    } else {
+        (body as OpenAIRequest).response_format = { type: 'json_object' };
+    }
+}
+
+/**
+ * 从 start 处的 { 或 [ 开始找到与之匹配的右括号，跳过字符串中的括号；没有匹配时返回 -1。
+ */
+function matchingBracket(text: string, start: number): number {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (ch === '\\') i++;
+            else if (ch === '"') inString = false;
+        } else if (ch === '"') {
+            inString = true;
+        } else if (ch === '{' || ch === '[') {
+            depth++;
+        } else if (ch === '}' || ch === ']') {
+            if (--depth === 0) return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * 从模型输出中提取 JSON：整段、markdown 代码块或正文中第一个完整的对象 / 数组，必要时经 repairJson 修复。
+ * 找不到时返回 undefined。
+ */
+export function extractJson(text: string): { value: any } | undefined {
+    const candidates = [text.trim()];
+    const fence = /```[a-zA-Z]*\s*\n([\s\S]*?)```/.exec(text);
+    if (fence) candidates.push(fence[1].trim());
+    const start = text.search(/[{[]/);
+    if (start >= 0) {
+        const end = matchingBracket(text, start);
+        candidates.push(end >= 0 ? text.slice(start, end + 1) : text.slice(start));
+    }
+    for (const candidate of candidates) {
+        if (!candidate) continue;
+        const repaired = repairJson(candidate);
+        if (repaired) return { value: repaired.value };
+    }
+    return undefined;
+}
+
+export interface StructuredOutputCheck {
+    value?: any;
+    errors: string[];
+}
+
+/**
+ * 提取响应正文中的 JSON 并按 schema 校验。
+ */
+export function checkStructuredOutput(message: any, schema: any): StructuredOutputCheck {
+    const text = (message?.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+    const extracted = extractJson(text);
+    if (!extracted) {
+        return { errors: [text.trim() ? 'response is not valid JSON' : 'response contains no text'] };
+    }
+    return { value: extracted.value, errors: validateSchema(extracted.value, schema, 'output') };
+}
+
+/**
+ * 重新请求时带上上一次的输出和校验错误。
+ */
+export function withStructuredOutputFeedback(request: ClaudeMessagesRequest, message: any, errors: string[]): ClaudeMessagesRequest {
+    const previous = (message?.content || []).filter((block: any) => block.type === 'text').map((block: any) => block.text).join('');
+    const feedback = `Your previous response did not match the required JSON Schema:\n${errors.map(error => `- ${error}`).join('\n')}\nRespond again with only a JSON value that conforms to the schema.`;
+    return {
+        ...request,
+        messages: [
+            ...request.messages,
+            { role: 'assistant', content: previous || '(empty)' },
+            { role: 'user', content: feedback },
+        ],
+    };
+}
+
+/**
+ * 正文替换为规范化的 JSON，放在第一个 text 块的位置；thinking 等其他块保留。
+ */
+function withJsonText(message: any, value: any): any {
+    const content: any[] = [];
+    let replaced = false;
+    for (const block of message.content || []) {
+        if (block.type !== 'text') {
+            content.push(block);
+        } else if (!replaced) {
+            content.push({ type: 'text', text: JSON.stringify(value) });
+            replaced = true;
+        }
+    }
+    if (!replaced) content.push({ type: 'text', text: JSON.stringify(value) });
+    return { ...message, content };
+}
+
+export interface StructuredOutputResult {
+    /**
+     * 最终响应，usage 为所有尝试的合计；成功时正文为规范化的 JSON。
+     */
+    message: any;
+    /**
+     * 最后一次的校验错误，为空表示符合 schema。
+     */
+    errors: string[];
+    /**
+     * 请求上游的总次数（含第一次）。
+     */
+    attempts: number;
+}
+
+/**
+ * 校验模拟结构化输出的非流式响应，不符合 schema 时附上错误重新请求，最多 retries 次。
+ * 响应调用了工具时不校验（结构化输出约束的是最终回答）。
+ * @param reask 以附加了上次输出和错误的请求重新请求上游，失败时返回 null。
+ */
+export async function enforceStructuredOutput(
+    request: ClaudeMessagesRequest,
+    message: any,
+    retries: number,
+    reask: (request: ClaudeMessagesRequest) => Promise<any | null>
+): Promise<StructuredOutputResult> {
+    const schema = outputSchemaOf(request);
+    if (!schema || message?.content?.some((block: any) => block.type === 'tool_use')) {
+        return { message, errors: [], attempts: 1 };
+    }
+    let current = message;
+    let usage = message.usage;
+    let attempts = 1;
+    let check = checkStructuredOutput(current, schema);
+    while (check.errors.length > 0 && attempts <= retries) {
+        const retried = await reask(withStructuredOutputFeedback(request, current, check.errors));
+        if (!retried) break;
+        attempts++;
+        usage = addUsage(usage, retried.usage);
+        current = retried;
+        check = checkStructuredOutput(current, schema);
+    }
+    const final = { ...current, usage };
+    return check.errors.length === 0
+        ? { message: withJsonText(final, check.value), errors: [], attempts }
+        : { message: final, errors: check.errors, attempts };
+}
@@ -0,0 +1,22 @@
+/**
+ * 单元测试：system 提示词的改写
+ */
+import { describe, it, expect } from 'vitest';
+import { appendSystem } from './systemPrompt';
+import type { ClaudeMessagesRequest } from './index';
+
+const request: ClaudeMessagesRequest = { model: 'claude-test', max_tokens: 16, messages: [{ role: 'user', content: 'hi' }] };
+
+describe('appendSystem', () => {
+    it('字符串以空行连接，没有 system 时直接使用说明', () => {
+        expect(appendSystem({ ...request, system: 'Be brief.' }, 'Use tools.').system).toBe('Be brief.\n\nUse tools.');
+        expect(appendSystem(request, 'Use tools.').system).toBe('Use tools.');
+    });
+
+    it('数组追加 text 块，保留原有块和 cache_control', () => {
+        const system = [{ type: 'text' as const, text: 'Be brief.', cache_control: { type: 'ephemeral' } }];
+        const appended = appendSystem({ ...request, system }, 'Use tools.');
+        expect(appended.system).toEqual([...system, { type: 'text', text: 'Use tools.' }]);
+        expect(system).toHaveLength(1);
+    });
+});
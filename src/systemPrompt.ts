@@ -0,0 +1,19 @@
+/**
+ * system 提示词的改写
+ *
+ * Anthropic 的 system 既可以是字符串，也可以是 text 块数组（Anthropic SDK、Claude Code 使用数组并带 cache_control）。
+ * 代理在 system 末尾追加说明（模拟工具调用、结构化输出、重新请求的提示）时统一经过这里，数组保留原有的块。
+ */
+
+import type { ClaudeMessagesRequest } from './index';
+
+/**
+ * 在 system 末尾追加一段说明，返回新的请求：字符串以空行连接，数组追加一个 text 块。
+ */
+export function appendSystem(request: ClaudeMessagesRequest, text: string): ClaudeMessagesRequest {
+    const { system } = request;
+    if (Array.isArray(system)) {
+        return { ...request, system: [...system, { type: 'text', text }] };
+    }
+    return { ...request, system: system ? `${system}\n\n${text}` : text };
+}
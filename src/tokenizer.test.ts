@@ -0,0 +1,96 @@
+/**
+ * 单元测试：本地 token 估算
+ */
+import { describe, it, expect } from 'vitest';
+import { countRequestTokens, createHeuristicTokenizer, getTokenizerForModel, registerTokenizer } from './tokenizer';
+
+// 1x1 PNG
+const PNG_1X1 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+describe('createHeuristicTokenizer', () => {
+    it('ASCII 按 charsPerToken 折算，CJK 按字计', () => {
+        const tokenizer = createHeuristicTokenizer('test', 4, 1);
+        expect(tokenizer.countText('')).toBe(0);
+        expect(tokenizer.countText('abcdefgh')).toBe(2);
+        expect(tokenizer.countText('你好世界')).toBe(4);
+        expect(tokenizer.countText('abcd你好')).toBe(3);
+    });
+});
+
+describe('getTokenizerForModel', () => {
+    it('按模型家族选择 tokenizer', () => {
+        expect(getTokenizerForModel('deepseek-v3').name).toBe('deepseek');
+        expect(getTokenizerForModel('qwen3-coder-480b').name).toBe('qwen');
+        expect(getTokenizerForModel('gpt-4o').name).toBe('openai');
+        expect(getTokenizerForModel('unknown-model').name).toBe('default');
+    });
+
+    it('registerTokenizer 注册的规则优先', () => {
+        const custom = createHeuristicTokenizer('custom', 2, 2);
+        registerTokenizer(/^deepseek-custom/, custom);
+        expect(getTokenizerForModel('deepseek-custom-1')).toBe(custom);
+        expect(getTokenizerForModel('deepseek-v3').name).toBe('deepseek');
+    });
+});
+
+describe('countRequestTokens', () => {
+    const tokenizer = createHeuristicTokenizer('test', 4, 1);
+
+    it('统计 system、messages 和 tools', () => {
+        const base = countRequestTokens({ model: 'm', max_tokens: 1, messages: [] }, tokenizer);
+        const withSystem = countRequestTokens({ model: 'm', max_tokens: 1, system: 'abcdefgh', messages: [] }, tokenizer);
+        expect(withSystem - base).toBe(2 + 4);
+
+        const withTool = countRequestTokens({
+            model: 'm',
+            max_tokens: 1,
+            messages: [],
+            tools: [{ name: 'read', description: 'read a file', input_schema: { type: 'object' } }],
+        }, tokenizer);
+        expect(withTool).toBeGreaterThan(base);
+    });
+
+    it('tool_result 中嵌套的图片按尺寸估算', () => {
+        const total = countRequestTokens({
+            model: 'm',
+            max_tokens: 1,
+            messages: [{
+                role: 'user',
+                content: [{
+                    type: 'tool_result',
+                    tool_use_id: 'toolu_1',
+                    content: [{ type: 'image', source: { type: 'base64', media_type: 'image/png', data: PNG_1X1 } }],
+                }],
+            }],
+        }, tokenizer);
+        // 1x1 图片只占 1 token，加上消息开销和请求开销
+        expect(total).toBe(3 + 4 + 1);
+    });
+
+    it('url 图片无法解析尺寸时按上限估算', () => {
+        const total = countRequestTokens({
+            model: 'm',
+            max_tokens: 1,
+            messages: [{
+                role: 'user',
+                content: [{ type: 'image', source: { type: 'url', url: 'https://example.com/a.png' } }],
+            }],
+        }, tokenizer);
+        expect(total).toBe(3 + 4 + 1600);
+    });
+
+    it('纯文本 document 按文本计数', () => {
+        const total = countRequestTokens({
+            model: 'm',
+            max_tokens: 1,
+            messages: [{
+                role: 'user',
+                content: [{
+                    type: 'document',
+                    source: { type: 'base64', media_type: 'text/plain', data: Buffer.from('abcdefgh').toString('base64') },
+                }],
+            }],
+        }, tokenizer);
+        expect(total).toBe(3 + 4 + 2);
+    });
+});
@@ -0,0 +1,200 @@
+/**
+ * 本地 token 计数
+ *
+ * 为 /v1/messages/count_tokens 提供离线估算。不同上游模型家族的分词粒度差别较大
+ * （尤其是中文），因此按上游模型名匹配选择对应的 Tokenizer，可通过 registerTokenizer 扩展。
+ * 这里的结果是估算值，不追求与上游计费完全一致。
+ */
+
+import type { ClaudeMessagesRequest, ClaudeTextBlock } from './index';
+
+export interface Tokenizer {
+    name: string;
+    countText(text: string): number;
+}
+
+// 每条消息的角色/分隔符开销，以及整个请求的固定开销
+const PER_MESSAGE_OVERHEAD = 4;
+const PER_TOOL_OVERHEAD = 8;
+const REQUEST_OVERHEAD = 3;
+// Anthropic 会把图片缩放到约 1.15MP 以内，折算约 1600 tokens，作为无法解析尺寸时的上限估计
+const MAX_IMAGE_TOKENS = 1600;
+const PDF_TOKENS_PER_PAGE = 1500;
+
+// CJK 统一表意文字、假名、谚文以及全角标点
+const CJK_REGEX = /[\u3000-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g;
+
+/**
+ * 基于字符类别的估算器：非 CJK 字符按 charsPerToken 折算，CJK 字符每个按 cjkTokensPerChar 计。
+ */
+export function createHeuristicTokenizer(name: string, charsPerToken: number, cjkTokensPerChar: number): Tokenizer {
+    return {
+        name,
+        countText(text: string): number {
+            if (!text) return 0;
+            const cjkCount = (text.match(CJK_REGEX) || []).length;
+            const otherCount = text.length - cjkCount;
+            return Math.ceil(otherCount / charsPerToken + cjkCount * cjkTokensPerChar);
+        },
+    };
+}
+
+const defaultTokenizer = createHeuristicTokenizer('default', 4, 1);
+
+// 按顺序匹配，先注册的优先；registerTokenizer 注册的规则插在最前面
+const tokenizerRegistry: Array<{ pattern: RegExp; tokenizer: Tokenizer }> = [
+    { pattern: /claude/i, tokenizer: createHeuristicTokenizer('claude', 3.5, 1.2) },
+    { pattern: /deepseek/i, tokenizer: createHeuristicTokenizer('deepseek', 3.8, 0.6) },
+    { pattern: /qwen|qwq/i, tokenizer: createHeuristicTokenizer('qwen', 3.8, 0.7) },
+    { pattern: /glm|kimi|moonshot|minimax/i, tokenizer: createHeuristicTokenizer('cn-general', 3.8, 0.7) },
+    { pattern: /gemini|gemma/i, tokenizer: createHeuristicTokenizer('gemini', 4, 0.8) },
+    { pattern: /gpt|^o\d|llama|mistral/i, tokenizer: createHeuristicTokenizer('openai', 4, 0.9) },
+];
+
+/**
+ * 注册自定义 tokenizer，优先级高于内置规则。
+ */
+export function registerTokenizer(pattern: RegExp, tokenizer: Tokenizer): void {
+    tokenizerRegistry.unshift({ pattern, tokenizer });
+}
+
+/**
+ * 根据上游模型名选择 tokenizer，未匹配时使用默认估算器。
+ */
+export function getTokenizerForModel(model: string): Tokenizer {
+    const entry = tokenizerRegistry.find(item => item.pattern.test(model || ''));
+    return entry ? entry.tokenizer : defaultTokenizer;
+}
+
+/**
+ * 从图片二进制头部解析宽高，支持 PNG / JPEG / GIF / WEBP，解析失败返回 null。
+ */
+function readImageDimensions(buf: Buffer): { width: number; height: number } | null {
+    if (buf.length >= 24 && buf.readUInt32BE(0) === 0x89504e47) {
+        return { width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) };
+    }
+    if (buf.length >= 10 && buf.toString('ascii', 0, 3) === 'GIF') {
+        return { width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) };
+    }
+    if (buf.length >= 30 && buf.toString('ascii', 0, 4) === 'RIFF' && buf.toString('ascii', 8, 12) === 'WEBP') {
+        const chunk = buf.toString('ascii', 12, 16);
+        if (chunk === 'VP8X') {
+            return { width: 1 + buf.readUIntLE(24, 3), height: 1 + buf.readUIntLE(27, 3) };
+        }
+        if (chunk === 'VP8 ') {
+            return { width: buf.readUInt16LE(26) & 0x3fff, height: buf.readUInt16LE(28) & 0x3fff };
+        }
+        if (chunk === 'VP8L') {
+            const bits = buf.readUInt32LE(21);
+            return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+        }
+        return null;
+    }
+    if (buf.length >= 4 && buf[0] === 0xff && buf[1] === 0xd8) {
+        let offset = 2;
+        while (offset + 9 < buf.length) {
+            if (buf[offset] !== 0xff) return null;
+            const marker = buf[offset + 1];
+            // SOF0-SOF15（排除 DHT/JPG/DAC）携带图片尺寸
+            if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+                return { width: buf.readUInt16BE(offset + 7), height: buf.readUInt16BE(offset + 5) };
+            }
+            offset += 2 + buf.readUInt16BE(offset + 2);
+        }
+    }
+    return null;
+}
+
+/**
+ * 按 Anthropic 的公式估算图片 token：width * height / 750，上限约 1600。
+ */
+function countImageTokens(block: ClaudeTextBlock): number {
+    if (!block.source || block.source.type !== 'base64') {
+        return MAX_IMAGE_TOKENS;
+    }
+    const dims = readImageDimensions(Buffer.from(block.source.data, 'base64'));
+    if (!dims || dims.width <= 0 || dims.height <= 0) {
+        return MAX_IMAGE_TOKENS;
+    }
+    return Math.min(MAX_IMAGE_TOKENS, Math.ceil((dims.width * dims.height) / 750));
+}
+
+/**
+ * 文档块：纯文本按文本计数，PDF 按页数估算，其他来源按上限粗估。
+ */
+function countDocumentTokens(block: ClaudeTextBlock, tokenizer: Tokenizer): number {
+    const source: any = block.source;
+    if (!source) return 0;
+    if (source.type === 'text' && typeof source.data === 'string') {
+        return tokenizer.countText(source.data);
+    }
+    if (source.type === 'base64') {
+        const raw = Buffer.from(source.data, 'base64');
+        if (source.media_type === 'text/plain') {
+            return tokenizer.countText(raw.toString('utf8'));
+        }
+        const pageCount = (raw.toString('latin1').match(/\/Type\s*\/Page[^s]/g) || []).length;
+        return Math.max(1, pageCount) * PDF_TOKENS_PER_PAGE;
+    }
+    return PDF_TOKENS_PER_PAGE;
+}
+
+function countBlockTokens(block: ClaudeTextBlock, tokenizer: Tokenizer): number {
+    switch (block.type) {
+        case 'text':
+            return tokenizer.countText(block.text || '');
+        case 'thinking':
+            return tokenizer.countText(block.thinking || block.text || '');
+        case 'image':
+            return countImageTokens(block);
+        case 'document':
+            return countDocumentTokens(block, tokenizer);
+        case 'tool_use':
+            return tokenizer.countText(block.name || '') + tokenizer.countText(JSON.stringify(block.input || {}));
+        case 'tool_result':
+            if (typeof block.content === 'string') {
+                return tokenizer.countText(block.content);
+            }
+            if (Array.isArray(block.content)) {
+                return block.content.reduce((sum: number, item: ClaudeTextBlock) => sum + countBlockTokens(item, tokenizer), 0);
+            }
+            return tokenizer.countText(JSON.stringify(block.content ?? ''));
+        default:
+            return tokenizer.countText(JSON.stringify(block));
+    }
+}
+
+/**
+ * 估算一个 ClaudeMessagesRequest 的输入 token 数（system、messages、tools、图片和文档）。
+ */
+export function countRequestTokens(request: ClaudeMessagesRequest, tokenizer: Tokenizer): number {
+    let total = REQUEST_OVERHEAD;
+
+    const system: any = request.system;
+    if (typeof system === 'string') {
+        total += tokenizer.countText(system) + PER_MESSAGE_OVERHEAD;
+    } else if (Array.isArray(system)) {
+        // 兼容 system 为 text block 数组的写法
+        total += system.reduce((sum: number, block: ClaudeTextBlock) => sum + countBlockTokens(block, tokenizer), 0) + PER_MESSAGE_OVERHEAD;
+    }
+
+    for (const message of request.messages || []) {
+        total += PER_MESSAGE_OVERHEAD;
+        if (typeof message.content === 'string') {
+            total += tokenizer.countText(message.content);
+        } else if (Array.isArray(message.content)) {
+            for (const block of message.content) {
+                total += countBlockTokens(block, tokenizer);
+            }
+        }
+    }
+
+    for (const tool of request.tools || []) {
+        total += PER_TOOL_OVERHEAD
+            + tokenizer.countText(tool.name)
+            + tokenizer.countText(tool.description || '')
+            + tokenizer.countText(JSON.stringify(tool.input_schema || {}));
+    }
+
+    return total;
+}
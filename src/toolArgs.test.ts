@@ -0,0 +1,162 @@
+/**
+ * 单元测试：工具参数的修复与校验
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { enforceToolArgs, findInvalidToolUses, parseToolArgsRepair, repairJson, resolveToolArguments, validateSchema } from './toolArgs';
+import type { ClaudeMessagesRequest } from './index';
+
+const weatherSchema = {
+    type: 'object',
+    properties: {
+        city: { type: 'string' },
+        days: { type: 'integer', minimum: 1 },
+        unit: { enum: ['c', 'f'] },
+    },
+    required: ['city'],
+    additionalProperties: false,
+};
+
+const request: ClaudeMessagesRequest = {
+    model: 'claude-test',
+    max_tokens: 16,
+    messages: [{ role: 'user', content: 'hi' }],
+    tools: [{ name: 'get_weather', input_schema: weatherSchema }],
+};
+
+function message(input: any, outputTokens = 5) {
+    return {
+        id: 'msg_1', type: 'message', role: 'assistant', stop_reason: 'tool_use',
+        content: [{ type: 'tool_use', id: 'call_1', name: 'get_weather', input }],
+        usage: { input_tokens: 10, output_tokens: outputTokens },
+    };
+}
+
+describe('parseToolArgsRepair', () => {
+    it('无法识别的值视为 off', () => {
+        expect(parseToolArgsRepair('repair')).toBe('repair');
+        expect(parseToolArgsRepair('reask')).toBe('reask');
+        expect(parseToolArgsRepair('yes')).toBe('off');
+        expect(parseToolArgsRepair(undefined)).toBe('off');
+    });
+});
+
+describe('repairJson', () => {
+    it('合法 JSON 不做修改', () => {
+        expect(repairJson('{"a": [1, 2]}')).toEqual({ value: { a: [1, 2] }, repairs: [] });
+    });
+
+    it('补全截断的字符串和括号', () => {
+        expect(repairJson('{"path": "src/a.ts", "content": "line1\\nli')).toEqual({
+            value: { path: 'src/a.ts', content: 'line1\nli' },
+            repairs: ['truncated'],
+        });
+        expect(repairJson('{"items": [{"id": 1}, {"id": 2')!.value).toEqual({ items: [{ id: 1 }, { id: 2 }] });
+    });
+
+    it('截断在键名、冒号或字面量中间时丢弃不完整的成员', () => {
+        expect(repairJson('{"a": 1, "b"')!.value).toEqual({ a: 1 });
+        expect(repairJson('{"a": 1, "b":')!.value).toEqual({ a: 1 });
+        expect(repairJson('{"a": 1, "b": tr')!.value).toEqual({ a: 1 });
+    });
+
+    it('尾随逗号、单引号与 markdown 代码块', () => {
+        expect(repairJson('{"a": [1, 2,], }')).toEqual({ value: { a: [1, 2] }, repairs: ['trailing comma'] });
+        expect(repairJson("{'city': 'Paris', 'note': 'it\\'s \"sunny\"'}")).toEqual({
+            value: { city: 'Paris', note: 'it\'s "sunny"' },
+            repairs: ['single quotes'],
+        });
+        expect(repairJson('```json\n{"a": 1}\n```')).toEqual({ value: { a: 1 }, repairs: ['markdown fence'] });
+    });
+
+    it('再编码成字符串的 JSON', () => {
+        expect(repairJson(JSON.stringify(JSON.stringify({ a: 1 })))).toEqual({ value: { a: 1 }, repairs: ['double-encoded'] });
+    });
+
+    it('无法修复时返回 null', () => {
+        expect(repairJson('not json at all')).toBeNull();
+    });
+});
+
+describe('validateSchema', () => {
+    it('类型、必填、枚举、范围与多余字段', () => {
+        expect(validateSchema({ city: 'Paris', days: 3, unit: 'c' }, weatherSchema)).toEqual([]);
+        expect(validateSchema({ days: 0.5, unit: 'k', extra: true }, weatherSchema)).toEqual([
+            'input: missing required property "city"',
+            'input.days: expected integer, got number',
+            'input.unit: must be one of "c", "f"',
+            'input: unexpected property "extra"',
+        ]);
+        expect(validateSchema({ city: 'Paris', days: 0 }, weatherSchema)).toEqual(['input.days: must be >= 1']);
+    });
+
+    it('数组、anyOf 与本地 $ref', () => {
+        const schema = {
+            type: 'object',
+            properties: {
+                todos: { type: 'array', items: { $ref: '#/$defs/todo' } },
+                id: { anyOf: [{ type: 'string' }, { type: 'integer' }] },
+            },
+            $defs: { todo: { type: 'object', properties: { status: { enum: ['pending', 'done'] } }, required: ['status'] } },
+        };
+        expect(validateSchema({ todos: [{ status: 'done' }], id: 1 }, schema)).toEqual([]);
+        expect(validateSchema({ todos: [{}, { status: 'x' }], id: true }, schema)).toEqual([
+            'input.todos[0]: missing required property "status"',
+            'input.todos[1].status: must be one of "pending", "done"',
+            'input.id: does not match any of the allowed schemas',
+        ]);
+    });
+});
+
+describe('resolveToolArguments', () => {
+    it('空参数为 {}，无法修复时保留原文', () => {
+        expect(resolveToolArguments('')).toEqual({ input: {}, repairs: [], errors: [] });
+        expect(resolveToolArguments('[1, 2]')).toEqual({ input: { input_str: '[1, 2]' }, repairs: [], errors: ['arguments are not a valid JSON object'] });
+    });
+
+    it('修复后按 schema 校验', () => {
+        expect(resolveToolArguments('{"city": "Par', weatherSchema)).toEqual({ input: { city: 'Par' }, repairs: ['truncated'], errors: [] });
+        expect(resolveToolArguments('{"days": 2}', weatherSchema).errors).toEqual(['input: missing required property "city"']);
+    });
+});
+
+describe('findInvalidToolUses', () => {
+    it('校验失败、无法解析与未知工具', () => {
+        expect(findInvalidToolUses(request, message({ city: 'Paris' }))).toEqual([]);
+        expect(findInvalidToolUses(request, message({ input_str: '{{' }))).toEqual([
+            { id: 'call_1', name: 'get_weather', errors: ['arguments are not a valid JSON object'] },
+        ]);
+        const unknown = { content: [{ type: 'tool_use', id: 'call_2', name: 'other', input: {} }] };
+        expect(findInvalidToolUses(request, unknown)).toEqual([{ id: 'call_2', name: 'other', errors: ['unknown tool "other"'] }]);
+    });
+});
+
+describe('enforceToolArgs', () => {
+    it('repair 模式只报告不合法的调用', async () => {
+        const reask = vi.fn();
+        const result = await enforceToolArgs(request, message({}), 'repair', reask);
+        expect(result.invalid).toHaveLength(1);
+        expect(result.reasked).toBe(false);
+        expect(reask).not.toHaveBeenCalled();
+    });
+
+    it('reask 模式附加错误说明重新请求，usage 合计', async () => {
+        const reask = vi.fn().mockResolvedValue(message({ city: 'Paris' }, 7));
+        const result = await enforceToolArgs(request, message({}), 'reask', reask);
+        expect(reask.mock.calls[0][0].system).toContain('- get_weather: input: missing required property "city"');
+        expect(result).toMatchObject({ invalid: [], reasked: true, message: { content: [{ input: { city: 'Paris' } }], usage: { input_tokens: 20, output_tokens: 12 } } });
+    });
+
+    it('system 为 text 块数组时保留原有的块，追加错误说明块', async () => {
+        const system = [{ type: 'text' as const, text: 'Be brief.' }];
+        const reask = vi.fn().mockResolvedValue(message({ city: 'Paris' }));
+        await enforceToolArgs({ ...request, system }, message({}), 'reask', reask);
+        expect(reask.mock.calls[0][0].system).toEqual([system[0], { type: 'text', text: expect.stringContaining('- get_weather: input: missing required property "city"') }]);
+    });
+
+    it('重新请求仍不合法时返回第一次的响应', async () => {
+        const first = message({ days: 1 });
+        const result = await enforceToolArgs(request, first, 'reask', async () => message({}, 7));
+        expect(result.message.content).toEqual(first.content);
+        expect(result.invalid).toHaveLength(1);
+    });
+});
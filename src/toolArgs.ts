@@ -0,0 +1,354 @@
+/**
+ * 工具调用参数的修复与校验
+ *
+ * 上游返回的工具参数不一定是合法 JSON：输出被 max_tokens 截断、尾随逗号、单引号字符串、包在 markdown 代码块中、
+ * 或者整个 JSON 被再编码成字符串。这里先尽量修复为 JSON 对象，再按请求中工具的 input_schema 校验。
+ * TOOL_ARGS_REPAIR 控制代理的处理：
+ * - off：只在非流式响应中修复（避免解析失败导致 500），流式参数原样透传
+ * - repair：流式响应中缓存每个工具调用的参数，结束时修复后一次性输出；校验失败记录日志
+ * - reask：在 repair 的基础上，参数无法修复或不符合 input_schema 时附加错误说明重新请求一次
+ */
+
+import type { ClaudeMessagesRequest, StreamProgress } from './index';
+import { appendSystem } from './systemPrompt';
+import { addUsage } from './toolChoice';
+
+export type ToolArgsRepair = 'off' | 'repair' | 'reask';
+
+/**
+ * 解析 TOOL_ARGS_REPAIR，无法识别的值视为 off。
+ */
+export function parseToolArgsRepair(value: string | undefined): ToolArgsRepair {
+    return value === 'repair' || value === 'reask' ? value : 'off';
+}
+
+export interface RepairedJson {
+    value: any;
+    /**
+     * 做过的修复，如 "truncated"、"trailing comma"，原样合法时为空。
+     */
+    repairs: string[];
+}
+
+interface CutPoint {
+    length: number;
+    closers: string[];
+}
+
+/**
+ * 逐字符扫描：单引号字符串改为双引号，去掉 } ] 之前的尾随逗号，记录可以截断的位置（容器开始和逗号之前）。
+ */
+function normalizeJson(text: string, repairs: Set<string>): { out: string; closers: string[]; inString: boolean; cutPoints: CutPoint[] } {
+    let out = '';
+    const closers: string[] = [];
+    const cutPoints: CutPoint[] = [];
+    let quote: '"' | "'" | null = null;
+    let escaped = false;
+
+    for (const char of text) {
+        if (quote) {
+            if (escaped) {
+                escaped = false;
+                // 单引号字符串中的 \' 在 JSON 中不需要转义
+                out += quote === "'" && char === "'" ? "'" : `\\${char}`;
+            } else if (char === '\\') {
+                escaped = true;
+            } else if (char === quote) {
+                out += '"';
+                quote = null;
+            } else {
+                out += char === '"' ? '\\"' : char;
+            }
+            continue;
+        }
+        if (char === '"' || char === "'") {
+            if (char === "'") repairs.add('single quotes');
+            quote = char;
+            out += '"';
+        } else if (char === '{' || char === '[') {
+            out += char;
+            closers.push(char === '{' ? '}' : ']');
+            cutPoints.push({ length: out.length, closers: [...closers] });
+        } else if (char === '}' || char === ']') {
+            const trimmed = out.replace(/\s+$/, '');
+            if (trimmed.endsWith(',')) {
+                repairs.add('trailing comma');
+                out = trimmed.slice(0, -1);
+            }
+            out += char;
+            closers.pop();
+        } else if (char === ',') {
+            cutPoints.push({ length: out.length, closers: [...closers] });
+            out += char;
+        } else {
+            out += char;
+        }
+    }
+    return { out, closers, inString: quote !== null, cutPoints };
+}
+
+function tryParse(text: string): { ok: true; value: any } | { ok: false } {
+    try {
+        return { ok: true, value: JSON.parse(text) };
+    } catch {
+        return { ok: false };
+    }
+}
+
+function close(text: string, closers: string[]): string {
+    return text.replace(/[\s,]+$/, '') + [...closers].reverse().join('');
+}
+
+/**
+ * 修复不合法的 JSON 文本，无法修复时返回 null。
+ * 截断的 JSON 补全未结束的字符串和括号；最后一个成员不完整（如只有键名）时丢弃该成员。
+ */
+export function repairJson(raw: string): RepairedJson | null {
+    const repairs = new Set<string>();
+    let text = raw.trim();
+    const fenced = text.match(/^```[a-zA-Z]*\s*([\s\S]*?)\s*(?:```)?$/);
+    if (fenced) {
+        repairs.add('markdown fence');
+        text = fenced[1];
+    }
+
+    let parsed = tryParse(text);
+    if (!parsed.ok) {
+        const { out, closers, inString, cutPoints } = normalizeJson(text, repairs);
+        parsed = tryParse(out);
+        if (!parsed.ok) {
+            repairs.add('truncated');
+            const head = inString ? `${out.replace(/\\$/, '')}"` : out;
+            parsed = tryParse(close(head, closers));
+            for (let i = cutPoints.length - 1; i >= 0 && !parsed.ok; i--) {
+                parsed = tryParse(close(out.slice(0, cutPoints[i].length), cutPoints[i].closers));
+            }
+        }
+    }
+    if (!parsed.ok) return null;
+
+    let value = parsed.value;
+    if (typeof value === 'string') {
+        const inner = repairJson(value);
+        if (!inner) return { value, repairs: [...repairs] };
+        repairs.add('double-encoded');
+        inner.repairs.forEach(repair => repairs.add(repair));
+        value = inner.value;
+    }
+    return { value, repairs: [...repairs] };
+}
+
+const MAX_ERRORS = 10;
+
+function typeOf(value: any): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+    return typeof value;
+}
+
+function matchesType(value: any, type: string): boolean {
+    const actual = typeOf(value);
+    return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * 只支持本地引用（#/$defs/...、#/definitions/...）。
+ */
+function resolveRef(root: any, ref: string): any {
+    if (!ref.startsWith('#')) return undefined;
+    return ref.substring(1).split('/').filter(Boolean).reduce((node, key) => node?.[key.replace(/~1/g, '/').replace(/~0/g, '~')], root);
+}
+
+function validateNode(value: any, schema: any, path: string, root: any, errors: string[], depth: number) {
+    if (errors.length >= MAX_ERRORS || !schema || typeof schema !== 'object' || depth > 64) return;
+    if (typeof schema.$ref === 'string') {
+        const target = resolveRef(root, schema.$ref);
+        if (target) validateNode(value, target, path, root, errors, depth + 1);
+    }
+
+    if (schema.type !== undefined) {
+        const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(type => matchesType(value, type))) {
+            errors.push(`${path}: expected ${types.join(' | ')}, got ${typeOf(value)}`);
+            return;
+        }
+    }
+    if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+        errors.push(`${path}: expected ${JSON.stringify(schema.const)}`);
+    }
+    if (Array.isArray(schema.enum) && !schema.enum.some((option: any) => JSON.stringify(option) === JSON.stringify(value))) {
+        errors.push(`${path}: must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}`);
+    }
+
+    for (const sub of Array.isArray(schema.allOf) ? schema.allOf : []) {
+        validateNode(value, sub, path, root, errors, depth + 1);
+    }
+    const alternatives = Array.isArray(schema.anyOf) ? schema.anyOf : Array.isArray(schema.oneOf) ? schema.oneOf : null;
+    if (alternatives?.length && !alternatives.some((sub: any) => validateSchema(value, sub, path, root).length === 0)) {
+        errors.push(`${path}: does not match any of the allowed schemas`);
+    }
+
+    if (typeof value === 'string') {
+        if (typeof schema.minLength === 'number' && value.length < schema.minLength) errors.push(`${path}: shorter than ${schema.minLength} characters`);
+        if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) errors.push(`${path}: longer than ${schema.maxLength} characters`);
+        if (typeof schema.pattern === 'string') {
+            let pattern: RegExp | null = null;
+            try {
+                pattern = new RegExp(schema.pattern, 'u');
+            } catch {
+                // 无法编译的模式不校验
+            }
+            if (pattern && !pattern.test(value)) errors.push(`${path}: does not match pattern ${schema.pattern}`);
+        }
+    } else if (typeof value === 'number') {
+        if (typeof schema.minimum === 'number' && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+        if (typeof schema.maximum === 'number' && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+        if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+        if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+    } else if (Array.isArray(value)) {
+        if (typeof schema.minItems === 'number' && value.length < schema.minItems) errors.push(`${path}: must have at least ${schema.minItems} items`);
+        if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) errors.push(`${path}: must have at most ${schema.maxItems} items`);
+        if (schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)) {
+            value.forEach((item, index) => validateNode(item, schema.items, `${path}[${index}]`, root, errors, depth + 1));
+        }
+    } else if (value && typeof value === 'object') {
+        for (const key of Array.isArray(schema.required) ? schema.required : []) {
+            if (!(key in value)) errors.push(`${path}: missing required property "${key}"`);
+        }
+        const properties = schema.properties && typeof schema.properties === 'object' ? schema.properties : {};
+        for (const [key, item] of Object.entries(value)) {
+            if (key in properties) {
+                validateNode(item, properties[key], `${path}.${key}`, root, errors, depth + 1);
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}: unexpected property "${key}"`);
+            } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+                validateNode(item, schema.additionalProperties, `${path}.${key}`, root, errors, depth + 1);
+            }
+        }
+    }
+}
+
+/**
+ * 按 JSON Schema 的常用子集校验（type / enum / const / properties / required / additionalProperties / items /
+ * allOf / anyOf / oneOf / 长度与范围 / pattern / 本地 $ref），不认识的关键字忽略。返回错误说明，最多 10 条。
+ */
+export function validateSchema(value: any, schema: any, path = 'input', root: any = schema): string[] {
+    const errors: string[] = [];
+    validateNode(value, schema, path, root, errors, 0);
+    return errors.slice(0, MAX_ERRORS);
+}
+
+export interface ToolArguments {
+    /**
+     * 工具调用的 input；无法修复为 JSON 对象时为 { input_str: 原始参数 }。
+     */
+    input: any;
+    repairs: string[];
+    /**
+     * 无法修复或不符合 input_schema 时的错误说明；没有 schema 时只检查能否修复。
+     */
+    errors: string[];
+}
+
+/**
+ * 解析上游的工具参数：空参数视为 {}，不合法时修复，有 schema 时校验。
+ */
+export function resolveToolArguments(raw: string | undefined, schema?: any): ToolArguments {
+    if (!raw || !raw.trim()) {
+        return { input: {}, repairs: [], errors: schema ? validateSchema({}, schema) : [] };
+    }
+    const repaired = repairJson(raw);
+    if (!repaired || typeOf(repaired.value) !== 'object') {
+        return { input: { input_str: raw }, repairs: [], errors: ['arguments are not a valid JSON object'] };
+    }
+    return { input: repaired.value, repairs: repaired.repairs, errors: schema ? validateSchema(repaired.value, schema) : [] };
+}
+
+/**
+ * 请求中各工具的 input_schema，按工具名索引；没有工具时返回 undefined。
+ */
+export function toolSchemasOf(request: ClaudeMessagesRequest): Record<string, any> | undefined {
+    if (!request.tools?.length) return undefined;
+    return Object.fromEntries(request.tools.map(tool => [tool.name, tool.input_schema]));
+}
+
+export interface InvalidToolUse {
+    id: string;
+    name: string;
+    errors: string[];
+}
+
+/**
+ * 校验响应中的每个 tool_use；未知工具名同样视为错误。
+ */
+export function findInvalidToolUses(request: ClaudeMessagesRequest, message: any): InvalidToolUse[] {
+    const schemas = toolSchemasOf(request);
+    if (!schemas) return [];
+    const invalid: InvalidToolUse[] = [];
+    for (const block of message?.content || []) {
+        if (block.type !== 'tool_use') continue;
+        const errors = block.name in schemas
+            ? (block.input && 'input_str' in block.input && Object.keys(block.input).length === 1
+                ? ['arguments are not a valid JSON object']
+                : validateSchema(block.input, schemas[block.name]))
+            : [`unknown tool "${block.name}"`];
+        if (errors.length > 0) invalid.push({ id: block.id, name: block.name, errors });
+    }
+    return invalid;
+}
+
+/**
+ * 流式转换中记录不合法的工具调用，errors 为空时不记录。
+ */
+export function recordInvalidToolUse(progress: StreamProgress, id: string, name: string, errors: string[]) {
+    if (errors.length === 0) return;
+    (progress.invalidToolUses ??= []).push({ id, name, errors });
+}
+
+/**
+ * 重新请求时在 system 末尾附加上一次参数的错误说明。
+ */
+export function withToolArgsReminder(request: ClaudeMessagesRequest, invalid: InvalidToolUse[]): ClaudeMessagesRequest {
+    const details = invalid.map(call => `- ${call.name}: ${call.errors.join('; ')}`).join('\n');
+    const reminder = `Your previous tool call had invalid arguments:\n${details}\nCall the tool again with arguments that are a valid JSON object matching its input schema.`;
+    return appendSystem(request, reminder);
+}
+
+export interface ToolArgsEnforcementResult {
+    message: any;
+    /**
+     * 最终响应中仍然不合法的工具调用。
+     */
+    invalid: InvalidToolUse[];
+    reasked: boolean;
+}
+
+/**
+ * 按模式校验非流式响应的工具参数，reask 时重新请求一次。
+ * 重新请求的 usage 计入最终响应；重新请求仍不合法或失败时返回第一次的响应。
+ * @param reask 以附加了错误说明的请求重新请求上游，失败时返回 null。
+ */
+export async function enforceToolArgs(
+    request: ClaudeMessagesRequest,
+    message: any,
+    mode: ToolArgsRepair,
+    reask: (request: ClaudeMessagesRequest) => Promise<any | null>
+): Promise<ToolArgsEnforcementResult> {
+    if (mode === 'off') {
+        return { message, invalid: [], reasked: false };
+    }
+    const invalid = findInvalidToolUses(request, message);
+    if (mode !== 'reask' || invalid.length === 0) {
+        return { message, invalid, reasked: false };
+    }
+    const retried = await reask(withToolArgsReminder(request, invalid));
+    if (!retried) {
+        return { message, invalid, reasked: true };
+    }
+    const usage = addUsage(message.usage, retried.usage);
+    const retriedInvalid = findInvalidToolUses(request, retried);
+    return retriedInvalid.length === 0
+        ? { message: { ...retried, usage }, invalid: [], reasked: true }
+        : { message: { ...message, usage }, invalid, reasked: true };
+}
@@ -0,0 +1,110 @@
+/**
+ * 单元测试：tool_choice 约束
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { enforceToolChoice, missingRequiredToolCall, parseToolChoiceEnforcement, truncateToFirstToolUse, withToolCallReminder } from './toolChoice';
+import type { ClaudeMessagesRequest } from './index';
+
+const tools = [
+    { name: 'read', input_schema: { type: 'object' } },
+    { name: 'write', input_schema: { type: 'object' } },
+];
+
+function request(toolChoice: ClaudeMessagesRequest['tool_choice']): ClaudeMessagesRequest {
+    return { model: 'claude-test', max_tokens: 16, messages: [{ role: 'user', content: 'hi' }], tools, tool_choice: toolChoice };
+}
+
+function message(content: any[], outputTokens = 5) {
+    return { id: 'msg_1', type: 'message', role: 'assistant', content, stop_reason: 'tool_use', usage: { input_tokens: 10, output_tokens: outputTokens } };
+}
+
+const text = { type: 'text', text: 'Let me check.' };
+const readCall = { type: 'tool_use', id: 'call_1', name: 'read', input: { path: 'a' } };
+const writeCall = { type: 'tool_use', id: 'call_2', name: 'write', input: { path: 'b' } };
+
+describe('parseToolChoiceEnforcement', () => {
+    it('无法识别的值视为 off', () => {
+        expect(parseToolChoiceEnforcement('truncate')).toBe('truncate');
+        expect(parseToolChoiceEnforcement('reask')).toBe('reask');
+        expect(parseToolChoiceEnforcement(undefined)).toBe('off');
+        expect(parseToolChoiceEnforcement('yes')).toBe('off');
+    });
+});
+
+describe('missingRequiredToolCall', () => {
+    it('any 要求至少一个工具调用', () => {
+        expect(missingRequiredToolCall(request({ type: 'any' }), message([text]))).toBe(true);
+        expect(missingRequiredToolCall(request({ type: 'any' }), message([readCall]))).toBe(false);
+    });
+
+    it('指定工具时调用其他工具也算违反', () => {
+        expect(missingRequiredToolCall(request({ type: 'tool', name: 'write' }), message([readCall]))).toBe(true);
+        expect(missingRequiredToolCall(request({ type: 'tool', name: 'write' }), message([writeCall]))).toBe(false);
+    });
+
+    it('auto 没有要求', () => {
+        expect(missingRequiredToolCall(request({ type: 'auto' }), message([text]))).toBe(false);
+    });
+});
+
+describe('truncateToFirstToolUse', () => {
+    it('保留文本和第一个工具调用', () => {
+        const result = truncateToFirstToolUse(message([text, readCall, writeCall]));
+        expect(result.truncated).toBe(1);
+        expect(result.message.content).toEqual([text, readCall]);
+    });
+});
+
+describe('withToolCallReminder', () => {
+    it('在 system 末尾追加提示', () => {
+        const result = withToolCallReminder({ ...request({ type: 'tool', name: 'read' }), system: 'Be brief.' });
+        expect(result.system).toBe('Be brief.\n\nYou must respond by calling the "read" tool.');
+    });
+
+    it('system 为 text 块数组时追加提示块', () => {
+        const result = withToolCallReminder({ ...request({ type: 'any' }), system: [{ type: 'text', text: 'Be brief.' }] });
+        expect(result.system).toEqual([{ type: 'text', text: 'Be brief.' }, { type: 'text', text: 'You must respond by calling one of the provided tools.' }]);
+    });
+});
+
+describe('enforceToolChoice', () => {
+    it('off 模式不做任何处理', async () => {
+        const reask = vi.fn();
+        const original = message([readCall, writeCall]);
+        const result = await enforceToolChoice(request({ type: 'any', disable_parallel_tool_use: true }), original, 'off', reask);
+        expect(result.message).toBe(original);
+        expect(reask).not.toHaveBeenCalled();
+    });
+
+    it('truncate 模式丢弃并行的工具调用，但不重新请求', async () => {
+        const reask = vi.fn();
+        const req = request({ type: 'any', disable_parallel_tool_use: true });
+        expect((await enforceToolChoice(req, message([readCall, writeCall]), 'truncate', reask)).message.content).toEqual([readCall]);
+
+        const result = await enforceToolChoice(req, message([text]), 'truncate', reask);
+        expect(result.satisfied).toBe(false);
+        expect(reask).not.toHaveBeenCalled();
+    });
+
+    it('reask 模式在没有工具调用时带提示重新请求，并累加 usage', async () => {
+        const reask = vi.fn().mockResolvedValue(message([readCall], 7));
+        const result = await enforceToolChoice(request({ type: 'any' }), message([text]), 'reask', reask);
+
+        expect(reask).toHaveBeenCalledTimes(1);
+        expect(reask.mock.calls[0][0].system).toBe('You must respond by calling one of the provided tools.');
+        expect(result.reasked).toBe(true);
+        expect(result.satisfied).toBe(true);
+        expect(result.message.content).toEqual([readCall]);
+        expect(result.message.usage).toMatchObject({ input_tokens: 20, output_tokens: 12 });
+    });
+
+    it('重新请求仍不满足或失败时返回第一次的响应', async () => {
+        const first = message([text]);
+        const stillText = await enforceToolChoice(request({ type: 'any' }), first, 'reask', vi.fn().mockResolvedValue(message([text])));
+        expect(stillText.satisfied).toBe(false);
+        expect(stillText.message.content).toEqual([text]);
+
+        const failed = await enforceToolChoice(request({ type: 'any' }), first, 'reask', vi.fn().mockResolvedValue(null));
+        expect(failed.message).toBe(first);
+    });
+});
@@ -0,0 +1,132 @@
+/**
+ * tool_choice 约束
+ *
+ * tool_choice.type 为 "any" 时映射为 OpenAI 的 "required"，disable_parallel_tool_use 映射为 parallel_tool_calls: false。
+ * 部分上游会忽略这些提示，TOOL_CHOICE_ENFORCEMENT 开启后由代理在拿到响应后保证约束：
+ * - truncate：禁止并行调用时只保留第一个工具调用
+ * - reask：在 truncate 的基础上，要求调用工具但响应没有调用（或调用了其他工具）时，附加提示重新请求一次
+ */
+
+import type { ClaudeMessagesRequest, ClaudeUsage } from './index';
+import { appendSystem } from './systemPrompt';
+
+export type ToolChoiceEnforcement = 'off' | 'truncate' | 'reask';
+
+export interface ToolChoiceEnforcementResult {
+    message: any;
+    /**
+     * 被丢弃的多余工具调用数。
+     */
+    truncated: number;
+    reasked: boolean;
+    /**
+     * 最终响应是否满足"必须调用工具"的要求（请求没有该要求时为 true）。
+     */
+    satisfied: boolean;
+}
+
+/**
+ * 解析 TOOL_CHOICE_ENFORCEMENT，无法识别的值视为 off。
+ */
+export function parseToolChoiceEnforcement(value: string | undefined): ToolChoiceEnforcement {
+    return value === 'truncate' || value === 'reask' ? value : 'off';
+}
+
+/**
+ * 请求是否要求必须调用工具（tool_choice 为 any 或指定工具）。
+ */
+export function requiresToolCall(request: ClaudeMessagesRequest): boolean {
+    const type = request.tool_choice?.type;
+    return (type === 'any' || type === 'tool') && !!request.tools?.length;
+}
+
+/**
+ * 请求是否禁止并行工具调用。
+ */
+export function disallowsParallelToolUse(request: ClaudeMessagesRequest): boolean {
+    return !!request.tool_choice?.disable_parallel_tool_use && request.tool_choice.type !== 'none';
+}
+
+/**
+ * 响应是否违反了"必须调用工具"的要求：没有 tool_use，或指定工具时调用了其他工具。
+ */
+export function missingRequiredToolCall(request: ClaudeMessagesRequest, message: any): boolean {
+    if (!requiresToolCall(request)) return false;
+    const toolUses = (message?.content || []).filter((block: any) => block.type === 'tool_use');
+    if (request.tool_choice!.type === 'tool') {
+        return !toolUses.some((block: any) => block.name === request.tool_choice!.name);
+    }
+    return toolUses.length === 0;
+}
+
+/**
+ * 只保留第一个 tool_use，之后的 tool_use 全部丢弃。
+ */
+export function truncateToFirstToolUse(message: any): { message: any; truncated: number } {
+    let seen = false;
+    let truncated = 0;
+    const content = (message.content || []).filter((block: any) => {
+        if (block.type !== 'tool_use') return true;
+        if (seen) {
+            truncated++;
+            return false;
+        }
+        seen = true;
+        return true;
+    });
+    return truncated > 0 ? { message: { ...message, content }, truncated } : { message, truncated };
+}
+
+/**
+ * 重新请求时在 system 末尾追加必须调用工具的提示。
+ */
+export function withToolCallReminder(request: ClaudeMessagesRequest): ClaudeMessagesRequest {
+    const reminder = request.tool_choice?.type === 'tool'
+        ? `You must respond by calling the "${request.tool_choice.name}" tool.`
+        : 'You must respond by calling one of the provided tools.';
+    return appendSystem(request, reminder);
+}
+
+/**
+ * 合计两次请求的 usage，重新请求时使用。
+ */
+export function addUsage(a: ClaudeUsage | undefined, b: ClaudeUsage | undefined): ClaudeUsage | undefined {
+    if (!a || !b) return a || b;
+    return {
+        input_tokens: (a.input_tokens || 0) + (b.input_tokens || 0),
+        output_tokens: (a.output_tokens || 0) + (b.output_tokens || 0),
+        cache_read_input_tokens: (a.cache_read_input_tokens || 0) + (b.cache_read_input_tokens || 0),
+        cache_creation_input_tokens: (a.cache_creation_input_tokens || 0) + (b.cache_creation_input_tokens || 0),
+    };
+}
+
+/**
+ * 按 enforcement 模式检查非流式响应，必要时重新请求或截断工具调用。
+ * 重新请求的 usage 计入最终响应；重新请求仍不满足时返回第一次的响应。
+ * @param reask 以追加了提示的请求重新请求上游，失败时返回 null。
+ */
+export async function enforceToolChoice(
+    request: ClaudeMessagesRequest,
+    message: any,
+    mode: ToolChoiceEnforcement,
+    reask: (request: ClaudeMessagesRequest) => Promise<any | null>
+): Promise<ToolChoiceEnforcementResult> {
+    if (mode === 'off') {
+        return { message, truncated: 0, reasked: false, satisfied: !missingRequiredToolCall(request, message) };
+    }
+    let result = message;
+    let reasked = false;
+    if (mode === 'reask' && missingRequiredToolCall(request, result)) {
+        reasked = true;
+        const retried = await reask(withToolCallReminder(request));
+        if (retried) {
+            const usage = addUsage(message.usage, retried.usage);
+            result = missingRequiredToolCall(request, retried) ? { ...message, usage } : { ...retried, usage };
+        }
+    }
+    let truncated = 0;
+    if (disallowsParallelToolUse(request)) {
+        ({ message: result, truncated } = truncateToFirstToolUse(result));
+    }
+    return { message: result, truncated, reasked, satisfied: !missingRequiredToolCall(request, result) };
+}
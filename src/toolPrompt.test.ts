@@ -0,0 +1,108 @@
+/**
+ * 单元测试：基于提示词的工具调用模拟
+ */
+import { describe, it, expect } from 'vitest';
+import { parseToolCallText, promptToolUseId, ToolCallTextParser, withPromptTools } from './toolPrompt';
+import type { ClaudeMessagesRequest } from './index';
+
+const request: ClaudeMessagesRequest = {
+    model: 'local-qwen',
+    max_tokens: 256,
+    system: 'You are a coding agent.',
+    tools: [{ name: 'read', description: 'Read a file', input_schema: { type: 'object', properties: { path: { type: 'string' } } } }],
+    tool_choice: { type: 'any', disable_parallel_tool_use: true },
+    messages: [
+        { role: 'user', content: 'open a.ts' },
+        { role: 'assistant', content: [{ type: 'text', text: 'Reading.' }, { type: 'tool_use', id: 'toolu_1', name: 'read', input: { path: 'a.ts' } }] },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: 'export {}' }] }] },
+    ],
+};
+
+describe('withPromptTools', () => {
+    it('工具定义写入 system，去掉 tools 和 tool_choice', () => {
+        const converted = withPromptTools(request);
+        expect(converted.tools).toBeUndefined();
+        expect(converted.tool_choice).toBeUndefined();
+        expect(converted.system).toMatch(/^You are a coding agent\.\n\nYou can call the following tools/);
+        expect(converted.system).toContain('{"name":"read","description":"Read a file","input_schema":{"type":"object","properties":{"path":{"type":"string"}}}}');
+        expect(converted.system).toContain('You must call at least one tool in this response.');
+        expect(converted.system).toContain('Call at most one tool in this response.');
+    });
+
+    it('历史中的 tool_use / tool_result 改写为文本协议', () => {
+        const converted = withPromptTools(request);
+        expect(converted.messages[1].content).toEqual([
+            { type: 'text', text: 'Reading.' },
+            { type: 'text', text: '<tool_call>\n{"name":"read","input":{"path":"a.ts"}}\n</tool_call>' },
+        ]);
+        expect(converted.messages[2].content).toEqual([{ type: 'text', text: '<tool_result name="read">\nexport {}\n</tool_result>' }]);
+    });
+
+    it('tool_result 的工具名转义，is_error 写入属性', () => {
+        const converted = withPromptTools({ ...request, messages: [
+            { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'a"><b&c', input: {} }] },
+            { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'failed', is_error: true }] },
+        ] });
+        expect(converted.messages[1].content).toEqual([{ type: 'text', text: '<tool_result name="a&quot;>&lt;b&amp;c" is_error="true">\nfailed\n</tool_result>' }]);
+    });
+
+    it('system 为 text 块数组时追加工具说明块，保留原有的块', () => {
+        const system = [{ type: 'text' as const, text: 'You are a coding agent.', cache_control: { type: 'ephemeral' } }];
+        const converted = withPromptTools({ ...request, system });
+        expect(Array.isArray(converted.system)).toBe(true);
+        const blocks = converted.system as any[];
+        expect(blocks[0]).toEqual(system[0]);
+        expect(blocks).toHaveLength(2);
+        expect(blocks[1].text).toMatch(/^You can call the following tools/);
+    });
+
+    it('tool_choice 为 none 时不列出工具', () => {
+        const converted = withPromptTools({ ...request, tool_choice: { type: 'none' } });
+        expect(converted.system).toBe('You are a coding agent.');
+        expect(converted.messages[2].content).toHaveLength(1);
+    });
+});
+
+describe('parseToolCallText', () => {
+    it('解析正文和多个调用，去掉调用两侧的空白', () => {
+        expect(parseToolCallText('Let me look.\n<tool_call>\n{"name": "read", "input": {"path": "a.ts"}}\n</tool_call>\n<tool_call>{"name": "read", "arguments": {"path": "b.ts"}}</tool_call>\n')).toEqual([
+            { type: 'text', text: 'Let me look.' },
+            { type: 'tool_call', name: 'read', input: { path: 'a.ts' } },
+            { type: 'tool_call', name: 'read', input: { path: 'b.ts' } },
+        ]);
+    });
+
+    it('无法解析的块原样作为正文，未闭合的块按截断的调用修复', () => {
+        expect(parseToolCallText('<tool_call>oops</tool_call>')).toEqual([{ type: 'text', text: '<tool_call>oops</tool_call>' }]);
+        expect(parseToolCallText('<tool_call>{"name": "read", "input": {"path": "a.')).toEqual([
+            { type: 'tool_call', name: 'read', input: { path: 'a.' } },
+        ]);
+    });
+});
+
+describe('ToolCallTextParser', () => {
+    it('标记被拆分到多个增量中时正确识别', () => {
+        const parser = new ToolCallTextParser();
+        const events = ['Sure', ' thing.\n<tool', '_call>{"name": "read", ', '"input": {}}</tool_', 'call>', ' Done', '.'].flatMap(text => parser.push(text));
+        expect([...events, ...parser.flush()]).toEqual([
+            { type: 'text', text: 'Sure' },
+            { type: 'text', text: ' thing.' },
+            { type: 'tool_call', name: 'read', input: {} },
+            { type: 'text', text: 'Done' },
+            { type: 'text', text: '.' },
+        ]);
+    });
+
+    it('普通的 < 不会被一直暂存', () => {
+        const parser = new ToolCallTextParser();
+        expect(parser.push('a <b> c')).toEqual([{ type: 'text', text: 'a <b> c' }]);
+        expect(parser.push(' <')).toEqual([]);
+        expect(parser.flush()).toEqual([{ type: 'text', text: ' <' }]);
+    });
+});
+
+describe('promptToolUseId', () => {
+    it('由消息 id 和序号生成', () => {
+        expect(promptToolUseId('msg_abc', 1)).toBe('toolu_abc_1');
+    });
+});
@@ -0,0 +1,222 @@
+/**
+ * 基于提示词的工具调用模拟
+ *
+ * 部分本地模型（小规模的 Ollama / vLLM 部署）不支持 tools 参数。路由配置 toolCalling: "prompt" 后：
+ * - 请求中的工具定义写入 system，历史中的 tool_use / tool_result 改写为文本协议，不再发送 tools
+ * - 模型以如下格式调用工具，代理从正文中解析（非流式与流式增量解析），转换为 tool_use 块和 stop_reason: "tool_use"
+ *
+ *     <tool_call>
+ *     {"name": "get_weather", "input": {"city": "Paris"}}
+ *     </tool_call>
+ */
+
+import type { ClaudeMessage, ClaudeMessagesRequest, ClaudeTextBlock } from './index';
+import { appendSystem } from './systemPrompt';
+import { repairJson } from './toolArgs';
+
+const CALL_OPEN = '<tool_call>';
+const CALL_CLOSE = '</tool_call>';
+
+/**
+ * 工具定义、调用格式和 tool_choice 约束的说明，追加在 system 末尾。
+ */
+function toolInstructions(request: ClaudeMessagesRequest): string {
+    const tools = (request.tools || []).map(tool => JSON.stringify({ name: tool.name, description: tool.description, input_schema: tool.input_schema }));
+    const lines = [
+        'You can call the following tools. Each tool is described by its name, description and the JSON Schema of its input:',
+        '<tools>',
+        ...tools,
+        '</tools>',
+        '',
+        'To call a tool, write a block in exactly this format, with the tool name and an input object that matches its schema:',
+        CALL_OPEN,
+        '{"name": "tool_name", "input": {"arg": "value"}}',
+        CALL_CLOSE,
+        'You may write some text before the block. To call several tools, write one block per call.',
+        'After your tool calls, stop and wait: each result is sent back in a <tool_result> block. Never write <tool_result> blocks yourself.',
+    ];
+    const choice = request.tool_choice;
+    if (choice?.type === 'any') {
+        lines.push('You must call at least one tool in this response.');
+    } else if (choice?.type === 'tool' && choice.name) {
+        lines.push(`You must call the tool "${choice.name}" in this response.`);
+    }
+    if (choice?.disable_parallel_tool_use) {
+        lines.push('Call at most one tool in this response.');
+    }
+    return lines.join('\n');
+}
+
+function toolCallText(block: ClaudeTextBlock): string {
+    return `${CALL_OPEN}\n${JSON.stringify({ name: block.name, input: block.input ?? {} })}\n${CALL_CLOSE}`;
+}
+
+/**
+ * 转义属性值中的 &、<、"，避免工具名闭合属性或标签。
+ */
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * tool_result 改写为文本块，内容中的图片作为独立的块跟在后面。
+ */
+function toolResultBlocks(block: ClaudeTextBlock, names: Map<string, string>): ClaudeTextBlock[] {
+    const parts: string[] = [];
+    const images: ClaudeTextBlock[] = [];
+    if (typeof block.content === 'string') {
+        parts.push(block.content);
+    } else if (Array.isArray(block.content)) {
+        for (const item of block.content) {
+            if (item.type === 'text') parts.push(item.text ?? '');
+            else if (item.type === 'image') images.push(item);
+            else parts.push(JSON.stringify(item));
+        }
+    } else if (block.content !== undefined) {
+        parts.push(JSON.stringify(block.content));
+    }
+    const name = block.tool_use_id ? names.get(block.tool_use_id) : undefined;
+    const attributes = `${name ? ` name="${escapeAttribute(name)}"` : ''}${block.is_error ? ' is_error="true"' : ''}`;
+    return [{ type: 'text', text: `<tool_result${attributes}>\n${parts.join('\n')}\n</tool_result>` }, ...images];
+}
+
+/**
+ * 去掉 tools / tool_choice，工具说明写入 system，历史中的 tool_use / tool_result 改写为文本协议。
+ * tool_choice 为 none 时不列出工具，只改写历史。
+ */
+export function withPromptTools(request: ClaudeMessagesRequest): ClaudeMessagesRequest {
+    const names = new Map<string, string>();
+    const messages: ClaudeMessage[] = request.messages.map(message => {
+        if (!Array.isArray(message.content)) return message;
+        const content = message.content.flatMap((block): ClaudeTextBlock[] => {
+            if (block.type === 'tool_use') {
+                if (block.id && block.name) names.set(block.id, block.name);
+                return [{ type: 'text', text: toolCallText(block) }];
+            }
+            if (block.type === 'tool_result') {
+                return toolResultBlocks(block, names);
+            }
+            return [block];
+        });
+        return { ...message, content };
+    });
+    const { tools, tool_choice, ...rest } = request;
+    if (!tools?.length || tool_choice?.type === 'none') {
+        return { ...rest, messages };
+    }
+    return appendSystem({ ...rest, messages }, toolInstructions(request));
+}
+
+export type ToolCallTextEvent =
+    | { type: 'text'; text: string }
+    | { type: 'tool_call'; name: string; input: any };
+
+/**
+ * 解析 <tool_call> 块的内容：{"name", "input"}（也接受 arguments / parameters），必要时经 repairJson 修复。
+ */
+function parseToolCall(body: string): { name: string; input: any } | null {
+    const parsed = repairJson(body.trim())?.value;
+    if (!parsed || typeof parsed !== 'object' || typeof parsed.name !== 'string' || !parsed.name) return null;
+    const input = parsed.input ?? parsed.arguments ?? parsed.parameters ?? {};
+    return { name: parsed.name, input: typeof input === 'object' && input !== null && !Array.isArray(input) ? input : { input_str: String(input) } };
+}
+
+/**
+ * 增量解析模型输出中的 <tool_call> 块。
+ * 正文中可能是标记开头的部分和末尾的空白暂不输出：标记之前的空白直接丢弃，块之后的前导空白同样丢弃。
+ * 无法解析的块原样作为正文输出。
+ */
+export class ToolCallTextParser {
+    private pending = '';
+    private inCall = false;
+    private afterCall = false;
+
+    push(text: string): ToolCallTextEvent[] {
+        this.pending += text;
+        const events: ToolCallTextEvent[] = [];
+        for (;;) {
+            if (this.inCall) {
+                const end = this.pending.indexOf(CALL_CLOSE);
+                if (end < 0) break;
+                this.emitCall(this.pending.slice(0, end), true, events);
+                this.pending = this.pending.slice(end + CALL_CLOSE.length);
+                this.inCall = false;
+                this.afterCall = true;
+                continue;
+            }
+            if (this.afterCall) {
+                this.pending = this.pending.replace(/^\s+/, '');
+                if (!this.pending) break;
+                this.afterCall = false;
+            }
+            const start = this.pending.indexOf(CALL_OPEN);
+            if (start >= 0) {
+                this.emitText(this.pending.slice(0, start).trimEnd(), events);
+                this.pending = this.pending.slice(start + CALL_OPEN.length);
+                this.inCall = true;
+                continue;
+            }
+            // 末尾可能是 <tool_call> 的开头，或者紧跟在调用之前的空白，暂存到下一次
+            let keep = partialPrefixLength(this.pending, CALL_OPEN);
+            const whitespace = /\s*$/.exec(this.pending.slice(0, this.pending.length - keep))![0].length;
+            keep += whitespace;
+            this.emitText(this.pending.slice(0, this.pending.length - keep), events);
+            this.pending = this.pending.slice(this.pending.length - keep);
+            break;
+        }
+        return events;
+    }
+
+    /**
+     * 输出结束：未闭合的块按截断的调用尝试解析，其余暂存内容作为正文输出。
+     */
+    flush(): ToolCallTextEvent[] {
+        const events: ToolCallTextEvent[] = [];
+        if (this.inCall) {
+            this.emitCall(this.pending, false, events);
+        } else if (!this.afterCall) {
+            this.emitText(this.pending, events);
+        }
+        this.pending = '';
+        this.inCall = false;
+        return events;
+    }
+
+    private emitText(text: string, events: ToolCallTextEvent[]) {
+        if (text) events.push({ type: 'text', text });
+    }
+
+    private emitCall(body: string, closed: boolean, events: ToolCallTextEvent[]) {
+        const call = parseToolCall(body);
+        if (call) {
+            events.push({ type: 'tool_call', ...call });
+        } else {
+            this.emitText(`${CALL_OPEN}${body}${closed ? CALL_CLOSE : ''}`, events);
+        }
+    }
+}
+
+/**
+ * text 末尾与 marker 开头重合的最大长度（不含完整的 marker）。
+ */
+function partialPrefixLength(text: string, marker: string): number {
+    for (let length = Math.min(marker.length - 1, text.length); length > 0; length--) {
+        if (text.endsWith(marker.slice(0, length))) return length;
+    }
+    return 0;
+}
+
+/**
+ * 一次性解析完整的模型输出。
+ */
+export function parseToolCallText(text: string): ToolCallTextEvent[] {
+    const parser = new ToolCallTextParser();
+    return [...parser.push(text), ...parser.flush()];
+}
+
+/**
+ * 解析出的工具调用的 id，由消息 id 和序号生成，同一响应重放时保持不变。
+ */
+export function promptToolUseId(messageId: string, index: number): string {
+    return `toolu_${messageId.replace(/^msg_/, '')}_${index}`;
+}
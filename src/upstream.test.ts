@@ -0,0 +1,147 @@
+/**
+ * 单元测试：上游故障转移
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { fetchWithFailover, formatAttempts, UpstreamUnavailableError } from './upstream';
+import type { UpstreamTarget } from './routing';
+
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+function upstream(name: string): UpstreamTarget {
+    return { name, modelName: 'm', baseUrl: `https://${name}.example.com/v1`, apiKey: 'sk' };
+}
+
+const options = { firstByteTimeoutMs: 0, waitForFirstChunk: false };
+
+describe('fetchWithFailover', () => {
+    it('5xx 和 429 时切换到下一个上游', async () => {
+        const statuses: Record<string, number> = { a: 503, b: 429, c: 200 };
+        const send = vi.fn(async (u: UpstreamTarget) => new Response('{}', { status: statuses[u.name] }));
+        const result = await fetchWithFailover([upstream('a'), upstream('b'), upstream('c')], send, options);
+        expect(result.upstream.name).toBe('c');
+        expect(formatAttempts(result.attempts)).toBe('a=503, b=429, c=200');
+    });
+
+    it('其他 4xx 不切换，直接返回', async () => {
+        const send = vi.fn(async () => new Response('{"error":"bad"}', { status: 400 }));
+        const result = await fetchWithFailover([upstream('a'), upstream('b')], send, options);
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(result.response.status).toBe(400);
+        expect(await result.response.text()).toBe('{"error":"bad"}');
+    });
+
+    it('最后一个上游的错误响应原样返回', async () => {
+        const send = vi.fn(async () => new Response('overloaded', { status: 529 }));
+        const result = await fetchWithFailover([upstream('a'), upstream('b')], send, options);
+        expect(result.upstream.name).toBe('b');
+        expect(result.response.status).toBe(529);
+    });
+
+    it('连接错误切换上游，全部失败时抛出 UpstreamUnavailableError', async () => {
+        const send = vi.fn(async () => { throw new TypeError('fetch failed'); });
+        const error = await fetchWithFailover([upstream('a'), upstream('b')], send, options).catch(e => e);
+        expect(error).toBeInstanceOf(UpstreamUnavailableError);
+        expect(error.attempts.map((a: any) => a.outcome)).toEqual(['error', 'error']);
+    });
+
+    it('首字节超时后切换上游', async () => {
+        const send = vi.fn((u: UpstreamTarget, signal: AbortSignal) => {
+            if (u.name === 'slow') {
+                return new Promise<Response>((_, reject) => {
+                    signal.addEventListener('abort', () => reject(new Error('aborted')));
+                });
+            }
+            return Promise.resolve(new Response('ok'));
+        });
+        const result = await fetchWithFailover([upstream('slow'), upstream('fast')], send, { ...options, firstByteTimeoutMs: 20 });
+        expect(result.upstream.name).toBe('fast');
+        expect(result.attempts[0].outcome).toBe('timeout');
+    });
+
+    it('流式请求等待第一个数据块，且不丢失数据', async () => {
+        const send = vi.fn(async () => new Response(new ReadableStream({
+            start(controller) {
+                controller.enqueue(new TextEncoder().encode('data: 1\n\n'));
+                controller.enqueue(new TextEncoder().encode('data: 2\n\n'));
+                controller.close();
+            },
+        })));
+        const result = await fetchWithFailover([upstream('a')], send, { ...options, waitForFirstChunk: true });
+        expect(await result.response.text()).toBe('data: 1\n\ndata: 2\n\n');
+    });
+
+    it('按重试策略重试同一上游，并统计重试次数', async () => {
+        const retryPolicy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 10, retryStatuses: [503] };
+        const statuses = [503, 503, 200];
+        const send = vi.fn(async () => new Response('{}', { status: statuses.shift() }));
+        const result = await fetchWithFailover([upstream('a')], send, { ...options, retryPolicy });
+        expect(result.response.status).toBe(200);
+        expect(result.retries).toBe(2);
+        expect(formatAttempts(result.attempts)).toBe('a=503, a=503, a=200');
+    });
+
+    it('retryable 返回 false 的错误不重试同一上游，直接切换', async () => {
+        const retryPolicy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 10, retryStatuses: [] };
+        const send = vi.fn(async (u: UpstreamTarget) => {
+            if (u.name === 'a') throw new Error('Could not decode image');
+            return new Response('{}');
+        });
+        const result = await fetchWithFailover([upstream('a'), upstream('b')], send, { ...options, retryPolicy, retryable: err => !/image/.test((err as Error).message) });
+        expect(result.retries).toBe(0);
+        expect(formatAttempts(result.attempts)).toBe('a=error, b=200');
+        expect(result.attempts[0].error).toBe('Could not decode image');
+    });
+
+    it('切换与重试通过 options.warn 记录', async () => {
+        const retryPolicy = { maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 10, retryStatuses: [503] };
+        const warn = vi.fn();
+        const send = vi.fn(async (u: UpstreamTarget) => new Response('{}', { status: u.name === 'a' ? 503 : 200 }));
+        await fetchWithFailover([upstream('a'), upstream('b')], send, { ...options, retryPolicy, warn });
+        expect(warn.mock.calls.map(call => call[0])).toEqual([
+            expect.stringMatching(/^\[retry\] upstream a returned 503, retry 1\/1 in \d+ms$/),
+            '[failover] upstream a returned 503, trying next upstream',
+        ]);
+    });
+
+    it('Retry-After 超过上限时不再重试，直接切换上游', async () => {
+        const retryPolicy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 10, retryStatuses: [429] };
+        const send = vi.fn(async (u: UpstreamTarget) => u.name === 'a'
+            ? new Response('{}', { status: 429, headers: { 'retry-after': '30' } })
+            : new Response('{}'));
+        const result = await fetchWithFailover([upstream('a'), upstream('b')], send, { ...options, retryPolicy });
+        expect(result.retries).toBe(0);
+        expect(formatAttempts(result.attempts)).toBe('a=429, b=200');
+    });
+
+    it('重试耗尽后返回最后一个错误响应', async () => {
+        const retryPolicy = { maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 10, retryStatuses: [502] };
+        const send = vi.fn(async () => new Response('bad gateway', { status: 502 }));
+        const result = await fetchWithFailover([upstream('a')], send, { ...options, retryPolicy });
+        expect(send).toHaveBeenCalledTimes(2);
+        expect(result.response.status).toBe(502);
+        expect(await result.response.text()).toBe('bad gateway');
+    });
+
+    it('客户端断开时中止当前请求，不再切换上游', async () => {
+        const client = new AbortController();
+        const send = vi.fn((u: UpstreamTarget, signal: AbortSignal) => new Promise<Response>((_, reject) => {
+            signal.addEventListener('abort', () => reject(signal.reason));
+            client.abort(new Error('Client disconnected'));
+        }));
+        const error = await fetchWithFailover([upstream('a'), upstream('b')], send, { ...options, signal: client.signal }).catch(e => e);
+        expect(error.message).toBe('Client disconnected');
+        expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('客户端断开时中断重试等待', async () => {
+        const client = new AbortController();
+        const retryPolicy = { maxAttempts: 3, baseDelayMs: 60000, maxDelayMs: 60000, retryStatuses: [503] };
+        const send = vi.fn(async () => {
+            setTimeout(() => client.abort(new Error('Client disconnected')), 5);
+            return new Response('{}', { status: 503 });
+        });
+        const error = await fetchWithFailover([upstream('a')], send, { ...options, retryPolicy, signal: client.signal }).catch(e => e);
+        expect(error.message).toBe('Client disconnected');
+        expect(send).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,210 @@
+/**
+ * 上游请求与故障转移
+ *
+ * 按路由给出的顺序依次尝试上游。连接错误、5xx、429 以及首字节前超时会切换到下一个上游；
+ * 其他 4xx 属于请求本身的问题，换上游也不会成功，直接返回给客户端。
+ * 配置了重试策略时，先按策略重试同一个上游，重试耗尽后再切换。
+ * 流式请求会先读到上游的第一个数据块再交给调用方，保证切换只发生在客户端收到任何字节之前。
+ * 客户端断开（options.signal 中止）时立即中断当前请求，不再重试或切换。
+ */
+
+import type { UpstreamTarget } from './routing';
+import { computeRetryDelay, NO_RETRY, RetryPolicy, sleep } from './retry';
+
+export interface UpstreamAttempt {
+    upstream: string;
+    /**
+     * HTTP 状态码，或 "timeout" / "error"（未拿到响应）。
+     */
+    outcome: number | 'timeout' | 'error';
+    durationMs: number;
+    error?: string;
+}
+
+export interface FailoverResult {
+    /**
+     * 最终响应：成功响应，或最后一个上游 / 不可重试的错误响应（body 未消费）。
+     */
+    response: Response;
+    upstream: UpstreamTarget;
+    attempts: UpstreamAttempt[];
+    /**
+     * 对同一上游的重试次数之和（不含切换上游）。
+     */
+    retries: number;
+}
+
+export interface FailoverOptions {
+    /**
+     * 拿到响应头（流式请求为第一个数据块）前的超时时间，0 表示不限制。
+     */
+    firstByteTimeoutMs: number;
+    /**
+     * 是否需要等到第一个数据块才算成功（流式请求）。
+     */
+    waitForFirstChunk: boolean;
+    /**
+     * 同一上游的重试策略，缺省不重试。
+     */
+    retryPolicy?: RetryPolicy;
+    /**
+     * send 抛出的错误能否重试同一上游，缺省都可以（首字节超时除外）；返回 false 时直接切换到下一个上游。
+     */
+    retryable?: (err: unknown) => boolean;
+    /**
+     * 客户端断开时中止，会同时中断正在进行的上游请求以及返回后的响应流。
+     */
+    signal?: AbortSignal;
+    /**
+     * 记录切换与重试，调用方传入带 request_id 的应用日志；缺省输出到 console。
+     */
+    warn?: (message: string) => void;
+}
+
+/**
+ * 所有上游都没有返回 HTTP 响应时抛出。
+ */
+export class UpstreamUnavailableError extends Error {
+    attempts: UpstreamAttempt[];
+    retries: number;
+
+    constructor(attempts: UpstreamAttempt[], retries = 0) {
+        super(`All upstreams failed: ${formatAttempts(attempts)}`);
+        this.name = 'UpstreamUnavailableError';
+        this.attempts = attempts;
+        this.retries = retries;
+    }
+}
+
+/**
+ * 该状态码是否应切换到下一个上游。
+ */
+export function isFailoverStatus(status: number): boolean {
+    return status === 429 || status >= 500;
+}
+
+/**
+ * 格式化尝试记录，用于响应头和日志，例如 `primary=503, backup=200`。
+ */
+export function formatAttempts(attempts: UpstreamAttempt[]): string {
+    return attempts.map(a => `${a.upstream}=${a.outcome}`).join(', ');
+}
+
+/**
+ * 读出第一个数据块后重新包装成 Response，后续数据块照常透传。
+ */
+async function peekFirstChunk(response: Response): Promise<Response> {
+    if (!response.body) return response;
+    const reader = response.body.getReader();
+    const first = await reader.read();
+    const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+            if (first.done) {
+                controller.close();
+            } else {
+                controller.enqueue(first.value);
+            }
+        },
+        async pull(controller) {
+            const { done, value } = await reader.read();
+            if (done) {
+                controller.close();
+            } else {
+                controller.enqueue(value);
+            }
+        },
+        cancel(reason) {
+            return reader.cancel(reason);
+        },
+    });
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+/**
+ * 按顺序请求上游，直到拿到可以交给客户端的响应。
+ * @param send 针对单个上游发起请求，必须把 signal 传给 fetch，超时和客户端断开都依赖它中断请求。
+ */
+export async function fetchWithFailover(
+    upstreams: UpstreamTarget[],
+    send: (upstream: UpstreamTarget, signal: AbortSignal) => Promise<Response>,
+    options: FailoverOptions
+): Promise<FailoverResult> {
+    const attempts: UpstreamAttempt[] = [];
+    const policy = options.retryPolicy || NO_RETRY;
+    const warn = options.warn || ((message: string) => console.warn(message));
+    let retries = 0;
+
+    for (let i = 0; i < upstreams.length; i++) {
+        const upstream = upstreams[i];
+        const isLast = i === upstreams.length - 1;
+
+        for (let attemptNumber = 1; attemptNumber <= policy.maxAttempts; attemptNumber++) {
+            options.signal?.throwIfAborted();
+            const canRetry = attemptNumber < policy.maxAttempts;
+            const controller = new AbortController();
+            const onClientAbort = () => controller.abort(options.signal!.reason);
+            options.signal?.addEventListener('abort', onClientAbort, { once: true });
+            let timedOut = false;
+            const timer = options.firstByteTimeoutMs > 0
+                ? setTimeout(() => {
+                    timedOut = true;
+                    controller.abort();
+                }, options.firstByteTimeoutMs)
+                : undefined;
+            const startedAt = Date.now();
+
+            let retryDelay: number | null = null;
+            try {
+                let response = await send(upstream, controller.signal);
+                if (response.ok && options.waitForFirstChunk) {
+                    response = await peekFirstChunk(response);
+                }
+                clearTimeout(timer);
+                attempts.push({ upstream: upstream.name, outcome: response.status, durationMs: Date.now() - startedAt });
+
+                if (!response.ok && canRetry && policy.retryStatuses.includes(response.status)) {
+                    retryDelay = computeRetryDelay(policy, attemptNumber, response.headers);
+                }
+                const shouldFailover = !isLast && isFailoverStatus(response.status);
+                if (response.ok || (retryDelay === null && !shouldFailover)) {
+                    return { response, upstream, attempts, retries };
+                }
+                const errorBody = await response.text().catch(() => '');
+                options.signal?.removeEventListener('abort', onClientAbort);
+                attempts[attempts.length - 1].error = errorBody.slice(0, 200);
+                if (retryDelay === null) {
+                    warn(`[failover] upstream ${upstream.name} returned ${response.status}, trying next upstream`);
+                    break;
+                }
+                warn(`[retry] upstream ${upstream.name} returned ${response.status}, retry ${attemptNumber}/${policy.maxAttempts - 1} in ${retryDelay}ms`);
+            } catch (err: any) {
+                clearTimeout(timer);
+                options.signal?.removeEventListener('abort', onClientAbort);
+                if (options.signal?.aborted) {
+                    throw err;
+                }
+                const attempt: UpstreamAttempt = {
+                    upstream: upstream.name,
+                    outcome: timedOut ? 'timeout' : 'error',
+                    durationMs: Date.now() - startedAt,
+                    error: timedOut ? `no response within ${options.firstByteTimeoutMs}ms` : (err?.cause?.message || err?.message || String(err)),
+                };
+                attempts.push(attempt);
+                // 连接错误可以重试同一上游；首字节超时已经等待很久，直接切换
+                if (!timedOut && canRetry && (options.retryable?.(err) ?? true)) {
+                    retryDelay = computeRetryDelay(policy, attemptNumber);
+                }
+                if (retryDelay === null) {
+                    warn(`[failover] upstream ${upstream.name} failed (${attempt.outcome}): ${attempt.error}${isLast ? '' : ', trying next upstream'}`);
+                    break;
+                }
+                warn(`[retry] upstream ${upstream.name} failed (${attempt.outcome}): ${attempt.error}, retry ${attemptNumber}/${policy.maxAttempts - 1} in ${retryDelay}ms`);
+            }
+
+            retries++;
+            await sleep(retryDelay, options.signal);
+        }
+    }
+
+    throw new UpstreamUnavailableError(attempts, retries);
+}
@@ -0,0 +1,120 @@
+/**
+ * 单元测试：用量账本
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { appendFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { aggregateUsage, createUsageLedger, loadModelPrices, priceFor, totalUsage, toUsageRecord, UsageRecord, usageToCsv } from './usage';
+
+function record(overrides: Partial<UsageRecord> = {}): UsageRecord {
+    return {
+        timestamp: '2026-03-01T10:00:00.000Z',
+        route: '/v1/messages',
+        key: 'vk_a',
+        owner: 'alice',
+        model: 'claude-sonnet-4',
+        status: 200,
+        stream: false,
+        input_tokens: 1000,
+        output_tokens: 100,
+        cache_read_input_tokens: 0,
+        cache_creation_input_tokens: 0,
+        ...overrides,
+    };
+}
+
+describe('toUsageRecord', () => {
+    it('由访问日志记录生成，未使用虚拟 key 时以指纹标识', () => {
+        const row = toUsageRecord({
+            request_id: 'req_1', method: 'POST', route: '/v1/messages', key_fingerprint: 'sha256:abc', model: 'm',
+            stream: true, status: 200, latency_ms: 12, usage: { input_tokens: 5, output_tokens: 7, cache_read_input_tokens: 3 },
+        }, new Date('2026-03-01T00:00:00Z'));
+        expect(row).toMatchObject({ key: 'sha256:abc', input_tokens: 5, output_tokens: 7, cache_read_input_tokens: 3, cache_creation_input_tokens: 0, latency_ms: 12 });
+    });
+});
+
+describe('aggregateUsage', () => {
+    const prices = { 'claude-sonnet-*': { input: 3, output: 15, cache_read: 0.3 } };
+
+    it('按维度汇总并估算费用', () => {
+        const rows = aggregateUsage([
+            record(),
+            record({ cache_read_input_tokens: 10000 }),
+            record({ key: 'vk_b', owner: 'bob', timestamp: '2026-03-02T01:00:00.000Z', status: 429, input_tokens: 0, output_tokens: 0 }),
+        ], ['key', 'day'], prices);
+        expect(rows).toEqual([
+            {
+                key: 'vk_a', day: '2026-03-01', requests: 2, errors: 0,
+                input_tokens: 2000, output_tokens: 200, cache_read_input_tokens: 10000, cache_creation_input_tokens: 0,
+                cost_usd: 0.012,
+            },
+            {
+                key: 'vk_b', day: '2026-03-02', requests: 1, errors: 1,
+                input_tokens: 0, output_tokens: 0, cache_read_input_tokens: 0, cache_creation_input_tokens: 0,
+                cost_usd: 0,
+            },
+        ]);
+    });
+
+    it('有模型没有价格时费用为 null', () => {
+        const [row] = aggregateUsage([record(), record({ model: 'gpt-4o' })], ['owner'], prices);
+        expect(row.cost_usd).toBeNull();
+        expect(totalUsage([])).toMatchObject({ requests: 0, cost_usd: 0 });
+    });
+});
+
+describe('priceFor', () => {
+    it('精确匹配优先于通配', () => {
+        const prices = { 'claude-*': { input: 1, output: 1 }, 'claude-opus-4': { input: 15, output: 75 } };
+        expect(priceFor(prices, 'claude-opus-4')!.input).toBe(15);
+        expect(priceFor(prices, 'claude-haiku')!.input).toBe(1);
+        expect(priceFor(prices, 'gpt-4o')).toBeUndefined();
+    });
+});
+
+describe('loadModelPrices', () => {
+    it('校验价格', () => {
+        expect(loadModelPrices({ MODEL_PRICES: '{"m":{"input":1,"output":2}}' })).toEqual({ m: { input: 1, output: 2 } });
+        expect(() => loadModelPrices({ MODEL_PRICES: '{"m":{"input":1}}' })).toThrow(/"m"\.output/);
+        expect(loadModelPrices({})).toEqual({});
+    });
+});
+
+describe('usageToCsv', () => {
+    it('输出表头和转义后的字段', () => {
+        const rows = aggregateUsage([record({ owner: 'team "a", inc' })], ['owner']);
+        expect(usageToCsv(rows, ['owner'])).toBe(
+            'owner,requests,errors,input_tokens,output_tokens,cache_read_input_tokens,cache_creation_input_tokens,cost_usd\n'
+            + '"team ""a"", inc",1,0,1000,100,0,0,\n'
+        );
+    });
+
+    it('可能被当作公式的文本加 \' 前缀', () => {
+        const rows = aggregateUsage([record({ owner: '=HYPERLINK("http://x")' }), record({ owner: '@SUM(A1)', model: 'm' })], ['owner']);
+        const csv = usageToCsv(rows, ['owner']);
+        expect(csv).toContain('\n"\'=HYPERLINK(""http://x"")",1,');
+        expect(csv).toContain('\n\'@SUM(A1),1,');
+    });
+});
+
+describe('createUsageLedger', () => {
+    let dir: string;
+
+    afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+    it('按天写入，按日期范围读取，跳过不完整的行', async () => {
+        dir = mkdtempSync(join(tmpdir(), 'usage-'));
+        const ledger = createUsageLedger(join(dir, 'ledger'));
+        await ledger.append(record({ timestamp: '2026-03-01T23:59:59.000Z' }));
+        await ledger.append(record({ timestamp: '2026-03-02T00:00:01.000Z' }));
+        await ledger.append(record({ timestamp: '2026-03-05T00:00:00.000Z' }));
+        appendFileSync(join(dir, 'ledger', 'usage-2026-03-02.jsonl'), '{"timestamp":');
+
+        expect((await ledger.read('2026-03-01', '2026-03-02')).map(item => item.timestamp)).toEqual([
+            '2026-03-01T23:59:59.000Z',
+            '2026-03-02T00:00:01.000Z',
+        ]);
+        expect(await ledger.read('2026-03-03', '2026-03-04')).toEqual([]);
+    });
+});
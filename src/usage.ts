@@ -0,0 +1,271 @@
+/**
+ * 用量账本
+ *
+ * 每个 /v1/messages、/v1/chat/completions 请求（以及批次中的每个请求）结束后追加一行记录到 USAGE_LEDGER_DIR，
+ * 按天（UTC）分文件：usage-YYYY-MM-DD.jsonl。usage 与访问日志一致，来自响应转换和流式 message_delta 中的 usage。
+ * /v1/usage 按 key、模型、天等维度汇总，按 MODEL_PRICES 估算费用，可导出 CSV。
+ */
+
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { AccessLogRecord } from './logger';
+import { matchesModel } from './routing';
+
+export interface UsageRecord {
+    timestamp: string;
+    request_id?: string;
+    route: string;
+    /**
+     * 虚拟 key 的 id，未使用虚拟 key 时为 key 指纹。
+     */
+    key: string;
+    owner?: string;
+    model?: string;
+    upstream?: string;
+    upstream_model?: string;
+    status?: number;
+    stream: boolean;
+    cancelled?: boolean;
+    latency_ms?: number;
+    input_tokens: number;
+    output_tokens: number;
+    cache_read_input_tokens: number;
+    cache_creation_input_tokens: number;
+}
+
+/**
+ * 每百万 token 的价格（美元）。
+ */
+export interface ModelPrice {
+    input: number;
+    output: number;
+    cache_read?: number;
+    cache_creation?: number;
+}
+
+export type UsageGroupBy = 'key' | 'owner' | 'model' | 'upstream' | 'day';
+
+export const USAGE_GROUP_BY: readonly UsageGroupBy[] = ['key', 'owner', 'model', 'upstream', 'day'];
+
+export interface UsageRow {
+    key?: string;
+    owner?: string;
+    model?: string;
+    upstream?: string;
+    day?: string;
+    requests: number;
+    /**
+     * 状态码不是 2xx 的请求数。
+     */
+    errors: number;
+    input_tokens: number;
+    output_tokens: number;
+    cache_read_input_tokens: number;
+    cache_creation_input_tokens: number;
+    /**
+     * 估算费用（美元），有请求的模型没有配置价格时为 null。
+     */
+    cost_usd: number | null;
+}
+
+/**
+ * 由访问日志记录生成账本记录。
+ */
+export function toUsageRecord(access: AccessLogRecord, timestamp = new Date()): UsageRecord {
+    const usage = access.usage;
+    return {
+        timestamp: timestamp.toISOString(),
+        request_id: access.request_id,
+        route: access.route,
+        key: access.key_id || access.key_fingerprint || 'anonymous',
+        owner: access.key_owner,
+        model: access.model,
+        upstream: access.upstream,
+        upstream_model: access.upstream_model,
+        status: access.status,
+        stream: access.stream,
+        cancelled: access.cancelled,
+        latency_ms: access.latency_ms,
+        input_tokens: usage?.input_tokens || 0,
+        output_tokens: usage?.output_tokens || 0,
+        cache_read_input_tokens: usage?.cache_read_input_tokens || 0,
+        cache_creation_input_tokens: usage?.cache_creation_input_tokens || 0,
+    };
+}
+
+function dayOf(timestamp: string | number | Date): string {
+    return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * 按天分文件的 JSONL 账本。
+ */
+export function createUsageLedger(dir: string) {
+    let ready: Promise<unknown> | null = null;
+    const fileOf = (day: string) => join(dir, `usage-${day}.jsonl`);
+
+    return {
+        dir,
+
+        async append(record: UsageRecord): Promise<void> {
+            ready ??= mkdir(dir, { recursive: true, mode: 0o700 });
+            await ready;
+            await appendFile(fileOf(dayOf(record.timestamp)), JSON.stringify(record) + '\n');
+        },
+
+        /**
+         * 读取 [start, end] 两天之间（含，UTC 日期 YYYY-MM-DD）的记录，缺少的文件跳过。
+         */
+        async read(start: string, end: string): Promise<UsageRecord[]> {
+            const records: UsageRecord[] = [];
+            for (let day = Date.parse(start); day <= Date.parse(end); day += 86_400_000) {
+                let content: string;
+                try {
+                    content = await readFile(fileOf(dayOf(day)), 'utf8');
+                } catch (err: any) {
+                    if (err.code === 'ENOENT') continue;
+                    throw err;
+                }
+                for (const line of content.split('\n')) {
+                    // 进程中断时最后一行可能不完整
+                    if (!line.trim()) continue;
+                    try {
+                        records.push(JSON.parse(line));
+                    } catch {
+                        continue;
+                    }
+                }
+            }
+            return records;
+        },
+    };
+}
+
+export type UsageLedger = ReturnType<typeof createUsageLedger>;
+
+/**
+ * 从 MODEL_PRICES_FILE 指向的 JSON 文件或 MODEL_PRICES（JSON 字符串）读取模型价格：
+ * `{ "claude-sonnet-*": { "input": 3, "output": 15, "cache_read": 0.3, "cache_creation": 3.75 } }`。
+ */
+export function loadModelPrices(source: NodeJS.ProcessEnv = process.env): Record<string, ModelPrice> {
+    const origin = source.MODEL_PRICES_FILE || 'MODEL_PRICES';
+    const raw = source.MODEL_PRICES_FILE ? readFileSync(source.MODEL_PRICES_FILE, 'utf8') : source.MODEL_PRICES;
+    if (!raw || !raw.trim()) {
+        return {};
+    }
+    let parsed: any;
+    try {
+        parsed = JSON.parse(raw);
+    } catch (err: any) {
+        throw new Error(`Invalid model prices in ${origin}: ${err.message}`);
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error(`Invalid model prices in ${origin}: expected { "<model>": { "input": ..., "output": ... } }`);
+    }
+    for (const [model, price] of Object.entries<any>(parsed)) {
+        for (const field of ['input', 'output', 'cache_read', 'cache_creation']) {
+            const value = price?.[field];
+            if ((field === 'input' || field === 'output' || value !== undefined) && (typeof value !== 'number' || value < 0)) {
+                throw new Error(`Invalid model prices in ${origin}: "${model}".${field} must be a non-negative number`);
+            }
+        }
+    }
+    return parsed;
+}
+
+/**
+ * 模型价格：精确匹配优先，其次按声明顺序匹配通配模式。
+ */
+export function priceFor(prices: Record<string, ModelPrice>, model: string | undefined): ModelPrice | undefined {
+    if (!model) return undefined;
+    if (Object.prototype.hasOwnProperty.call(prices, model)) return prices[model];
+    const pattern = Object.keys(prices).find(key => key.includes('*') && matchesModel(key, model));
+    return pattern ? prices[pattern] : undefined;
+}
+
+/**
+ * 单条记录的估算费用；没有缓存价格时缓存读取和写入分别按输入价格计。
+ */
+export function costOf(record: UsageRecord, price: ModelPrice): number {
+    return (
+        record.input_tokens * price.input
+        + record.output_tokens * price.output
+        + record.cache_read_input_tokens * (price.cache_read ?? price.input)
+        + record.cache_creation_input_tokens * (price.cache_creation ?? price.input)
+    ) / 1_000_000;
+}
+
+/**
+ * 按维度汇总，行按维度值排序。
+ */
+export function aggregateUsage(records: UsageRecord[], groupBy: UsageGroupBy[], prices: Record<string, ModelPrice> = {}): UsageRow[] {
+    const rows = new Map<string, UsageRow>();
+    for (const record of records) {
+        const dimensions: Partial<Record<UsageGroupBy, string>> = {};
+        for (const field of groupBy) {
+            dimensions[field] = field === 'day' ? dayOf(record.timestamp) : (record[field] ?? '');
+        }
+        const id = JSON.stringify(groupBy.map(field => dimensions[field]));
+        let row = rows.get(id);
+        if (!row) {
+            row = {
+                ...dimensions,
+                requests: 0,
+                errors: 0,
+                input_tokens: 0,
+                output_tokens: 0,
+                cache_read_input_tokens: 0,
+                cache_creation_input_tokens: 0,
+                cost_usd: 0,
+            };
+            rows.set(id, row);
+        }
+        row.requests++;
+        if (!record.status || record.status < 200 || record.status >= 300) row.errors++;
+        row.input_tokens += record.input_tokens;
+        row.output_tokens += record.output_tokens;
+        row.cache_read_input_tokens += record.cache_read_input_tokens;
+        row.cache_creation_input_tokens += record.cache_creation_input_tokens;
+        const price = priceFor(prices, record.model);
+        if (!price) {
+            row.cost_usd = null;
+        } else if (row.cost_usd !== null) {
+            row.cost_usd += costOf(record, price);
+        }
+    }
+    return [...rows.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([, row]) => (row.cost_usd === null ? row : { ...row, cost_usd: Math.round(row.cost_usd * 1e6) / 1e6 }));
+}
+
+/**
+ * 所有记录的合计，没有记录时各项为 0。
+ */
+export function totalUsage(records: UsageRecord[], prices: Record<string, ModelPrice> = {}): UsageRow {
+    return aggregateUsage(records, [], prices)[0] ?? {
+        requests: 0,
+        errors: 0,
+        input_tokens: 0,
+        output_tokens: 0,
+        cache_read_input_tokens: 0,
+        cache_creation_input_tokens: 0,
+        cost_usd: 0,
+    };
+}
+
+function csvField(value: unknown): string {
+    let text = value === null || value === undefined ? '' : String(value);
+    // 以 = + - @ 或制表符开头的文本在表格软件中会被当作公式执行，加 ' 前缀作为纯文本
+    if (typeof value === 'string' && /^[=+\-@\t]/.test(text)) text = `'${text}`;
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 汇总结果导出为 CSV，列为维度加各项计数。
+ */
+export function usageToCsv(rows: UsageRow[], groupBy: UsageGroupBy[]): string {
+    const columns = [...groupBy, 'requests', 'errors', 'input_tokens', 'output_tokens', 'cache_read_input_tokens', 'cache_creation_input_tokens', 'cost_usd'] as (keyof UsageRow)[];
+    const lines = [columns.join(','), ...rows.map(row => columns.map(column => csvField(row[column])).join(','))];
+    return lines.join('\n') + '\n';
+}
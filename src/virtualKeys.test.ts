@@ -0,0 +1,84 @@
+/**
+ * 单元测试：虚拟 API key
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createVirtualKeyStore, hashVirtualKey, requestedModels, VirtualKeyError } from './virtualKeys';
+
+describe('createVirtualKeyStore', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'vkeys-'));
+        file = join(dir, 'keys.json');
+    });
+    afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+    it('签发的 key 只保存哈希，可以通过校验', () => {
+        const store = createVirtualKeyStore(file);
+        const { key, record } = store.create({ owner: 'alice', models: ['claude-*'], expiresAt: '2030-01-01' });
+        expect(key).toMatch(/^sk-proxy-/);
+        expect(readFileSync(file, 'utf8')).not.toContain(key);
+        expect(record).toMatchObject({ owner: 'alice', hash: hashVirtualKey(key), expiresAt: '2030-01-01T00:00:00.000Z' });
+        expect(store.authenticate(key).id).toBe(record.id);
+    });
+
+    it('拒绝未知、已吊销和已过期的 key', () => {
+        const store = createVirtualKeyStore(file);
+        const { key, record } = store.create({ owner: 'alice', expiresAt: '2030-01-01' });
+        expect(() => store.authenticate('sk-unknown')).toThrow(VirtualKeyError);
+        expect(() => store.authenticate(key, Date.UTC(2030, 0, 2))).toThrow(/expired/);
+        expect(store.authenticateId(record.id).owner).toBe('alice');
+        expect(() => store.authenticateId('vk_unknown')).toThrow(VirtualKeyError);
+
+        store.revoke(record.id);
+        expect(() => store.authenticateId(record.id)).toThrow(VirtualKeyError);
+        try {
+            store.authenticate(key);
+            expect.unreachable();
+        } catch (err: any) {
+            expect(err).toBeInstanceOf(VirtualKeyError);
+            expect(err).toMatchObject({ status: 401, type: 'authentication_error' });
+        }
+    });
+
+    it('按允许的模型检查，通配符与路由表一致', () => {
+        const store = createVirtualKeyStore(file);
+        const { key } = store.create({ owner: 'bob', models: ['claude-*', 'gpt-4o'] });
+        const record = store.authenticate(key);
+        expect(() => store.checkModel(record, 'claude-sonnet-4-5')).not.toThrow();
+        expect(() => store.checkModel(record, 'gpt-4o')).not.toThrow();
+        expect(() => store.checkModel(record, 'gpt-4o-mini')).toThrow(/not allowed to use model "gpt-4o-mini"/);
+    });
+
+    it('映射上游凭据，缺省使用 OPENAI_API_KEY', () => {
+        const store = createVirtualKeyStore(file, { OPENAI_API_KEY: 'sk-default', TEAM_KEY: 'sk-team' });
+        const plain = store.authenticate(store.create({ owner: 'a' }).key);
+        const fromEnv = store.authenticate(store.create({ owner: 'b', upstreamApiKey: 'env:TEAM_KEY' }).key);
+        const missing = store.authenticate(store.create({ owner: 'c', upstreamApiKey: 'env:MISSING' }).key);
+        expect(store.upstreamApiKey(plain)).toBe('sk-default');
+        expect(store.upstreamApiKey(fromEnv)).toBe('sk-team');
+        expect(() => store.upstreamApiKey(missing)).toThrow(/MISSING/);
+    });
+
+    it('文件被外部修改后重新读取', () => {
+        const store = createVirtualKeyStore(file);
+        expect(store.list()).toEqual([]);
+        writeFileSync(file, JSON.stringify({ keys: [{ id: 'vk_1', hash: hashVirtualKey('sk-manual'), owner: 'ops', createdAt: '2026-01-01T00:00:00.000Z' }] }));
+        expect(store.authenticate('sk-manual').owner).toBe('ops');
+
+        writeFileSync(file, '{"keys":[{"id":"vk_2"}]}');
+        expect(() => store.list()).toThrow(/keys\[0\] requires id, hash and owner/);
+    });
+});
+
+describe('requestedModels', () => {
+    it('取单个请求或批次中的模型', () => {
+        expect(requestedModels({ model: 'm' })).toEqual(['m']);
+        expect(requestedModels({ requests: [{ params: { model: 'a' } }, { params: {} }, { params: { model: 'b' } }] })).toEqual(['a', 'b']);
+        expect(requestedModels(undefined)).toEqual([]);
+    });
+});
@@ -0,0 +1,272 @@
+/**
+ * 代理签发的虚拟 API key
+ *
+ * 设置 VIRTUAL_KEYS_FILE 后，客户端必须使用代理签发的 key 访问 /v1 接口，上游请求使用 key 映射的上游凭据，
+ * 真实的上游 key 不需要分发给开发者。文件中只保存 key 的 sha256，明文只在签发时输出一次。
+ * 文件被修改（签发、吊销）后在下一个请求时自动重新读取，不需要重启。
+ *
+ * 管理命令：npm run keys -- create --owner alice [--models 'claude-*'] [--expires 2026-12-31] [--upstream-key env:QINIU_KEY]
+ *          npm run keys -- list
+ *          npm run keys -- revoke <id>
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import dotenv from 'dotenv';
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { matchesModel } from './routing';
+
+export interface VirtualKey {
+    id: string;
+    /**
+     * key 的 sha256（`sha256:<hex>`），不保存明文。
+     */
+    hash: string;
+    owner: string;
+    /**
+     * 允许使用的模型（精确模型名或通配模式，`*` 匹配任意字符），未配置时不限制。
+     */
+    models?: string[];
+    /**
+     * 过期时间（ISO 8601），未配置时不过期。
+     */
+    expiresAt?: string;
+    /**
+     * 上游凭据：`env:VAR_NAME`（读取环境变量）或直接填写 key，未配置时使用 OPENAI_API_KEY。
+     * 路由表中为上游单独配置的 apiKey 优先。
+     */
+    upstreamApiKey?: string;
+    createdAt: string;
+    revokedAt?: string;
+}
+
+/**
+ * 虚拟 key 校验失败，status / type 对应 Anthropic 错误。
+ */
+export class VirtualKeyError extends Error {
+    constructor(readonly status: 401 | 403, readonly type: 'authentication_error' | 'permission_error', message: string) {
+        super(message);
+        this.name = 'VirtualKeyError';
+    }
+}
+
+export function hashVirtualKey(key: string): string {
+    return `sha256:${createHash('sha256').update(key).digest('hex')}`;
+}
+
+/**
+ * 生成新的 key 明文和 id。
+ */
+export function generateVirtualKey(): { key: string; id: string } {
+    return { key: `sk-proxy-${randomBytes(24).toString('base64url')}`, id: `vk_${randomBytes(6).toString('hex')}` };
+}
+
+/**
+ * 请求体中涉及的模型：单个请求的 model，或批次中每个请求的 params.model。
+ */
+export function requestedModels(body: any): string[] {
+    if (typeof body?.model === 'string') return [body.model];
+    if (Array.isArray(body?.requests)) {
+        return body.requests.map((item: any) => item?.params?.model).filter((model: any) => typeof model === 'string');
+    }
+    return [];
+}
+
+function readKeys(file: string): VirtualKey[] {
+    if (!existsSync(file)) return [];
+    let parsed: any;
+    try {
+        parsed = JSON.parse(readFileSync(file, 'utf8'));
+    } catch (err: any) {
+        throw new Error(`Invalid virtual keys in ${file}: ${err.message}`);
+    }
+    if (!Array.isArray(parsed?.keys)) {
+        throw new Error(`Invalid virtual keys in ${file}: expected { "keys": [...] }`);
+    }
+    parsed.keys.forEach((key: any, i: number) => {
+        if (typeof key?.id !== 'string' || typeof key.hash !== 'string' || typeof key.owner !== 'string') {
+            throw new Error(`Invalid virtual keys in ${file}: keys[${i}] requires id, hash and owner`);
+        }
+        if (key.expiresAt !== undefined && Number.isNaN(Date.parse(key.expiresAt))) {
+            throw new Error(`Invalid virtual keys in ${file}: keys[${i}].expiresAt is not a valid date`);
+        }
+    });
+    return parsed.keys;
+}
+
+/**
+ * 未知、已吊销或已过期时抛出 VirtualKeyError。
+ */
+function checkValid(key: VirtualKey | undefined, now: number): VirtualKey {
+    if (!key || key.revokedAt) {
+        throw new VirtualKeyError(401, 'authentication_error', 'invalid x-api-key');
+    }
+    if (key.expiresAt && Date.parse(key.expiresAt) <= now) {
+        throw new VirtualKeyError(401, 'authentication_error', `API key ${key.id} expired at ${key.expiresAt}`);
+    }
+    return key;
+}
+
+/**
+ * 虚拟 key 存储，读取时按文件修改时间和大小缓存。
+ */
+export function createVirtualKeyStore(file: string, source: NodeJS.ProcessEnv = process.env) {
+    let cached: { version: string; keys: VirtualKey[]; byHash: Map<string, VirtualKey> } | null = null;
+
+    const load = () => {
+        const stat = existsSync(file) ? statSync(file) : null;
+        const version = stat ? `${stat.mtimeMs}:${stat.size}` : '';
+        if (!cached || cached.version !== version) {
+            const keys = readKeys(file);
+            cached = { version, keys, byHash: new Map(keys.map(key => [key.hash, key])) };
+        }
+        return cached;
+    };
+
+    const save = (keys: VirtualKey[]) => {
+        mkdirSync(dirname(file), { recursive: true });
+        const tmp = `${file}.tmp`;
+        writeFileSync(tmp, JSON.stringify({ keys }, null, 2) + '\n', { mode: 0o600 });
+        renameSync(tmp, file);
+        cached = null;
+    };
+
+    return {
+        file,
+
+        /**
+         * 校验客户端 key，返回对应的虚拟 key；未知、已吊销或已过期时抛出 VirtualKeyError。
+         */
+        authenticate(apiKey: string, now = Date.now()): VirtualKey {
+            return checkValid(load().byHash.get(hashVirtualKey(apiKey)), now);
+        },
+
+        /**
+         * 按 id 取虚拟 key 并同样校验，用于执行时只保存了 key id 的批次请求。
+         */
+        authenticateId(id: string, now = Date.now()): VirtualKey {
+            return checkValid(load().keys.find(key => key.id === id), now);
+        },
+
+        /**
+         * 检查 key 是否允许使用该模型，不允许时抛出 VirtualKeyError（permission_error）。
+         */
+        checkModel(key: VirtualKey, model: string) {
+            if (key.models && !key.models.some(pattern => matchesModel(pattern, model))) {
+                throw new VirtualKeyError(403, 'permission_error', `API key ${key.id} is not allowed to use model "${model}"`);
+            }
+        },
+
+        /**
+         * key 映射的上游凭据。
+         */
+        upstreamApiKey(key: VirtualKey): string {
+            const spec = key.upstreamApiKey;
+            if (!spec) return source.OPENAI_API_KEY || '';
+            if (spec.startsWith('env:')) {
+                const value = source[spec.substring(4)];
+                if (!value) {
+                    throw new Error(`Environment variable ${spec.substring(4)} required by virtual key ${key.id} is not set`);
+                }
+                return value;
+            }
+            return spec;
+        },
+
+        list(): VirtualKey[] {
+            return load().keys;
+        },
+
+        /**
+         * 签发新 key，返回只在此时可见的明文。
+         */
+        create(options: { owner: string; models?: string[]; expiresAt?: string; upstreamApiKey?: string }, now = new Date()): { key: string; record: VirtualKey } {
+            if (options.expiresAt !== undefined && Number.isNaN(Date.parse(options.expiresAt))) {
+                throw new Error(`Invalid expiry "${options.expiresAt}"`);
+            }
+            const { key, id } = generateVirtualKey();
+            const record: VirtualKey = {
+                id,
+                hash: hashVirtualKey(key),
+                owner: options.owner,
+                ...(options.models?.length ? { models: options.models } : {}),
+                ...(options.expiresAt ? { expiresAt: new Date(options.expiresAt).toISOString() } : {}),
+                ...(options.upstreamApiKey ? { upstreamApiKey: options.upstreamApiKey } : {}),
+                createdAt: now.toISOString(),
+            };
+            save([...load().keys, record]);
+            return { key, record };
+        },
+
+        revoke(id: string, now = new Date()): VirtualKey {
+            const keys = load().keys;
+            const key = keys.find(item => item.id === id);
+            if (!key) {
+                throw new Error(`Virtual key ${id} not found`);
+            }
+            const revoked = { ...key, revokedAt: key.revokedAt || now.toISOString() };
+            save(keys.map(item => (item.id === id ? revoked : item)));
+            return revoked;
+        },
+    };
+}
+
+export type VirtualKeyStore = ReturnType<typeof createVirtualKeyStore>;
+
+function parseArgs(args: string[]): { positional: string[]; flags: Record<string, string> } {
+    const positional: string[] = [];
+    const flags: Record<string, string> = {};
+    for (let i = 0; i < args.length; i++) {
+        if (args[i].startsWith('--')) {
+            flags[args[i].substring(2)] = args[i + 1] ?? '';
+            i++;
+        } else {
+            positional.push(args[i]);
+        }
+    }
+    return { positional, flags };
+}
+
+function main(args: string[]) {
+    dotenv.config();
+    const { positional: [command, id], flags } = parseArgs(args);
+    const file = flags.file || process.env.VIRTUAL_KEYS_FILE;
+    if (!file) {
+        throw new Error('Set VIRTUAL_KEYS_FILE or pass --file');
+    }
+    const store = createVirtualKeyStore(file);
+    switch (command) {
+        case 'create': {
+            if (!flags.owner) throw new Error('--owner is required');
+            const { key, record } = store.create({
+                owner: flags.owner,
+                models: flags.models ? flags.models.split(',').map(model => model.trim()).filter(Boolean) : undefined,
+                expiresAt: flags.expires,
+                upstreamApiKey: flags['upstream-key'],
+            });
+            console.log(`Created ${record.id} for ${record.owner}. This key is shown only once:\n${key}`);
+            break;
+        }
+        case 'list':
+            for (const key of store.list()) {
+                const status = key.revokedAt ? 'revoked' : key.expiresAt && Date.parse(key.expiresAt) <= Date.now() ? 'expired' : 'active';
+                console.log([key.id, key.owner, status, key.models?.join(',') || '*', key.expiresAt || '-'].join('\t'));
+            }
+            break;
+        case 'revoke':
+            if (!id) throw new Error('Usage: npm run keys -- revoke <id>');
+            console.log(`Revoked ${store.revoke(id).id}`);
+            break;
+        default:
+            throw new Error('Usage: npm run keys -- <create|list|revoke> [options]');
+    }
+}
+
+if (require.main === module) {
+    try {
+        main(process.argv.slice(2));
+    } catch (err: any) {
+        console.error(err.message);
+        process.exit(1);
+    }
+}